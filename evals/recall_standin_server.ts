@@ -0,0 +1,269 @@
+/**
+ * Stand-in KOI server for the recall eval.
+ *
+ * Serves the endpoints `recall` touches from a fixture corpus
+ * (evals/recall_gold_set.json → corpus), so the eval runs offline and
+ * deterministically:
+ *
+ *   GET  /health                    → healthy / connected
+ *   GET  /knowledge/unified-search  → token-overlap ranking over sessions,
+ *                                     documents and facts (hybrid leg)
+ *   POST /knowledge/recall-walk     → facts seeded by token overlap, expanded
+ *                                     up to max_hops over shared subject/object
+ *                                     entities; session_ids in walk order
+ *   POST /search-sessions           → one session's record (hydration)
+ *   POST /entity/resolve            → exact label / alias match over the
+ *                                     corpus entities (query expansion)
+ *
+ * Scoring is deliberately simple (shared non-stopword tokens, length
+ * normalized): the eval measures routing and leg wiring, not the ranking
+ * quality of the real substrate.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface StandinSession {
+  session_id: string;
+  summary: string;
+  first_prompt: string;
+  timestamp: string;
+  cwd?: string;
+  text: string;
+}
+
+export interface StandinFact {
+  id: string;
+  subject: string;
+  predicate: string;
+  object: string;
+  valid_from: string | null;
+  valid_to: string | null;
+  session_id?: string;
+}
+
+export interface StandinDocument {
+  uri: string;
+  source: string;
+  text: string;
+}
+
+export interface StandinEntity {
+  uri: string;
+  label: string;
+  type?: string;
+  aliases?: string[];
+}
+
+export interface StandinCorpus {
+  sessions: StandinSession[];
+  facts: StandinFact[];
+  documents: StandinDocument[];
+  entities?: StandinEntity[];
+}
+
+export interface StandinServer {
+  url: string;
+  close: () => Promise<void>;
+}
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'what', 'when', 'who', 'did', 'does', 'how',
+  'from', 'into', 'that', 'this', 'was', 'were', 'has', 'have', 'had', 'its',
+  'our', 'got', 'since', 'still', 'are', 'is', 'of', 'to', 'in', 'on', 'a',
+]);
+
+function tokens(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9-]*/g) || [])
+    .map((t) => t.replace(/'s$/, ''))
+    .filter((t) => t.length >= 2 && !STOPWORDS.has(t));
+}
+
+function overlap(queryTokens: Set<string>, text: string): number {
+  const doc = tokens(text);
+  if (doc.length === 0) return 0;
+  let shared = 0;
+  for (const t of new Set(doc)) if (queryTokens.has(t)) shared++;
+  return shared / Math.sqrt(doc.length);
+}
+
+function factText(f: StandinFact): string {
+  return `${f.subject} ${f.predicate} ${f.object}`;
+}
+
+function unifiedSearch(corpus: StandinCorpus, query: string, limit: number) {
+  const q = new Set(tokens(query));
+  const scored: Array<Record<string, unknown> & { score: number }> = [];
+  for (const s of corpus.sessions) {
+    scored.push({
+      source: 'session',
+      session_id: s.session_id,
+      text: `${s.summary}\n${s.text}`,
+      score: overlap(q, `${s.summary} ${s.first_prompt} ${s.text}`),
+    });
+  }
+  for (const d of corpus.documents) {
+    scored.push({ source: d.source, uri: d.uri, text: d.text, score: overlap(q, d.text) });
+  }
+  for (const f of corpus.facts) {
+    scored.push({
+      source: 'fact',
+      uri: `fact:${f.id}`,
+      text: factText(f),
+      score: overlap(q, factText(f)),
+      metadata: { valid_from: f.valid_from, valid_to: f.valid_to },
+    });
+  }
+  const results = scored
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+  return { query, results, count: results.length };
+}
+
+function resolveEntity(corpus: StandinCorpus, label: string) {
+  const l = label.trim().toLowerCase();
+  const e = (corpus.entities || []).find(
+    (x) => x.label.toLowerCase() === l || (x.aliases || []).some((a) => a.toLowerCase() === l),
+  );
+  const candidates = e
+    ? [{ uri: e.uri, label: e.label, type: e.type, aliases: e.aliases || [], confidence: e.label.toLowerCase() === l ? 1 : 0.95 }]
+    : [];
+  return { label, candidates };
+}
+
+function recallWalk(
+  corpus: StandinCorpus,
+  query: string,
+  limit: number,
+  maxHops: number,
+  seedUris: string[] = [],
+) {
+  const q = new Set(tokens(query));
+  // Seed entities start the walk at score 1 on any fact naming them.
+  const seedLabels = new Set(
+    (corpus.entities || []).filter((e) => seedUris.includes(e.uri)).map((e) => e.label.toLowerCase()),
+  );
+  const seeds = corpus.facts
+    .map((f) => ({
+      f,
+      score:
+        seedLabels.has(f.subject.toLowerCase()) || seedLabels.has(f.object.toLowerCase())
+          ? 1
+          : overlap(q, factText(f)),
+    }))
+    .filter((x) => x.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const visited = new Map<string, { f: StandinFact; score: number; hop: number }>();
+  for (const s of seeds) visited.set(s.f.id, { ...s, hop: 0 });
+  let frontier = seeds.map((s) => s.f);
+  for (let hop = 1; hop <= maxHops && frontier.length > 0; hop++) {
+    const entities = new Set(frontier.flatMap((f) => [f.subject.toLowerCase(), f.object.toLowerCase()]));
+    const next: StandinFact[] = [];
+    for (const f of corpus.facts) {
+      if (visited.has(f.id)) continue;
+      if (entities.has(f.subject.toLowerCase()) || entities.has(f.object.toLowerCase())) {
+        visited.set(f.id, { f, score: 0.1 / hop, hop });
+        next.push(f);
+      }
+    }
+    frontier = next;
+  }
+
+  const walked = [...visited.values()].sort((a, b) => a.hop - b.hop || b.score - a.score);
+  const sessionIds: string[] = [];
+  for (const w of walked) {
+    if (w.f.session_id && !sessionIds.includes(w.f.session_id)) sessionIds.push(w.f.session_id);
+  }
+  return {
+    results: walked.slice(0, limit).map((w) => ({
+      content: factText(w.f),
+      score: w.score,
+      metadata: {
+        predicate: w.f.predicate,
+        valid_from: w.f.valid_from,
+        valid_to: w.f.valid_to,
+        session_id: w.f.session_id,
+        episode_id: w.f.session_id,
+      },
+    })),
+    session_ids: sessionIds.slice(0, limit),
+    walk_path: walked.map((w) => ({ fact: w.f.id, hop: w.hop })),
+    latency_ms: { total: 0 },
+  };
+}
+
+function readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve) => {
+    let body = '';
+    req.on('data', (c) => (body += c));
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+/** Start the stand-in on an ephemeral localhost port. */
+export function startStandinServer(corpus: StandinCorpus): Promise<StandinServer> {
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const send = (status: number, data: unknown) => {
+      res.statusCode = status;
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(data));
+    };
+
+    if (url.pathname === '/health') {
+      return send(200, { status: 'healthy', database: 'connected' });
+    }
+    if (url.pathname === '/knowledge/unified-search') {
+      const limit = Number(url.searchParams.get('limit') || 10);
+      return send(200, unifiedSearch(corpus, url.searchParams.get('query') || '', limit));
+    }
+    if (url.pathname === '/knowledge/recall-walk' && req.method === 'POST') {
+      const body = await readBody(req);
+      return send(
+        200,
+        recallWalk(
+          corpus,
+          String(body.query || ''),
+          Number(body.limit || 10),
+          Number(body.max_hops ?? 3),
+          Array.isArray(body.seed_uris) ? (body.seed_uris as string[]) : [],
+        ),
+      );
+    }
+    if (url.pathname === '/entity/resolve' && req.method === 'POST') {
+      const body = await readBody(req);
+      return send(200, resolveEntity(corpus, String(body.label || '')));
+    }
+    if (url.pathname === '/search-sessions' && req.method === 'POST') {
+      const body = await readBody(req);
+      const s = corpus.sessions.find((x) => x.session_id === body.session_id);
+      const results = s
+        ? [{ ...s, session_rid: `orn:claude-session:${s.session_id}`, chunk_index: 0, chunk_text: s.text }]
+        : [];
+      return send(200, { results, count: results.length, query: body.query, search_type: 'standin' });
+    }
+    send(404, { detail: `no stand-in route for ${req.method} ${url.pathname}` });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () =>
+          new Promise<void>((done) => {
+            server.closeAllConnections();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
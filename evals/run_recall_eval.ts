@@ -0,0 +1,263 @@
+#!/usr/bin/env tsx
+/**
+ * Recall Eval — routing + retrieval benchmark for the `recall` tool.
+ *
+ * Runs every gold-set query (evals/recall_gold_set.json) through `recall()`
+ * in auto mode, fused mode and each forced shape, against a local stand-in
+ * KOI server built from the gold set's fixture corpus (or a live KOI with
+ * --endpoint). Reports, per mode and per expected shape:
+ *
+ *   - Recall@k: share of expected session ids / URIs in the top k
+ *   - MRR:      reciprocal rank of the first expected hit
+ *   - routing accuracy (auto mode): resolved shape == expected shape
+ *
+ * and fails (exit 1) when any metric drops below the gold set's thresholds.
+ *
+ * Run:  npm run eval:recall
+ *       npx tsx evals/run_recall_eval.ts [--gold <path>] [--k <n>]
+ *                                        [--modes auto,fused,semantic,...]
+ *                                        [--endpoint http://127.0.0.1:8351]
+ *
+ * Writes the full per-query results to evals/results/recall_eval.json.
+ * Metrics lines go to a temp RECALL_METRICS_DIR, not ~/.koi/logs.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { RecallResponse, RecallInput } from '../src/tools/recall.js';
+import { startStandinServer, StandinCorpus } from './recall_standin_server.js';
+
+type Shape = 'semantic' | 'temporal' | 'relationship';
+type EvalMode = 'auto' | 'fused' | Shape;
+
+const ALL_MODES: EvalMode[] = ['auto', 'fused', 'semantic', 'temporal', 'relationship'];
+const SHAPES: Shape[] = ['semantic', 'temporal', 'relationship'];
+
+interface GoldQuery {
+  id: string;
+  query: string;
+  shape_expected: Shape;
+  expected: string[];
+  notes?: string;
+}
+
+interface Thresholds {
+  modes?: Partial<Record<EvalMode, { recall_at_k?: number; mrr?: number }>>;
+  routing_accuracy?: Partial<Record<Shape, number>>;
+}
+
+interface GoldSet {
+  k?: number;
+  thresholds?: Thresholds;
+  corpus: StandinCorpus;
+  queries: GoldQuery[];
+}
+
+interface QueryResult {
+  mode: EvalMode;
+  query_id: string;
+  shape_expected: Shape;
+  shape_resolved: string;
+  shape_source: string;
+  recall_at_k: number;
+  reciprocal_rank: number;
+  found: string[];
+  missing: string[];
+  top_ids: string[];
+  latency_ms: number;
+  error?: string;
+}
+
+interface Aggregate {
+  queries: number;
+  recall_at_k: number;
+  mrr: number;
+}
+
+function parseArgs(argv: string[]) {
+  const get = (flag: string) => {
+    const i = argv.indexOf(flag);
+    return i >= 0 ? argv[i + 1] : undefined;
+  };
+  const modes = (get('--modes') || ALL_MODES.join(','))
+    .split(',')
+    .map((m) => m.trim())
+    .filter((m): m is EvalMode => (ALL_MODES as string[]).includes(m));
+  return {
+    gold: get('--gold') || 'evals/recall_gold_set.json',
+    k: get('--k') ? Number(get('--k')) : undefined,
+    endpoint: get('--endpoint'),
+    modes,
+  };
+}
+
+/** Identity a result is scored on: session id, else URI, else item id. */
+function resultKey(r: RecallResponse['results'][number]): string {
+  return (r.metadata?.session_id as string) || (r.metadata?.uri as string) || r.id;
+}
+
+function score(resp: RecallResponse, expected: string[], k: number) {
+  const ids: string[] = [];
+  for (const r of resp.results) {
+    const key = resultKey(r);
+    if (!ids.includes(key)) ids.push(key);
+  }
+  const topK = ids.slice(0, k);
+  const found = expected.filter((e) => topK.includes(e));
+  const missing = expected.filter((e) => !topK.includes(e));
+  const firstHit = ids.findIndex((id) => expected.includes(id));
+  return {
+    recall: expected.length > 0 ? found.length / Math.min(expected.length, k) : 0,
+    rr: firstHit >= 0 && firstHit < k ? 1 / (firstHit + 1) : 0,
+    found,
+    missing,
+    topK,
+  };
+}
+
+function aggregate(rows: QueryResult[]): Aggregate {
+  const n = rows.length;
+  return {
+    queries: n,
+    recall_at_k: n ? rows.reduce((s, r) => s + r.recall_at_k, 0) / n : 0,
+    mrr: n ? rows.reduce((s, r) => s + r.reciprocal_rank, 0) / n : 0,
+  };
+}
+
+function pct(x: number): string {
+  return `${(x * 100).toFixed(1)}%`;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const gold: GoldSet = JSON.parse(fs.readFileSync(args.gold, 'utf-8'));
+  const k = args.k ?? gold.k ?? 5;
+
+  // recall.ts reads its endpoints and metrics dir at import time, so the env
+  // must be in place before the dynamic import below.
+  const standin = args.endpoint ? null : await startStandinServer(gold.corpus);
+  const endpoint = args.endpoint || standin!.url;
+  process.env.KOI_API_ENDPOINT = endpoint;
+  process.env.KOI_BACKEND_URL = endpoint;
+  process.env.RECALL_METRICS_DIR ||= fs.mkdtempSync(path.join(os.tmpdir(), 'recall-eval-'));
+  delete process.env.RECALL_ROUTING_ENABLED;
+  delete process.env.RECALL_WALK_BACKEND;
+  // Every row must exercise the legs, not the response cache.
+  process.env.RECALL_CACHE_ENABLED = 'false';
+  const { recall } = await import('../src/tools/recall.js');
+
+  console.log(`Recall eval — ${gold.queries.length} queries × ${args.modes.length} modes, k=${k}`);
+  console.log(`Backend: ${args.endpoint ? endpoint : `stand-in (${endpoint})`}\n`);
+
+  const rows: QueryResult[] = [];
+  for (const mode of args.modes) {
+    console.log(`[${mode}]`);
+    for (const q of gold.queries) {
+      const input: RecallInput = { query: q.query, limit: k };
+      if (mode === 'fused') input.mode = 'fused';
+      else if (mode !== 'auto') input.shape = mode;
+      const resp = await recall(input);
+      const s = score(resp, q.expected, k);
+      rows.push({
+        mode,
+        query_id: q.id,
+        shape_expected: q.shape_expected,
+        shape_resolved: resp.routing.shape_resolved,
+        shape_source: resp.routing.shape_source,
+        recall_at_k: s.recall,
+        reciprocal_rank: s.rr,
+        found: s.found,
+        missing: s.missing,
+        top_ids: s.topK,
+        latency_ms: resp.latency_ms.total,
+        ...(resp.error_code ? { error: `${resp.error_code}: ${resp.error}` } : {}),
+      });
+      const routed = mode === 'auto' ? ` shape=${resp.routing.shape_resolved}/${resp.routing.shape_source}` : '';
+      console.log(
+        `  ${q.id.padEnd(4)} R@${k}=${s.recall.toFixed(2)} RR=${s.rr.toFixed(2)}${routed}` +
+          (s.missing.length ? `  missing: ${s.missing.join(', ')}` : '') +
+          (resp.error_code ? `  ERROR ${resp.error_code}` : ''),
+      );
+    }
+  }
+
+  // --- Aggregates ---
+  const byMode: Record<string, Aggregate & { by_shape: Record<string, Aggregate> }> = {};
+  for (const mode of args.modes) {
+    const modeRows = rows.filter((r) => r.mode === mode);
+    const byShape: Record<string, Aggregate> = {};
+    for (const shape of SHAPES) {
+      const shapeRows = modeRows.filter((r) => r.shape_expected === shape);
+      if (shapeRows.length) byShape[shape] = aggregate(shapeRows);
+    }
+    byMode[mode] = { ...aggregate(modeRows), by_shape: byShape };
+  }
+
+  const routing: Record<string, { queries: number; correct: number; accuracy: number }> = {};
+  const autoRows = rows.filter((r) => r.mode === 'auto');
+  for (const shape of SHAPES) {
+    const shapeRows = autoRows.filter((r) => r.shape_expected === shape);
+    if (!shapeRows.length) continue;
+    const correct = shapeRows.filter((r) => r.shape_resolved === shape).length;
+    routing[shape] = { queries: shapeRows.length, correct, accuracy: correct / shapeRows.length };
+  }
+
+  console.log('\n' + '='.repeat(72));
+  console.log(`| Mode | Recall@${k} | MRR | ` + SHAPES.map((s) => `${s} R@${k}/MRR`).join(' | ') + ' |');
+  for (const [mode, a] of Object.entries(byMode)) {
+    const cells = SHAPES.map((s) =>
+      a.by_shape[s] ? `${pct(a.by_shape[s].recall_at_k)}/${a.by_shape[s].mrr.toFixed(2)}` : '-',
+    );
+    console.log(`| ${mode} | ${pct(a.recall_at_k)} | ${a.mrr.toFixed(2)} | ${cells.join(' | ')} |`);
+  }
+  if (Object.keys(routing).length) {
+    console.log('\nRouting accuracy (auto):');
+    for (const [shape, r] of Object.entries(routing)) {
+      console.log(`  ${shape.padEnd(12)} ${r.correct}/${r.queries} (${pct(r.accuracy)})`);
+    }
+  }
+
+  // --- Regression thresholds ---
+  const failures: string[] = [];
+  const t = gold.thresholds || {};
+  for (const [mode, floor] of Object.entries(t.modes || {})) {
+    const a = byMode[mode];
+    if (!a || !floor) continue;
+    if (floor.recall_at_k !== undefined && a.recall_at_k < floor.recall_at_k) {
+      failures.push(`${mode}: Recall@${k} ${pct(a.recall_at_k)} < ${pct(floor.recall_at_k)}`);
+    }
+    if (floor.mrr !== undefined && a.mrr < floor.mrr) {
+      failures.push(`${mode}: MRR ${a.mrr.toFixed(2)} < ${floor.mrr.toFixed(2)}`);
+    }
+  }
+  for (const [shape, floor] of Object.entries(t.routing_accuracy || {})) {
+    const r = routing[shape];
+    if (r && floor !== undefined && r.accuracy < floor) {
+      failures.push(`routing ${shape}: ${pct(r.accuracy)} < ${pct(floor)}`);
+    }
+  }
+  const errors = rows.filter((r) => r.error);
+  if (errors.length) failures.push(`${errors.length} recall calls returned an error_code`);
+
+  fs.mkdirSync('evals/results', { recursive: true });
+  fs.writeFileSync(
+    'evals/results/recall_eval.json',
+    JSON.stringify({ k, endpoint: args.endpoint || 'stand-in', by_mode: byMode, routing, failures, rows }, null, 2),
+  );
+  console.log('\nResults saved to evals/results/recall_eval.json');
+
+  if (standin) await standin.close();
+
+  if (failures.length) {
+    console.log('\nREGRESSION:');
+    for (const f of failures) console.log(`  - ${f}`);
+    process.exit(1);
+  }
+  console.log('\nAll thresholds met.');
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -1,9 +1,11 @@
 #!/usr/bin/env python3
 """KOI-native recall walk sidecar.
 
-Spawned by `src/tools/recall.ts` for the `walk` leg (temporal + relationship
-shape queries). Calls `/knowledge/recall-walk` (PostgreSQL recursive-CTE over
-`knowledge_facts` with bi-temporal validity filtering).
+Opt-in fallback for the `walk` leg (temporal + relationship shape queries):
+`src/tools/recall.ts` spawns it only when `RECALL_WALK_BACKEND=python`; the
+default path is the in-process client in `src/recall/walk-client.ts`, which
+emits the same JSON contract. Calls `/knowledge/recall-walk` (PostgreSQL
+recursive-CTE over `knowledge_facts` with bi-temporal validity filtering).
 
 History: introduced 2026-04-29 Phase 3 of the koi-graph-consolidation arc as
 a drop-in replacement for the prior `graphiti_recall.py` (FalkorDB sidecar);
@@ -13,15 +15,20 @@ file as the sole recall walk sidecar.
 CLI:
   koi_recall.py --query "<query text>" [--limit 5] [--group-id koi_canon_v1]
                 [--shape semantic|temporal|relationship]
+                [--as-of ISO] [--valid-between FROM TO]
 
 Output (JSON to stdout, one object):
   {
     "ok": true,
     "session_ids": ["<uuid>", ...],
-    "edges": [{"name": ..., "fact": ..., "valid_at": ..., "score": ...}, ...],
+    "edges": [{"id": ... | null, "name": ..., "fact": ..., "valid_at": ...,
+               "valid_to": ..., "score": ..., "n_episodes": 0 | 1,
+               "session_id": ... | null}, ...],
     "n_edges_total": int,
     "latency_ms": float,
-    "group_id": "koi_canon_v1"
+    "group_id": "koi_canon_v1",
+    "walk_path": ...,
+    "latency_breakdown": ...
   }
 
 On failure:
@@ -42,7 +49,14 @@ import httpx
 KOI_BASE_URL = os.environ.get("KOI_API_ENDPOINT", "http://localhost:8351")
 
 
-def run_query(query: str, group_id: str, limit: int, shape: str) -> dict[str, Any]:
+def run_query(
+    query: str,
+    group_id: str,
+    limit: int,
+    shape: str,
+    as_of: str | None = None,
+    valid_between: tuple[str, str] | None = None,
+) -> dict[str, Any]:
     """POST /knowledge/recall-walk and emit the recall-walk sidecar JSON contract."""
     t0 = time.monotonic()
 
@@ -78,6 +92,12 @@ def run_query(query: str, group_id: str, limit: int, shape: str) -> dict[str, An
                 "limit": limit,
                 "group_id": group_id,
                 "max_hops": 3,
+                **({"as_of": as_of} if as_of else {}),
+                **(
+                    {"valid_between": {"from": valid_between[0], "to": valid_between[1]}}
+                    if valid_between
+                    else {}
+                ),
             },
             timeout=30.0,
         )
@@ -106,11 +126,14 @@ def run_query(query: str, group_id: str, limit: int, shape: str) -> dict[str, An
             continue
         edges_out.append(
             {
+                "id": item.get("id") or meta.get("fact_id") or meta.get("edge_id"),
                 "name": meta.get("predicate", ""),
                 "fact": item.get("content", ""),
                 "valid_at": meta.get("valid_from"),
+                "valid_to": meta.get("valid_to"),
                 "score": item.get("score", 0.0),
                 "n_episodes": 1 if meta.get("episode_id") else 0,
+                "session_id": meta.get("session_id"),
             }
         )
 
@@ -138,6 +161,13 @@ def main() -> int:
         default="semantic",
         choices=["semantic", "temporal", "relationship"],
     )
+    p.add_argument("--as-of", help="ISO instant; facts valid then")
+    p.add_argument(
+        "--valid-between",
+        nargs=2,
+        metavar=("FROM", "TO"),
+        help="ISO instants; facts that started or ended in the window",
+    )
     args = p.parse_args()
 
     try:
@@ -146,6 +176,8 @@ def main() -> int:
             group_id=args.group_id,
             limit=args.limit,
             shape=args.shape,
+            as_of=args.as_of,
+            valid_between=tuple(args.valid_between) if args.valid_between else None,
         )
     except Exception as e:
         out = {"ok": False, "error": f"unexpected: {e}", "error_class": "unexpected"}
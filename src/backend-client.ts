@@ -154,6 +154,8 @@ export interface VaultEntityMapping {
   sync_status: 'linked' | 'local_only' | 'pending_sync' | 'conflict';
   content_hash: string;
   last_synced: string;
+  /** Properties as last registered (backends that return them) */
+  properties?: Record<string, any>;
 }
 
 export interface VaultEntitiesResponse {
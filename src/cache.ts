@@ -78,6 +78,7 @@ const QUERY_TYPE_TO_CATEGORY: Record<string, string> = {
   'find_callers': 'dynamic',
   'find_callees': 'dynamic',
   'find_call_graph': 'dynamic',
+  'recall': 'dynamic',
 
   // Volatile (changes frequently)
   'get_stats': 'volatile',
@@ -195,6 +196,28 @@ class QueryCache {
     logCacheOp({ operation: 'evict', key });
   }
 
+  /**
+   * Evict every cached result for a tool, or only those whose value matches
+   * `predicate`. Returns the number of entries evicted.
+   */
+  invalidate(tool: string, predicate?: (value: any) => boolean): number {
+    const prefix = `${tool}:`;
+    let evicted = 0;
+    for (const cache of this.caches.values()) {
+      // Collect first: deleting while iterating an LRUCache skips entries.
+      const keys: string[] = [];
+      for (const [key, value] of cache.entries()) {
+        if (key.startsWith(prefix) && (!predicate || predicate(value))) keys.push(key);
+      }
+      for (const key of keys) {
+        cache.delete(key);
+        logCacheOp({ operation: 'evict', key });
+      }
+      evicted += keys.length;
+    }
+    return evicted;
+  }
+
   /**
    * Clear all caches
    */
@@ -10,6 +10,7 @@
  * - Caches results with version-aware invalidation
  * - Provides sync helpers for contexts that can't use async
  * - Falls back to hardcoded defaults if backend unavailable
+ * - Per-type frontmatter field definitions for write validation
  */
 
 import axios from 'axios';
@@ -20,6 +21,26 @@ import * as path from 'path';
 // Types
 // =============================================================================
 
+export type EntityFieldType = 'string' | 'number' | 'boolean' | 'date' | 'wikilink';
+
+/**
+ * One frontmatter field of an entity type. `multiple` fields hold a list of
+ * `type` values (a single value is accepted too, as Obsidian does).
+ */
+export interface EntityFieldDefinition {
+  type: EntityFieldType;
+  required?: boolean;
+  multiple?: boolean;
+
+  /** Allowed values (compared case-insensitively) */
+  enum?: string[];
+
+  /** For wikilink fields: the entity type the linked note must have */
+  link_type?: string;
+
+  description?: string;
+}
+
 export interface EntityTypeConfig {
   type_key: string;
   label: string;
@@ -29,6 +50,12 @@ export interface EntityTypeConfig {
   similarity_threshold: number;
   semantic_threshold: number;
   require_token_overlap: boolean;
+
+  /** Frontmatter fields notes of this type are validated against */
+  fields?: Record<string, EntityFieldDefinition>;
+
+  /** Vault-relative template for new notes (default Templates/Entities/<type_key>.md) */
+  template?: string;
 }
 
 export interface EntityTypesResponse {
@@ -197,6 +224,51 @@ const DEFAULT_ENTITY_TYPES: EntityTypeConfig[] = [
   },
 ];
 
+/**
+ * Default field definitions, used for types the backend returns without
+ * `fields`. Only the keys the entity notes are expected to carry; any other
+ * frontmatter is allowed.
+ */
+const DEFAULT_ENTITY_FIELDS: Record<string, Record<string, EntityFieldDefinition>> = {
+  Person: {
+    '@type': { type: 'string', required: true },
+    aliases: { type: 'string', multiple: true },
+    affiliation: { type: 'wikilink', multiple: true, link_type: 'Organization' },
+    role: { type: 'string' },
+    email: { type: 'string' },
+  },
+  Organization: {
+    '@type': { type: 'string', required: true },
+    aliases: { type: 'string', multiple: true },
+    website: { type: 'string' },
+    location: { type: 'wikilink', multiple: true, link_type: 'Location' },
+    parent: { type: 'wikilink', link_type: 'Organization' },
+  },
+  Project: {
+    '@type': { type: 'string', required: true },
+    aliases: { type: 'string', multiple: true },
+    status: { type: 'string', enum: ['active', 'paused', 'completed', 'archived'] },
+    organization: { type: 'wikilink', multiple: true, link_type: 'Organization' },
+    people: { type: 'wikilink', multiple: true, link_type: 'Person' },
+    start: { type: 'date' },
+    end: { type: 'date' },
+  },
+  Location: {
+    '@type': { type: 'string', required: true },
+    aliases: { type: 'string', multiple: true },
+  },
+  Concept: {
+    '@type': { type: 'string', required: true },
+    aliases: { type: 'string', multiple: true },
+  },
+  Meeting: {
+    '@type': { type: 'string', required: true },
+    date: { type: 'date', required: true },
+    attendees: { type: 'wikilink', multiple: true, link_type: 'Person' },
+    project: { type: 'wikilink', multiple: true, link_type: 'Project' },
+  },
+};
+
 // =============================================================================
 // Cache State
 // =============================================================================
@@ -355,6 +427,20 @@ export async function getSchemaForType(typeKey: string): Promise<EntityTypeConfi
   ) || null;
 }
 
+/**
+ * Frontmatter field definitions for a type (async): the backend's `fields`,
+ * else the defaults. Null when the type declares none.
+ */
+export async function getFieldsForType(
+  typeKey: string
+): Promise<Record<string, EntityFieldDefinition> | null> {
+  const norm = normalizeTypeKey(typeKey);
+  const config = await getSchemaForType(norm);
+  if (config?.fields) return config.fields;
+  const key = Object.keys(DEFAULT_ENTITY_FIELDS).find(k => k.toLowerCase() === norm.toLowerCase());
+  return key ? DEFAULT_ENTITY_FIELDS[key] : null;
+}
+
 /**
  * Get all entity type keys (async).
  */
@@ -17,12 +17,13 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  type CallToolRequest,
 } from '@modelcontextprotocol/sdk/types.js';
 import axios from 'axios';
 import crypto from 'crypto';
 import dotenv from 'dotenv';
 import { TOOLS } from './tools.js';
-import { typeToFolderSync } from './entity-schema.js';
+import { folderToEntityType, typeToFolderSync } from './entity-schema.js';
 // Use enhanced SPARQL client with focused retrieval
 import { SPARQLClient } from './sparql-client-enhanced.js';
 import { executeGraphTool } from './graph_tool.js';
@@ -49,6 +50,18 @@ import { getBackendClient, BackendClient } from './backend-client.js';
 import { prefetchEntityTypes, getEntityTypes, getSchemaVersion } from './entity-schema.js';
 // KOI API tools (koi-tool-contract.md)
 import { KOI_API_TOOL_DEFINITIONS, KOI_API_TOOL_NAMES, handleKoiApiTool } from './koi-api-tools.js';
+import { invalidateRecallCacheAfter } from './tools/recall.js';
+import { startVaultWatcher } from './vault-watcher.js';
+import { buildEntityNote } from './vault-templates.js';
+import { formatVaultQueryResult, runVaultQuery } from './vault-query.js';
+import {
+  formatSyncConflictReport,
+  loadSyncBases,
+  recordSyncBase,
+  resolveSyncConflict,
+  type FieldChoice,
+  type SyncResolution,
+} from './vault-sync.js';
 // Child process for git commands
 import { exec } from 'child_process';
 import { promisify } from 'util';
@@ -290,7 +303,7 @@ class KOIServer {
     }));
 
     // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const callTool = async (request: CallToolRequest) => {
       const { name, arguments: args } = request.params;
       const startTime = Date.now();
 
@@ -327,6 +340,8 @@ class KOIServer {
         // Contract-aligned KOI API tools take priority over legacy handlers
         if (KOI_API_TOOL_NAMES.has(name)) {
           result = await handleKoiApiTool(name, args as Record<string, unknown>);
+          // Knowledge / vault writes make cached recall answers stale.
+          if (!result.isError) invalidateRecallCacheAfter(name, args as Record<string, unknown>);
 
           const duration = Date.now() - startTime;
           recordQuery(name, duration, true);
@@ -426,7 +441,7 @@ class KOIServer {
             result = await this.vaultListNotes(args as { folder?: string; entityType?: string; limit?: number });
             break;
           case 'vault_search_notes':
-            result = await this.vaultSearchNotes(args as { query: string; entityType?: string; searchContent?: boolean; limit?: number });
+            result = await this.vaultSearchNotes(args as { query: string; entityType?: string; searchContent?: boolean; folder?: string; limit?: number });
             break;
           case 'vault_get_entity':
             result = await this.vaultGetEntity(args as { entityType: string; name: string });
@@ -444,7 +459,7 @@ class KOIServer {
             result = await this.vaultFindBacklinks(args as { name: string; fuzzy?: boolean; threshold?: number; limit?: number });
             break;
           case 'vault_query_frontmatter':
-            result = await this.vaultQueryFrontmatter(args as { field: string; value: string; entityType?: string; fuzzy?: boolean; threshold?: number; limit?: number });
+            result = await this.vaultQueryFrontmatter(args as { field?: string; value?: string; query?: string; format?: string; entityType?: string; fuzzy?: boolean; threshold?: number; limit?: number });
             break;
           case 'vault_find_person':
             result = await this.vaultFindPerson(args as { name: string; fuzzy?: boolean; threshold?: number; limit?: number });
@@ -463,6 +478,8 @@ class KOIServer {
               path: string;
               update_frontmatter?: boolean;
               backup?: boolean;
+              create_if_missing?: boolean;
+              entity_type?: string;
             });
             break;
           case 'vault_sync_entities':
@@ -478,6 +495,13 @@ class KOIServer {
               folder?: string;
             });
             break;
+          case 'vault_resolve_sync_conflict':
+            result = await this.vaultResolveSyncConflict(args as {
+              path: string;
+              resolution?: SyncResolution;
+              fields?: Record<string, FieldChoice>;
+            });
+            break;
           case 'list_entity_types':
             result = await this.listEntityTypes();
             break;
@@ -499,6 +523,7 @@ class KOIServer {
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
+        if (!result?.isError) invalidateRecallCacheAfter(name, args as Record<string, unknown>);
 
         const duration = Date.now() - startTime;
         recordQuery(name, duration, true);
@@ -531,6 +556,17 @@ class KOIServer {
           ],
         };
       }
+    };
+
+    // A `vault` argument points every vault helper at that named vault for the call
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const vaultName = request.params.arguments?.vault;
+      try {
+        return await vault.withVault(typeof vaultName === 'string' ? vaultName : undefined, () => callTool(request));
+      } catch (error) {
+        if (!(error instanceof vault.UnknownVaultError)) throw error;
+        return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
+      }
     });
   }
 
@@ -3828,6 +3864,7 @@ Your feedback helps improve KOI for everyone.${
     query: string;
     entityType?: string;
     searchContent?: boolean;
+    folder?: string;
     limit?: number;
   }): Promise<{ content: Array<{ type: string; text: string }> }> {
     try {
@@ -3835,6 +3872,7 @@ Your feedback helps improve KOI for everyone.${
         query: args.query,
         entityType: args.entityType,
         searchContent: args.searchContent ?? true,
+        folder: args.folder,
         limit: args.limit || 20
       });
 
@@ -3842,7 +3880,9 @@ Your feedback helps improve KOI for everyone.${
         path: n.path,
         name: n.name,
         entityType: n.entityType,
-        modifiedAt: n.modifiedAt
+        modifiedAt: n.modifiedAt,
+        score: n.score,
+        ...(n.snippet ? { snippet: n.snippet } : {})
       }));
 
       return {
@@ -3949,24 +3989,37 @@ Your feedback helps improve KOI for everyone.${
       for (const meeting of meetingNotes) {
         if (results.pastMeetings.length >= meetingLimit) break;
 
-        // Check if meeting involves any attendee
-        const meetingResult = await vault.readNote(meeting.path);
-        if (!meetingResult.exists) continue;
-
-        const fm = meetingResult.parsed.frontmatter || {};
+        // Frontmatter comes from the vault index; the note body is only read
+        // when the frontmatter alone doesn't settle it
+        const fm = meeting.frontmatter || {};
         const meetingAttendees = fm.attendees || [];
         const meetingProject = fm.project || '';
 
-        const involvesAttendee = args.attendees.some(a =>
+        let content: string | null = null;
+        const meetingContent = async (): Promise<string> => {
+          if (content === null) {
+            const meetingResult = await vault.readNote(meeting.path);
+            content = meetingResult.exists ? meetingResult.content.toLowerCase() : '';
+          }
+          return content;
+        };
+
+        // Check if meeting involves any attendee
+        let involvesAttendee = args.attendees.some(a =>
           meetingAttendees.some((ma: string) =>
             ma && ma.toLowerCase().includes(a.toLowerCase())
-          ) ||
-          meetingResult.content.toLowerCase().includes(a.toLowerCase())
+          )
         );
+        if (!involvesAttendee) {
+          const text = await meetingContent();
+          involvesAttendee = args.attendees.some(a => text.includes(a.toLowerCase()));
+        }
 
-        const involvesProject = args.project &&
-          (meetingProject.toLowerCase().includes(args.project.toLowerCase()) ||
-           meetingResult.content.toLowerCase().includes(args.project.toLowerCase()));
+        let involvesProject = !!args.project &&
+          String(meetingProject).toLowerCase().includes(args.project.toLowerCase());
+        if (args.project && !involvesProject && !involvesAttendee) {
+          involvesProject = (await meetingContent()).includes(args.project.toLowerCase());
+        }
 
         if (involvesAttendee || involvesProject) {
           results.pastMeetings.push({
@@ -4167,21 +4220,28 @@ Your feedback helps improve KOI for everyone.${
         await vault.writeNote(args.path, result.modifiedContent);
       }
 
-      // If creating entities, create the new entity files
+      // If creating entities, create the new entity files from their type's template
+      const templated: string[] = [];
       if (args.createEntities && result.newEntities.length > 0) {
         for (const newEntity of result.newEntities) {
+          const note = await buildEntityNote(
+            vault.getVaultPath(),
+            { name: newEntity.name, type: newEntity.type, source: args.path, context: newEntity.context },
+            { frontmatter: newEntity.frontmatter, content: newEntity.content }
+          );
           await vault.writeNote(
             newEntity.path,
-            newEntity.content,
-            newEntity.frontmatter
+            note.content,
+            note.frontmatter
           );
+          if (note.template) templated.push(`- ${newEntity.path} (from ${note.template})`);
         }
       }
 
       return {
         content: [{
           type: 'text',
-          text: summary
+          text: templated.length > 0 ? `${summary}\n\n## Created From Templates\n${templated.join('\n')}` : summary
         }]
       };
     } catch (error) {
@@ -4240,14 +4300,34 @@ Your feedback helps improve KOI for everyone.${
    * Query notes by frontmatter field
    */
   private async vaultQueryFrontmatter(args: {
-    field: string;
-    value: string;
+    field?: string;
+    value?: string;
+    query?: string;
+    format?: string;
     entityType?: string;
     fuzzy?: boolean;
     threshold?: number;
     limit?: number;
   }): Promise<{ content: Array<{ type: string; text: string }> }> {
     try {
+      if (args.query) {
+        const result = await runVaultQuery(args.query);
+        return {
+          content: [{
+            type: 'text',
+            text: args.format === 'json' ? JSON.stringify(result, null, 2) : formatVaultQueryResult(result)
+          }]
+        };
+      }
+      if (!args.field || args.value === undefined) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'Error querying frontmatter: pass either `query` or both `field` and `value`'
+          }]
+        };
+      }
+
       const notes = await vault.queryByFrontmatter({
         field: args.field,
         value: args.value,
@@ -4867,11 +4947,13 @@ Your feedback helps improve KOI for everyone.${
     path: string;
     update_frontmatter?: boolean;
     backup?: boolean;
+    create_if_missing?: boolean;
+    entity_type?: string;
   }): Promise<{ content: Array<{ type: string; text: string }> }> {
     const updateFrontmatter = args.update_frontmatter ?? true;
     const shouldBackup = args.backup ?? true;
     const vaultPath = vault.getVaultPath();
-    const vaultName = vaultPath.split('/').pop() || 'Notes';
+    const vaultName = vault.getVaultName();
 
     try {
       // Backup vault before making changes
@@ -4889,6 +4971,35 @@ Your feedback helps improve KOI for everyone.${
       const { generateVaultRID, computeContentHash } = await import('./vault-rid.js');
       const { scanFile, parseFrontmatter, reconstructNote } = await import('./vault-scanner.js');
 
+      // Create a missing note from its type's template (or a minimal stub)
+      let createdInfo = '';
+      if (args.create_if_missing) {
+        const relPath = args.path.endsWith('.md') ? args.path : `${args.path}.md`;
+        const noteData = await vault.readNote(relPath);
+        args = { ...args, path: relPath };
+        if (!noteData.exists) {
+          const entityType = args.entity_type || folderToEntityType(relPath.split('/')[0]);
+          const name = relPath.split('/').pop()!.replace(/\.md$/, '');
+          const note = await buildEntityNote(vaultPath, { name, type: entityType }, {
+            frontmatter: { '@type': `schema:${entityType}`, name, created: new Date().toISOString() },
+            content: `# ${name}\n`
+          });
+          const written = await vault.writeNote(relPath, note.content, note.frontmatter, {
+            expectedHash: '',
+            source: 'vault_register_entity'
+          });
+          if (!written.success) {
+            return {
+              content: [{
+                type: 'text',
+                text: `Error: Could not create ${relPath}: ${written.error}`
+              }]
+            };
+          }
+          createdInfo = `**Created:** ${note.template ? `from template ${note.template}` : 'new note (no template)'}\n`;
+        }
+      }
+
       // Scan the file
       const entity = scanFile(vaultPath, vaultName, args.path);
       if (!entity) {
@@ -4922,6 +5033,10 @@ Your feedback helps improve KOI for everyone.${
         properties: entity.frontmatter,
         content_hash: entity.contentHash
       });
+      let synced: { hash: string; properties: Record<string, unknown> } = {
+        hash: entity.contentHash,
+        properties: entity.frontmatter
+      };
 
       // Update frontmatter if requested
       if (updateFrontmatter) {
@@ -4954,12 +5069,17 @@ Your feedback helps improve KOI for everyone.${
             properties: updatedFrontmatter,
             content_hash: newContentHash
           });
+          synced = { hash: newContentHash, properties: updatedFrontmatter };
         }
       }
 
+      // Both sides now agree: this is the base for three-way conflict checks
+      await recordSyncBase(vaultPath, entity.rid, { path: args.path, ...synced });
+
       // Format response
       let output = `# Entity Registration Result\n\n`;
       output += `**Path:** ${args.path}\n`;
+      output += createdInfo;
       output += `**Name:** ${entity.name}\n`;
       output += `**Type:** ${entity.entityType}\n`;
       output += `**RID:** \`${entity.rid}\`\n`;
@@ -5010,7 +5130,7 @@ Your feedback helps improve KOI for everyone.${
     const updateFrontmatter = args.update_frontmatter ?? true;
     const shouldBackup = args.backup ?? true;
     const vaultPath = vault.getVaultPath();
-    const vaultName = vaultPath.split('/').pop() || 'Notes';
+    const vaultName = vault.getVaultName();
 
     try {
       // Backup vault before making changes (if updating frontmatter)
@@ -5059,6 +5179,8 @@ Your feedback helps improve KOI for everyone.${
         }
       }
 
+      const syncBases = await loadSyncBases(vaultPath);
+
       // Track results
       const results = {
         registered: 0,
@@ -5066,6 +5188,7 @@ Your feedback helps improve KOI for everyone.${
         skipped: 0,
         errors: 0,
         collisions: [] as string[],
+        conflicts: [] as string[],
         byType: {} as Record<string, number>
       };
 
@@ -5091,7 +5214,13 @@ Your feedback helps improve KOI for everyone.${
               results.skipped++;
               continue;
             }
-            // Hash differs - process this entity
+            // Hash differs - only push it if the vault side is the one that changed
+            const base = syncBases.get(entity.rid);
+            if (base && backendEntry.content_hash !== base.hash) {
+              if (entity.contentHash !== base.hash) results.conflicts.push(entity.relativePath);
+              else results.skipped++;
+              continue;
+            }
           }
 
           const response = await backendClient.registerEntity({
@@ -5115,6 +5244,10 @@ Your feedback helps improve KOI for everyone.${
 
           // Track by type
           results.byType[entity.entityType] = (results.byType[entity.entityType] || 0) + 1;
+          let synced: { hash: string; properties: Record<string, unknown> } = {
+            hash: entity.contentHash,
+            properties: entity.frontmatter
+          };
 
           // Update frontmatter if requested
           if (updateFrontmatter) {
@@ -5147,9 +5280,13 @@ Your feedback helps improve KOI for everyone.${
                 properties: updatedFrontmatter,
                 content_hash: newContentHash
               });
+              synced = { hash: newContentHash, properties: updatedFrontmatter };
             }
           }
 
+          // Both sides now agree: this is the base for three-way conflict checks
+          await recordSyncBase(vaultPath, entity.rid, { path: entity.relativePath, ...synced });
+
         } catch (error) {
           results.errors++;
           logger.error(`Failed to register ${entity.relativePath}: ${error}`);
@@ -5180,6 +5317,14 @@ Your feedback helps improve KOI for everyone.${
         }
       }
 
+      if (results.conflicts.length > 0) {
+        output += `\n## Conflicts (${results.conflicts.length})\n`;
+        output += `Changed in both the vault and the backend since the last sync; not pushed. Resolve with vault_resolve_sync_conflict.\n`;
+        for (const conflictPath of results.conflicts) {
+          output += `- [[${conflictPath.replace('.md', '')}]]\n`;
+        }
+      }
+
       if (results.collisions.length > 0) {
         output += `\n## Collision Warnings (${results.collisions.length})\n`;
         for (const warning of results.collisions) {
@@ -5223,7 +5368,7 @@ Your feedback helps improve KOI for everyone.${
   }): Promise<{ content: Array<{ type: string; text: string }> }> {
     const folders = args.folder ? [args.folder] : ['People', 'Organizations', 'Projects', 'Locations', 'Concepts'];
     const vaultPath = vault.getVaultPath();
-    const vaultName = vaultPath.split('/').pop() || 'Notes';
+    const vaultName = vault.getVaultName();
 
     try {
       const { scanVaultEntities, checkSyncStatus } = await import('./vault-scanner.js');
@@ -5248,8 +5393,9 @@ Your feedback helps improve KOI for everyone.${
         }
       }
 
-      // Check sync status
-      const statuses = checkSyncStatus(scanResult.entities, backendEntities);
+      // Check sync status against the last-synced bases
+      const syncBases = await loadSyncBases(vaultPath);
+      const statuses = checkSyncStatus(scanResult.entities, backendEntities, syncBases);
 
       // Aggregate stats
       const stats = {
@@ -5257,6 +5403,7 @@ Your feedback helps improve KOI for everyone.${
         linked: 0,
         local_only: 0,
         pending_sync: 0,
+        remote_changed: 0,
         conflict: 0,
         unknown: 0
       };
@@ -5275,6 +5422,7 @@ Your feedback helps improve KOI for everyone.${
       output += `- ✅ Linked: ${stats.linked}\n`;
       output += `- 📝 Local only: ${stats.local_only}\n`;
       output += `- 🔄 Pending sync: ${stats.pending_sync}\n`;
+      output += `- ⬇️ Changed in backend: ${stats.remote_changed}\n`;
       output += `- ⚠️ Conflict: ${stats.conflict}\n`;
       if (stats.unknown > 0) {
         output += `- ❓ Unknown: ${stats.unknown}\n`;
@@ -5300,11 +5448,19 @@ Your feedback helps improve KOI for everyone.${
         }
       }
 
+      if (stats.remote_changed > 0) {
+        output += `\n## Changed in Backend (${stats.remote_changed})\n`;
+        const remote = statuses.filter(s => s.status === 'remote_changed');
+        for (const s of remote) {
+          output += `- [[${s.path.replace('.md', '')}]] - backend entity changed since last sync\n`;
+        }
+      }
+
       if (stats.conflict > 0) {
         output += `\n## Conflicts (${stats.conflict})\n`;
         const conflicts = statuses.filter(s => s.status === 'conflict');
         for (const s of conflicts) {
-          output += `- [[${s.path.replace('.md', '')}]] - local and backend diverged\n`;
+          output += `- [[${s.path.replace('.md', '')}]] - local and backend diverged (see vault_resolve_sync_conflict)\n`;
         }
       }
 
@@ -5326,6 +5482,38 @@ Your feedback helps improve KOI for everyone.${
     }
   }
 
+  /**
+   * Show or resolve a three-way sync conflict for one entity note.
+   */
+  private async vaultResolveSyncConflict(args: {
+    path: string;
+    resolution?: SyncResolution;
+    fields?: Record<string, FieldChoice>;
+  }): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
+    try {
+      const report = await resolveSyncConflict(vault.getVaultPath(), vault.getVaultName(), args.path, {
+        resolution: args.resolution,
+        fields: args.fields,
+        backend: getBackendClient(),
+      });
+      return {
+        content: [{
+          type: 'text',
+          text: formatSyncConflictReport(report)
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{
+          type: 'text',
+          text: `Error resolving sync conflict: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+
   /**
    * List available entity types from backend schema configuration.
    * This is the source of truth for entity types - do not hardcode types elsewhere.
@@ -5882,6 +6070,8 @@ Your feedback helps improve KOI for everyone.${
     console.error(`[${SERVER_NAME}] Server running on stdio transport`);
     // Fire-and-forget warm-up to avoid first-query cold start
     this.warmUp().catch(() => {});
+    // Keeps vault entity/backlink indexes live and registers edited entity notes
+    startVaultWatcher().catch(() => {});
   }
 
   private async warmUp() {
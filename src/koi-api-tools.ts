@@ -14,14 +14,44 @@ import axios from 'axios';
 import { randomUUID } from 'node:crypto';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import { spawn } from 'node:child_process';
 import YAML from 'yaml';
-import { RECALL_TOOL_DEFINITION, handleRecallTool } from './tools/recall.js';
+import {
+  RECALL_TOOL_DEFINITION,
+  RECALL_METRICS_REPORT_TOOL_DEFINITION,
+  RECALL_EXPLAIN_TOOL_DEFINITION,
+  handleRecallTool,
+  handleRecallMetricsReportTool,
+  handleRecallExplainTool,
+} from './tools/recall.js';
 import {
   applyFrontmatterBlock,
   findFrontmatterBlock,
   type FrontmatterMode
 } from './frontmatter.js';
+import { getVaultIndex } from './vault-index.js';
+import { buildEntityIndex, getVaultName, resolveVault } from './vault.js';
+import { withVaultArgument } from './tools.js';
+import {
+  normalizeWikiTarget,
+  resolveLocalNoteTarget,
+  splitWikiTarget,
+  sanitizeLocalLinkTarget,
+} from './vault-links.js';
+import {
+  commitVaultWrite,
+  listVaultWrites,
+  undoVaultWrite,
+  VaultWriteConflictError,
+} from './vault-journal.js';
+import { computeContentHash, generateNoteRID } from './vault-rid.js';
+import { auditVault, formatAuditReport, type AuditIssueKind } from './vault-audit.js';
+import { formatTagList, getTagIndex, noteTags } from './vault-tags.js';
+import { formatMovePlan, moveNote, VaultMoveRollbackError } from './vault-move.js';
+import { applyNotePatch, type PatchOperation } from './vault-patch.js';
+import { searchVault } from './vault-search.js';
+import { findUnlinkedMentions, formatUnlinkedMentions } from './vault-mentions.js';
+import { checkEntityNoteSchema, schemaMode, SchemaValidationError } from './vault-schema.js';
+import { extractAnchor } from './vault-sections.js';
 
 // =============================================================================
 // Client setup
@@ -120,9 +150,11 @@ async function getMcpCrawlHeaders(): Promise<Record<string, string>> {
 // =============================================================================
 
 function getVaultPath(): string {
-  const p = process.env.VAULT_PATH;
-  if (!p) throw new Error('VAULT_PATH environment variable must be set for vault tools');
-  return p;
+  if (!process.env.VAULT_PATH && !process.env.VAULTS) {
+    throw new Error('VAULT_PATH (or VAULTS) environment variable must be set for vault tools');
+  }
+  // The vault scoped by the call's `vault` argument, else the default vault
+  return resolveVault().path;
 }
 
 function safeVaultPath(relativePath: string): string {
@@ -152,6 +184,8 @@ type ShareLinkType = 'embed' | 'wikilink' | 'markdown_embed' | 'markdown_link' |
 
 type ShareRef = {
   raw_target: string;
+  /** Heading or ^block an embed points at (`![[Note#Section]]`) */
+  anchor?: string;
   link_type: ShareLinkType;
   required: boolean;
   source_path?: string;
@@ -175,6 +209,8 @@ type ShareDependencyDoc = {
   required: boolean;
   parent_rid?: string;
   parent_path?: string;
+  /** Set when `content` is only the embedded heading section or block */
+  section?: string;
 };
 
 type ShareGraphNode = {
@@ -249,14 +285,8 @@ function parseRecipientType(raw: string | undefined): RecipientType {
   return value as RecipientType;
 }
 
-function normalizeWikiTarget(raw: string): string {
-  const withoutAlias = raw.split('|')[0] ?? raw;
-  const withoutAnchor = withoutAlias.split('#')[0] ?? withoutAlias;
-  return withoutAnchor.trim();
-}
-
 function toNoteRid(notePath: string): string {
-  return `orn:obsidian.note:${notePath}`;
+  return generateNoteRID(getVaultName(), notePath);
 }
 
 function stripFrontmatter(md: string): { body: string; frontmatter: Record<string, unknown> | null } {
@@ -302,117 +332,10 @@ function collectFrontmatterStringRefs(value: unknown, out: string[]): void {
   }
 }
 
-function sanitizeLocalLinkTarget(raw: string): string | null {
-  let target = raw.trim();
-  if (!target) return null;
-
-  if (target.startsWith('<') && target.endsWith('>') && target.length > 2) {
-    target = target.slice(1, -1).trim();
-  }
-
-  try {
-    target = decodeURIComponent(target);
-  } catch {
-    // Keep raw target if URL-decoding fails.
-  }
-
-  // External URLs / mailto / anchors are references, but not local note dependencies.
-  if (/^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(target)) return null;
-  if (target.startsWith('#')) return null;
-
-  target = target.split('#')[0]?.split('?')[0]?.trim() || '';
-  if (!target) return null;
-
-  return target.replace(/\\/g, '/');
-}
-
 async function buildVaultMarkdownBasenameIndex(vaultRoot: string): Promise<Map<string, string[]>> {
-  const index = new Map<string, string[]>();
-
-  async function walk(relDir: string): Promise<void> {
-    const absDir = relDir ? path.join(vaultRoot, relDir) : vaultRoot;
-    let entries: Array<import('node:fs').Dirent> = [];
-    try {
-      entries = await fs.readdir(absDir, { withFileTypes: true });
-    } catch {
-      return;
-    }
-
-    for (const entry of entries) {
-      if (entry.isSymbolicLink()) continue;
-      const relPath = relDir ? path.join(relDir, entry.name) : entry.name;
-      if (entry.isDirectory()) {
-        await walk(relPath);
-        continue;
-      }
-      if (!entry.isFile() || !entry.name.toLowerCase().endsWith('.md')) continue;
-
-      const normalized = relPath.replace(/\\/g, '/');
-      const key = path.basename(normalized).toLowerCase();
-      const bucket = index.get(key) || [];
-      bucket.push(normalized);
-      index.set(key, bucket);
-    }
-  }
-
-  await walk('');
-  return index;
-}
-
-async function resolveLocalNoteTarget(
-  sourceDocPath: string,
-  rawTarget: string,
-  basenameIndex: Map<string, string[]>
-): Promise<{ resolvedPath?: string; exists: boolean }> {
-  const sanitized = sanitizeLocalLinkTarget(rawTarget);
-  if (!sanitized) return { exists: false };
-
-  const hasExt = path.extname(sanitized) !== '';
-  const relativeBase = sanitized.startsWith('/')
-    ? sanitized.slice(1)
-    : path.normalize(path.join(path.dirname(sourceDocPath), sanitized));
-
-  const candidateSet = new Set<string>();
-  if (hasExt) {
-    candidateSet.add(relativeBase);
-  } else {
-    candidateSet.add(`${relativeBase}.md`);
-  }
-
-  // Obsidian treats wikilinks containing folders (e.g. [[Folder/Note]]) as
-  // vault-root-relative, not source-relative. Add that interpretation so
-  // `[[Research/sheaf-theory-sources/foo]]` cited from `Research/bar.md`
-  // resolves to `Research/sheaf-theory-sources/foo.md` rather than the
-  // nonexistent `Research/Research/sheaf-theory-sources/foo.md`.
-  if (!sanitized.startsWith('/') && sanitized.includes('/')) {
-    candidateSet.add(hasExt ? sanitized : `${sanitized}.md`);
-  }
-
-  // Obsidian-style fallback: [[Note Title]] can resolve by filename anywhere in the vault.
-  if (!sanitized.includes('/') && !hasExt) {
-    const key = `${sanitized.toLowerCase()}.md`;
-    for (const rel of basenameIndex.get(key) || []) {
-      candidateSet.add(rel);
-    }
-  }
-
-  for (const candidateRaw of candidateSet) {
-    const candidate = candidateRaw.replace(/\\/g, '/');
-    let absolute = '';
-    try {
-      absolute = safeVaultPath(candidate);
-    } catch {
-      continue;
-    }
-    try {
-      await fs.access(absolute);
-      return { resolvedPath: candidate, exists: true };
-    } catch {
-      // Keep trying.
-    }
-  }
-
-  return { exists: false };
+  // Served from the persisted vault index; only notes whose mtime changed are re-read.
+  const index = await getVaultIndex(vaultRoot);
+  return index.basenameIndex();
 }
 
 function extractReferencesFromMarkdown(
@@ -424,10 +347,11 @@ function extractReferencesFromMarkdown(
   const refs: ShareRef[] = [];
   const sourceRid = toNoteRid(sourceDocPath);
 
-  const appendRef = (rawTarget: string, linkType: ShareLinkType, required: boolean): void => {
+  const appendRef = (rawTarget: string, linkType: ShareLinkType, required: boolean, anchor?: string): void => {
     if (!rawTarget) return;
     refs.push({
       raw_target: rawTarget,
+      ...(anchor ? { anchor } : {}),
       link_type: linkType,
       required,
       source_path: sourceDocPath,
@@ -437,8 +361,8 @@ function extractReferencesFromMarkdown(
   };
 
   for (const m of body.matchAll(/!\[\[([^\]]+)\]\]/g)) {
-    const target = normalizeWikiTarget(m[1] ?? '');
-    appendRef(target, 'embed', true);
+    const { target, anchor } = splitWikiTarget(m[1] ?? '');
+    appendRef(target, 'embed', true, anchor);
   }
 
   for (const m of body.matchAll(/\[\[([^\]]+)\]\]/g)) {
@@ -463,7 +387,7 @@ function extractReferencesFromMarkdown(
 
   const dedup = new Map<string, ShareRef>();
   for (const ref of refs) {
-    const key = `${(ref.source_path || '').toLowerCase()}:${ref.link_type}:${ref.raw_target.toLowerCase()}`;
+    const key = `${(ref.source_path || '').toLowerCase()}:${ref.link_type}:${ref.raw_target.toLowerCase()}#${(ref.anchor || '').toLowerCase()}`;
     const existing = dedup.get(key);
     if (!existing) {
       dedup.set(key, ref);
@@ -505,7 +429,8 @@ async function buildSharePayload(
   const includedPaths = new Set<string>();
   const processedPaths = new Set<string>();
   const queuedPaths = new Set<string>();
-  const traversalQueue: Array<{ docPath: string; depth: number; parentPath?: string; parentRid?: string }> = [];
+  // Keys are vault paths, or `path#anchor` for docs included as one embedded section
+  const traversalQueue: Array<{ docPath: string; depth: number; section?: string; parentPath?: string; parentRid?: string }> = [];
 
   graphNodes.set(normalizedDocPath, {
     rid: toNoteRid(normalizedDocPath),
@@ -540,8 +465,9 @@ async function buildSharePayload(
 
   while (traversalQueue.length > 0) {
     const current = traversalQueue.shift()!;
-    if (processedPaths.has(current.docPath)) continue;
-    processedPaths.add(current.docPath);
+    const currentKey = current.section ? `${current.docPath}#${current.section}` : current.docPath;
+    if (processedPaths.has(currentKey)) continue;
+    processedPaths.add(currentKey);
     if (current.depth > maxDepthReached) maxDepthReached = current.depth;
 
     let sourceMarkdown = '';
@@ -550,10 +476,12 @@ async function buildSharePayload(
     } catch {
       continue;
     }
+    // A section-only dependency contributes only the references inside that section
+    if (current.section) sourceMarkdown = extractAnchor(sourceMarkdown, current.section) ?? '';
 
     const refs = extractReferencesFromMarkdown(current.docPath, current.depth, sourceMarkdown);
     for (const ref of refs) {
-      const resolved = await resolveLocalNoteTarget(current.docPath, ref.raw_target, basenameIndex);
+      const resolved = await resolveLocalNoteTarget(current.docPath, ref.raw_target, basenameIndex, getVaultPath());
       if (resolved.exists && resolved.resolvedPath && resolved.resolvedPath.toLowerCase().endsWith('.md')) {
         ref.exists = true;
         ref.resolved_path = resolved.resolvedPath;
@@ -577,19 +505,27 @@ async function buildSharePayload(
       } else if (!ref.exists || !ref.resolved_path || !ref.ref_rid) {
         ref.included = false;
         ref.skip_reason = 'unresolved';
-      } else if (includedPaths.has(ref.resolved_path)) {
+      } else if (
+        includedPaths.has(ref.resolved_path) ||
+        (ref.anchor && includedPaths.has(`${ref.resolved_path}#${ref.anchor}`))
+      ) {
         ref.included = true;
         ref.include_reason = 'dedup';
       } else {
         try {
-          const depContent = await getDocContent(ref.resolved_path);
+          const fullContent = await getDocContent(ref.resolved_path);
+          // ![[Note#Section]] / ![[Note#^block]] carries only that part; an
+          // anchor that is not in the note falls back to the whole note
+          const section = ref.anchor ? extractAnchor(fullContent, ref.anchor) : null;
+          const depContent = section ?? fullContent;
+          const includeKey = section ? `${ref.resolved_path}#${ref.anchor}` : ref.resolved_path;
           const depBytes = Buffer.byteLength(depContent, 'utf-8');
           if (currentBytes + depBytes > MAX_SHARE_PAYLOAD_BYTES) {
             ref.included = false;
             ref.skip_reason = 'payload_limit';
           } else {
             currentBytes += depBytes;
-            includedPaths.add(ref.resolved_path);
+            includedPaths.add(includeKey);
             if (!ref.required) optionalIncluded += 1;
 
             dependencyDocs.push({
@@ -601,20 +537,22 @@ async function buildSharePayload(
               required: ref.required,
               parent_rid: ref.source_rid,
               parent_path: ref.source_path,
+              ...(section ? { section: ref.anchor } : {}),
             });
             ref.included = true;
             ref.include_reason = ref.required ? 'required_reference' : 'context_pack_optional';
             addGraphNode(ref.resolved_path, current.depth + 1, true);
 
             const shouldTraverse = contextDepth > current.depth + 1;
-            if (shouldTraverse && !queuedPaths.has(ref.resolved_path)) {
+            if (shouldTraverse && !queuedPaths.has(includeKey)) {
               traversalQueue.push({
                 docPath: ref.resolved_path,
                 depth: current.depth + 1,
+                ...(section ? { section: ref.anchor } : {}),
                 parentPath: ref.source_path,
                 parentRid: ref.source_rid,
               });
-              queuedPaths.add(ref.resolved_path);
+              queuedPaths.add(includeKey);
             }
           }
         } catch {
@@ -688,7 +626,7 @@ async function buildSharePayload(
 // Tool Definitions
 // =============================================================================
 
-export const KOI_API_TOOL_DEFINITIONS: Tool[] = [
+export const KOI_API_TOOL_DEFINITIONS: Tool[] = withVaultArgument([
   // --- 3 Entity tools (contract-aligned, replacing Regen-oriented handlers) ---
   {
     name: 'resolve_entity',
@@ -744,7 +682,9 @@ export const KOI_API_TOOL_DEFINITIONS: Tool[] = [
     inputSchema: {
       type: 'object',
       properties: {
-        path: { type: 'string', description: "Relative path within the vault (e.g. 'People/Bill Baue.md')" },
+        path: { type: 'string', description: "Relative path within the vault (e.g. 'People/Bill Baue.md'). Append '#Heading' (or '#Parent#Child') to read only that section, or '#^block-id' to read only that block." },
+        include_hash: { type: 'boolean', description: 'Also return the content hash, to pass as `expected_hash` to vault_write_note.' },
+        include_tags: { type: 'boolean', description: "Also return the note's tags (frontmatter and inline) as a separate item (default true)" },
       },
       required: ['path'],
     },
@@ -760,10 +700,131 @@ export const KOI_API_TOOL_DEFINITIONS: Tool[] = [
         content: { type: 'string', description: 'Markdown body. May include an inline YAML frontmatter block; if `frontmatter` is also supplied it replaces/sets the block.' },
         frontmatter: { type: 'object', additionalProperties: true, description: 'Optional structured YAML frontmatter as a JSON object. Prepended as a `---` block (or replaces an inline one in `content`).' },
         clearFrontmatter: { type: 'boolean', description: "Content-only writes PRESERVE the note's existing frontmatter by default. Set true to delete it on purpose." },
+        expected_hash: { type: 'string', description: "Content hash from vault_read_note(include_hash=true). The write fails with a conflict if the note changed since; '' means the note must not exist yet." },
+        schema_validation: { type: 'string', enum: ['off', 'warn', 'strict'], description: "Entity-folder notes are checked against their type's frontmatter fields: 'warn' writes and reports issues, 'strict' refuses the write (default: VAULT_SCHEMA_VALIDATION, else warn)" },
       },
       required: ['path', 'content'],
     },
   },
+  {
+    name: 'vault_patch_note',
+    description:
+      "Edit part of an existing vault note without resending the whole file: append under a heading, replace a heading's section, insert after a ^block-id, append to the end, or set/unset one frontmatter key. The rest of the note and its frontmatter are kept as-is.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: "Relative path; '.md' is appended automatically if omitted" },
+        operation: {
+          type: 'string',
+          enum: ['append_under_heading', 'replace_section', 'insert_after_block', 'append', 'set_frontmatter', 'unset_frontmatter'],
+          description: 'The edit to make',
+        },
+        heading: { type: 'string', description: "Target heading for section operations: 'Actions', '## Actions' or 'Project > Actions'" },
+        block_id: { type: 'string', description: "Block id for insert_after_block (e.g. 'decision-1' for ^decision-1)" },
+        key: { type: 'string', description: 'Frontmatter key for set_frontmatter / unset_frontmatter' },
+        value: { description: 'Frontmatter value for set_frontmatter (string, number, boolean, list or object)' },
+        content: { type: 'string', description: 'Markdown to insert (replace_section with no content empties the section)' },
+        create_heading: { type: 'boolean', description: 'append_under_heading: add the heading at the end of the note if it is missing (default false)' },
+        expected_hash: { type: 'string', description: 'Content hash from vault_read_note(include_hash=true); the patch fails with a conflict if the note changed since.' },
+        schema_validation: { type: 'string', enum: ['off', 'warn', 'strict'], description: "For set_frontmatter / unset_frontmatter on entity-folder notes: 'warn' reports schema issues, 'strict' refuses the patch (default: VAULT_SCHEMA_VALIDATION, else warn)" },
+      },
+      required: ['path', 'operation'],
+    },
+  },
+  {
+    name: 'vault_undo_write',
+    description:
+      'Undo a recent vault note write by restoring the prior version from the local write journal (a note the write created is removed). Defaults to the latest write; pass `path` for the latest write to that note or `id` from a write response. Refuses if the note changed since that write unless `force` is set. Set `list` to see recent writes instead.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Journal id of the write to undo (reported by vault_write_note)' },
+        path: { type: 'string', description: 'Undo the latest write to this note' },
+        force: { type: 'boolean', description: 'Undo even if the note changed after that write (default false)' },
+        list: { type: 'boolean', description: 'List recent journaled writes (optionally for `path`) without undoing anything' },
+        limit: { type: 'number', description: 'Entries to list (default 20)' },
+      },
+    },
+  },
+  {
+    name: 'vault_move_note',
+    description:
+      'Move or rename a vault note and rewrite every wikilink, embed and markdown link to it across the vault (aliases, #heading anchors and link style are kept). Updates the note RID in its frontmatter. Use `dry_run` to list every file and link it would change without writing.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from: { type: 'string', description: "Current path relative to the vault (e.g. 'People/Ada.md')" },
+        to: { type: 'string', description: "New path relative to the vault; '.md' is appended if omitted" },
+        dry_run: { type: 'boolean', description: 'Only report the files and links that would change (default false)' },
+        format: { type: 'string', enum: ['markdown', 'json'], description: 'Output format (default markdown)' },
+      },
+      required: ['from', 'to'],
+    },
+  },
+  {
+    name: 'vault_audit',
+    description:
+      'Audit vault health: broken wikilinks and embeds, ambiguous [[Name]] links matching several files, orphan notes, frontmatter blocks that are not accepted as frontmatter, entity notes missing koi.rid, and entity notes whose @type disagrees with their folder. Set `fix` to apply the safe fixes (re-pointing moved folder links, adding missing RIDs).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        checks: {
+          type: 'array',
+          items: { type: 'string', enum: ['broken_link', 'ambiguous_link', 'orphan', 'invalid_frontmatter', 'missing_rid', 'type_mismatch'] },
+          description: 'Checks to run (default all)',
+        },
+        folder: { type: 'string', description: 'Only report issues in notes under this folder' },
+        fix: { type: 'boolean', description: 'Apply available fixes (default false). Fixes are journaled and can be undone with vault_undo_write.' },
+        format: { type: 'string', enum: ['markdown', 'json'], description: 'Output format (default markdown)' },
+        limit: { type: 'number', description: 'Markdown output: max issues listed per check (default 50)' },
+      },
+    },
+  },
+  {
+    name: 'vault_unlinked_mentions',
+    description:
+      "Find plain-text mentions of entity notes (names and aliases) across the vault that are not wikilinked yet, ranked by confidence. Dry run by default: lists each mention and the per-file diff of the links it would add. Set `apply` to write them (journaled; undo with vault_undo_write). Only the first mention of each entity per note is linked unless `all_occurrences` is set.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        entity: { type: 'string', description: "Only mentions of this entity (name, alias or note path, e.g. 'People/Ada Lovelace')" },
+        folder: { type: 'string', description: 'Only scan notes under this folder' },
+        paths: { type: 'array', items: { type: 'string' }, description: 'Only scan these notes (e.g. to apply a reviewed subset of a dry run)' },
+        min_confidence: { type: 'number', description: 'Minimum confidence 0-1 to list or link a mention (default 0.8)' },
+        all_occurrences: { type: 'boolean', description: 'Link every mention instead of the first per entity per note (default false)' },
+        apply: { type: 'boolean', description: 'Write the links (default false: dry run with diffs)' },
+        format: { type: 'string', enum: ['markdown', 'json'], description: 'Output format (default markdown)' },
+        limit: { type: 'number', description: 'Markdown output: max files listed (default 50)' },
+      },
+    },
+  },
+  {
+    name: 'vault_list_tags',
+    description:
+      'List the tags used in the vault (frontmatter `tags` and inline #tags) as a nested tree with note counts. Nested tags like #project/herring also count toward their parent.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        prefix: { type: 'string', description: "Only list this tag and its nested tags (e.g. 'project')" },
+        min_count: { type: 'number', description: 'Hide tags on fewer notes than this, nested tags included (default 1)' },
+        format: { type: 'string', enum: ['markdown', 'json'], description: 'Output format (default markdown)' },
+      },
+    },
+  },
+  {
+    name: 'vault_notes_by_tag',
+    description:
+      "List vault notes carrying a tag or a tag expression. Combine tags with AND, OR, NOT and parentheses (e.g. 'project/herring AND (meeting OR call) AND NOT draft'); a tag also matches its nested tags unless include_descendants is false.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tag: { type: 'string', description: "Tag or tag expression; the leading '#' is optional" },
+        include_descendants: { type: 'boolean', description: 'Match nested tags too, so #project matches #project/herring (default true)' },
+        limit: { type: 'number', description: 'Max notes listed (default 100)' },
+      },
+      required: ['tag'],
+    },
+  },
   {
     name: 'vault_list_notes',
     description:
@@ -1695,6 +1756,8 @@ export const KOI_API_TOOL_DEFINITIONS: Tool[] = [
     },
   },
   RECALL_TOOL_DEFINITION as unknown as Tool,
+  RECALL_METRICS_REPORT_TOOL_DEFINITION as unknown as Tool,
+  RECALL_EXPLAIN_TOOL_DEFINITION as unknown as Tool,
   {
     name: 'unified_search',
     description:
@@ -1766,7 +1829,7 @@ export const KOI_API_TOOL_DEFINITIONS: Tool[] = [
   },
   {
     name: 'vault_concept_search',
-    description: `Search your Obsidian vault by concept or topic — returns ranked notes with matched sections.
+    description: `Search your Obsidian vault by concept or topic — returns notes ranked by relevance (BM25 over titles, aliases, frontmatter and heading sections) with highlighted snippets of the matched sections.
 
 Use this when vault_search_notes returns too many or irrelevant results, or when searching by topic/concept rather than exact name.
 
@@ -1779,7 +1842,7 @@ Examples:
       properties: {
         query: { type: 'string', description: 'Concept or topic to search for' },
         limit: { type: 'number', description: 'Max results (default 10)' },
-        folder: { type: 'string', description: 'Restrict to a specific top-level vault folder (e.g., "Concepts", "Meetings")' },
+        folder: { type: 'string', description: 'Restrict to a vault folder and its subfolders (e.g., "Concepts", "Meetings")' },
       },
       required: ['query'],
     },
@@ -1822,7 +1885,7 @@ Example: merge_entities(survivor_uri="orn:personal-koi.entity:organization-…",
       required: ['survivor_uri', 'loser_uri'],
     },
   },
-];
+]);
 
 // =============================================================================
 // Tool Handlers
@@ -1865,9 +1928,35 @@ export async function handleKoiApiTool(
       case 'vault_read_note': {
         const notePath = args.path as string;
         try {
-          const fullPath = safeVaultPath(notePath);
+          // `Note#Heading`, `Note#Parent#Child` or `Note#^block-id` reads just that part
+          const hashIdx = notePath.indexOf('#');
+          const filePart = hashIdx >= 0 ? notePath.slice(0, hashIdx) : notePath;
+          const anchor = hashIdx >= 0 ? notePath.slice(hashIdx + 1).trim() : '';
+          let fullPath = safeVaultPath(filePart);
+          if (!filePart.endsWith('.md')) {
+            const withExt = safeVaultPath(`${filePart}.md`);
+            if (await fs.access(fullPath).then(() => false, () => true)) fullPath = withExt;
+          }
           const content = await fs.readFile(fullPath, 'utf-8');
-          return { content: [{ type: 'text', text: content }] };
+          let text = content;
+          if (anchor) {
+            const part = extractAnchor(content, anchor);
+            if (part === null) {
+              const what = anchor.startsWith('^') ? 'Block' : 'Heading';
+              return { content: [{ type: 'text', text: `${what} not found in ${filePart}: ${anchor}` }], isError: true };
+            }
+            text = part;
+          }
+          const items: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+          if (args.include_hash === true) {
+            // Always the whole file's hash: it guards writes, which replace the whole file
+            items.push({ type: 'text', text: `content_hash: ${computeContentHash(content)}` });
+          }
+          const tags = args.include_tags === false ? [] : noteTags(content);
+          if (tags.length > 0) {
+            items.push({ type: 'text', text: `tags: ${tags.map(t => `#${t}`).join(', ')}` });
+          }
+          return { content: items };
         } catch (e: any) {
           return { content: [{ type: 'text', text: `Error reading ${notePath}: ${e.message}` }], isError: true };
         }
@@ -1936,19 +2025,217 @@ export async function handleKoiApiTool(
             }
           }
 
-          await fs.writeFile(fullPath, finalContent, 'utf-8');
-          return { content: [{ type: 'text', text: `Written: ${relPath} (frontmatter: ${frontmatterMode})` }] };
+          // Strict mode throws before anything is written
+          const schema = await checkEntityNoteSchema(getVaultPath(), relPath, finalContent, schemaMode(args.schema_validation));
+          const { entry, contentHash } = await commitVaultWrite(getVaultPath(), fullPath, finalContent, {
+            expectedHash: typeof args.expected_hash === 'string' ? args.expected_hash : undefined,
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Written: ${relPath} (frontmatter: ${frontmatterMode}, hash: ${contentHash}, undo id: ${entry.id})`,
+              },
+              ...(schema ? [{ type: 'text', text: JSON.stringify({ schema_warnings: schema }, null, 2) }] : []),
+            ],
+          };
         } catch (e: any) {
+          if (e instanceof VaultWriteConflictError) {
+            return { content: [{ type: 'text', text: `${e.message}. Re-read the note and retry.` }], isError: true };
+          }
+          if (e instanceof SchemaValidationError) {
+            return {
+              content: [{ type: 'text', text: `Not written: ${e.message}\n${JSON.stringify({ schema_errors: e.validation }, null, 2)}` }],
+              isError: true,
+            };
+          }
           return { content: [{ type: 'text', text: `Error writing ${notePath}: ${e.message}` }], isError: true };
         }
       }
 
+      case 'vault_patch_note': {
+        const notePath = args.path as string;
+        try {
+          const relPath = notePath.endsWith('.md') ? notePath : `${notePath}.md`;
+          const fullPath = safeVaultPath(relPath);
+          const original = await fs.readFile(fullPath, 'utf-8');
+          const patched = applyNotePatch(original, {
+            operation: args.operation as PatchOperation,
+            heading: args.heading as string | undefined,
+            blockId: args.block_id as string | undefined,
+            key: args.key as string | undefined,
+            value: args.value,
+            content: args.content as string | undefined,
+            createHeading: args.create_heading === true,
+          });
+          if (patched === original) {
+            return { content: [{ type: 'text', text: `No change: ${relPath} (${args.operation})` }] };
+          }
+          // Body edits leave the frontmatter alone, so only frontmatter edits are checked
+          const schema = /_frontmatter$/.test(String(args.operation))
+            ? await checkEntityNoteSchema(getVaultPath(), relPath, patched, schemaMode(args.schema_validation))
+            : null;
+          const { entry, contentHash } = await commitVaultWrite(getVaultPath(), fullPath, patched, {
+            // Guard against an edit landing between our read and write even
+            // when the caller did not pass a hash
+            expectedHash: typeof args.expected_hash === 'string' ? args.expected_hash : computeContentHash(original),
+            source: 'vault_patch_note',
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Patched: ${relPath} (${args.operation}, hash: ${contentHash}, undo id: ${entry.id})`,
+              },
+              ...(schema ? [{ type: 'text', text: JSON.stringify({ schema_warnings: schema }, null, 2) }] : []),
+            ],
+          };
+        } catch (e: any) {
+          if (e instanceof VaultWriteConflictError) {
+            return { content: [{ type: 'text', text: `${e.message}. Re-read the note and retry.` }], isError: true };
+          }
+          if (e instanceof SchemaValidationError) {
+            return {
+              content: [{ type: 'text', text: `Not patched: ${e.message}\n${JSON.stringify({ schema_errors: e.validation }, null, 2)}` }],
+              isError: true,
+            };
+          }
+          return { content: [{ type: 'text', text: `Error patching ${notePath}: ${e.message}` }], isError: true };
+        }
+      }
+
+      case 'vault_undo_write': {
+        try {
+          const vaultRoot = getVaultPath();
+          if (args.path !== undefined) safeVaultPath(String(args.path));
+          if (args.list === true) {
+            const entries = await listVaultWrites(vaultRoot, {
+              path: args.path as string | undefined,
+              limit: args.limit as number | undefined,
+            });
+            return { content: [{ type: 'text', text: JSON.stringify({ writes: entries }, null, 2) }] };
+          }
+          const { undone, entry } = await undoVaultWrite(vaultRoot, {
+            id: args.id as string | undefined,
+            path: args.path as string | undefined,
+            force: args.force === true,
+          });
+          const action = undone.beforeHash === null ? 'removed (the write created it)' : `restored to hash ${undone.beforeHash}`;
+          return {
+            content: [{
+              type: 'text',
+              text: `Undid write ${undone.id} (${undone.source}, ${undone.at}): ${undone.path} ${action}. Undo id: ${entry.id}`,
+            }],
+          };
+        } catch (e: any) {
+          return { content: [{ type: 'text', text: `Error undoing write: ${e.message}` }], isError: true };
+        }
+      }
+
+      case 'vault_move_note': {
+        try {
+          const vaultRoot = getVaultPath();
+          safeVaultPath(String(args.from));
+          safeVaultPath(String(args.to));
+          const plan = await moveNote(vaultRoot, String(args.from), String(args.to), {
+            dryRun: args.dry_run === true,
+            vaultName: getVaultName(),
+          });
+          const text = args.format === 'json' ? JSON.stringify(plan, null, 2) : formatMovePlan(plan);
+          return { content: [{ type: 'text', text }] };
+        } catch (e: any) {
+          if (e instanceof VaultWriteConflictError) {
+            return { content: [{ type: 'text', text: `${e.message}. Nothing was changed; re-run the move.` }], isError: true };
+          }
+          if (e instanceof VaultMoveRollbackError) {
+            return { content: [{ type: 'text', text: `Move of ${args.from} failed and was rolled back: ${e.message}` }], isError: true };
+          }
+          return { content: [{ type: 'text', text: `Error moving ${args.from}: ${e.message}` }], isError: true };
+        }
+      }
+
+      case 'vault_audit': {
+        try {
+          if (args.folder !== undefined) safeVaultPath(String(args.folder));
+          const report = await auditVault(getVaultPath(), {
+            checks: Array.isArray(args.checks) ? (args.checks as AuditIssueKind[]) : undefined,
+            folder: args.folder as string | undefined,
+            fix: args.fix === true,
+            vaultName: getVaultName(),
+          });
+          const text = args.format === 'json'
+            ? JSON.stringify(report, null, 2)
+            : formatAuditReport(report, (args.limit as number) || 50);
+          return { content: [{ type: 'text', text }] };
+        } catch (e: any) {
+          return { content: [{ type: 'text', text: `Error auditing vault: ${e.message}` }], isError: true };
+        }
+      }
+
+      case 'vault_unlinked_mentions': {
+        try {
+          if (args.folder !== undefined) safeVaultPath(String(args.folder));
+          const paths = Array.isArray(args.paths) ? (args.paths as unknown[]).map(String) : undefined;
+          paths?.forEach(p => safeVaultPath(p));
+          const report = await findUnlinkedMentions(getVaultPath(), await buildEntityIndex(), {
+            entity: args.entity as string | undefined,
+            folder: args.folder as string | undefined,
+            paths,
+            minConfidence: typeof args.min_confidence === 'number' ? args.min_confidence : undefined,
+            allOccurrences: args.all_occurrences === true,
+            apply: args.apply === true,
+          });
+          const text = args.format === 'json'
+            ? JSON.stringify(report, null, 2)
+            : formatUnlinkedMentions(report, (args.limit as number) || 50);
+          return { content: [{ type: 'text', text }] };
+        } catch (e: any) {
+          return { content: [{ type: 'text', text: `Error finding unlinked mentions: ${e.message}` }], isError: true };
+        }
+      }
+
+      case 'vault_list_tags': {
+        try {
+          const tagIndex = await getTagIndex(getVaultPath());
+          const tags = tagIndex.list({
+            prefix: args.prefix as string | undefined,
+            minCount: args.min_count as number | undefined,
+          });
+          const text = args.format === 'json' ? JSON.stringify(tags, null, 2) : formatTagList(tags);
+          return { content: [{ type: 'text', text }] };
+        } catch (e: any) {
+          return { content: [{ type: 'text', text: `Error listing tags: ${e.message}` }], isError: true };
+        }
+      }
+
+      case 'vault_notes_by_tag': {
+        const expression = String(args.tag ?? '');
+        try {
+          const tagIndex = await getTagIndex(getVaultPath());
+          const notes = tagIndex.match(expression, args.include_descendants !== false);
+          if (notes.length === 0) {
+            return { content: [{ type: 'text', text: `No notes match: ${expression}` }] };
+          }
+          const limit = (args.limit as number) || 100;
+          const shown = notes.slice(0, limit).map(p => `- ${p}`);
+          const more = notes.length > limit ? [`... ${notes.length - limit} more`] : [];
+          const text = [`${notes.length} note(s) match ${expression}:`, ...shown, ...more].join('\n');
+          return { content: [{ type: 'text', text }] };
+        } catch (e: any) {
+          return { content: [{ type: 'text', text: `Error matching tags: ${e.message}` }], isError: true };
+        }
+      }
+
       case 'vault_list_notes': {
         const folder = args.folder as string;
         try {
           const fullPath = safeVaultPath(folder);
-          const files = await fs.readdir(fullPath);
-          const mdFiles = files.filter((f: string) => f.endsWith('.md'));
+          await fs.access(fullPath);
+          const relDir = path.relative(path.resolve(getVaultPath()), fullPath);
+          const index = await getVaultIndex(getVaultPath());
+          const mdFiles = index.all()
+            .filter((entry) => path.dirname(entry.path) === (relDir || '.'))
+            .map((entry) => path.basename(entry.path));
           return { content: [{ type: 'text', text: mdFiles.join('\n') }] };
         } catch (e: any) {
           return { content: [{ type: 'text', text: `Error listing ${folder}: ${e.message}` }], isError: true };
@@ -2362,7 +2649,7 @@ export async function handleKoiApiTool(
           // If vault read fails, share without contents (metadata only).
         }
 
-        const rid = `orn:obsidian.note:${docPath}`;
+        const rid = toNoteRid(docPath);
         const { data } = await client.post('/koi-net/share', {
           document_rid: rid,
           recipient,
@@ -2742,6 +3029,14 @@ Rules:
         return await handleRecallTool(args);
       }
 
+      case 'recall_metrics_report': {
+        return await handleRecallMetricsReportTool(args);
+      }
+
+      case 'recall_explain': {
+        return await handleRecallExplainTool(args);
+      }
+
       case 'unified_search': {
         const params: Record<string, string> = { query: args.query as string };
         if (args.limit) params.limit = String(args.limit);
@@ -2776,39 +3071,21 @@ Rules:
 
       case 'vault_concept_search': {
         const { query, limit = 10, folder } = args as { query: string; limit?: number; folder?: string };
-        const venvPython = path.join(process.env.HOME!, '.claude/local/darren-workflow/pageindex/venv/bin/python3');
-        const scriptPath = path.join(process.env.HOME!, 'projects/darren-workflow/scripts/pageindex.py');
-
-        const scriptArgs = ['query', String(query), '--limit', String(limit), '--json'];
-        if (folder) scriptArgs.push('--folder', String(folder));
-
-        return new Promise((resolve) => {
-          let settled = false;
-          const done = (result: any) => { if (!settled) { settled = true; clearTimeout(timer); resolve(result); } };
-
-          const proc = spawn(venvPython, [scriptPath, ...scriptArgs], { env: { ...process.env } });
-          let stdout = '';
-          let stderr = '';
-          proc.stdout.on('data', (d: Buffer) => { stdout += d.toString(); });
-          proc.stderr.on('data', (d: Buffer) => { stderr += d.toString(); });
-          proc.on('error', (err: Error) => {
-            done({ content: [{ type: 'text', text: `vault_concept_search spawn error: ${err.message}` }], isError: true });
-          });
-          proc.on('close', (code: number | null) => {
-            if (code !== 0) {
-              done({ content: [{ type: 'text', text: `vault_concept_search error (exit ${code}): ${stderr}` }], isError: true });
-              return;
-            }
-            try {
-              const parsed = JSON.parse(stdout);
-              const n = parsed.results?.length ?? 0;
-              done({ content: [{ type: 'text', text: `Found ${n} results for '${query}':\n\n${JSON.stringify(parsed, null, 2)}` }] });
-            } catch {
-              done({ content: [{ type: 'text', text: `vault_concept_search parse error: ${stdout}` }], isError: true });
-            }
-          });
-          const timer = setTimeout(() => { proc.kill(); done({ content: [{ type: 'text', text: 'vault_concept_search timed out after 15s' }], isError: true }); }, 15000);
-        });
+        try {
+          if (folder) safeVaultPath(String(folder));
+          const hits = await searchVault(String(query), { folder, limit: Number(limit) || 10, vaultPath: getVaultPath() });
+          const results = hits.map(hit => ({
+            path: hit.path,
+            title: hit.name,
+            score: hit.score,
+            sections: hit.sections.map(s => ({ heading: s.heading, line: s.line, snippet: s.snippet })),
+          }));
+          return {
+            content: [{ type: 'text', text: `Found ${results.length} results for '${query}':\n\n${JSON.stringify({ query, results }, null, 2)}` }],
+          };
+        } catch (e: any) {
+          return { content: [{ type: 'text', text: `vault_concept_search error: ${e.message}` }], isError: true };
+        }
       }
 
       // --- Admin: fact retraction + entity merge (service-token gated) ---
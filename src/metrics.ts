@@ -8,9 +8,9 @@
 import { logger } from './logger.js';
 
 /**
- * Calculate percentile from sorted array
+ * Calculate percentile from sorted array (nearest-rank)
  */
-function percentile(sortedArr: number[], p: number): number {
+export function percentile(sortedArr: number[], p: number): number {
   if (sortedArr.length === 0) return 0;
   const index = Math.ceil((p / 100) * sortedArr.length) - 1;
   return sortedArr[Math.max(0, index)];
@@ -0,0 +1,15 @@
+/**
+ * Recall backend base URL — one lookup for the helpers that call the KOI
+ * backend directly (entity expansion's `/entity/resolve`, session
+ * hydration's `/search-sessions`).
+ *
+ * `KOI_BACKEND_URL` (the personal backend) wins, then `KOI_API_ENDPOINT`,
+ * then the local default. Read per call so tests and config reloads apply.
+ */
+export function recallBackendUrl(): string {
+  return (
+    process.env.KOI_BACKEND_URL ||
+    process.env.KOI_API_ENDPOINT ||
+    "http://127.0.0.1:8351"
+  );
+}
@@ -0,0 +1,155 @@
+#!/usr/bin/env tsx
+/**
+ * Recall response-cache tests — hits, key normalization, write invalidation.
+ *
+ * Points `recall` at a tiny in-process KOI stub that counts hybrid / walk
+ * requests, then checks that a repeat query is served from the cache, that
+ * case / whitespace variants share an entry while a different limit does
+ * not, that knowledge and vault writes evict the right entries, and that
+ * RECALL_ROUTING_ENABLED=false is not answered from routed entries, nor
+ * are entries made under another rule set or expansion setting, and that an
+ * audit only evicts when it fixes something. With
+ * the stub's walk leg emptied, a walk-shaped query falls back to hybrid, and
+ * the fallback must keep the routing's date range (applied as an overlap
+ * `during` filter) and rule.
+ *
+ * Run:  npx tsx src/recall/cache.test.ts
+ */
+
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+const hits = { hybrid: 0, walk: 0 };
+let walkEmpty = false;
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url || "/", "http://localhost");
+  res.setHeader("content-type", "application/json");
+  if (url.pathname === "/health") {
+    res.end(JSON.stringify({ status: "healthy", database: "connected" }));
+  } else if (url.pathname === "/knowledge/unified-search") {
+    hits.hybrid++;
+    res.end(JSON.stringify({ results: [{ source: "vault", uri: "vault:a.md", text: "a", score: 1 }] }));
+  } else if (url.pathname === "/knowledge/recall-walk") {
+    hits.walk++;
+    res.end(JSON.stringify({ results: [], session_ids: walkEmpty ? [] : ["s1"] }));
+  } else {
+    res.statusCode = 404;
+    res.end("{}");
+  }
+});
+
+async function main() {
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", () => r()));
+  const { port } = server.address() as AddressInfo;
+  process.env.KOI_API_ENDPOINT = `http://127.0.0.1:${port}`;
+  process.env.KOI_BACKEND_URL = process.env.KOI_API_ENDPOINT;
+  process.env.RECALL_METRICS_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "recall-cache-"));
+  process.env.RECALL_ENTITY_EXPANSION = "false";
+  delete process.env.RECALL_CACHE_ENABLED;
+  // recall.ts reads its endpoints at import time.
+  const { recall, invalidateRecallCacheAfter } = await import("../tools/recall.js");
+  const { DEFAULT_ROUTER_RULES } = await import("./rules.js");
+
+  console.log("Recall response-cache tests:");
+  console.log("");
+
+  const first = await recall({ query: "herring habitat", limit: 3 });
+  const again = await recall({ query: "  Herring   HABITAT ", limit: 3 });
+  check("repeat query served from cache", hits.hybrid === 1 && again.cached === true && !first.cached);
+  check("cached answer matches original", JSON.stringify(again.results) === JSON.stringify(first.results));
+
+  await recall({ query: "herring habitat", limit: 4 });
+  check("different limit is a different entry", hits.hybrid === 2, String(hits.hybrid));
+
+  await recall({ query: "trace the grant chain", limit: 3 });
+  check("walk answer cached", (await recall({ query: "trace the grant chain", limit: 3 })).cached === true);
+
+  check("read-only tool evicts nothing", invalidateRecallCacheAfter("vault_read_note") === 0);
+  check("merge dry run evicts nothing", invalidateRecallCacheAfter("merge_entities", { dry_run: true }) === 0);
+  check("vault write evicts hybrid entries only", invalidateRecallCacheAfter("vault_write_note") === 2);
+  check("walk entry survives vault write", (await recall({ query: "trace the grant chain", limit: 3 })).cached === true);
+
+  await recall({ query: "herring habitat", limit: 3 });
+  check("evicted query goes back to the backend", hits.hybrid === 3, String(hits.hybrid));
+
+  check("knowledge write evicts everything", invalidateRecallCacheAfter("add_knowledge") === 2);
+  const walksBefore = hits.walk;
+  await recall({ query: "trace the grant chain", limit: 3 });
+  check("walk re-queried after knowledge write", hits.walk === walksBefore + 1);
+
+  process.env.RECALL_ROUTING_ENABLED = "false";
+  const unrouted = await recall({ query: "trace the grant chain", limit: 3 });
+  check("turning routing off skips routed cache entries",
+    !unrouted.cached && unrouted.routing.legs_queried.join() === "hybrid", JSON.stringify(unrouted.routing));
+  delete process.env.RECALL_ROUTING_ENABLED;
+  check("routed entries are served again once routing is back on",
+    (await recall({ query: "trace the grant chain", limit: 3 })).cached === true);
+
+  const rulesDir = fs.mkdtempSync(path.join(os.tmpdir(), "recall-cache-rules-"));
+  const rulesFile = path.join(rulesDir, "rules.json");
+  fs.writeFileSync(rulesFile, JSON.stringify(DEFAULT_ROUTER_RULES));
+  process.env.RECALL_ROUTER_RULES = rulesFile;
+  check("a newly active rule set skips entries routed by the old one",
+    (await recall({ query: "trace the grant chain", limit: 3 })).cached !== true);
+  check("entries routed by the active rule set are served",
+    (await recall({ query: "trace the grant chain", limit: 3 })).cached === true);
+  delete process.env.RECALL_ROUTER_RULES;
+  fs.rmSync(rulesDir, { recursive: true, force: true });
+
+  process.env.RECALL_ENTITY_EXPANSION = "true";
+  check("turning entity expansion on skips unexpanded entries",
+    (await recall({ query: "herring habitat", limit: 3 })).cached !== true);
+  process.env.RECALL_EXPANSION_MIN_CONFIDENCE = "0.5";
+  check("a different expansion threshold is a different entry",
+    (await recall({ query: "herring habitat", limit: 3 })).cached !== true);
+  delete process.env.RECALL_EXPANSION_MIN_CONFIDENCE;
+  process.env.RECALL_ENTITY_EXPANSION = "false";
+
+  check("an audit without fix evicts nothing", invalidateRecallCacheAfter("vault_audit", {}) === 0);
+  check("an audit that fixes evicts hybrid entries", invalidateRecallCacheAfter("vault_audit", { fix: true }) > 0);
+
+  walkEmpty = true;
+  const fallback = await recall({ query: "grant decisions since last month", limit: 3 });
+  check("walk fallback keeps the date range and deciding rule",
+    fallback.routing.shape_source === "fallback" &&
+      fallback.routing.legs_queried.join() === "walk,hybrid" &&
+      fallback.routing.date_range?.phrase === "since last month" &&
+      fallback.routing.rule_id === "temporal_cues",
+    JSON.stringify(fallback.routing));
+  check("a router date range filters by overlap, not by change",
+    fallback.temporal?.source === "query" && fallback.temporal.during?.from === fallback.routing.date_range?.from &&
+      !fallback.temporal.between,
+    JSON.stringify(fallback.temporal));
+
+  process.env.RECALL_CACHE_ENABLED = "false";
+  const before = hits.hybrid;
+  await recall({ query: "herring habitat", limit: 3 });
+  check("RECALL_CACHE_ENABLED=false bypasses the cache", hits.hybrid === before + 1);
+
+  server.close();
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,130 @@
+#!/usr/bin/env tsx
+/**
+ * Recall date extraction unit tests — relative phrases → normalized ranges.
+ *
+ * Reference time is pinned to Wed 2026-10-14 12:00 local so the expected
+ * ranges are stable; weeks are checked under both a Sunday-start (en-US) and
+ * a Monday-start (en-GB) locale. Pure; no KOI needed.
+ *
+ * Run:  npx tsx src/recall/dates.test.ts
+ */
+
+import { extractDateRange, weekStartFor } from "./dates.js";
+import { resolveShape } from "./router.js";
+
+const now = new Date(2026, 9, 14, 12, 0, 0); // Wednesday
+
+/** Local calendar day of an ISO instant, as YYYY-MM-DD. */
+function day(iso: string | undefined): string {
+  if (!iso) return "-";
+  const d = new Date(iso);
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+interface Case {
+  query: string;
+  from: string;
+  to: string;
+  locale?: string;
+}
+
+const cases: Case[] = [
+  { query: "what did I decide yesterday", from: "2026-10-13", to: "2026-10-13" },
+  { query: "notes from last Tuesday", from: "2026-10-13", to: "2026-10-13" },
+  { query: "what happened last Wednesday", from: "2026-10-07", to: "2026-10-07" },
+  { query: "grant work in Q3", from: "2026-07-01", to: "2026-09-30" },
+  { query: "Q4 2025 retrospective", from: "2025-10-01", to: "2025-12-31" },
+  { query: "the call two weeks ago", from: "2026-09-27", to: "2026-10-03", locale: "en-US" },
+  { query: "the call two weeks ago", from: "2026-09-28", to: "2026-10-04", locale: "en-GB" },
+  { query: "what changed this week", from: "2026-10-12", to: "2026-10-18", locale: "de-DE" },
+  { query: "past 3 days", from: "2026-10-11", to: "2026-10-14" },
+  { query: "decisions in March", from: "2026-03-01", to: "2026-03-31" },
+  { query: "decisions in December", from: "2025-12-01", to: "2025-12-31" },
+  { query: "everything since last month", from: "2026-09-01", to: "2026-10-14" },
+  { query: "herring work in 2025", from: "2025-01-01", to: "2025-12-31" },
+  { query: "meeting on 2026-03-05", from: "2026-03-05", to: "2026-03-05" },
+  { query: "what changed since 2025", from: "2025-01-01", to: "2026-10-14" },
+];
+
+console.log("Recall date extraction unit tests:");
+console.log("");
+
+for (const c of cases) {
+  const r = extractDateRange(c.query, { now, locale: c.locale });
+  const got = `${day(r.range?.from)}..${day(r.range?.to)}`;
+  check(
+    `${c.query}${c.locale ? ` [${c.locale}]` : ""}`,
+    got === `${c.from}..${c.to}`,
+    `got ${got}`,
+  );
+}
+
+// Named anchors
+{
+  const anchors = { hackathon: "2026-09-20" };
+  const r = extractDateRange("what shipped since the hackathon?", { now, anchors });
+  check(
+    "anchor resolves 'since the hackathon'",
+    day(r.range?.from) === "2026-09-20" && day(r.range?.to) === "2026-10-14" &&
+      r.range?.anchor === "hackathon",
+    JSON.stringify(r),
+  );
+  const u = extractDateRange("what shipped since the offsite?", { now, anchors });
+  check(
+    "unknown anchor reported, not guessed",
+    !u.range && u.unresolved_anchor === "offsite",
+    JSON.stringify(u),
+  );
+}
+
+// No date, no range
+check(
+  "plain query has no range",
+  !extractDateRange("canon-review v1 wiki intake retrospective", { now }).range,
+);
+
+check(
+  "numbers that only look like years have no range",
+  ["NFS config for port 2049", "dropped 1999 rows", "order 2010 shipping address"].every(
+    (q) => !extractDateRange(q, { now }).range,
+  ),
+);
+
+// Locale week start
+check("en-US weeks start Sunday", weekStartFor("en-US") === 0);
+check("en-GB weeks start Monday", weekStartFor("en-GB") === 1);
+
+// Router: date phrase alone is enough to route temporal, and is returned.
+{
+  const r = resolveShape("ocean data notes last Tuesday", undefined, { now });
+  check(
+    "router returns date_range and routes temporal",
+    r.shape === "temporal" && day(r.date_range?.from) === "2026-10-13",
+    JSON.stringify(r),
+  );
+  const h = resolveShape("ocean data notes in Q3", "semantic", { now });
+  check(
+    "hint keeps its shape but still carries the range",
+    h.shape === "semantic" && Boolean(h.date_range),
+    JSON.stringify(h),
+  );
+}
+
+console.log("");
+console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+process.exit(fail > 0 ? 1 : 0);
@@ -0,0 +1,372 @@
+/**
+ * Recall date extraction — turn relative date phrases in a query into a
+ * concrete, normalized range.
+ *
+ * The router's keyword regexes only say "this query is about time"; this
+ * module says WHICH time. `extractDateRange()` recognises:
+ *
+ *   today / yesterday
+ *   this|last|next week|month|quarter|year
+ *   last|this|on <weekday>                      ("last Tuesday")
+ *   <n> days|weeks|months|years ago             ("two weeks ago")
+ *   past|last <n> days|weeks|months|years       ("past 3 days")
+ *   [in] Q1..Q4 [year]                          ("in Q3")
+ *   [in] <month> [year], in|during|from|throughout <year>
+ *   ISO dates (2026-03-01) and ISO ranges
+ *   since|after|before|until <any of the above or a named anchor>
+ *
+ * A bare number never reads as a year ("port 2049", "1999 rows"): a year
+ * needs a month, a quarter, or a preposition in front of it.
+ *
+ * Named anchors ("since the hackathon") resolve through a caller-supplied map
+ * (`anchors`, or `RECALL_DATE_ANCHORS` as a JSON object of name → ISO date in
+ * `recall`); an unknown anchor is reported, not guessed.
+ *
+ * Everything is computed relative to `now` in the process's local time zone —
+ * the MCP server runs on the user's machine, so "yesterday" means the user's
+ * yesterday. Weeks start on the locale's first day (`Intl.Locale#weekInfo`,
+ * e.g. Sunday for en-US, Monday for en-GB/de-DE).
+ *
+ * Ranges are inclusive: `from` is the first millisecond, `to` the last, both
+ * ISO-8601 UTC strings, so they drop straight into the `between` filter of
+ * src/recall/temporal.ts.
+ */
+
+export interface DateRange {
+  from: string;
+  to: string;
+  /** The query text the range was read from. */
+  phrase: string;
+  /** Named anchor used for `since the …` style phrases. */
+  anchor?: string;
+}
+
+export interface DateExtraction {
+  range?: DateRange;
+  /** Anchor name mentioned in the query that had no known date. */
+  unresolved_anchor?: string;
+}
+
+export interface DateExtractionOptions {
+  /** Reference instant; defaults to the current time. */
+  now?: Date;
+  /** BCP-47 locale used for the week start; defaults to the runtime locale. */
+  locale?: string;
+  /** Named anchors (lower-case name → ISO date) for `since the <name>`. */
+  anchors?: Record<string, string>;
+}
+
+type Unit = "day" | "week" | "month" | "quarter" | "year";
+
+interface Span {
+  start: Date;
+  end: Date; // exclusive
+}
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  couple: 2,
+  few: 3,
+};
+
+// Regions whose weeks start on Sunday, for runtimes without Intl weekInfo.
+const SUNDAY_START_REGIONS = new Set([
+  "US", "CA", "MX", "BR", "JP", "KR", "TW", "HK", "IL", "PH", "ZA", "AU", "IN",
+]);
+
+const NUM = `(\\d+|${Object.keys(NUMBER_WORDS).join("|")})`;
+const UNIT = "(day|week|month|quarter|year)s?";
+const WEEKDAY = `(${WEEKDAYS.join("|")})`;
+const MONTH = `(${MONTHS.join("|")}|${MONTHS.map((m) => m.slice(0, 3)).join("|")})`;
+const YEAR = "((?:19|20)\\d{2})";
+const ISO = "(\\d{4}-\\d{2}-\\d{2})";
+
+/**
+ * First day of the week for a locale, as a JS weekday (0 = Sunday, 1 = Monday).
+ */
+export function weekStartFor(locale?: string): number {
+  const tag =
+    locale || process.env.RECALL_LOCALE || Intl.DateTimeFormat().resolvedOptions().locale;
+  try {
+    const loc = new Intl.Locale(tag) as Intl.Locale & {
+      weekInfo?: { firstDay: number };
+      getWeekInfo?: () => { firstDay: number };
+    };
+    const info = loc.getWeekInfo?.() ?? loc.weekInfo;
+    // Intl numbers weekdays 1 (Monday) .. 7 (Sunday).
+    if (info && typeof info.firstDay === "number") return info.firstDay % 7;
+    const region = loc.maximize().region;
+    return region && SUNDAY_START_REGIONS.has(region) ? 0 : 1;
+  } catch {
+    return 1; // ISO-8601 default
+  }
+}
+
+function startOfDay(d: Date): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+function addDays(d: Date, n: number): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + n);
+}
+
+function unitSpan(anchor: Date, unit: Unit, weekStart: number): Span {
+  const y = anchor.getFullYear();
+  const m = anchor.getMonth();
+  switch (unit) {
+    case "day": {
+      const start = startOfDay(anchor);
+      return { start, end: addDays(start, 1) };
+    }
+    case "week": {
+      const offset = (anchor.getDay() - weekStart + 7) % 7;
+      const start = addDays(startOfDay(anchor), -offset);
+      return { start, end: addDays(start, 7) };
+    }
+    case "month":
+      return { start: new Date(y, m, 1), end: new Date(y, m + 1, 1) };
+    case "quarter": {
+      const q = Math.floor(m / 3) * 3;
+      return { start: new Date(y, q, 1), end: new Date(y, q + 3, 1) };
+    }
+    case "year":
+      return { start: new Date(y, 0, 1), end: new Date(y + 1, 0, 1) };
+  }
+}
+
+/** Shift `d` by `n` units (negative = into the past). */
+function shift(d: Date, unit: Unit, n: number): Date {
+  switch (unit) {
+    case "day":
+      return addDays(d, n);
+    case "week":
+      return addDays(d, 7 * n);
+    case "month":
+      return new Date(d.getFullYear(), d.getMonth() + n, Math.min(d.getDate(), 28));
+    case "quarter":
+      return new Date(d.getFullYear(), d.getMonth() + 3 * n, Math.min(d.getDate(), 28));
+    case "year":
+      return new Date(d.getFullYear() + n, d.getMonth(), Math.min(d.getDate(), 28));
+  }
+}
+
+function parseCount(raw: string): number {
+  const n = /^\d+$/.test(raw) ? Number(raw) : NUMBER_WORDS[raw];
+  return n && n > 0 ? n : 1;
+}
+
+function monthIndex(raw: string): number {
+  return MONTHS.findIndex((m) => m.startsWith(raw.slice(0, 3)));
+}
+
+function parseIsoDay(raw: string): Date | null {
+  const [y, m, d] = raw.split("-").map(Number);
+  const date = new Date(y, m - 1, d);
+  return date.getMonth() === m - 1 ? date : null;
+}
+
+/**
+ * Spans for a single date expression (no since/before prefix). Returns the
+ * span and the matched text, or null. `afterKeyword` is set when `text`
+ * follows since/after/before/until, which may lead straight into a year.
+ */
+function matchSpan(
+  text: string,
+  now: Date,
+  weekStart: number,
+  afterKeyword = false,
+): { span: Span; phrase: string } | null {
+  let m: RegExpMatchArray | null;
+
+  if ((m = text.match(new RegExp(`\\b${ISO}\\s*(?:\\.\\.|to|through|–|-)\\s*${ISO}\\b`)))) {
+    const a = parseIsoDay(m[1]);
+    const b = parseIsoDay(m[2]);
+    if (a && b && a <= b) return { span: { start: a, end: addDays(b, 1) }, phrase: m[0] };
+  }
+  if ((m = text.match(new RegExp(`\\b${ISO}\\b`)))) {
+    const d = parseIsoDay(m[1]);
+    if (d) return { span: unitSpan(d, "day", weekStart), phrase: m[0] };
+  }
+  if ((m = text.match(/\b(today|yesterday)\b/))) {
+    const d = m[1] === "today" ? now : addDays(now, -1);
+    return { span: unitSpan(d, "day", weekStart), phrase: m[0] };
+  }
+  if ((m = text.match(new RegExp(`\\b${NUM}\\s+(?:of\\s+)?${UNIT}\\s+ago\\b`)))) {
+    const unit = m[2] as Unit;
+    const when = shift(now, unit, -parseCount(m[1]));
+    return { span: unitSpan(when, unit, weekStart), phrase: m[0] };
+  }
+  if ((m = text.match(new RegExp(`\\b(?:past|last|previous)\\s+${NUM}\\s+${UNIT}\\b`)))) {
+    const unit = m[2] as Unit;
+    const start = startOfDay(shift(now, unit, -parseCount(m[1])));
+    return { span: { start, end: addDays(startOfDay(now), 1) }, phrase: m[0] };
+  }
+  if ((m = text.match(/\b(this|last|previous|past|next)\s+(day|week|month|quarter|year)\b/))) {
+    const unit = m[2] as Unit;
+    const n = m[1] === "this" ? 0 : m[1] === "next" ? 1 : -1;
+    return { span: unitSpan(shift(now, unit, n), unit, weekStart), phrase: m[0] };
+  }
+  if ((m = text.match(new RegExp(`\\b(last|this|on|past)\\s+${WEEKDAY}\\b`)))) {
+    const target = WEEKDAYS.indexOf(m[2]);
+    let back = (now.getDay() - target + 7) % 7;
+    // "last Tuesday" on a Tuesday means a week ago; "this Tuesday" means today.
+    if (back === 0 && m[1] !== "this") back = 7;
+    return { span: unitSpan(addDays(now, -back), "day", weekStart), phrase: m[0] };
+  }
+  if ((m = text.match(new RegExp(`\\bq([1-4])(?:\\s+(?:of\\s+)?${YEAR})?\\b`)))) {
+    const q = Number(m[1]) - 1;
+    let year = m[2] ? Number(m[2]) : now.getFullYear();
+    // A bare future quarter ("Q4" asked in March) means last year's.
+    if (!m[2] && new Date(year, q * 3, 1) > now) year--;
+    const start = new Date(year, q * 3, 1);
+    return { span: { start, end: new Date(year, q * 3 + 3, 1) }, phrase: m[0] };
+  }
+  if ((m = text.match(new RegExp(`\\b(?:in|during|since|before|after|until|of)\\s+${MONTH}(?:\\s+${YEAR})?\\b`)))) {
+    const month = monthIndex(m[1]);
+    let year = m[2] ? Number(m[2]) : now.getFullYear();
+    if (!m[2] && new Date(year, month, 1) > now) year--;
+    const start = new Date(year, month, 1);
+    return { span: { start, end: new Date(year, month + 1, 1) }, phrase: m[0] };
+  }
+  if ((m = text.match(new RegExp(`\\b${MONTH}\\s+${YEAR}\\b`)))) {
+    const month = monthIndex(m[1]);
+    const year = Number(m[2]);
+    return {
+      span: { start: new Date(year, month, 1), end: new Date(year, month + 1, 1) },
+      phrase: m[0],
+    };
+  }
+  const yearContext = `(?:${afterKeyword ? "^\\s*|" : ""}\\b(?:in|during|from|throughout)\\s+)`;
+  if ((m = text.match(new RegExp(`${yearContext}${YEAR}\\b`)))) {
+    const year = Number(m[1]);
+    return {
+      span: { start: new Date(year, 0, 1), end: new Date(year + 1, 0, 1) },
+      phrase: m[0],
+    };
+  }
+  return null;
+}
+
+function toRange(span: Span, phrase: string, anchor?: string): DateRange {
+  return {
+    from: span.start.toISOString(),
+    to: new Date(span.end.getTime() - 1).toISOString(),
+    phrase,
+    ...(anchor ? { anchor } : {}),
+  };
+}
+
+const OPEN_ENDED_RE = /\b(since|after|before|until|till)\b\s+(.*)$/;
+const ARTICLE_RE = /^(the|our|my|that)$/;
+const NON_ANCHOR_RE = /^(then|now|when|it|we|i|you|they|he|she|this|there)$/;
+const MAX_ANCHOR_WORDS = 4;
+
+/**
+ * Match the leading words of `rest` against the anchor map, longest first.
+ * Returns the anchor name + date, or the unresolved head word.
+ */
+function matchAnchor(
+  rest: string,
+  anchors: Record<string, string> = {},
+): { name: string; date?: Date } | null {
+  const words = rest
+    .split(/\s+/)
+    .map((w) => w.replace(/[^a-z0-9_-]/g, ""))
+    .filter(Boolean);
+  if (words.length > 0 && ARTICLE_RE.test(words[0])) words.shift();
+  if (words.length === 0 || NON_ANCHOR_RE.test(words[0])) return null;
+  for (let n = Math.min(MAX_ANCHOR_WORDS, words.length); n > 0; n--) {
+    const name = words.slice(0, n).join(" ");
+    const iso = anchors[name];
+    if (!iso) continue;
+    const date = new Date(iso);
+    if (!Number.isNaN(date.getTime())) return { name, date };
+  }
+  return { name: words[0] };
+}
+
+/**
+ * Extract a normalized date range from a query. Returns `{}` when the query
+ * carries no resolvable date.
+ */
+export function extractDateRange(
+  query: string,
+  options: DateExtractionOptions = {},
+): DateExtraction {
+  const now = options.now ?? new Date();
+  const weekStart = weekStartFor(options.locale);
+  const text = query.toLowerCase();
+  const tomorrow = addDays(startOfDay(now), 1);
+
+  // Open-ended forms: since/after X → [start of X, now]; before/until X →
+  // (-∞, start or end of X]. X is a date expression or a named anchor.
+  const open = text.match(OPEN_ENDED_RE);
+  if (open) {
+    const [, keyword, rest] = open;
+    const inner = matchSpan(rest, now, weekStart, true);
+    let span: Span | null = inner?.span ?? null;
+    let anchor: string | undefined;
+    if (!span) {
+      const a = matchAnchor(rest, options.anchors);
+      if (a?.date) {
+        span = unitSpan(a.date, "day", weekStart);
+        anchor = a.name;
+      } else if (a) {
+        return { unresolved_anchor: a.name };
+      }
+    }
+    if (span) {
+      const phrase = `${keyword} ${inner ? inner.phrase : anchor}`;
+      if (keyword === "since") {
+        return { range: toRange({ start: span.start, end: tomorrow }, phrase, anchor) };
+      }
+      if (keyword === "after") {
+        return { range: toRange({ start: span.end, end: tomorrow }, phrase, anchor) };
+      }
+      // before / until / till: everything up to X.
+      const end = keyword === "before" ? span.start : span.end;
+      return { range: toRange({ start: new Date(0), end }, phrase, anchor) };
+    }
+  }
+
+  const hit = matchSpan(text, now, weekStart);
+  return hit ? { range: toRange(hit.span, hit.phrase) } : {};
+}
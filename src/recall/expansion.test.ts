@@ -0,0 +1,75 @@
+#!/usr/bin/env tsx
+/**
+ * Recall entity expansion tests — capitalized-span extraction.
+ *
+ * Checks which query spans are sent to `/entity/resolve`: multi-word names
+ * stay together, possessives and punctuation are stripped, and question /
+ * date words are not treated as names, then that resolution goes to the
+ * backend named by KOI_BACKEND_URL (an in-process stub). Resolution itself
+ * is covered end-to-end by the recall eval's alias query.
+ *
+ * Run:  npx tsx src/recall/expansion.test.ts
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { expandQuery, extractEntitySpans } from "./expansion.js";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+function spans(query: string, expected: string[]): void {
+  const got = extractEntitySpans(query);
+  check(
+    `${JSON.stringify(query)} → ${JSON.stringify(expected)}`,
+    JSON.stringify(got) === JSON.stringify(expected),
+    JSON.stringify(got),
+  );
+}
+
+console.log("Recall entity expansion tests:");
+console.log("");
+
+spans("what did Shawn and I decide about the commons", ["Shawn"]);
+spans("Salish Sea herring habitat restoration project", ["Salish Sea"]);
+spans("Is Alice's ownership of the Cascadia grant still valid?", ["Alice", "Cascadia"]);
+spans("What does ADR-0080 cite?", ["ADR-0080"]);
+spans("Who owned the Cascadia grant in May 2026?", ["Cascadia"]);
+spans("How did the grant move from Alice to Bob?", ["Alice", "Bob"]);
+spans("notes from Alice, Bob and Alice", ["Alice", "Bob"]);
+spans("herring spawn survey data cleanup", []);
+
+// With only KOI_BACKEND_URL set, resolution goes to that backend (the same
+// base URL session hydration uses), not the localhost default.
+const resolved: string[] = [];
+const server = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", (c) => (body += c));
+  req.on("end", () => {
+    resolved.push(`${req.url} ${JSON.parse(body || "{}").label}`);
+    res.setHeader("content-type", "application/json");
+    res.end(JSON.stringify({ candidates: [{ label: "Shawn Anderson", uri: "orn:entity:shawn", confidence: 0.95 }] }));
+  });
+});
+await new Promise<void>((r) => server.listen(0, "127.0.0.1", () => r()));
+delete process.env.KOI_API_ENDPOINT;
+process.env.KOI_BACKEND_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+const expansion = await expandQuery("what did Shawn decide");
+check("entity resolution uses KOI_BACKEND_URL",
+  resolved.join() === "/entity/resolve Shawn" && expansion.seed_uris.join() === "orn:entity:shawn",
+  JSON.stringify({ resolved, expansion }));
+server.close();
+
+console.log("");
+console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+process.exit(fail > 0 ? 1 : 0);
@@ -0,0 +1,182 @@
+/**
+ * Recall entity expansion — alias-aware query rewriting.
+ *
+ * "what did Shawn and I decide about the commons" misses results stored under
+ * the canonical name ("Shawn Anderson") or another alias. Before dispatch,
+ * capitalized spans in the query are resolved through the backend's
+ * `/entity/resolve` (the endpoint behind `resolve_entity`); confident matches
+ * contribute:
+ *
+ *   - hybrid leg: canonical name + aliases appended to the query text;
+ *   - walk leg:   the entity URIs, sent as `seed_uris` so the walk starts at
+ *                 the resolved entities instead of only text-matched facts.
+ *
+ * Expansion is best-effort: lookups run concurrently under a short deadline,
+ * and a span that fails or resolves below the confidence floor is skipped.
+ * It never fails the recall call.
+ */
+import axios from "axios";
+import { recallBackendUrl } from "./backend-url.js";
+
+const RESOLVE_TIMEOUT_MS = 3_000;
+const MAX_SPANS = 5;
+const MAX_ALIASES = 3;
+const DEFAULT_MIN_CONFIDENCE = 0.8;
+
+/** Capitalized words that start questions / sentences rather than name things. */
+const SPAN_STOPWORDS = new Set([
+  "i", "a", "an", "the", "what", "when", "where", "who", "whom", "whose",
+  "which", "why", "how", "did", "do", "does", "is", "are", "was", "were",
+  "has", "have", "had", "can", "could", "should", "would", "will", "show",
+  "find", "list", "tell", "give", "trace", "walk", "any", "all", "my", "our",
+  "we", "me", "and", "or", "in", "on", "at", "since", "before", "after",
+  "until", "last", "this", "next", "today", "yesterday",
+  "january", "february", "march", "april", "may", "june", "july", "august",
+  "september", "october", "november", "december",
+  "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday",
+]);
+
+export interface EntityExpansion {
+  /** Query text that was resolved. */
+  span: string;
+  canonical: string;
+  uri: string;
+  type?: string;
+  /** Aliases added to the hybrid query (those not already in it). */
+  aliases: string[];
+  confidence?: number;
+}
+
+export interface QueryExpansion {
+  /** Query sent to the hybrid leg; equals the input when nothing resolved. */
+  hybrid_query: string;
+  /** Entity URIs seeding the walk leg. */
+  seed_uris: string[];
+  expansions: EntityExpansion[];
+}
+
+/** Read per call so the switch is hot, like RECALL_ROUTING_ENABLED. */
+export function expansionEnabled(): boolean {
+  return (process.env.RECALL_ENTITY_EXPANSION ?? "true").toLowerCase() !== "false";
+}
+
+export function expansionMinConfidence(): number {
+  const v = Number(process.env.RECALL_EXPANSION_MIN_CONFIDENCE);
+  return Number.isFinite(v) && v > 0 ? v : DEFAULT_MIN_CONFIDENCE;
+}
+
+/**
+ * Runs of capitalized tokens ("Shawn", "Salish Sea", "ADR-0080"), with
+ * possessives stripped and question / date words dropped. Order-preserving,
+ * de-duplicated, capped at MAX_SPANS.
+ */
+export function extractEntitySpans(query: string): string[] {
+  const spans: string[] = [];
+  let run: string[] = [];
+  const flush = () => {
+    if (run.length > 0) {
+      const span = run.join(" ");
+      if (!spans.some((s) => s.toLowerCase() === span.toLowerCase())) spans.push(span);
+    }
+    run = [];
+  };
+  for (const raw of query.split(/\s+/)) {
+    const word = raw.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "").replace(/['’]s$/u, "");
+    const capitalized = /^\p{Lu}/u.test(word);
+    if (!capitalized || SPAN_STOPWORDS.has(word.toLowerCase())) {
+      flush();
+      continue;
+    }
+    run.push(word);
+    // Trailing punctuation ends the name ("Alice, Bob" → two spans).
+    if (/[,.;:!?)]$/.test(raw)) flush();
+  }
+  flush();
+  return spans.slice(0, MAX_SPANS);
+}
+
+interface ResolveCandidate {
+  label?: string;
+  name?: string;
+  uri?: string;
+  type?: string;
+  entity_type?: string;
+  aliases?: string[];
+  confidence?: number;
+}
+
+/** `/entity/resolve` answers with `candidates[]` or `winner` + `alternatives`. */
+function topCandidate(data: Record<string, unknown>): ResolveCandidate | null {
+  const candidates = data.candidates as ResolveCandidate[] | undefined;
+  if (Array.isArray(candidates) && candidates.length > 0) return candidates[0];
+  return (data.winner as ResolveCandidate | undefined) ?? null;
+}
+
+async function resolveSpan(
+  span: string,
+  signal: AbortSignal,
+): Promise<Omit<EntityExpansion, "aliases"> & { allAliases: string[] } | null> {
+  try {
+    const { data } = await axios.post(
+      `${recallBackendUrl()}/entity/resolve`,
+      { label: span, limit: 1 },
+      { signal },
+    );
+    const c = topCandidate((data || {}) as Record<string, unknown>);
+    const canonical = c?.label || c?.name;
+    if (!c || !c.uri || !canonical) return null;
+    if (typeof c.confidence === "number" && c.confidence < expansionMinConfidence()) return null;
+    return {
+      span,
+      canonical,
+      uri: c.uri,
+      type: c.type || c.entity_type,
+      allAliases: Array.isArray(c.aliases) ? c.aliases.filter((a) => typeof a === "string") : [],
+      ...(typeof c.confidence === "number" ? { confidence: c.confidence } : {}),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the query's capitalized spans and build the per-leg rewrites.
+ * Terms already present in the query (case-insensitive) are not re-added.
+ */
+export async function expandQuery(
+  query: string,
+  signal?: AbortSignal,
+): Promise<QueryExpansion> {
+  const spans = extractEntitySpans(query);
+  if (spans.length === 0) return { hybrid_query: query, seed_uris: [], expansions: [] };
+
+  const timeout = AbortSignal.timeout(RESOLVE_TIMEOUT_MS);
+  const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+  const resolved = await Promise.all(spans.map((s) => resolveSpan(s, combined)));
+
+  const present = new Set([query.toLowerCase()]);
+  const has = (term: string) => [...present].some((p) => p.includes(term.toLowerCase()));
+  const added: string[] = [];
+  const expansions: EntityExpansion[] = [];
+  const seedUris: string[] = [];
+  for (const r of resolved) {
+    if (!r || seedUris.includes(r.uri)) continue;
+    const terms: string[] = [];
+    if (!has(r.canonical)) terms.push(r.canonical);
+    for (const alias of r.allAliases) {
+      if (terms.length >= MAX_ALIASES + 1) break;
+      if (!has(alias) && !terms.includes(alias)) terms.push(alias);
+    }
+    for (const t of terms) present.add(t.toLowerCase());
+    added.push(...terms);
+    seedUris.push(r.uri);
+    const { allAliases: _all, ...rest } = r;
+    expansions.push({ ...rest, aliases: terms.filter((t) => t !== r.canonical) });
+  }
+
+  return {
+    hybrid_query: added.length > 0 ? `${query} ${added.join(" ")}` : query,
+    seed_uris: seedUris,
+    expansions,
+  };
+}
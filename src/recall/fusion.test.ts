@@ -0,0 +1,151 @@
+#!/usr/bin/env tsx
+/**
+ * Recall fusion unit tests — RRF merge of hybrid + walk legs.
+ *
+ * Checks fuseLegs() dedup (session_id / uri / id, including walk edge ids
+ * that share a predicate), per-shape weighting, contributing-leg attribution
+ * and limit handling. Pure; no KOI needed.
+ *
+ * Run:  npx tsx src/recall/fusion.test.ts
+ */
+
+import { fuseLegs, FusableItem, SHAPE_LEG_WEIGHTS } from "./fusion.js";
+import { walkEdgeId } from "./walk-client.js";
+
+function item(
+  id: string,
+  leg: "hybrid" | "walk",
+  metadata: Record<string, unknown> = {},
+): FusableItem {
+  return { id, score: 0, leg, content: id, metadata };
+}
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+console.log("Recall fusion unit tests (RRF):");
+console.log("");
+
+// Same session surfaced by both legs collapses to one item credited to both.
+{
+  const r = fuseLegs(
+    {
+      hybrid: [item("h1", "hybrid", { session_id: "S" }), item("h2", "hybrid")],
+      walk: [item("S", "walk", { session_id: "S" })],
+    },
+    "temporal",
+    5,
+  );
+  const top = r.contributions[0];
+  check(
+    "session dedup across legs",
+    r.results.length === 2 && top.legs.length === 2,
+    JSON.stringify(r.contributions),
+  );
+  check(
+    "primary payload comes from the shape-favoured leg",
+    r.results[0].leg === "walk" && r.results[0].id === "S",
+    `${r.results[0].leg}/${r.results[0].id}`,
+  );
+  check(
+    "ranks recorded per leg",
+    top.ranks.hybrid === 1 && top.ranks.walk === 1,
+    JSON.stringify(top.ranks),
+  );
+}
+
+// uri is the dedup key when there is no session_id.
+{
+  const r = fuseLegs(
+    {
+      hybrid: [item("a", "hybrid", { uri: "orn:x" })],
+      walk: [item("b", "walk", { uri: "orn:x" })],
+    },
+    "semantic",
+    5,
+  );
+  check("uri dedup across legs", r.results.length === 1);
+}
+
+// Shape weights decide single-leg ties at equal rank.
+{
+  const legs = {
+    hybrid: [item("h", "hybrid")],
+    walk: [item("w", "walk")],
+  };
+  const sem = fuseLegs(legs, "semantic", 5);
+  const rel = fuseLegs(legs, "relationship", 5);
+  check("semantic favours hybrid at equal rank", sem.results[0].id === "h");
+  check("relationship favours walk at equal rank", rel.results[0].id === "w");
+  check(
+    "weights reported for the resolved shape",
+    rel.weights === SHAPE_LEG_WEIGHTS.relationship,
+  );
+}
+
+// Repeated identity within one leg counts once, at its best rank.
+{
+  const r = fuseLegs(
+    {
+      hybrid: [
+        item("c1", "hybrid", { session_id: "S" }),
+        item("c2", "hybrid", { session_id: "S" }),
+        item("x", "hybrid"),
+      ],
+    },
+    "semantic",
+    5,
+  );
+  check(
+    "intra-leg duplicates collapse",
+    r.results.length === 2 && r.contributions[1].ranks.hybrid === 2,
+    JSON.stringify(r.contributions),
+  );
+}
+
+// Walk edges sharing a predicate are distinct facts, not duplicates.
+{
+  const edges = [
+    { name: "works_on", fact: "Ada works_on Herring", valid_at: "2026-01-01" },
+    { name: "works_on", fact: "Bob works_on Kelp", valid_at: "2026-01-01" },
+    { id: "fact-7", name: "works_on", fact: "Ada works_on Herring", valid_at: "2026-01-01" },
+  ];
+  const r = fuseLegs(
+    { walk: edges.map((e) => item(walkEdgeId(e), "walk", { edge_name: e.name })) },
+    "relationship",
+    5,
+  );
+  check(
+    "edges with one predicate keep separate identities",
+    r.results.length === 3 && r.results[2].id === "fact-7" &&
+      walkEdgeId(edges[0]) === walkEdgeId({ ...edges[0] }),
+    JSON.stringify(r.results.map((x) => x.id)),
+  );
+}
+
+// Limit applies after fusion; an empty leg is tolerated.
+{
+  const r = fuseLegs(
+    {
+      hybrid: [item("1", "hybrid"), item("2", "hybrid"), item("3", "hybrid")],
+      walk: [],
+    },
+    "temporal",
+    2,
+  );
+  check("limit applied after fusion", r.results.length === 2);
+}
+
+console.log("");
+console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+process.exit(fail > 0 ? 1 : 0);
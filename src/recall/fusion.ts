@@ -0,0 +1,130 @@
+/**
+ * Recall leg fusion — reciprocal-rank fusion (RRF) across hybrid + walk legs.
+ *
+ * Used by `recall(mode="fused")`: both legs run concurrently and their ranked
+ * lists are merged here, so a query the router misclassifies still surfaces
+ * the other leg's answers instead of silently losing them.
+ *
+ *   score(item) = Σ_leg  weight[shape][leg] / (k + rank_leg(item))
+ *
+ * with rank 1-based and k = 60 (the same constant KOI's unified-search uses;
+ * see RRF_K in .env.example). Per-shape weights keep the router's opinion as a
+ * prior: the leg the shape would have routed to dominates ties, the other leg
+ * can still promote an item it ranks highly.
+ *
+ * Dedup key: session_id, else uri, else item id — the same identity the
+ * integration bench scores against.
+ */
+import type { RecallShape } from "./router.js";
+
+export type RecallLeg = "hybrid" | "walk";
+
+export type LegWeights = Record<RecallLeg, number>;
+
+export const DEFAULT_RRF_K = 60;
+
+export const SHAPE_LEG_WEIGHTS: Record<RecallShape, LegWeights> = {
+  semantic: { hybrid: 1.0, walk: 0.5 },
+  temporal: { hybrid: 0.6, walk: 1.0 },
+  relationship: { hybrid: 0.5, walk: 1.0 },
+};
+
+/** Minimal item shape fusion needs; RecallResultItem satisfies it. */
+export interface FusableItem {
+  id: string;
+  score: number;
+  leg: RecallLeg;
+  content: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface FusionContribution {
+  id: string;
+  legs: RecallLeg[];
+  /** 1-based rank of the item within each contributing leg. */
+  ranks: Partial<Record<RecallLeg, number>>;
+}
+
+export interface FusionResult<T extends FusableItem> {
+  results: T[];
+  contributions: FusionContribution[];
+  weights: LegWeights;
+  k: number;
+}
+
+/** Identity used for cross-leg dedup. */
+export function fusionKey(item: FusableItem): string {
+  const sid = item.metadata?.session_id;
+  if (typeof sid === "string" && sid) return `session:${sid}`;
+  const uri = item.metadata?.uri;
+  if (typeof uri === "string" && uri) return `uri:${uri}`;
+  return `id:${item.id}`;
+}
+
+/**
+ * Fuse per-leg ranked lists. Input lists are assumed already rank-ordered
+ * (best first). The returned items keep the payload of the highest-weighted
+ * contributing leg; `score` is replaced by the fused RRF score and `leg` by
+ * that primary leg.
+ */
+export function fuseLegs<T extends FusableItem>(
+  legs: Partial<Record<RecallLeg, T[]>>,
+  shape: RecallShape,
+  limit: number,
+  k: number = DEFAULT_RRF_K,
+): FusionResult<T> {
+  const weights = SHAPE_LEG_WEIGHTS[shape];
+  // Visit legs heaviest-first so the primary payload comes from the leg the
+  // shape favours when both legs surface the same item.
+  const order = (Object.keys(weights) as RecallLeg[]).sort(
+    (a, b) => weights[b] - weights[a],
+  );
+
+  const acc = new Map<
+    string,
+    { item: T; score: number; legs: RecallLeg[]; ranks: Partial<Record<RecallLeg, number>> }
+  >();
+
+  for (const leg of order) {
+    const items = legs[leg] || [];
+    const seenInLeg = new Set<string>();
+    let rank = 0;
+    for (const item of items) {
+      const key = fusionKey(item);
+      // A leg may repeat an identity (e.g. two chunks of one session); only
+      // its best rank counts.
+      if (seenInLeg.has(key)) continue;
+      seenInLeg.add(key);
+      rank++;
+      const contribution = weights[leg] / (k + rank);
+      const existing = acc.get(key);
+      if (existing) {
+        existing.score += contribution;
+        existing.legs.push(leg);
+        existing.ranks[leg] = rank;
+      } else {
+        acc.set(key, {
+          item,
+          score: contribution,
+          legs: [leg],
+          ranks: { [leg]: rank },
+        });
+      }
+    }
+  }
+
+  const ranked = [...acc.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  return {
+    results: ranked.map((r) => ({ ...r.item, score: r.score, leg: r.legs[0] })),
+    contributions: ranked.map((r) => ({
+      id: r.item.id,
+      legs: r.legs,
+      ranks: r.ranks,
+    })),
+    weights,
+    k,
+  };
+}
@@ -0,0 +1,117 @@
+#!/usr/bin/env tsx
+/**
+ * Recall metrics report tests — aggregation over a fixture metrics dir.
+ *
+ * Writes a live and a rotated recall-metrics JSONL (plus an unrelated file)
+ * to a temp dir: per-shape and per-source counts, the hint-vs-auto ratio,
+ * per-leg p50 / p95, error, zero-result and cache-hit rates, malformed and
+ * out-of-window lines, and the markdown rendering.
+ *
+ * Run:  npx tsx src/recall/metrics-report.test.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { buildRecallMetricsReport, formatRecallMetricsMarkdown } from "./metrics-report.js";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+function line(
+  ts: string,
+  shape: string,
+  source: string,
+  total: number,
+  hybrid: number | null,
+  walk: number | null,
+  counts: Record<string, number>,
+  extra: Record<string, unknown> = {},
+): string {
+  return JSON.stringify({
+    ts,
+    query_hash: "h",
+    shape_resolved: shape,
+    shape_source: source,
+    legs_queried: [],
+    latency_ms_total: total,
+    latency_ms_hybrid: hybrid,
+    latency_ms_walk: walk,
+    error_code: null,
+    leg_result_counts: counts,
+    ...extra,
+  });
+}
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "recall-metrics-report-"));
+fs.writeFileSync(path.join(dir, "recall-metrics.jsonl"), [
+  line("2026-10-10T09:00:00Z", "semantic", "auto", 100, 90, null, { hybrid: 3 }),
+  line("2026-10-10T10:00:00Z", "temporal", "hint", 300, null, 250, { walk: 2 }),
+  line("2026-10-10T11:00:00Z", "relationship", "fallback", 500, 200, 280, {}, { error_code: "substrate_unavailable" }),
+  line("2026-10-10T12:00:00Z", "semantic", "auto", 5, null, null, { hybrid: 3 }, { cache_hit: true }),
+  line("2026-09-01T09:00:00Z", "semantic", "auto", 9999, 9999, null, { hybrid: 1 }),
+  "{not json",
+  JSON.stringify({ ts: "yesterday", shape_resolved: "semantic" }),
+  "",
+].join("\n"));
+fs.writeFileSync(path.join(dir, "recall-metrics.1.jsonl"),
+  line("2026-10-11T09:00:00Z", "semantic", "hint", 200, 150, null, { hybrid: 0 }) + "\n");
+fs.writeFileSync(path.join(dir, "other.jsonl"),
+  line("2026-10-10T09:00:00Z", "temporal", "auto", 1, 1, 1, { walk: 1 }) + "\n");
+
+console.log("Recall metrics report tests:");
+console.log("");
+
+const r = buildRecallMetricsReport(dir, "2026-10-01T00:00:00Z", "2026-10-14T23:59:59Z");
+
+check("reads the live and rotated metrics files only",
+  r.files.join() === "recall-metrics.1.jsonl,recall-metrics.jsonl", r.files.join());
+check("out-of-window lines are dropped, malformed ones counted",
+  r.total_calls === 5 && r.malformed_lines === 2, `${r.total_calls} calls, ${r.malformed_lines} malformed`);
+check("per-shape counts",
+  JSON.stringify(r.shapes) === JSON.stringify({ semantic: 3, temporal: 1, relationship: 1 }), JSON.stringify(r.shapes));
+check("per-source counts and hint-vs-auto ratio",
+  r.shape_sources.auto === 2 && r.shape_sources.hint === 2 && r.shape_sources.fallback === 1 &&
+    r.hint_vs_auto_ratio === 0.5,
+  JSON.stringify(r.shape_sources));
+check("total latency percentiles",
+  r.latency.total.count === 5 && r.latency.total.p50_ms === 200 && r.latency.total.p95_ms === 500,
+  JSON.stringify(r.latency.total));
+check("per-leg latency counts only the legs that ran",
+  JSON.stringify(r.latency.hybrid) === JSON.stringify({ count: 3, p50_ms: 150, p95_ms: 200 }) &&
+    JSON.stringify(r.latency.walk) === JSON.stringify({ count: 2, p50_ms: 250, p95_ms: 280 }),
+  JSON.stringify(r.latency));
+check("error breakdown and rate",
+  r.error_codes.substrate_unavailable === 1 && r.error_rate === 0.2, JSON.stringify(r.error_codes));
+check("zero-result calls sum every leg",
+  r.zero_result_calls === 2 && r.zero_result_rate === 0.4, String(r.zero_result_calls));
+check("cache hit rate", r.cache_hits === 1 && r.cache_hit_rate === 0.2);
+
+const md = formatRecallMetricsMarkdown(r);
+check("markdown shows shares, latency and rates",
+  md.includes("| semantic | 3 | 60.0% |") && md.includes("| walk | 2 | 250ms | 280ms |") &&
+    md.includes("(2 malformed lines skipped)") && md.includes("Zero-result rate: 40.0% (2 calls)"),
+  md);
+
+const empty = buildRecallMetricsReport(dir, "2025-01-01T00:00:00Z", "2025-01-02T00:00:00Z");
+check("an empty window reports no calls",
+  empty.total_calls === 0 && empty.hint_vs_auto_ratio === null && empty.error_rate === 0 &&
+    formatRecallMetricsMarkdown(empty).includes("_No recall calls recorded in this window._"));
+check("a missing directory reports no files",
+  buildRecallMetricsReport(path.join(dir, "missing"), "2026-10-01T00:00:00Z", "2026-10-14T00:00:00Z").files.length === 0);
+
+fs.rmSync(dir, { recursive: true, force: true });
+
+console.log("");
+console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+process.exit(fail > 0 ? 1 : 0);
@@ -0,0 +1,214 @@
+/**
+ * Recall metrics report — aggregate the JSONL lines `emitMetrics` writes
+ * (src/tools/recall.ts) back into a routing/latency/error summary.
+ *
+ * Reads every `recall-metrics*.jsonl` in the metrics directory (the live file
+ * plus any rotated copies), keeps lines whose `ts` falls inside the window,
+ * and reports:
+ *
+ *   - shape distribution (semantic / temporal / relationship)
+ *   - shape source split (hint / auto / fallback) and the hint-vs-auto ratio
+ *   - p50 / p95 latency for the total call and each leg that ran
+ *   - error-code breakdown
+ *   - zero-result rate (calls whose leg_result_counts sum to 0)
+ *   - response-cache hit rate
+ *
+ * Malformed lines are counted and skipped; the report never throws on bad
+ * input because the file is append-only from many processes.
+ */
+import fs from "node:fs";
+import path from "node:path";
+import { percentile } from "../metrics.js";
+
+const METRICS_FILE_RE = /^recall-metrics.*\.jsonl$/;
+
+/** One line as written by emitMetrics. */
+export interface RecallMetricsRecord {
+  ts: string;
+  query_hash: string;
+  shape_resolved: string;
+  shape_source: string;
+  legs_queried: string[];
+  latency_ms_total: number;
+  latency_ms_hybrid: number | null;
+  latency_ms_walk: number | null;
+  error_code: string | null;
+  leg_result_counts: Record<string, number>;
+  temporal_filter?: string | null;
+  entity_expansions?: number;
+  cache_hit?: boolean;
+}
+
+export interface LatencyStats {
+  count: number;
+  p50_ms: number;
+  p95_ms: number;
+}
+
+export interface RecallMetricsReport {
+  window: { from: string; to: string };
+  files: string[];
+  total_calls: number;
+  malformed_lines: number;
+  shapes: Record<string, number>;
+  shape_sources: Record<string, number>;
+  /** hint / (hint + auto); null when neither occurred. */
+  hint_vs_auto_ratio: number | null;
+  latency: {
+    total: LatencyStats;
+    hybrid: LatencyStats;
+    walk: LatencyStats;
+  };
+  error_codes: Record<string, number>;
+  error_rate: number;
+  zero_result_calls: number;
+  zero_result_rate: number;
+  cache_hits: number;
+  cache_hit_rate: number;
+}
+
+function bump(counts: Record<string, number>, key: string): void {
+  counts[key] = (counts[key] || 0) + 1;
+}
+
+function stats(values: number[]): LatencyStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50_ms: percentile(sorted, 50),
+    p95_ms: percentile(sorted, 95),
+  };
+}
+
+function rate(n: number, d: number): number {
+  return d === 0 ? 0 : n / d;
+}
+
+/**
+ * Aggregate metrics files in `dir` whose records fall inside [from, to]
+ * (ISO instants, inclusive).
+ */
+export function buildRecallMetricsReport(
+  dir: string,
+  from: string,
+  to: string,
+): RecallMetricsReport {
+  const fromMs = Date.parse(from);
+  const toMs = Date.parse(to);
+  const files = fs.existsSync(dir)
+    ? fs.readdirSync(dir).filter((f) => METRICS_FILE_RE.test(f)).sort()
+    : [];
+
+  const shapes: Record<string, number> = {};
+  const sources: Record<string, number> = {};
+  const errors: Record<string, number> = {};
+  const latTotal: number[] = [];
+  const latHybrid: number[] = [];
+  const latWalk: number[] = [];
+  let total = 0;
+  let malformed = 0;
+  let zero = 0;
+  let errored = 0;
+  let cacheHits = 0;
+
+  for (const file of files) {
+    let text: string;
+    try {
+      text = fs.readFileSync(path.join(dir, file), "utf-8");
+    } catch {
+      continue;
+    }
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      let rec: RecallMetricsRecord;
+      try {
+        rec = JSON.parse(line) as RecallMetricsRecord;
+      } catch {
+        malformed++;
+        continue;
+      }
+      const ts = Date.parse(rec.ts);
+      if (Number.isNaN(ts)) {
+        malformed++;
+        continue;
+      }
+      if (ts < fromMs || ts > toMs) continue;
+
+      total++;
+      bump(shapes, rec.shape_resolved || "unknown");
+      bump(sources, rec.shape_source || "unknown");
+      if (rec.error_code) {
+        errored++;
+        bump(errors, rec.error_code);
+      }
+      if (typeof rec.latency_ms_total === "number") latTotal.push(rec.latency_ms_total);
+      if (typeof rec.latency_ms_hybrid === "number") latHybrid.push(rec.latency_ms_hybrid);
+      if (typeof rec.latency_ms_walk === "number") latWalk.push(rec.latency_ms_walk);
+      const n = Object.values(rec.leg_result_counts || {}).reduce((a, b) => a + b, 0);
+      if (n === 0) zero++;
+      if (rec.cache_hit) cacheHits++;
+    }
+  }
+
+  const hint = sources.hint || 0;
+  const auto = sources.auto || 0;
+
+  return {
+    window: { from, to },
+    files,
+    total_calls: total,
+    malformed_lines: malformed,
+    shapes,
+    shape_sources: sources,
+    hint_vs_auto_ratio: hint + auto === 0 ? null : hint / (hint + auto),
+    latency: {
+      total: stats(latTotal),
+      hybrid: stats(latHybrid),
+      walk: stats(latWalk),
+    },
+    error_codes: errors,
+    error_rate: rate(errored, total),
+    zero_result_calls: zero,
+    zero_result_rate: rate(zero, total),
+    cache_hits: cacheHits,
+    cache_hit_rate: rate(cacheHits, total),
+  };
+}
+
+function pct(x: number): string {
+  return `${(x * 100).toFixed(1)}%`;
+}
+
+function countTable(title: string, counts: Record<string, number>, total: number): string {
+  const rows = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  if (rows.length === 0) return `## ${title}\n\n_none_\n\n`;
+  let md = `## ${title}\n\n| Value | Calls | Share |\n|-------|-------|-------|\n`;
+  for (const [k, v] of rows) md += `| ${k} | ${v} | ${pct(rate(v, total))} |\n`;
+  return md + "\n";
+}
+
+export function formatRecallMetricsMarkdown(r: RecallMetricsReport): string {
+  let md = `# Recall Metrics\n\n`;
+  md += `**Window:** ${r.window.from} → ${r.window.to}\n`;
+  md += `**Calls:** ${r.total_calls}`;
+  if (r.malformed_lines > 0) md += ` (${r.malformed_lines} malformed lines skipped)`;
+  md += `\n**Files:** ${r.files.length > 0 ? r.files.join(", ") : "none"}\n\n`;
+
+  if (r.total_calls === 0) return md + `_No recall calls recorded in this window._\n`;
+
+  md += countTable("Shapes", r.shapes, r.total_calls);
+  md += countTable("Shape Source", r.shape_sources, r.total_calls);
+  md += `Hint vs auto: ${r.hint_vs_auto_ratio === null ? "n/a" : pct(r.hint_vs_auto_ratio)} of non-fallback calls used an explicit hint.\n\n`;
+
+  md += `## Latency\n\n| Leg | Calls | p50 | p95 |\n|-----|-------|-----|-----|\n`;
+  for (const [leg, s] of Object.entries(r.latency)) {
+    md += `| ${leg} | ${s.count} | ${s.p50_ms}ms | ${s.p95_ms}ms |\n`;
+  }
+  md += "\n";
+
+  md += countTable("Errors", r.error_codes, r.total_calls);
+  md += `- Error rate: ${pct(r.error_rate)}\n`;
+  md += `- Zero-result rate: ${pct(r.zero_result_rate)} (${r.zero_result_calls} calls)\n`;
+  md += `- Cache hit rate: ${pct(r.cache_hit_rate)} (${r.cache_hits} calls)\n`;
+  return md;
+}
@@ -0,0 +1,79 @@
+/**
+ * Recall router replay cases — shared by router.test.ts and the candidate
+ * rule-file check in router.ts (`checkRuleSet`), so a rule file is held to
+ * the same bar as the built-in heuristic before it is activated.
+ *
+ * Bench cases are the 5 POC bench queries (per
+ * `~/projects/spore/tmp/session-recall-bench-queries-poc-2026-04-28.yaml`);
+ * plan AC8 requires ≥4 of 5 correct. Override cases exercise the A1 hint leg
+ * and its fall-through to the heuristic.
+ */
+import type { RecallShape } from "./router.js";
+
+export interface RouterCase {
+  id: string;
+  query: string;
+  expected: RecallShape;
+  source?: string;
+}
+
+export interface RouterOverrideCase {
+  hint: string;
+  query: string;
+  expected: RecallShape;
+}
+
+/** AC8: minimum bench cases a rule set must classify correctly. */
+export const ROUTER_BENCH_MIN_PASS = 4;
+
+export const ROUTER_BENCH_CASES: RouterCase[] = [
+  // POC bench queries (5; align with session-recall-bench-queries-poc-2026-04-28.yaml)
+  {
+    id: "q01",
+    query:
+      "ADR-0080 admission F2 translation-mapping-governance defer-with-triggers",
+    expected: "semantic",
+    source: "POC bench q01 (control)",
+  },
+  {
+    id: "q06",
+    query: "canon-review v1 wiki intake retrospective",
+    expected: "semantic",
+    source: "POC bench q06 (control)",
+  },
+  {
+    id: "q08",
+    query: "When did F2 transition from candidate to decline-with-triggers?",
+    expected: "temporal",
+    source: "POC bench q08",
+  },
+  {
+    id: "q09",
+    query: "Has ADR-0044 been superseded?",
+    expected: "temporal",
+    // q09's "Has X been superseded?" reads as temporal in colloquial usage —
+    // but our heuristic puts "supersede" in the relationship verbs list because
+    // ADR-supersession is graph-shaped (chain of replacements). The actual bench
+    // result for q09 was best served by Graphiti (B3 was 1.0 vs B2 0.0); both
+    // "temporal" and "relationship" route through Graphiti so practical
+    // dispatch is identical. Per AC8's ≤1 misclassification budget, accepting
+    // either as a "router hit" if the dispatch target matches; bench harness
+    // already proves Graphiti is the correct backend regardless of which label.
+    source: "POC bench q09 (test temporal)",
+  },
+  {
+    id: "q11",
+    query:
+      "What Agent-tool dispatches occurred during the canon-rebuild Phase 4 work, and what ADRs did each produce?",
+    expected: "relationship",
+    source: "POC bench q11",
+  },
+];
+
+export const ROUTER_OVERRIDE_CASES: RouterOverrideCase[] = [
+  { hint: "temporal", query: "x", expected: "temporal" },
+  { hint: "semantic", query: "When did F2 transition?", expected: "semantic" }, // hint overrides heuristic
+  { hint: "relationship", query: "x", expected: "relationship" },
+  { hint: "auto", query: "When did F2 transition?", expected: "temporal" }, // "auto" → falls through to heuristic
+  { hint: "garbage", query: "x", expected: "semantic" }, // invalid hint → fall through, default semantic
+];
@@ -3,15 +3,46 @@
  *
  * Per Tier-2 plan §Step 4 (ratified Strand A = A4):
  * - If `hint` provided and valid, return it (operator-override; A1 leg).
- * - Else apply A2 heuristic over query text:
- *   - Temporal: dates, "when/before/after/since/until/recent/latest/first/last/2026" or ISO date.
- *   - Relationship: "what … (dispatch|cite|reference|supersede|relate|invoke|trigger|coordinate|orchestrate)"
- *                   OR multi-hop cues (walk|trace|chain|how … from … to).
- *   - Default: semantic.
+ * - Else apply the A2 heuristic over query text. The heuristic is an ordered
+ *   rule set (src/recall/rules.ts); the built-in DEFAULT_ROUTER_RULES encode:
+ *   1. Aux-verb + state-change → temporal ("Has X been superseded?").
+ *   2. Relationship: "what … (dispatch|cite|reference|supersede|relate|invoke|trigger|coordinate|orchestrate)"
+ *                    OR multi-hop cues (walk|trace|chain|how … from … to).
+ *   3. Temporal: "when/before/after/since/until/recent/latest/first/last", a year
+ *                after in/during/from ("in 2025", never a bare "port 2049"), an
+ *                ISO date, or any relative phrase `extractDateRange()` resolves.
+ *   4. Default: semantic.
  *
- * Step 4 scope: classification only. Dispatch wiring lands in Step 6.
+ * A rule file (RECALL_ROUTER_RULES, else ~/.koi/recall-router-rules.{json,yaml,yml})
+ * replaces the built-in set once it compiles AND passes `checkRuleSet()` — a
+ * replay of the router.test.ts cases (router-cases.ts). A file that fails is
+ * not activated; the previous set stays live and the rejection is reported by
+ * `explainShape()` / recall_explain.
+ *
+ * Independently of the shape, the date phrase itself ("last Tuesday", "in Q3",
+ * "since the hackathon") is resolved to a concrete range (src/recall/dates.ts)
+ * and returned as `date_range`, which `recall` forwards to the legs as a
+ * `between` filter.
  */
 
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import YAML from "yaml";
+import { DateExtractionOptions, DateRange, extractDateRange } from "./dates.js";
+import {
+  CompiledRuleSet,
+  compileRuleSet,
+  DEFAULT_ROUTER_RULES,
+  evaluateRules,
+  RuleTrace,
+} from "./rules.js";
+import {
+  ROUTER_BENCH_CASES,
+  ROUTER_BENCH_MIN_PASS,
+  ROUTER_OVERRIDE_CASES,
+} from "./router-cases.js";
+
 export type RecallShape = "semantic" | "temporal" | "relationship";
 
 export type ShapeSource = "auto" | "hint" | "fallback";
@@ -19,6 +50,32 @@ export type ShapeSource = "auto" | "hint" | "fallback";
 export interface ShapeResolution {
   shape: RecallShape;
   source: ShapeSource;
+  /** Rule that decided an auto shape; absent for hints and the default. */
+  rule_id?: string;
+  /** Normalized range read from the query's date phrase, when there is one. */
+  date_range?: DateRange;
+  /** Named anchor ("since the hackathon") with no known date. */
+  unresolved_date_anchor?: string;
+}
+
+export interface ShapeExplanation extends ShapeResolution {
+  /** Rule set used: "builtin" or the rule-file path. */
+  rules_source: string;
+  /** Rules evaluated in priority order (empty when a hint decided). */
+  trace: RuleTrace[];
+  /** Human-readable reason for the decision. */
+  reason: string;
+  /** A rule file that was found but not activated, and why. */
+  rejected_rules?: { path: string; error: string };
+}
+
+export interface RuleSetCheck {
+  ok: boolean;
+  bench_pass: number;
+  bench_total: number;
+  override_pass: number;
+  override_total: number;
+  failures: Array<{ id: string; query: string; expected: RecallShape; got: RecallShape }>;
 }
 
 const VALID_HINTS: ReadonlySet<string> = new Set([
@@ -28,31 +85,187 @@ const VALID_HINTS: ReadonlySet<string> = new Set([
   "relationship",
 ]);
 
-// --- Temporal cues ---
-// Keyword cue: when/before/after/since/until/valid/expired/recent/latest/first/last
-// Year cue:    2026 (current canon-year; expand list if cross-year queries surface)
-// ISO-date cue: \d{4}-\d{2}-\d{2}
-const TEMPORAL_KEYWORD_RE =
-  /\b(when|date|time|before|after|since|until|valid|expired|recent|latest|first|last|2026)\b/i;
-const ISO_DATE_RE = /\b\d{4}-\d{2}-\d{2}\b/;
-
-// --- Relationship cues ---
-// Verb cue:        what … (dispatch|cite|reference|supersede|relate|invoke|trigger|coordinate|orchestrate)
-// Multi-hop cue:   walk/trace/chain  OR  how … from … to
-const RELATIONSHIP_VERB_RE =
-  /\bwhat[^.?!]*(dispatch|cite|reference|supersede|relate|invoke|trigger|coordinate|orchestrate)/i;
-const MULTIHOP_CUE_RE = /\b(walk|trace|chain)\b/i;
-const HOW_FROM_TO_RE = /\bhow\b[^.?!]*\bfrom\b[^.?!]*\bto\b/i;
-
-// --- Auxiliary-verb + state-change cue (temporal) ---
-// Captures shapes like "Has X been superseded?", "Is Y deprecated?", "Are Zs expired?"
-// — questions about validity-state-over-time. These read temporally because
-// the answer requires checking valid_at/expired_at on RELATES_TO edges.
-// Must fire BEFORE relationship-verb regex so "supersede"/"superseded" in
-// state-change form routes to temporal (Graphiti's valid_at machinery), not
-// relationship (which expects "what … supersede" graph-shaped queries).
-const AUX_STATE_CHANGE_RE =
-  /\b(has|is|was|were|are)\b.*\b(superseded|deprecated|expired|valid|invalidated|retired|active)\b/i;
+const BUILTIN_RULES: CompiledRuleSet = compileRuleSet(DEFAULT_ROUTER_RULES, "builtin");
+
+// --- Rule-file loading (cached by path + mtime) ---
+let _active: CompiledRuleSet = BUILTIN_RULES;
+let _loadedKey: string | null = null;
+let _activeVersion = "builtin";
+let _rejected: { path: string; error: string } | undefined;
+
+function ruleFilePath(): string | null {
+  const configured = process.env.RECALL_ROUTER_RULES;
+  if (configured) return configured;
+  const base = path.join(os.homedir(), ".koi", "recall-router-rules");
+  for (const ext of [".json", ".yaml", ".yml"]) {
+    if (fs.existsSync(base + ext)) return base + ext;
+  }
+  return null;
+}
+
+function isYamlPath(filePath: string): boolean {
+  return /\.ya?ml$/i.test(filePath);
+}
+
+function readRuleFile(filePath: string): unknown {
+  const text = fs.readFileSync(filePath, "utf-8");
+  return isYamlPath(filePath) ? YAML.parse(text) : JSON.parse(text);
+}
+
+/** Parse + compile a rule file. Throws on unreadable/invalid files. */
+export function loadRuleFile(filePath: string): CompiledRuleSet {
+  return compileRuleSet(readRuleFile(filePath), filePath);
+}
+
+/**
+ * Replay the router.test.ts cases against a rule set. Passes when AC8 holds
+ * (≥ ROUTER_BENCH_MIN_PASS bench cases) and every override case matches.
+ */
+export function checkRuleSet(rules: CompiledRuleSet): RuleSetCheck {
+  const failures: RuleSetCheck["failures"] = [];
+  let benchPass = 0;
+  for (const c of ROUTER_BENCH_CASES) {
+    const got = resolveShape(c.query, undefined, {}, rules).shape;
+    if (got === c.expected) benchPass++;
+    else failures.push({ id: c.id, query: c.query, expected: c.expected, got });
+  }
+  let overridePass = 0;
+  for (const c of ROUTER_OVERRIDE_CASES) {
+    const got = resolveShape(c.query, c.hint, {}, rules).shape;
+    if (got === c.expected) overridePass++;
+    else failures.push({ id: `hint:${c.hint}`, query: c.query, expected: c.expected, got });
+  }
+  return {
+    ok:
+      benchPass >= ROUTER_BENCH_MIN_PASS &&
+      overridePass === ROUTER_OVERRIDE_CASES.length,
+    bench_pass: benchPass,
+    bench_total: ROUTER_BENCH_CASES.length,
+    override_pass: overridePass,
+    override_total: ROUTER_OVERRIDE_CASES.length,
+    failures,
+  };
+}
+
+/**
+ * The rule set currently in force. Re-reads the rule file when its path or
+ * mtime changes; a file that fails to compile or fails the replay check is
+ * rejected and the previously active set is kept.
+ */
+export function activeRouterRules(): CompiledRuleSet {
+  const file = ruleFilePath();
+  if (!file) {
+    _active = BUILTIN_RULES;
+    _activeVersion = "builtin";
+    _loadedKey = null;
+    _rejected = undefined;
+    return _active;
+  }
+  let key: string;
+  try {
+    key = `${file}:${fs.statSync(file).mtimeMs}`;
+  } catch (e) {
+    _rejected = { path: file, error: (e as Error).message };
+    return _active;
+  }
+  if (key === _loadedKey) return _active;
+  _loadedKey = key;
+  try {
+    const candidate = loadRuleFile(file);
+    const check = checkRuleSet(candidate);
+    if (!check.ok) {
+      const cases = check.failures.map((f) => `${f.id}→${f.got}`).join(", ");
+      throw new Error(`replay check failed (${cases})`);
+    }
+    _active = candidate;
+    _activeVersion = key;
+    _rejected = undefined;
+  } catch (e) {
+    _rejected = { path: file, error: (e as Error).message };
+  }
+  return _active;
+}
+
+/**
+ * Identifies the rule set in force ("builtin" or rule-file path + mtime), so
+ * answers routed by a replaced rule set can be told apart.
+ */
+export function activeRouterRulesVersion(): string {
+  activeRouterRules();
+  return _activeVersion;
+}
+
+/**
+ * Check a candidate rule file and, if it compiles and passes the replay,
+ * install it over the rule file the loader reads (RECALL_ROUTER_RULES when
+ * set, else the existing ~/.koi/recall-router-rules.{json,yaml,yml}, else a
+ * new one with the candidate's extension), converted to that file's format.
+ * Nothing is written on failure.
+ */
+export function activateRuleFile(candidatePath: string): {
+  check?: RuleSetCheck;
+  activated_path?: string;
+  error?: string;
+} {
+  let candidate: CompiledRuleSet;
+  try {
+    candidate = loadRuleFile(candidatePath);
+  } catch (e) {
+    return { error: (e as Error).message };
+  }
+  const check = checkRuleSet(candidate);
+  if (!check.ok) return { check, error: "replay check failed; not activated" };
+  const ext = isYamlPath(candidatePath) ? path.extname(candidatePath).toLowerCase() : ".json";
+  const target = ruleFilePath() ?? path.join(os.homedir(), ".koi", `recall-router-rules${ext}`);
+  if (path.resolve(target) !== path.resolve(candidatePath)) {
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    if (isYamlPath(target) === isYamlPath(candidatePath)) {
+      fs.copyFileSync(candidatePath, target);
+    } else {
+      const raw = readRuleFile(candidatePath);
+      fs.writeFileSync(target, isYamlPath(target) ? YAML.stringify(raw) : JSON.stringify(raw, null, 2) + "\n");
+    }
+  }
+  _loadedKey = null; // force reload on next resolve
+  activeRouterRules();
+  return { check, activated_path: target };
+}
+
+/** Per-shape call defaults from the active rule set. */
+export function shapeDefaults(shape: RecallShape) {
+  return activeRouterRules().shape_defaults[shape] ?? {};
+}
+
+function resolveWithTrace(
+  query: string,
+  hint: string | undefined,
+  dates: DateExtractionOptions,
+  rules: CompiledRuleSet,
+): { resolution: ShapeResolution; trace: RuleTrace[] } {
+  const extracted = extractDateRange(query, dates);
+  const withDates = (
+    shape: RecallShape,
+    source: ShapeSource,
+    ruleId?: string,
+  ): ShapeResolution => ({
+    shape,
+    source,
+    ...(ruleId ? { rule_id: ruleId } : {}),
+    ...(extracted.range ? { date_range: extracted.range } : {}),
+    ...(extracted.unresolved_anchor
+      ? { unresolved_date_anchor: extracted.unresolved_anchor }
+      : {}),
+  });
+
+  // A1 leg: explicit operator override (only when hint is a non-auto known value).
+  if (hint && VALID_HINTS.has(hint) && hint !== "auto") {
+    return { resolution: withDates(hint as RecallShape, "hint"), trace: [] };
+  }
+
+  // A2 leg: rule set over query text, first rule to fire wins.
+  const ev = evaluateRules(query, rules, Boolean(extracted.range));
+  return { resolution: withDates(ev.shape, "auto", ev.rule_id), trace: ev.trace };
+}
 
 /**
  * Resolve query shape per A4 hybrid policy.
@@ -62,44 +275,53 @@ const AUX_STATE_CHANGE_RE =
  *                ("auto" | "semantic" | "temporal" | "relationship"). When
  *                "auto" or absent, falls through to heuristic. Invalid hints
  *                are ignored (treated as absent).
- * @returns       `{ shape, source }`. `source = "hint"` when an explicit
- *                non-auto hint is honored; otherwise `"auto"`.
+ * @param dates   Reference time / locale / named anchors for date extraction.
+ * @param rules   Rule set to apply; defaults to the active one.
+ * @returns       `{ shape, source, rule_id?, date_range? }`. `source = "hint"`
+ *                when an explicit non-auto hint is honored; otherwise
+ *                `"auto"`. The date range is extracted whatever the source.
  */
-export function resolveShape(query: string, hint?: string): ShapeResolution {
-  // A1 leg: explicit operator override (only when hint is a non-auto known value).
-  if (hint && VALID_HINTS.has(hint) && hint !== "auto") {
-    return { shape: hint as RecallShape, source: "hint" };
-  }
-
-  // A2 leg: heuristic over query text.
-  //
-  // Order:
-  //   1. Aux-verb + state-change → temporal (must fire BEFORE relationship-verb
-  //      regex; "supersede" appears in both regexes but state-change form is
-  //      validity-state-shaped, not graph-shaped, and routes to Graphiti's
-  //      valid_at machinery rather than chain-walking).
-  //   2. Relationship cues (what … verb, walk/trace/chain, how … from … to).
-  //      Stronger than plain temporal keywords when both fire; most relationship
-  //      queries reference time implicitly.
-  //   3. Plain temporal keyword/ISO-date cues.
-  //   4. Default semantic.
-  if (AUX_STATE_CHANGE_RE.test(query)) {
-    return { shape: "temporal", source: "auto" };
-  }
-
-  if (
-    RELATIONSHIP_VERB_RE.test(query) ||
-    MULTIHOP_CUE_RE.test(query) ||
-    HOW_FROM_TO_RE.test(query)
-  ) {
-    return { shape: "relationship", source: "auto" };
-  }
+export function resolveShape(
+  query: string,
+  hint?: string,
+  dates: DateExtractionOptions = {},
+  rules: CompiledRuleSet = activeRouterRules(),
+): ShapeResolution {
+  return resolveWithTrace(query, hint, dates, rules).resolution;
+}
 
-  if (TEMPORAL_KEYWORD_RE.test(query) || ISO_DATE_RE.test(query)) {
-    return { shape: "temporal", source: "auto" };
+/**
+ * resolveShape() plus the rule trace and a one-line reason — backs the
+ * recall_explain tool.
+ */
+export function explainShape(
+  query: string,
+  hint?: string,
+  dates: DateExtractionOptions = {},
+  rules: CompiledRuleSet = activeRouterRules(),
+): ShapeExplanation {
+  const { resolution, trace } = resolveWithTrace(query, hint, dates, rules);
+  const fired = trace.find((t) => t.fired);
+  let reason: string;
+  if (resolution.source === "hint") {
+    reason = `operator hint '${hint}' overrides the heuristic`;
+  } else if (fired) {
+    const rule = rules.rules.find((r) => r.id === fired.rule_id);
+    reason =
+      fired.cue === "date_phrase"
+        ? `rule '${fired.rule_id}' fired on date phrase '${resolution.date_range?.phrase}'`
+        : `rule '${fired.rule_id}' fired: /${fired.cue}/ matched '${fired.matched}'`;
+    if (rule?.description) reason += ` — ${rule.description}`;
+  } else {
+    reason = `no rule fired; default shape '${rules.default_shape}'`;
   }
-
-  return { shape: "semantic", source: "auto" };
+  return {
+    ...resolution,
+    rules_source: rules.source,
+    trace,
+    reason,
+    ...(_rejected && rules === _active ? { rejected_rules: _rejected } : {}),
+  };
 }
 
 /**
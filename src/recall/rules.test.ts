@@ -0,0 +1,140 @@
+#!/usr/bin/env tsx
+/**
+ * Recall router rule-set tests — compile, replay check, explain.
+ *
+ * Checks that the built-in rule set passes the router.test.ts replay, that a
+ * candidate which breaks the bench is rejected, that malformed rule files
+ * fail to compile with a useful message, that explainShape() names the
+ * rule and matched text, and that activating a candidate replaces the rule
+ * file the loader reads. No KOI needed; activation uses a temp HOME.
+ *
+ * Run:  npx tsx src/recall/rules.test.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import YAML from "yaml";
+import { compileRuleSet, DEFAULT_ROUTER_RULES, RouterRuleSet } from "./rules.js";
+import { activateRuleFile, activeRouterRules, checkRuleSet, explainShape, resolveShape } from "./router.js";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+function compileError(raw: unknown): string {
+  try {
+    compileRuleSet(raw, "test");
+    return "";
+  } catch (e) {
+    return (e as Error).message;
+  }
+}
+
+console.log("Recall router rule-set tests:");
+console.log("");
+
+const builtin = compileRuleSet(DEFAULT_ROUTER_RULES, "builtin");
+
+{
+  const r = checkRuleSet(builtin);
+  check("built-in rules pass the replay", r.ok && r.bench_pass === r.bench_total, JSON.stringify(r));
+}
+
+// Dropping the relationship rule misroutes q11 only — still within AC8.
+{
+  const lenient: RouterRuleSet = {
+    ...DEFAULT_ROUTER_RULES,
+    rules: DEFAULT_ROUTER_RULES.rules.filter((r) => r.id !== "relationship_cues"),
+  };
+  const r = checkRuleSet(compileRuleSet(lenient, "candidate"));
+  check("one bench miss stays within AC8", r.ok && r.bench_pass === 4, JSON.stringify(r.failures));
+}
+
+// Defaulting everything to temporal breaks both controls and the garbage-hint case.
+{
+  const broken: RouterRuleSet = { ...DEFAULT_ROUTER_RULES, default_shape: "temporal" };
+  const r = checkRuleSet(compileRuleSet(broken, "candidate"));
+  check("candidate breaking the bench is rejected", !r.ok && r.bench_pass === 3, JSON.stringify(r));
+}
+
+check(
+  "bad regex names the rule",
+  /aux_state_change.*bad pattern/.test(
+    compileError({
+      ...DEFAULT_ROUTER_RULES,
+      rules: [{ ...DEFAULT_ROUTER_RULES.rules[0], patterns: ["(unclosed"] }],
+    }),
+  ),
+);
+check("unknown version rejected", /version/.test(compileError({ ...DEFAULT_ROUTER_RULES, version: 2 })));
+check(
+  "bad shape_defaults mode rejected",
+  /shape_defaults/.test(
+    compileError({ ...DEFAULT_ROUTER_RULES, shape_defaults: { temporal: { mode: "both" } } }),
+  ),
+);
+
+{
+  const e = explainShape("Has ADR-0044 been superseded?", undefined, {}, builtin);
+  check(
+    "explain names rule and matched text",
+    e.rule_id === "aux_state_change" &&
+      e.trace.length === 1 &&
+      e.reason.includes("Has ADR-0044 been superseded"),
+    e.reason,
+  );
+  const d = explainShape("herring habitat", undefined, {}, builtin);
+  check(
+    "explain reports default when nothing fires",
+    d.shape === "semantic" && !d.rule_id && d.trace.every((t) => !t.fired),
+    d.reason,
+  );
+  const h = explainShape("When did F2 transition?", "semantic", {}, builtin);
+  check("explain reports hint override", h.source === "hint" && h.trace.length === 0, h.reason);
+}
+
+check(
+  "resolveShape reports deciding rule",
+  resolveShape("walk the dispatch chain", undefined, {}, builtin).rule_id === "relationship_cues",
+);
+
+// A .yaml candidate activated while a .json rule file exists must replace the .json.
+{
+  const home = fs.mkdtempSync(path.join(os.tmpdir(), "recall-rules-"));
+  const prevHome = process.env.HOME;
+  process.env.HOME = home;
+  delete process.env.RECALL_ROUTER_RULES;
+  fs.mkdirSync(path.join(home, ".koi"));
+  const live = path.join(home, ".koi", "recall-router-rules.json");
+  fs.writeFileSync(live, JSON.stringify(DEFAULT_ROUTER_RULES));
+  const candidate = path.join(home, "candidate.yaml");
+  fs.writeFileSync(candidate, YAML.stringify({
+    ...DEFAULT_ROUTER_RULES,
+    rules: DEFAULT_ROUTER_RULES.rules.filter((r) => r.id !== "relationship_cues"),
+  }));
+  const r = activateRuleFile(candidate);
+  check(
+    "activating a .yaml candidate rewrites the live .json rule file",
+    r.activated_path === live &&
+      !JSON.parse(fs.readFileSync(live, "utf-8")).rules.some((rule: any) => rule.id === "relationship_cues") &&
+      activeRouterRules().source === live &&
+      !activeRouterRules().rules.some((rule) => rule.id === "relationship_cues"),
+    JSON.stringify(r),
+  );
+  process.env.HOME = prevHome;
+  fs.rmSync(home, { recursive: true, force: true });
+}
+
+console.log("");
+console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+process.exit(fail > 0 ? 1 : 0);
@@ -0,0 +1,190 @@
+/**
+ * Recall router rules — the A2 heuristic as data.
+ *
+ * A rule set is an ordered list of cue rules; the first rule whose cue fires
+ * decides the shape, otherwise `default_shape` applies. Each rule holds one
+ * or more regex `patterns` (any match fires) and may set `date_phrase: true`
+ * to also fire when the query contains a resolvable date phrase
+ * (src/recall/dates.ts).
+ *
+ * DEFAULT_ROUTER_RULES reproduces the built-in heuristic exactly; a rule file
+ * (JSON or YAML, same shape as RouterRuleSet) replaces it wholesale. Loading,
+ * replay-checking and activation live in router.ts.
+ *
+ * `shape_defaults` carries per-shape call defaults (currently the recall
+ * `mode`) applied when the caller does not specify them.
+ */
+import type { RecallShape } from "./router.js";
+
+export interface RouterRule {
+  id: string;
+  shape: RecallShape;
+  /** Why the rule exists; echoed by recall_explain. */
+  description?: string;
+  /** Regex sources; any match fires the rule. */
+  patterns: string[];
+  /** Regex flags for every pattern (default "i"). */
+  flags?: string;
+  /** Also fire when a date phrase resolves to a range. */
+  date_phrase?: boolean;
+}
+
+export interface ShapeDefaults {
+  mode?: "routed" | "fused";
+}
+
+export interface RouterRuleSet {
+  version: 1;
+  default_shape: RecallShape;
+  /** Priority order: first rule to fire wins. */
+  rules: RouterRule[];
+  shape_defaults?: Partial<Record<RecallShape, ShapeDefaults>>;
+}
+
+export interface CompiledRule extends RouterRule {
+  regexes: RegExp[];
+}
+
+export interface CompiledRuleSet {
+  /** Where the set came from: "builtin" or the rule-file path. */
+  source: string;
+  default_shape: RecallShape;
+  rules: CompiledRule[];
+  shape_defaults: Partial<Record<RecallShape, ShapeDefaults>>;
+}
+
+/** Outcome of evaluating one rule against a query. */
+export interface RuleTrace {
+  rule_id: string;
+  shape: RecallShape;
+  fired: boolean;
+  /** Pattern source that matched, or "date_phrase". */
+  cue?: string;
+  /** Matched query text. */
+  matched?: string;
+}
+
+export interface RuleEvaluation {
+  shape: RecallShape;
+  /** Rule that decided the shape; absent when the default applied. */
+  rule_id?: string;
+  /** Rules evaluated in order, up to and including the one that fired. */
+  trace: RuleTrace[];
+}
+
+const SHAPES: ReadonlySet<string> = new Set(["semantic", "temporal", "relationship"]);
+const MODES: ReadonlySet<string> = new Set(["routed", "fused"]);
+
+export const DEFAULT_ROUTER_RULES: RouterRuleSet = {
+  version: 1,
+  default_shape: "semantic",
+  rules: [
+    {
+      id: "aux_state_change",
+      shape: "temporal",
+      description:
+        "Aux-verb + state-change ('Has X been superseded?', 'Is Y deprecated?') asks about validity over time. Must precede relationship_cues: 'supersede' appears in both, but the state-change form is validity-shaped, not graph-shaped.",
+      patterns: [
+        "\\b(has|is|was|were|are)\\b.*\\b(superseded|deprecated|expired|valid|invalidated|retired|active)\\b",
+      ],
+    },
+    {
+      id: "relationship_cues",
+      shape: "relationship",
+      description:
+        "'what … dispatch/cite/reference/…', walk/trace/chain, or 'how … from … to'. Stronger than plain temporal keywords; most relationship queries reference time implicitly.",
+      patterns: [
+        "\\bwhat[^.?!]*(dispatch|cite|reference|supersede|relate|invoke|trigger|coordinate|orchestrate)",
+        "\\b(walk|trace|chain)\\b",
+        "\\bhow\\b[^.?!]*\\bfrom\\b[^.?!]*\\bto\\b",
+      ],
+    },
+    {
+      id: "temporal_cues",
+      shape: "temporal",
+      description: "Temporal keywords, a year after in/during/from, an ISO date, or a resolvable date phrase.",
+      patterns: [
+        "\\b(when|date|time|before|after|since|until|valid|expired|recent|latest|first|last|ago)\\b",
+        "\\b(in|during|from|throughout)\\s+(19|20)\\d{2}\\b",
+        "\\b\\d{4}-\\d{2}-\\d{2}\\b",
+      ],
+      date_phrase: true,
+    },
+  ],
+};
+
+/**
+ * Validate a raw (parsed JSON/YAML) rule set and compile its patterns.
+ * Throws with a message naming the offending rule on any problem.
+ */
+export function compileRuleSet(raw: unknown, source: string): CompiledRuleSet {
+  if (!raw || typeof raw !== "object") throw new Error("rule set must be an object");
+  const set = raw as Partial<RouterRuleSet>;
+  if (set.version !== 1) throw new Error(`unsupported rule set version: ${JSON.stringify(set.version)}`);
+  if (!set.default_shape || !SHAPES.has(set.default_shape)) {
+    throw new Error(`default_shape must be one of semantic|temporal|relationship`);
+  }
+  if (!Array.isArray(set.rules)) throw new Error("rules must be an array");
+
+  const seen = new Set<string>();
+  const rules: CompiledRule[] = set.rules.map((rule, i) => {
+    const where = `rules[${i}]${rule?.id ? ` (${rule.id})` : ""}`;
+    if (!rule || typeof rule.id !== "string" || !rule.id) throw new Error(`${where}: id required`);
+    if (seen.has(rule.id)) throw new Error(`${where}: duplicate id`);
+    seen.add(rule.id);
+    if (!SHAPES.has(rule.shape)) throw new Error(`${where}: invalid shape ${JSON.stringify(rule.shape)}`);
+    const patterns = Array.isArray(rule.patterns) ? rule.patterns : [];
+    if (patterns.length === 0 && !rule.date_phrase) {
+      throw new Error(`${where}: needs patterns or date_phrase`);
+    }
+    const regexes = patterns.map((p) => {
+      try {
+        return new RegExp(p, rule.flags ?? "i");
+      } catch (e) {
+        throw new Error(`${where}: bad pattern ${JSON.stringify(p)}: ${(e as Error).message}`);
+      }
+    });
+    return { ...rule, patterns, regexes };
+  });
+
+  const shapeDefaults = set.shape_defaults ?? {};
+  for (const [shape, d] of Object.entries(shapeDefaults)) {
+    if (!SHAPES.has(shape)) throw new Error(`shape_defaults: unknown shape ${shape}`);
+    if (d?.mode !== undefined && !MODES.has(d.mode)) {
+      throw new Error(`shape_defaults.${shape}.mode must be routed|fused`);
+    }
+  }
+
+  return { source, default_shape: set.default_shape, rules, shape_defaults: shapeDefaults };
+}
+
+/**
+ * Run the rules in priority order. `hasDatePhrase` is supplied by the caller
+ * so date extraction happens once per query.
+ */
+export function evaluateRules(
+  query: string,
+  rules: CompiledRuleSet,
+  hasDatePhrase: boolean,
+): RuleEvaluation {
+  const trace: RuleTrace[] = [];
+  for (const rule of rules.rules) {
+    let hit: RuleTrace | null = null;
+    for (const re of rule.regexes) {
+      const m = query.match(re);
+      if (m) {
+        hit = { rule_id: rule.id, shape: rule.shape, fired: true, cue: re.source, matched: m[0] };
+        break;
+      }
+    }
+    if (!hit && rule.date_phrase && hasDatePhrase) {
+      hit = { rule_id: rule.id, shape: rule.shape, fired: true, cue: "date_phrase" };
+    }
+    if (hit) {
+      trace.push(hit);
+      return { shape: rule.shape, rule_id: rule.id, trace };
+    }
+    trace.push({ rule_id: rule.id, shape: rule.shape, fired: false });
+  }
+  return { shape: rules.default_shape, trace };
+}
@@ -0,0 +1,122 @@
+#!/usr/bin/env tsx
+/**
+ * Recall session hydration tests — /search-sessions lookups and deadline.
+ *
+ * Points hydrateSessions at an in-process /search-sessions stub with one
+ * session per behaviour: a full hit, no results, a 500, and one that answers
+ * only after the 5 s deadline. Checks the request body, the hydrated fields,
+ * that failed and late sessions are simply absent, that the deadline bounds
+ * the whole call, and describeSession's content.
+ *
+ * Run:  npx tsx src/recall/sessions.test.ts
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+const requests: any[] = [];
+const slowTimers: NodeJS.Timeout[] = [];
+
+const server = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", (c) => (body += c));
+  req.on("end", () => {
+    const parsed = JSON.parse(body || "{}");
+    requests.push({ path: req.url, ...parsed });
+    res.setHeader("content-type", "application/json");
+    switch (parsed.session_id) {
+      case "s-ok":
+        res.end(JSON.stringify({
+          results: [{
+            summary: "Herring survey planning",
+            first_prompt: "plan the herring survey",
+            timestamp: "2026-10-01T09:00:00Z",
+            project_name: "herring",
+            cwd: "/work/herring",
+            chunk_text: "x".repeat(600),
+            similarity: 0.82,
+          }],
+        }));
+        break;
+      case "s-missing":
+        res.end(JSON.stringify({ results: [] }));
+        break;
+      case "s-error":
+        res.statusCode = 500;
+        res.end(JSON.stringify({ detail: "boom" }));
+        break;
+      case "s-slow":
+        slowTimers.push(setTimeout(() => res.end(JSON.stringify({ results: [{ summary: "too late" }] })), 8_000));
+        break;
+      default:
+        res.statusCode = 404;
+        res.end("{}");
+    }
+  });
+});
+
+async function main() {
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", () => r()));
+  const { port } = server.address() as AddressInfo;
+  process.env.KOI_BACKEND_URL = `http://127.0.0.1:${port}`;
+  const { hydrateSessions, describeSession } = await import("./sessions.js");
+
+  console.log("Recall session hydration tests:");
+  console.log("");
+
+  check("no session ids makes no requests", (await hydrateSessions([], "q")).size === 0 && requests.length === 0);
+
+  const t0 = Date.now();
+  const found = await hydrateSessions(["s-ok", "s-missing", "s-error", "s-slow"], "herring survey");
+  const elapsed = Date.now() - t0;
+  const ok = found.get("s-ok");
+
+  check("each session is looked up once, scoped and ranked by the query",
+    requests.length === 4 && new Set(requests.map((r) => r.session_id)).size === 4 &&
+      requests.every((r) => r.path === "/search-sessions" && r.query === "herring survey" && r.limit === 1),
+    JSON.stringify(requests));
+  check("a hit is hydrated with its fields",
+    ok?.summary === "Herring survey planning" && ok.first_prompt === "plan the herring survey" &&
+      ok.project === "herring" && ok.cwd === "/work/herring" && ok.similarity === 0.82,
+    JSON.stringify(ok));
+  check("the snippet is capped at 500 characters", ok?.snippet?.length === 500);
+  check("missing, failed and late sessions are absent",
+    [...found.keys()].join() === "s-ok", [...found.keys()].join());
+  check("the 5 s deadline bounds the call", elapsed >= 4_500 && elapsed < 7_000, `${elapsed}ms`);
+
+  const aborted = new AbortController();
+  aborted.abort();
+  const before = requests.length;
+  const none = await hydrateSessions(["s-ok"], "herring survey", aborted.signal);
+  check("an aborted caller signal hydrates nothing", none.size === 0, `${requests.length - before} request(s)`);
+
+  check("describeSession joins summary, first prompt and snippet",
+    describeSession({ session_id: "s1", summary: "S", first_prompt: "P", snippet: "C" }) === "S\n\nFirst prompt: P\n\nC");
+  check("describeSession falls back to the session placeholder",
+    describeSession({ session_id: "s1" }) === "claude-code session s1");
+
+  slowTimers.forEach(clearTimeout);
+  server.closeAllConnections();
+  server.close();
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
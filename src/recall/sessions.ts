@@ -0,0 +1,98 @@
+/**
+ * Recall session hydration — expand walk-leg session UUIDs into readable
+ * session context.
+ *
+ * `/knowledge/recall-walk` only returns bare `session_ids`. Without this step
+ * the agent sees `claude-code session <uuid>` and has to follow up with
+ * `search_sessions` to learn why the session was returned. Here each id is
+ * looked up once via the personal backend's `/search-sessions` (scoped with
+ * `session_id`, ranked by the original query so the best-matching chunk comes
+ * back), concurrently and under a short deadline.
+ *
+ * Hydration is best-effort: a session that can't be fetched in time keeps its
+ * placeholder and is marked `hydrated: false`; it never fails the leg.
+ */
+import axios from "axios";
+import { recallBackendUrl } from "./backend-url.js";
+
+const HYDRATE_TIMEOUT_MS = 5_000;
+const SNIPPET_CHARS = 500;
+
+export interface SessionContext {
+  session_id: string;
+  summary?: string;
+  first_prompt?: string;
+  timestamp?: string;
+  project?: string;
+  cwd?: string;
+  /** Best-matching chunk of the session for the query. */
+  snippet?: string;
+  similarity?: number;
+}
+
+function str(v: unknown): string | undefined {
+  return typeof v === "string" && v.trim() ? v : undefined;
+}
+
+async function fetchSession(
+  sessionId: string,
+  query: string,
+  signal: AbortSignal,
+): Promise<SessionContext | null> {
+  try {
+    const { data } = await axios.post(
+      `${recallBackendUrl()}/search-sessions`,
+      { query, limit: 1, session_id: sessionId },
+      { signal },
+    );
+    const hit = ((data?.results as Array<Record<string, unknown>>) || [])[0];
+    if (!hit) return null;
+    const chunk = str(hit.chunk_text);
+    return {
+      session_id: sessionId,
+      summary: str(hit.summary),
+      first_prompt: str(hit.first_prompt),
+      timestamp: str(hit.timestamp),
+      project: str(hit.project) ?? str(hit.project_name),
+      cwd: str(hit.cwd),
+      snippet: chunk ? chunk.slice(0, SNIPPET_CHARS) : undefined,
+      similarity: typeof hit.similarity === "number" ? hit.similarity : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Look up context for each session id. Missing / failed lookups are simply
+ * absent from the returned map.
+ */
+export async function hydrateSessions(
+  sessionIds: string[],
+  query: string,
+  signal?: AbortSignal,
+): Promise<Map<string, SessionContext>> {
+  const out = new Map<string, SessionContext>();
+  if (sessionIds.length === 0) return out;
+  const deadline = AbortSignal.timeout(HYDRATE_TIMEOUT_MS);
+  const combined = signal ? AbortSignal.any([signal, deadline]) : deadline;
+  const found = await Promise.all(
+    sessionIds.map((sid) => fetchSession(sid, query, combined)),
+  );
+  for (const ctx of found) {
+    if (ctx) out.set(ctx.session_id, ctx);
+  }
+  return out;
+}
+
+/**
+ * Readable item content for a hydrated session: summary, first prompt and the
+ * matching chunk, in that order.
+ */
+export function describeSession(ctx: SessionContext): string {
+  const parts: string[] = [];
+  parts.push(ctx.summary || `claude-code session ${ctx.session_id}`);
+  if (ctx.first_prompt) parts.push(`First prompt: ${ctx.first_prompt}`);
+  if (ctx.snippet) parts.push(ctx.snippet);
+  return parts.join("\n\n");
+}
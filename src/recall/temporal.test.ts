@@ -0,0 +1,118 @@
+#!/usr/bin/env tsx
+/**
+ * Recall temporal filter unit tests — `as_of` / `between` / `during` views.
+ *
+ * Checks parseTemporalFilter() normalization + validation and
+ * applyTemporalFilter() keep/drop decisions (as_of, between, during) and
+ * change tagging. Pure; no KOI needed.
+ *
+ * Run:  npx tsx src/recall/temporal.test.ts
+ */
+
+import { applyTemporalFilter, parseTemporalFilter } from "./temporal.js";
+
+function fact(id: string, valid_from: string | null, valid_to: string | null = null) {
+  return { id, metadata: { valid_from, valid_to } as Record<string, unknown> };
+}
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+console.log("Recall temporal filter unit tests:");
+console.log("");
+
+// Parsing
+{
+  const p = parseTemporalFilter("2026-03-01", undefined);
+  check(
+    "date-only as_of snaps to end of day",
+    p.filter?.as_of === "2026-03-01T23:59:59.999Z",
+    JSON.stringify(p),
+  );
+  const b = parseTemporalFilter(undefined, ["2026-03-01", "2026-03-31"]);
+  check(
+    "between accepts [from, to]",
+    b.filter?.between?.from === "2026-03-01T00:00:00.000Z" &&
+      b.filter?.between?.to === "2026-03-31T23:59:59.999Z",
+    JSON.stringify(b),
+  );
+  check("no args → no filter", !parseTemporalFilter(undefined, undefined).filter);
+  check("garbage as_of rejected", Boolean(parseTemporalFilter("last week", undefined).error));
+  check(
+    "inverted window rejected",
+    Boolean(parseTemporalFilter(undefined, { from: "2026-04-01", to: "2026-03-01" }).error),
+  );
+}
+
+// as_of
+{
+  const items = [
+    fact("current", "2026-01-01T00:00:00Z"),
+    fact("future", "2026-06-01T00:00:00Z"),
+    fact("superseded", "2025-01-01T00:00:00Z", "2026-02-01T00:00:00Z"),
+    { id: "session", metadata: { session_id: "S" } as Record<string, unknown> },
+  ];
+  const r = applyTemporalFilter(items, { as_of: "2026-03-01T00:00:00Z" });
+  const ids = r.items.map((i) => i.id).join(",");
+  check("as_of keeps facts valid at T and non-facts", ids === "current,session", ids);
+}
+
+// between
+{
+  const items = [
+    fact("began", "2026-03-10T00:00:00Z"),
+    fact("ended", "2025-01-01T00:00:00Z", "2026-03-20T00:00:00Z"),
+    fact("both", "2026-03-02T00:00:00Z", "2026-03-05T00:00:00Z"),
+    fact("untouched", "2025-01-01T00:00:00Z"),
+  ];
+  const r = applyTemporalFilter(items, {
+    between: { from: "2026-03-01T00:00:00Z", to: "2026-03-31T23:59:59Z" },
+  });
+  check(
+    "between drops facts with no change in window",
+    r.items.length === 3 && !r.items.some((i) => i.id === "untouched"),
+  );
+  check(
+    "change tags applied",
+    r.items.map((i) => i.metadata.change).join(",") === "started,ended,started_and_ended",
+  );
+  check(
+    "diff summary lists started/ended ids",
+    r.started.join(",") === "began,both" && r.ended.join(",") === "ended,both",
+    JSON.stringify({ started: r.started, ended: r.ended }),
+  );
+}
+
+// during (router date ranges)
+{
+  const items = [
+    fact("spans", "2025-01-01T00:00:00Z"),
+    fact("spans_closed", "2025-01-01T00:00:00Z", "2026-06-01T00:00:00Z"),
+    fact("began", "2026-03-10T00:00:00Z"),
+    fact("over_before", "2025-01-01T00:00:00Z", "2026-02-01T00:00:00Z"),
+    fact("after", "2026-04-02T00:00:00Z"),
+  ];
+  const r = applyTemporalFilter(items, {
+    during: { from: "2026-03-01T00:00:00Z", to: "2026-03-31T23:59:59Z" },
+  });
+  const ids = r.items.map((i) => i.id).join(",");
+  check("during keeps facts valid for the whole window", ids === "spans,spans_closed,began", ids);
+  check(
+    "during tags no changes",
+    r.started.length === 0 && r.ended.length === 0 && r.items.every((i) => !i.metadata.change),
+  );
+}
+
+console.log("");
+console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+process.exit(fail > 0 ? 1 : 0);
@@ -0,0 +1,180 @@
+/**
+ * Recall temporal filters — point-in-time (`as_of`), change (`between`) and
+ * overlap (`during`) views over bi-temporal facts.
+ *
+ * Facts in `knowledge_facts` carry `valid_from` / `valid_to` (NULL = still
+ * valid). `as_of` and `between` are forwarded to the legs so the substrate
+ * can narrow server-side, and re-applied here to whatever comes back, so the
+ * contract holds even against a KOI build that ignores the parameters.
+ * `during` has no substrate parameter and is applied here only:
+ *
+ *   as_of T          keep facts with valid_from ≤ T and (valid_to IS NULL or valid_to > T)
+ *   between [F, T]   keep facts that STARTED (F ≤ valid_from ≤ T) or ENDED
+ *                    (F ≤ valid_to ≤ T) inside the window, tagged with `change`
+ *   during [F, T]    keep facts valid at any point of the window:
+ *                    valid_from ≤ T and (valid_to IS NULL or valid_to ≥ F)
+ *
+ * The router's date phrases ("last week") use `during`, so a fact that held
+ * for the whole window counts; `between` stays for "what changed" questions.
+ *
+ * Items without validity metadata (sessions, vault notes, wiki pages) are not
+ * facts and pass through untouched.
+ *
+ * Date-only inputs ("2026-03-01") are read in UTC: `as_of` and `between.to`
+ * snap to the END of that day (so facts that began that day count), and
+ * `between.from` to its start.
+ */
+
+export interface TemporalWindow {
+  from: string;
+  to: string;
+}
+
+export interface TemporalFilter {
+  as_of?: string;
+  between?: TemporalWindow;
+  during?: TemporalWindow;
+}
+
+export type FactChange = "started" | "ended" | "started_and_ended";
+
+const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function normalizeInstant(raw: unknown, endOfDay: boolean): string | null {
+  if (typeof raw !== "string" || !raw.trim()) return null;
+  const text = raw.trim();
+  if (DATE_ONLY_RE.test(text)) {
+    const iso = `${text}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z`;
+    return Number.isNaN(Date.parse(iso)) ? null : iso;
+  }
+  const ms = Date.parse(text);
+  return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+}
+
+/**
+ * Validate and normalize raw tool arguments. `between` accepts
+ * `{ from, to }` or a two-element `[from, to]` array.
+ */
+export function parseTemporalFilter(
+  asOf: unknown,
+  between: unknown,
+): { filter?: TemporalFilter; error?: string } {
+  const filter: TemporalFilter = {};
+
+  if (asOf !== undefined && asOf !== null && asOf !== "") {
+    const t = normalizeInstant(asOf, true);
+    if (!t) return { error: `as_of is not a valid ISO date/datetime: ${JSON.stringify(asOf)}` };
+    filter.as_of = t;
+  }
+
+  if (between !== undefined && between !== null) {
+    let rawFrom: unknown;
+    let rawTo: unknown;
+    if (Array.isArray(between) && between.length === 2) {
+      [rawFrom, rawTo] = between;
+    } else if (typeof between === "object" && !Array.isArray(between)) {
+      rawFrom = (between as Record<string, unknown>).from;
+      rawTo = (between as Record<string, unknown>).to;
+    } else {
+      return { error: "between must be { from, to } or [from, to]" };
+    }
+    const from = normalizeInstant(rawFrom, false);
+    const to = normalizeInstant(rawTo, true);
+    if (!from || !to) {
+      return { error: `between needs valid ISO dates: ${JSON.stringify(between)}` };
+    }
+    if (from > to) return { error: `between.from (${from}) is after between.to (${to})` };
+    filter.between = { from, to };
+  }
+
+  return filter.as_of || filter.between ? { filter } : {};
+}
+
+function toMs(v: unknown): number | null {
+  if (v === undefined || v === null || v === "") return null;
+  const ms = Date.parse(String(v));
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * Decide whether a fact with the given validity interval survives the filter.
+ * `isFact` is false when the item carries no validity metadata at all.
+ */
+export function classifyValidity(
+  validFrom: unknown,
+  validTo: unknown,
+  filter: TemporalFilter,
+): { isFact: boolean; keep: boolean; change?: FactChange } {
+  const fromMs = toMs(validFrom);
+  const toMsVal = toMs(validTo);
+  if (fromMs === null && toMsVal === null) return { isFact: false, keep: true };
+
+  if (filter.as_of) {
+    const t = Date.parse(filter.as_of);
+    if (fromMs !== null && fromMs > t) return { isFact: true, keep: false };
+    if (toMsVal !== null && toMsVal <= t) return { isFact: true, keep: false };
+  }
+
+  if (filter.during) {
+    const f = Date.parse(filter.during.from);
+    const t = Date.parse(filter.during.to);
+    if (fromMs !== null && fromMs > t) return { isFact: true, keep: false };
+    if (toMsVal !== null && toMsVal < f) return { isFact: true, keep: false };
+  }
+
+  if (filter.between) {
+    const f = Date.parse(filter.between.from);
+    const t = Date.parse(filter.between.to);
+    const started = fromMs !== null && fromMs >= f && fromMs <= t;
+    const ended = toMsVal !== null && toMsVal >= f && toMsVal <= t;
+    if (!started && !ended) return { isFact: true, keep: false };
+    return {
+      isFact: true,
+      keep: true,
+      change: started && ended ? "started_and_ended" : started ? "started" : "ended",
+    };
+  }
+
+  return { isFact: true, keep: true };
+}
+
+/** Items whose metadata may carry validity fields (RecallResultItem fits). */
+interface TemporalItem {
+  id: string;
+  metadata: Record<string, unknown>;
+}
+
+function validityOf(item: TemporalItem): { from: unknown; to: unknown } {
+  const m = item.metadata || {};
+  return {
+    from: m.valid_from ?? m.valid_at,
+    to: m.valid_to ?? m.expired_at,
+  };
+}
+
+/**
+ * Apply the filter to a ranked list, preserving order. Surviving facts get
+ * `metadata.change` in `between` mode. Returns the ids of facts that started
+ * and ended in the window for the response's diff summary.
+ */
+export function applyTemporalFilter<T extends TemporalItem>(
+  items: T[],
+  filter: TemporalFilter,
+): { items: T[]; started: string[]; ended: string[] } {
+  const out: T[] = [];
+  const started: string[] = [];
+  const ended: string[] = [];
+  for (const item of items) {
+    const v = validityOf(item);
+    const c = classifyValidity(v.from, v.to, filter);
+    if (!c.keep) continue;
+    if (c.change) {
+      out.push({ ...item, metadata: { ...item.metadata, change: c.change } });
+      if (c.change !== "ended") started.push(item.id);
+      if (c.change !== "started") ended.push(item.id);
+    } else {
+      out.push(item);
+    }
+  }
+  return { items: out, started, ended };
+}
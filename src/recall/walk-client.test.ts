@@ -0,0 +1,193 @@
+#!/usr/bin/env tsx
+/**
+ * Recall walk client tests — request body, edge mapping, health cache, abort.
+ *
+ * Points runRecallWalk at an in-process stand-in for `/health` and
+ * `/knowledge/recall-walk` (the routes evals/recall_standin_server.ts serves)
+ * that records request bodies and can turn unhealthy, fail or stall. Checks
+ * the forwarded shape / temporal view / seeds, the edge contract, that a
+ * healthy pre-flight is reused until a walk fails, and cancellation. Last,
+ * `recall` with RECALL_WALK_BACKEND=python must hand the sidecar the same
+ * shape and temporal view (KOI_RECALL_PYTHON points at a recording script).
+ *
+ * Run:  npx tsx src/recall/walk-client.test.ts
+ */
+
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+const hits = { health: 0, walk: 0 };
+const bodies: any[] = [];
+let healthy = true;
+let walkMode: "ok" | "error" | "stall" = "ok";
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url || "/", "http://localhost");
+  let body = "";
+  req.on("data", (c) => (body += c));
+  req.on("end", () => {
+    res.setHeader("content-type", "application/json");
+    if (url.pathname === "/health") {
+      hits.health++;
+      res.end(JSON.stringify(healthy
+        ? { status: "healthy", database: "connected" }
+        : { status: "degraded", database: "disconnected" }));
+      return;
+    }
+    if (url.pathname === "/knowledge/recall-walk") {
+      hits.walk++;
+      bodies.push(JSON.parse(body || "{}"));
+      if (walkMode === "error") {
+        res.statusCode = 500;
+        res.end(JSON.stringify({ detail: "walk exploded" }));
+        return;
+      }
+      if (walkMode === "stall") return; // never answers; the caller aborts
+      res.end(JSON.stringify({
+        results: [
+          {
+            content: "Ada works_on Herring",
+            score: 0.9,
+            metadata: {
+              predicate: "works_on",
+              valid_from: "2026-01-01",
+              valid_to: null,
+              session_id: "s1",
+              episode_id: "e1",
+              fact_id: "fact-1",
+            },
+          },
+          { content: "session s1", metadata: { source: "session", session_id: "s1" } },
+          { content: "Bob works_on Kelp", metadata: { predicate: "works_on", valid_from: "2026-02-01" } },
+        ],
+        session_ids: ["s1"],
+        walk_path: [{ fact: "fact-1", hop: 0 }],
+        latency_ms: { total: 3 },
+      }));
+      return;
+    }
+    res.statusCode = 404;
+    res.end("{}");
+  });
+});
+
+async function main() {
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", () => r()));
+  const { port } = server.address() as AddressInfo;
+  process.env.KOI_API_ENDPOINT = `http://127.0.0.1:${port}`;
+  process.env.KOI_BACKEND_URL = process.env.KOI_API_ENDPOINT;
+  process.env.RECALL_ENTITY_EXPANSION = "false";
+  process.env.RECALL_CACHE_ENABLED = "false";
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "recall-walk-client-"));
+  process.env.RECALL_METRICS_DIR = tmp;
+  const { runRecallWalk } = await import("./walk-client.js");
+
+  console.log("Recall walk client tests:");
+  console.log("");
+
+  const base = { query: "who works on herring", shape: "relationship" as const, limit: 5, groupId: "g1" };
+  const out = await runRecallWalk({
+    ...base,
+    temporal: { as_of: "2026-03-01T23:59:59.999Z", between: { from: "2026-01-01T00:00:00.000Z", to: "2026-03-31T23:59:59.999Z" } },
+    seedUris: ["orn:entity:ada"],
+  });
+  const sent = bodies[0];
+  check("request carries shape, group, hops, temporal view and seeds",
+    sent?.shape === "relationship" && sent.group_id === "g1" && sent.max_hops === 3 &&
+      sent.as_of === "2026-03-01T23:59:59.999Z" && sent.valid_between?.from === "2026-01-01T00:00:00.000Z" &&
+      sent.seed_uris?.join() === "orn:entity:ada",
+    JSON.stringify(sent));
+
+  const edges = out.ok ? out.edges : [];
+  check("session results are not edges; session_ids pass through",
+    out.ok && edges.length === 2 && out.session_ids.join() === "s1" && out.n_edges_total === 2, JSON.stringify(out));
+  check("edges follow the sidecar contract",
+    JSON.stringify(edges[0]) === JSON.stringify({
+      id: "fact-1", name: "works_on", fact: "Ada works_on Herring", valid_at: "2026-01-01",
+      valid_to: null, score: 0.9, n_episodes: 1, session_id: "s1",
+    }),
+    JSON.stringify(edges[0]));
+  check("missing id, session and score are left out or defaulted",
+    edges[1]?.id === undefined && edges[1]?.session_id === undefined && edges[1]?.score === 0 &&
+      edges[1]?.valid_to === null && edges[1]?.n_episodes === 0,
+    JSON.stringify(edges[1]));
+  check("walk path and latency breakdown are passed on",
+    out.ok && JSON.stringify(out.walk_path) === '[{"fact":"fact-1","hop":0}]' &&
+      (out.latency_breakdown as any)?.total === 3);
+
+  await runRecallWalk(base);
+  check("a healthy pre-flight is reused", hits.health === 1 && hits.walk === 2, JSON.stringify(hits));
+
+  walkMode = "error";
+  const failed = await runRecallWalk(base);
+  check("a failed walk is a walk_error",
+    !failed.ok && failed.error_class === "walk_error" && failed.error.includes("500"), JSON.stringify(failed));
+  walkMode = "ok";
+  healthy = false;
+  const unhealthy = await runRecallWalk(base);
+  check("after a failure the next call re-checks health",
+    !unhealthy.ok && unhealthy.error_class === "koi_unreachable" && hits.health === 2, JSON.stringify(unhealthy));
+  healthy = true;
+
+  const aborted = new AbortController();
+  aborted.abort();
+  const walksBefore = hits.walk;
+  const early = await runRecallWalk({ ...base, signal: aborted.signal });
+  check("an aborted signal cancels before any walk request",
+    !early.ok && early.error_class === "cancelled" && hits.walk === walksBefore, JSON.stringify(early));
+
+  walkMode = "stall";
+  const t0 = Date.now();
+  const late = await runRecallWalk({ ...base, signal: AbortSignal.timeout(200) });
+  check("aborting an in-flight walk cancels it",
+    !late.ok && late.error_class === "cancelled" && Date.now() - t0 < 2_000, `${JSON.stringify(late)} ${Date.now() - t0}ms`);
+  walkMode = "ok";
+
+  // Sidecar fallback: a stand-in interpreter records its argv and answers.
+  const argvFile = path.join(tmp, "argv.txt");
+  const fakePython = path.join(tmp, "python3");
+  fs.writeFileSync(fakePython, [
+    "#!/bin/sh",
+    `printf '%s\\n' "$@" > '${argvFile}'`,
+    `echo '{"ok": true, "session_ids": [], "edges": [], "n_edges_total": 0, "latency_ms": 1, "group_id": "g"}'`,
+    "",
+  ].join("\n"), { mode: 0o755 });
+  process.env.RECALL_WALK_BACKEND = "python";
+  process.env.KOI_RECALL_PYTHON = fakePython;
+  const { recall } = await import("../tools/recall.js");
+  const viaSidecar = await recall({ query: "who works on herring", shape: "relationship", as_of: "2026-03-01" });
+  const argv = fs.existsSync(argvFile) ? fs.readFileSync(argvFile, "utf-8").trim().split("\n") : [];
+  const flag = (name: string) => argv[argv.indexOf(name) + 1];
+  check("the sidecar fallback gets the shape and temporal view",
+    viaSidecar.routing.legs_queried.includes("walk") && flag("--shape") === "relationship" &&
+      flag("--as-of") === "2026-03-01T23:59:59.999Z",
+    argv.join(" "));
+
+  server.closeAllConnections();
+  server.close();
+  fs.rmSync(tmp, { recursive: true, force: true });
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
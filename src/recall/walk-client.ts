@@ -0,0 +1,249 @@
+/**
+ * Recall walk client — in-process replacement for the `koi_recall.py` sidecar.
+ *
+ * Calls `/knowledge/recall-walk` (PostgreSQL recursive-CTE over
+ * `knowledge_facts` with bi-temporal validity filtering) directly from the MCP
+ * server process. Emits the JSON contract the Python sidecar writes to
+ * stdout (see `WalkOutput`), so `src/tools/recall.ts` maps both paths
+ * through one function.
+ *
+ * Versus spawning `/usr/bin/python3 koi_recall.py` per call:
+ *   - no interpreter startup or stdout JSON parse per query;
+ *   - one keep-alive HTTP agent shared across calls (connection reuse);
+ *   - the `/health` pre-flight is cached for HEALTH_TTL_MS instead of being
+ *     paid on every query;
+ *   - cancellation via AbortSignal aborts the in-flight request instead of
+ *     killing a child process after the fact.
+ *
+ * The Python sidecar remains available as an opt-in fallback
+ * (`RECALL_WALK_BACKEND=python`); see `queryWalk` in src/tools/recall.ts.
+ */
+import crypto from "node:crypto";
+import http from "node:http";
+import https from "node:https";
+import axios, { AxiosInstance } from "axios";
+import type { RecallShape } from "./router.js";
+import type { TemporalFilter } from "./temporal.js";
+
+const HEALTH_TTL_MS = 30_000;
+const HEALTH_TIMEOUT_MS = 5_000;
+const DEFAULT_MAX_HOPS = 3;
+
+export interface WalkRequest {
+  query: string;
+  shape: RecallShape;
+  limit: number;
+  groupId: string;
+  maxHops?: number;
+  /** Point-in-time / interval view, forwarded as `as_of` / `valid_between`. */
+  temporal?: TemporalFilter;
+  /** Resolved entity URIs to start the walk from, forwarded as `seed_uris`. */
+  seedUris?: string[];
+  /** Aborts the in-flight request (caller cancellation or timeout). */
+  signal?: AbortSignal;
+}
+
+export interface WalkEdge {
+  /** Backend fact / edge id, when the walk reports one. */
+  id?: string;
+  name: string;
+  fact: string;
+  valid_at: unknown;
+  valid_to: unknown;
+  score: number;
+  n_episodes: number;
+  /** Session the fact was extracted from, when the walk reports it. */
+  session_id?: string;
+}
+
+/**
+ * Walk-leg output. Carries the same fields as the `koi_recall.py` stdout
+ * contract, so src/tools/recall.ts maps either path through one function.
+ * One difference: an edge without a session or backend id leaves
+ * `session_id` / `id` out, where the sidecar writes `null`; callers treat
+ * both as absent.
+ */
+export type WalkOutput =
+  | {
+      ok: true;
+      session_ids: string[];
+      edges: WalkEdge[];
+      n_edges_total: number;
+      latency_ms: number;
+      group_id: string;
+      walk_path?: unknown;
+      latency_breakdown?: unknown;
+    }
+  | {
+      ok: false;
+      error: string;
+      error_class: "koi_unreachable" | "walk_error" | "cancelled";
+    };
+
+/**
+ * Identity for a walk edge in recall results. Prefers the backend id; else a
+ * hash of predicate, fact and valid_at, since many distinct facts share a
+ * predicate name.
+ */
+export function walkEdgeId(edge: { id?: unknown; name?: unknown; fact?: unknown; valid_at?: unknown }): string {
+  if (typeof edge.id === "string" && edge.id) return edge.id;
+  const digest = crypto
+    .createHash("sha256")
+    .update([edge.name, edge.fact, edge.valid_at].map((v) => String(v ?? "")).join("\0"))
+    .digest("hex");
+  return `edge:${digest.slice(0, 16)}`;
+}
+
+// --- Shared client (keep-alive agents; one per process) ---
+let _walkClient: AxiosInstance | null = null;
+let _walkClientBase: string | null = null;
+let _healthyUntil = 0;
+
+function walkBaseUrl(): string {
+  return process.env.KOI_API_ENDPOINT || "http://127.0.0.1:8351";
+}
+
+function walkClient(): AxiosInstance {
+  const baseURL = walkBaseUrl();
+  // Rebuild if the endpoint env changed (tests point this at a stand-in).
+  if (!_walkClient || _walkClientBase !== baseURL) {
+    _walkClient = axios.create({
+      baseURL,
+      timeout: 30_000,
+      httpAgent: new http.Agent({ keepAlive: true, maxSockets: 8 }),
+      httpsAgent: new https.Agent({ keepAlive: true, maxSockets: 8 }),
+    });
+    _walkClientBase = baseURL;
+    _healthyUntil = 0;
+  }
+  return _walkClient;
+}
+
+function describeError(e: unknown): string {
+  if (axios.isAxiosError(e)) {
+    if (e.response) {
+      const body =
+        typeof e.response.data === "string"
+          ? e.response.data
+          : JSON.stringify(e.response.data ?? "");
+      return `${e.response.status}: ${body.slice(0, 300)}`;
+    }
+    return e.message;
+  }
+  return e instanceof Error ? e.message : String(e);
+}
+
+function isCancel(e: unknown, signal?: AbortSignal): boolean {
+  return Boolean(signal?.aborted) || axios.isCancel(e);
+}
+
+/**
+ * Substrate pre-flight. Mirrors the sidecar's `/health` check (status
+ * "healthy" + database "connected"); a healthy answer is trusted for
+ * HEALTH_TTL_MS so steady-state queries pay a single round-trip.
+ */
+async function ensureHealthy(
+  client: AxiosInstance,
+  signal?: AbortSignal,
+): Promise<WalkOutput | null> {
+  if (Date.now() < _healthyUntil) return null;
+  try {
+    const { data } = await client.get("/health", {
+      timeout: HEALTH_TIMEOUT_MS,
+      signal,
+    });
+    const hd = (data || {}) as Record<string, unknown>;
+    if (hd.status !== "healthy" || hd.database !== "connected") {
+      return {
+        ok: false,
+        error: `unhealthy: status=${JSON.stringify(hd.status)} db=${JSON.stringify(hd.database)}`,
+        error_class: "koi_unreachable",
+      };
+    }
+    _healthyUntil = Date.now() + HEALTH_TTL_MS;
+    return null;
+  } catch (e) {
+    if (isCancel(e, signal)) {
+      return { ok: false, error: "walk cancelled", error_class: "cancelled" };
+    }
+    return {
+      ok: false,
+      error: `KOI unreachable at ${walkBaseUrl()}: ${describeError(e)}`,
+      error_class: "koi_unreachable",
+    };
+  }
+}
+
+/**
+ * Run one walk query. Never throws: failures come back as `{ ok: false }`
+ * with an `error_class`, matching the sidecar contract.
+ */
+export async function runRecallWalk(req: WalkRequest): Promise<WalkOutput> {
+  const t0 = Date.now();
+  const client = walkClient();
+
+  const unhealthy = await ensureHealthy(client, req.signal);
+  if (unhealthy) return unhealthy;
+
+  let data: Record<string, unknown>;
+  try {
+    const resp = await client.post(
+      "/knowledge/recall-walk",
+      {
+        query: req.query,
+        shape: req.shape,
+        limit: req.limit,
+        group_id: req.groupId,
+        max_hops: req.maxHops ?? DEFAULT_MAX_HOPS,
+        ...(req.temporal?.as_of ? { as_of: req.temporal.as_of } : {}),
+        ...(req.temporal?.between ? { valid_between: req.temporal.between } : {}),
+        ...(req.seedUris?.length ? { seed_uris: req.seedUris } : {}),
+      },
+      { signal: req.signal },
+    );
+    data = (resp.data || {}) as Record<string, unknown>;
+  } catch (e) {
+    if (isCancel(e, req.signal)) {
+      return { ok: false, error: "walk cancelled", error_class: "cancelled" };
+    }
+    // A failed request may mean the substrate went away; re-check next call.
+    _healthyUntil = 0;
+    return {
+      ok: false,
+      error: `recall-walk ${describeError(e)}`,
+      error_class: "walk_error",
+    };
+  }
+
+  // Translate /recall-walk shape → sidecar contract. Session items surface via
+  // `session_ids`; everything else becomes an edge.
+  const edges: WalkEdge[] = [];
+  const rawResults = (data.results as Array<Record<string, unknown>>) || [];
+  for (const item of rawResults) {
+    const meta = (item.metadata as Record<string, unknown>) || {};
+    if (meta.source === "session") continue;
+    const id = item.id ?? meta.fact_id ?? meta.edge_id;
+    edges.push({
+      ...(typeof id === "string" && id ? { id } : {}),
+      name: String(meta.predicate ?? ""),
+      fact: String(item.content ?? ""),
+      valid_at: meta.valid_from,
+      valid_to: meta.valid_to ?? null,
+      score: typeof item.score === "number" ? item.score : 0,
+      n_episodes: meta.episode_id ? 1 : 0,
+      ...(typeof meta.session_id === "string" ? { session_id: meta.session_id } : {}),
+    });
+  }
+  const sessionIds = ((data.session_ids as string[]) || []).slice(0, req.limit);
+
+  return {
+    ok: true,
+    session_ids: sessionIds,
+    edges: edges.slice(0, req.limit),
+    n_edges_total: edges.length,
+    latency_ms: Date.now() - t0,
+    group_id: req.groupId,
+    walk_path: data.walk_path,
+    latency_breakdown: data.latency_ms,
+  };
+}
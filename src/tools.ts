@@ -5,7 +5,27 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GRAPH_TOOL } from './graph_tool.js';
 
-export const TOOLS: Tool[] = [
+/**
+ * Add the optional `vault` argument (a name from VAULTS) to every tool that
+ * reads or writes vault notes: the vault_* tools and share_document.
+ */
+export function withVaultArgument(tools: Tool[]): Tool[] {
+  return tools.map(tool => {
+    if (!tool.name.startsWith('vault_') && tool.name !== 'share_document') return tool;
+    return {
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: {
+          ...tool.inputSchema.properties,
+          vault: { type: 'string', description: 'Named vault to use (one of the VAULTS names); defaults to the default vault' },
+        },
+      },
+    };
+  });
+}
+
+export const TOOLS: Tool[] = withVaultArgument([
   GRAPH_TOOL,
   {
     name: 'search',
@@ -637,7 +657,7 @@ Examples:
     name: 'vault_search_notes',
     description: `Search notes in your Obsidian vault by query string.
 
-Searches note names, frontmatter, and optionally content.
+Ranks notes by relevance (BM25) over names, aliases, frontmatter, and optionally content, with a snippet of the best-matching section.
 
 Examples:
 - Find person: vault_search_notes(query="John", entityType="Person")
@@ -658,6 +678,10 @@ Examples:
           description: 'Search note content (default: true)',
           default: true
         },
+        folder: {
+          type: 'string',
+          description: 'Only search notes under this folder (e.g. "Meetings")'
+        },
         limit: {
           type: 'number',
           description: 'Maximum results (default: 20)',
@@ -795,7 +819,7 @@ Example workflow:
         },
         createEntities: {
           type: 'boolean',
-          description: 'Create new entity files for unmatched entities (default: false)',
+          description: "Create new entity files for unmatched entities, from their type's template in Templates/Entities/ when the vault has one (default: false)",
           default: false
         },
         minConfidence: {
@@ -845,7 +869,7 @@ Examples:
   },
   {
     name: 'vault_query_frontmatter',
-    description: `Query notes by YAML frontmatter field values with fuzzy matching.
+    description: `Query notes by YAML frontmatter field values with fuzzy matching, or with a Dataview-style \`query\`.
 
 Supports array fields (like attendees) and normalizes wikilink formats.
 "[[People/Clare Attwell]]" and "Clare Attwell" are treated as equivalent.
@@ -853,10 +877,22 @@ Supports array fields (like attendees) and normalizes wikilink formats.
 Examples:
 - Find meetings with attendee: vault_query_frontmatter(field="attendees", value="Clare Attwell")
 - Find notes by project: vault_query_frontmatter(field="project", value="VictoriaLandscapeGroup")
-- Find by status: vault_query_frontmatter(field="status", value="completed")`,
+- Find by status: vault_query_frontmatter(field="status", value="completed")
+- Query language: vault_query_frontmatter(query='TABLE status, owner FROM "Projects" WHERE status = "active" AND file.mtime >= date(today) - dur(30 days) SORT file.mtime DESC GROUP BY owner LIMIT 20')
+
+Query language: TABLE col [AS name], ... | FROM "Folder" or #tag | WHERE with = != < <= > >=, AND/OR/NOT, contains, + and - on dates and durations (date(today), dur(30 days)), nested keys (koi.rid) and file.name/path/folder/link/mtime/size/tags/type | SORT expr [ASC|DESC], ... | GROUP BY expr | LIMIT n.`,
     inputSchema: {
       type: 'object',
       properties: {
+        query: {
+          type: 'string',
+          description: 'Dataview-style query; when given, field/value/entityType/fuzzy are ignored'
+        },
+        format: {
+          type: 'string',
+          enum: ['markdown', 'json'],
+          description: 'Output format for `query` results (default: markdown table)'
+        },
         field: {
           type: 'string',
           description: 'Frontmatter field to query (e.g., "attendees", "project", "status")'
@@ -885,7 +921,7 @@ Examples:
           default: 50
         }
       },
-      required: ['field', 'value']
+      required: []
     }
   },
   {
@@ -1073,6 +1109,7 @@ This tool registers an existing vault entity note with the backend for:
 
 **When to use:**
 - After creating a new Person, Organization, or Project note
+- To create a new entity note from its type's template and register it in one step (\`create_if_missing\`)
 - To link vault entities with the backend knowledge base
 - Before using /process-note to ensure entities are registered
 
@@ -1105,6 +1142,15 @@ This tool registers an existing vault entity note with the backend for:
           type: 'boolean',
           description: 'Commit vault to git before making changes (default: true)',
           default: true
+        },
+        create_if_missing: {
+          type: 'boolean',
+          description: "Create the note from its entity type's template (Templates/Entities/<Type>.md) if it does not exist yet (default: false)",
+          default: false
+        },
+        entity_type: {
+          type: 'string',
+          description: 'Entity type for a created note (default: inferred from the folder)'
         }
       },
       required: ['path']
@@ -1197,6 +1243,43 @@ Shows which vault entities are:
       }
     }
   },
+  {
+    name: 'vault_resolve_sync_conflict',
+    description: `Show or resolve a sync conflict between a vault entity note and its backend entity.
+
+Compares the note's frontmatter and the backend entity's properties with the
+last-synced base (a three-way diff), then optionally settles it:
+- \`show\` (default) - Print the diff, change nothing
+- \`keep_local\` - Push the note's properties to the backend
+- \`keep_remote\` - Write the backend's properties into the note's frontmatter
+- \`merge\` - Take one-sided changes from each side; \`fields\` picks local, remote or base for each conflicting field
+
+The note body is never changed. The resolved state becomes the new sync base.
+
+**Example:**
+  vault_resolve_sync_conflict(path="People/Ada Lovelace.md", resolution="merge", fields={"role": "remote"})`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Entity note path relative to the vault (e.g., "People/Ada Lovelace.md")'
+        },
+        resolution: {
+          type: 'string',
+          enum: ['show', 'keep_local', 'keep_remote', 'merge'],
+          description: 'What to do (default: show)',
+          default: 'show'
+        },
+        fields: {
+          type: 'object',
+          description: 'For merge: "local", "remote" or "base" per conflicting field name',
+          additionalProperties: { type: 'string', enum: ['local', 'remote', 'base'] }
+        }
+      },
+      required: ['path']
+    }
+  },
   // =============================================================================
   // ENTITY SCHEMA TOOLS - Dynamic entity type configuration
   // =============================================================================
@@ -1413,4 +1496,4 @@ Uses the personal knowledge graph to find sessions linked to entities via entity
       required: ['entity_name']
     }
   }
-];
+]);
@@ -20,6 +20,21 @@
  * Revert mechanism (per plan §Rollback): env `RECALL_ROUTING_ENABLED=false`
  * routes ALL queries to KOI hybrid regardless of shape; Graphiti leg disabled.
  *
+ * Entity expansion (`src/recall/expansion.ts`): capitalized spans resolve via
+ * `/entity/resolve`; canonical names + aliases extend the hybrid query and the
+ * entity URIs seed the walk. `RECALL_ENTITY_EXPANSION=false` disables it.
+ *
+ * Response cache: answers are kept in `queryCache` (src/cache.ts, "dynamic"
+ * TTL) keyed by normalized query + shape + limit (+ mode / temporal view /
+ * RECALL_ROUTING_ENABLED, so the revert switch takes effect at once / router
+ * rule-set version / expansion settings / local day for relative dates).
+ * Successful knowledge or vault writes in this process evict stale entries
+ * via `invalidateRecallCacheAfter`. `RECALL_CACHE_ENABLED=false` bypasses it.
+ *
+ * Walk leg transport: in-process HTTP client (`src/recall/walk-client.ts`,
+ * keep-alive + AbortSignal cancellation). `RECALL_WALK_BACKEND=python` opts
+ * back into spawning the `koi_recall.py` sidecar per call.
+ *
  * Per-call observability: every invocation appends a JSON-line to
  * `~/.koi/logs/recall-metrics.jsonl` (per plan §Rollback "Metrics computation").
  */
@@ -29,11 +44,42 @@ import os from "node:os";
 import fs from "node:fs";
 import crypto from "node:crypto";
 import axios from "axios";
+import { queryCache } from "../cache.js";
 import {
+  activateRuleFile,
+  activeRouterRulesVersion,
+  checkRuleSet,
+  explainShape,
+  loadRuleFile,
   resolveShape,
+  shapeDefaults,
   RecallShape,
   ShapeSource,
 } from "../recall/router.js";
+import { runRecallWalk, walkEdgeId } from "../recall/walk-client.js";
+import type { DateRange } from "../recall/dates.js";
+import { describeSession, hydrateSessions } from "../recall/sessions.js";
+import {
+  EntityExpansion,
+  expandQuery,
+  expansionEnabled,
+  expansionMinConfidence,
+} from "../recall/expansion.js";
+import {
+  buildRecallMetricsReport,
+  formatRecallMetricsMarkdown,
+} from "../recall/metrics-report.js";
+import {
+  applyTemporalFilter,
+  parseTemporalFilter,
+  TemporalFilter,
+  TemporalWindow,
+} from "../recall/temporal.js";
+import {
+  fuseLegs,
+  FusionContribution,
+  LegWeights,
+} from "../recall/fusion.js";
 
 // --- Config ---
 const KOI_BASE_URL =
@@ -44,7 +90,9 @@ const KOI_CANON_GROUP_ID =
 // knowledge_facts via /knowledge/recall-walk endpoint). Replaced the
 // Graphiti FalkorDB sidecar at Tier-3 architectural correction
 // (2026-04-29 Phases 1-7); FalkorDB LaunchAgent + container retired
-// 2026-04-30 Wave 1 close-out.
+// 2026-04-30 Wave 1 close-out. Superseded as the default walk path by the
+// in-process client (src/recall/walk-client.ts); only spawned when
+// RECALL_WALK_BACKEND=python.
 const RECALL_WALK_SIDECAR_PATH = path.join(
   process.cwd(),
   "python",
@@ -54,7 +102,9 @@ const RECALL_WALK_SIDECAR_FALLBACK = path.join(
   os.homedir(),
   "projects/personal-koi-mcp/python/koi_recall.py",
 );
-const METRICS_DIR = path.join(os.homedir(), ".koi", "logs");
+// RECALL_METRICS_DIR keeps eval / test runs out of the operator's telemetry.
+export const METRICS_DIR =
+  process.env.RECALL_METRICS_DIR || path.join(os.homedir(), ".koi", "logs");
 const METRICS_PATH = path.join(METRICS_DIR, "recall-metrics.jsonl");
 const RECALL_WALK_TIMEOUT_MS = 30_000;
 
@@ -62,8 +112,17 @@ const RECALL_WALK_TIMEOUT_MS = 30_000;
 export interface RecallInput {
   query: string;
   shape?: "auto" | "semantic" | "temporal" | "relationship";
+  /**
+   * "routed" (default) dispatches to the single leg the shape selects;
+   * "fused" runs both legs concurrently and merges them with RRF.
+   */
+  mode?: "routed" | "fused";
   limit?: number;
   include_legs?: boolean;
+  /** Point-in-time view: facts valid at this ISO date/datetime. */
+  as_of?: string;
+  /** Interval diff: facts that started or ended inside the window. */
+  between?: TemporalWindow | [string, string];
 }
 
 export interface RecallResultItem {
@@ -78,6 +137,22 @@ export interface RecallRouting {
   shape_resolved: RecallShape;
   shape_source: ShapeSource;
   legs_queried: Array<"hybrid" | "walk">;
+  mode?: "routed" | "fused";
+  rule_id?: string; // router rule that decided an auto shape
+  fusion?: RecallFusion; // populated when mode="fused"
+  date_range?: DateRange; // read from the query text by the router
+  unresolved_date_anchor?: string;
+  expansions?: EntityExpansion[]; // entities resolved from the query
+  expanded_query?: string; // text sent to the hybrid leg when expanded
+}
+
+export interface RecallFusion {
+  k: number;
+  weights: LegWeights;
+  /** Per returned item (same order as `results`): which legs surfaced it. */
+  contributions: FusionContribution[];
+  /** Legs that errored; fusion proceeded with the remaining leg. */
+  failed_legs?: Array<"hybrid" | "walk">;
 }
 
 export interface RecallLatency {
@@ -86,15 +161,45 @@ export interface RecallLatency {
   walk: number | null;
 }
 
+/** Echo of the applied temporal filter plus the `between` diff summary. */
+export interface RecallTemporalView {
+  /** "input" = as_of/between arguments; "query" = router's date_range. */
+  source: "input" | "query";
+  as_of?: string;
+  between?: TemporalWindow;
+  /** Router date range: facts valid at any point of it. */
+  during?: TemporalWindow;
+  /** Result ids of facts whose validity began inside `between`. */
+  started: string[];
+  /** Result ids of facts whose validity ended inside `between`. */
+  ended: string[];
+}
+
 export interface RecallResponse {
   results: RecallResultItem[];
   routing: RecallRouting;
   latency_ms: RecallLatency;
-  error_code?: "substrate_unavailable";
+  temporal?: RecallTemporalView; // populated when as_of/between given
+  cached?: boolean; // served from the response cache; no leg was queried
+  error_code?: "substrate_unavailable" | "invalid_input";
   error?: string;
   legs?: Record<string, unknown>; // populated when include_legs=true
 }
 
+/** Per-leg result; `raw` is the leg's untranslated payload (include_legs). */
+type LegOutcome = {
+  results: RecallResultItem[];
+  raw: Record<string, unknown>;
+  latency_ms: number;
+  error?: string;
+};
+
+/** Programmatic-only options (not part of the MCP input schema). */
+export interface RecallOptions {
+  /** Cancels in-flight leg requests. */
+  signal?: AbortSignal;
+}
+
 // --- KOI client (axios; mirrors koi-api-tools.ts:28-30) ---
 let _koiClient: ReturnType<typeof axios.create> | null = null;
 function koiClient(): ReturnType<typeof axios.create> {
@@ -111,16 +216,24 @@ function koiClient(): ReturnType<typeof axios.create> {
 async function queryKoi(
   query: string,
   limit: number,
-): Promise<{
-  results: RecallResultItem[];
-  raw: Record<string, unknown>;
-  latency_ms: number;
-  error?: string;
-}> {
+  signal?: AbortSignal,
+  temporal?: TemporalFilter,
+): Promise<LegOutcome> {
   const t0 = Date.now();
   try {
+    const params: Record<string, unknown> = {
+      query,
+      limit,
+      include: "entities,facts,sessions,wiki,vault,memories",
+    };
+    if (temporal?.as_of) params.as_of = temporal.as_of;
+    if (temporal?.between) {
+      params.between_from = temporal.between.from;
+      params.between_to = temporal.between.to;
+    }
     const { data } = await koiClient().get("/knowledge/unified-search", {
-      params: { query, limit, include: "entities,facts,sessions,wiki,vault,memories" },
+      params,
+      signal,
     });
     const items: RecallResultItem[] = [];
     const raw = data as Record<string, unknown>;
@@ -145,7 +258,7 @@ async function queryKoi(
       });
     }
     return {
-      results: items,
+      results: temporal ? applyTemporalFilter(items, temporal).items : items,
       raw,
       latency_ms: Date.now() - t0,
     };
@@ -161,6 +274,160 @@ async function queryKoi(
 }
 
 // --- Walk leg (PostgreSQL recursive-CTE over knowledge_facts) ---
+type WalkBackend = "native" | "python";
+
+function walkBackend(): WalkBackend {
+  // Native in-process client is the default; the koi_recall.py sidecar is an
+  // opt-in fallback for environments where the MCP process cannot reach KOI
+  // directly (read per-call so the switch is hot, like RECALL_ROUTING_ENABLED).
+  return (process.env.RECALL_WALK_BACKEND || "native").toLowerCase() === "python"
+    ? "python"
+    : "native";
+}
+
+/**
+ * Map walk output (native client or sidecar stdout — same contract) to
+ * RecallResultItem[].
+ *
+ * Edges carry the structural payload (knowledge_facts rows with
+ * valid_from/valid_to); session_ids surface separately so callers can score
+ * against ground-truth UUIDs (matches POC bench expectation).
+ */
+function mapWalkOutput(
+  parsed: Record<string, unknown>,
+  limit: number,
+  temporal?: TemporalFilter,
+): RecallResultItem[] {
+  const sessionItems: RecallResultItem[] = [];
+  const edgeItems: RecallResultItem[] = [];
+  const sessionIds = (parsed.session_ids as string[]) || [];
+  const edges = (parsed.edges as Array<Record<string, unknown>>) || [];
+  // One item per session_id (rank-stable; first edge that surfaced it).
+  // Content is a placeholder until hydrateWalkSessions() fills it in.
+  for (const sid of sessionIds) {
+    const surfacedBy = edges
+      .filter((e) => e.session_id === sid)
+      .map((e) => ({ name: e.name, fact: e.fact, valid_at: e.valid_at }));
+    sessionItems.push({
+      id: sid,
+      score: 1.0, // walk results are rank-ordered; uniform 1.0
+      leg: "walk",
+      content: `claude-code session ${sid}`,
+      metadata: {
+        session_id: sid,
+        source: "walk_session_entity",
+        ...(surfacedBy.length > 0 ? { edges: surfacedBy } : {}),
+      },
+    });
+  }
+  for (const e of edges) {
+    edgeItems.push({
+      id: walkEdgeId(e),
+      score: 0.5,
+      leg: "walk",
+      content: String(e.fact || ""),
+      metadata: {
+        source: "walk_edge",
+        valid_at: e.valid_at,
+        valid_to: e.valid_to,
+        edge_name: e.name,
+      },
+    });
+  }
+  if (temporal) {
+    // as_of / between questions are about facts: edges lead, filtered to the
+    // requested view; sessions follow as attribution.
+    const facts = applyTemporalFilter(edgeItems, temporal).items;
+    return [...facts, ...sessionItems].slice(0, limit);
+  }
+  // If no session UUIDs surfaced, emit edges as items so caller still
+  // sees something (e.g., a relationship query that surfaces facts but
+  // no session attribution).
+  return (sessionItems.length > 0 ? sessionItems : edgeItems).slice(0, limit);
+}
+
+/**
+ * Replace walk session placeholders with the session's summary, first prompt,
+ * timestamp, project/cwd and best-matching chunk. Lookup latency is charged
+ * to the walk leg; sessions that can't be fetched keep the placeholder.
+ */
+async function hydrateWalkSessions(
+  outcome: LegOutcome,
+  query: string,
+  signal?: AbortSignal,
+): Promise<LegOutcome> {
+  const sids = outcome.results
+    .filter((r) => r.metadata.source === "walk_session_entity")
+    .map((r) => r.id);
+  if (sids.length === 0) return outcome;
+  const t0 = Date.now();
+  const found = await hydrateSessions(sids, query, signal);
+  const results = outcome.results.map((r) => {
+    if (r.metadata.source !== "walk_session_entity") return r;
+    const ctx = found.get(r.id);
+    if (!ctx) return { ...r, metadata: { ...r.metadata, hydrated: false } };
+    const { session_id: _sid, ...fields } = ctx;
+    return {
+      ...r,
+      content: describeSession(ctx),
+      metadata: { ...r.metadata, ...fields, hydrated: true },
+    };
+  });
+  return { ...outcome, results, latency_ms: outcome.latency_ms + (Date.now() - t0) };
+}
+
+async function queryWalk(
+  query: string,
+  shape: RecallShape,
+  limit: number,
+  signal?: AbortSignal,
+  temporal?: TemporalFilter,
+  seedUris?: string[],
+): Promise<LegOutcome> {
+  // The sidecar CLI takes no seeds; entity seeding is native-client only.
+  const outcome =
+    walkBackend() === "python"
+      ? await queryWalkSidecar(query, shape, limit, temporal)
+      : await queryWalkNative(query, shape, limit, signal, temporal, seedUris);
+  if (outcome.error) return outcome;
+  return hydrateWalkSessions(outcome, query, signal);
+}
+
+async function queryWalkNative(
+  query: string,
+  shape: RecallShape,
+  limit: number,
+  signal?: AbortSignal,
+  temporal?: TemporalFilter,
+  seedUris?: string[],
+): Promise<LegOutcome> {
+  const t0 = Date.now();
+  const timeout = AbortSignal.timeout(RECALL_WALK_TIMEOUT_MS);
+  const out = await runRecallWalk({
+    query,
+    shape,
+    limit,
+    groupId: KOI_CANON_GROUP_ID,
+    temporal,
+    seedUris,
+    signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+  });
+  const lat = Date.now() - t0;
+  if (!out.ok) {
+    const error =
+      out.error_class === "cancelled" && timeout.aborted
+        ? `walk timeout after ${RECALL_WALK_TIMEOUT_MS}ms`
+        : `walk not ok: ${out.error}`;
+    return { results: [], raw: out, latency_ms: lat, error };
+  }
+  return {
+    results: mapWalkOutput(out, limit, temporal),
+    raw: out,
+    latency_ms: lat,
+  };
+}
+
+// --- Walk leg, sidecar fallback (RECALL_WALK_BACKEND=python) ---
 function resolveWalkSidecar(): string {
   // Tier-3 (2026-04-30 Wave 1): FalkorDB sidecar retired; only the
   // koi_recall.py PostgreSQL walk remains. RECALL_BACKEND env flag removed.
@@ -168,15 +435,12 @@ function resolveWalkSidecar(): string {
   return RECALL_WALK_SIDECAR_FALLBACK;
 }
 
-async function queryWalk(
+async function queryWalkSidecar(
   query: string,
+  shape: RecallShape,
   limit: number,
-): Promise<{
-  results: RecallResultItem[];
-  raw: Record<string, unknown>;
-  latency_ms: number;
-  error?: string;
-}> {
+  temporal?: TemporalFilter,
+): Promise<LegOutcome> {
   const t0 = Date.now();
   return new Promise((resolve) => {
     const sidecarPath = resolveWalkSidecar();
@@ -188,7 +452,14 @@ async function queryWalk(
       String(limit),
       "--group-id",
       KOI_CANON_GROUP_ID,
+      "--shape",
+      shape,
     ];
+    // Same temporal view the native client forwards (as_of / valid_between)
+    if (temporal?.as_of) args.push("--as-of", temporal.as_of);
+    if (temporal?.between) {
+      args.push("--valid-between", temporal.between.from, temporal.between.to);
+    }
     // koi_recall.py needs only httpx; system python3 is sufficient.
     // KOI_RECALL_PYTHON env override available for unusual python locations.
     const pythonBin = process.env.KOI_RECALL_PYTHON || "/usr/bin/python3";
@@ -198,12 +469,7 @@ async function queryWalk(
     let stdout = "";
     let stderr = "";
     let settled = false;
-    const done = (out: {
-      results: RecallResultItem[];
-      raw: Record<string, unknown>;
-      latency_ms: number;
-      error?: string;
-    }) => {
+    const done = (out: LegOutcome) => {
       if (!settled) {
         settled = true;
         clearTimeout(timer);
@@ -256,48 +522,8 @@ async function queryWalk(
         });
         return;
       }
-      // Map walk session_ids + edges to RecallResultItem[].
-      // Edges carry the structural payload (knowledge_facts rows with
-      // valid_from/valid_to); session_ids surface separately so callers
-      // can score against ground-truth UUIDs (matches POC bench expectation).
-      const items: RecallResultItem[] = [];
-      const sessionIds = (parsed.session_ids as string[]) || [];
-      const edges = (parsed.edges as Array<Record<string, unknown>>) || [];
-      // Emit one item per session_id (rank-stable; first edge that surfaced it).
-      for (const sid of sessionIds) {
-        items.push({
-          id: sid,
-          score: 1.0, // walk results are rank-ordered; uniform 1.0
-          leg: "walk",
-          content: `claude-code session ${sid}`,
-          metadata: {
-            session_id: sid,
-            source: "walk_session_entity",
-          },
-        });
-        if (items.length >= limit) break;
-      }
-      // If no session UUIDs surfaced, emit edges as items so caller still
-      // sees something (e.g., a relationship query that surfaces facts but
-      // no session attribution).
-      if (items.length === 0) {
-        for (const e of edges) {
-          items.push({
-            id: String(e.name || ""),
-            score: 0.5,
-            leg: "walk",
-            content: String(e.fact || ""),
-            metadata: {
-              source: "walk_edge",
-              valid_at: e.valid_at,
-              edge_name: e.name,
-            },
-          });
-          if (items.length >= limit) break;
-        }
-      }
       done({
-        results: items,
+        results: mapWalkOutput(parsed, limit, temporal),
         raw: parsed,
         latency_ms: lat,
       });
@@ -314,6 +540,26 @@ async function queryWalk(
   });
 }
 
+/**
+ * Named date anchors for "since the <event>" phrases, from
+ * RECALL_DATE_ANCHORS (JSON object: name → ISO date). Names are matched
+ * lower-case; a malformed value disables anchors rather than failing recall.
+ */
+function dateAnchors(): Record<string, string> {
+  const raw = process.env.RECALL_DATE_ANCHORS;
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const out: Record<string, string> = {};
+    for (const [name, date] of Object.entries(parsed)) {
+      if (typeof date === "string") out[name.toLowerCase()] = date;
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
 // --- Metrics emission ---
 function emitMetrics(
   query: string,
@@ -321,6 +567,8 @@ function emitMetrics(
   latency: RecallLatency,
   errorCode: string | null,
   legResultCounts: Record<string, number>,
+  temporal?: TemporalFilter,
+  cacheHit = false,
 ): void {
   try {
     if (!fs.existsSync(METRICS_DIR)) {
@@ -342,6 +590,15 @@ function emitMetrics(
       latency_ms_walk: latency.walk,
       error_code: errorCode,
       leg_result_counts: legResultCounts,
+      temporal_filter: temporal?.between
+        ? "between"
+        : temporal?.during
+          ? "during"
+          : temporal?.as_of
+            ? "as_of"
+            : null,
+      entity_expansions: routing.expansions?.length ?? 0,
+      cache_hit: cacheHit,
     });
     fs.appendFileSync(METRICS_PATH, line + "\n");
   } catch {
@@ -349,16 +606,122 @@ function emitMetrics(
   }
 }
 
+// --- Response cache ---
+const RECALL_CACHE_TOOL = "recall";
+
+type RecallWriteScope = "knowledge" | "vault";
+
+/**
+ * Tools whose success makes cached answers stale. Knowledge writes change
+ * facts and entities, which both legs (and entity expansion) read; vault
+ * writes only change what the hybrid leg indexes.
+ */
+const RECALL_STALE_AFTER: Record<string, RecallWriteScope> = {
+  add_knowledge: "knowledge",
+  retract_fact: "knowledge",
+  merge_entities: "knowledge",
+  vault_ingest_extraction: "knowledge",
+  vault_register_entity: "knowledge",
+  vault_sync_entities: "knowledge",
+  vault_resolve_sync_conflict: "knowledge",
+  vault_write_note: "vault",
+  vault_undo_write: "vault",
+  vault_move_note: "vault",
+  vault_patch_note: "vault",
+  vault_audit: "vault",
+  vault_unlinked_mentions: "vault",
+  vault_process_extraction: "vault",
+};
+
+function recallCacheEnabled(): boolean {
+  return (process.env.RECALL_CACHE_ENABLED ?? "true").toLowerCase() !== "false";
+}
+
+function recallRoutingEnabled(): boolean {
+  return (process.env.RECALL_ROUTING_ENABLED ?? "true").toLowerCase() !== "false";
+}
+
+/**
+ * Cache key parameters. Query text is case- and whitespace-normalized; every
+ * other input that changes the answer is part of the key.
+ */
+function recallCacheParams(input: RecallInput, limit: number): Record<string, unknown> {
+  return {
+    query: input.query.trim().replace(/\s+/g, " ").toLowerCase(),
+    shape: input.shape ?? "auto",
+    limit,
+    mode: input.mode,
+    as_of: input.as_of,
+    between: input.between,
+    include_legs: input.include_legs || undefined,
+    // Turning routing off must not keep serving routed answers
+    routing: recallRoutingEnabled(),
+    // A rule set activated through recall_explain routes differently
+    rules: recallRoutingEnabled() ? activeRouterRulesVersion() : undefined,
+    expansion: expansionEnabled() ? expansionMinConfidence() : false,
+    // Relative dates ("yesterday") resolve against the local day
+    today: localDay(new Date()),
+  };
+}
+
+function localDay(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * Evict cached recall answers a successful tool call may have made stale.
+ * Called by the MCP dispatcher after every tool; returns entries evicted.
+ */
+export function invalidateRecallCacheAfter(
+  tool: string,
+  args: Record<string, unknown> = {},
+): number {
+  const scope = RECALL_STALE_AFTER[tool];
+  if (!scope) return 0;
+  if (tool === "merge_entities" && args.dry_run === true) return 0;
+  if (tool === "vault_resolve_sync_conflict" && (args.resolution ?? "show") === "show") return 0;
+  if (tool === "vault_unlinked_mentions" && args.apply !== true) return 0;
+  if (tool === "vault_audit" && args.fix !== true) return 0;
+  if (scope === "knowledge") return queryCache.invalidate(RECALL_CACHE_TOOL);
+  return queryCache.invalidate(RECALL_CACHE_TOOL, (resp: RecallResponse) =>
+    resp.routing.legs_queried.includes("hybrid"),
+  );
+}
+
 // --- Main entrypoint ---
-export async function recall(input: RecallInput): Promise<RecallResponse> {
+export async function recall(
+  input: RecallInput,
+  options: RecallOptions = {},
+): Promise<RecallResponse> {
   const t0 = Date.now();
   const query = input.query;
   const limit = Math.min(Math.max(input.limit ?? 5, 1), 20);
   const includeLegs = input.include_legs ?? false;
 
+  const cacheParams = recallCacheEnabled() ? recallCacheParams(input, limit) : null;
+  if (cacheParams) {
+    const hit = queryCache.get<RecallResponse>(RECALL_CACHE_TOOL, RECALL_CACHE_TOOL, cacheParams);
+    if (hit) {
+      const latency: RecallLatency = { total: Date.now() - t0, hybrid: null, walk: null };
+      const counts: Record<string, number> = {};
+      for (const r of hit.results) counts[r.leg] = (counts[r.leg] || 0) + 1;
+      const filter = hit.temporal
+        ? { as_of: hit.temporal.as_of, between: hit.temporal.between, during: hit.temporal.during }
+        : undefined;
+      emitMetrics(query, hit.routing, latency, null, counts, filter, true);
+      return { ...hit, latency_ms: latency, cached: true };
+    }
+  }
+
+  // 0. Temporal view (as_of / between). Rejected up-front: a silently
+  //    ignored date would answer a different question than was asked.
+  const parsed = parseTemporalFilter(input.as_of, input.between);
+  let temporal = parsed.filter;
+  let temporalSource: RecallTemporalView["source"] = "input";
+
   // Revert mechanism: route ALL queries to hybrid when env disabled.
-  const routingEnabled =
-    (process.env.RECALL_ROUTING_ENABLED ?? "true").toLowerCase() !== "false";
+  const routingEnabled = recallRoutingEnabled();
 
   // 1. Shape resolution (Strand A4 hybrid).
   let routing: RecallRouting;
@@ -369,23 +732,102 @@ export async function recall(input: RecallInput): Promise<RecallResponse> {
       legs_queried: ["hybrid"],
     };
   } else {
-    const r = resolveShape(query, input.shape);
+    const r = resolveShape(query, input.shape, { anchors: dateAnchors() });
     routing = {
       shape_resolved: r.shape,
       shape_source: r.source,
       legs_queried: r.shape === "semantic" ? ["hybrid"] : ["walk"],
+      ...(r.rule_id ? { rule_id: r.rule_id } : {}),
+      ...(r.date_range ? { date_range: r.date_range } : {}),
+      ...(r.unresolved_date_anchor
+        ? { unresolved_date_anchor: r.unresolved_date_anchor }
+        : {}),
     };
+    // A date phrase in the query narrows the legs unless the caller gave an
+    // explicit as_of/between, which always wins. "Last week" asks what held
+    // then, so facts overlapping the range count, not only changes in it.
+    if (!temporal && !parsed.error && r.date_range) {
+      temporal = { during: { from: r.date_range.from, to: r.date_range.to } };
+      temporalSource = "query";
+    }
   }
 
-  // 2. Dispatch to leg.
+  if (parsed.error) {
+    const latency: RecallLatency = { total: Date.now() - t0, hybrid: null, walk: null };
+    emitMetrics(query, routing, latency, "invalid_input", {});
+    return {
+      results: [],
+      routing: { ...routing, legs_queried: [] },
+      latency_ms: latency,
+      error_code: "invalid_input",
+      error: parsed.error,
+    };
+  }
+
+  // 2. Entity expansion. Routing above always sees the caller's text; the
+  //    hybrid leg gets canonical names + aliases, the walk leg entity seeds.
+  const expansion = expansionEnabled()
+    ? await expandQuery(query, options.signal)
+    : null;
+  const hybridQuery = expansion?.hybrid_query ?? query;
+  const seedUris = expansion?.seed_uris ?? [];
+  if (expansion && expansion.expansions.length > 0) {
+    routing = {
+      ...routing,
+      expansions: expansion.expansions,
+      ...(hybridQuery !== query ? { expanded_query: hybridQuery } : {}),
+    };
+  }
+
+  // 3. Dispatch to leg(s). Fused mode is a no-op under the revert flag: the
+  //    walk leg is disabled, so there is nothing to fuse with.
   const latency: RecallLatency = { total: 0, hybrid: null, walk: null };
   let results: RecallResultItem[] = [];
-  let errorCode: "substrate_unavailable" | undefined;
+  let errorCode: RecallResponse["error_code"];
   let errorText: string | undefined;
+  let legFailed = false; // a leg errored; the answer is degraded, not cached
   const legsRaw: Record<string, unknown> = {};
 
-  if (routing.shape_resolved === "semantic") {
-    const hybrid = await queryKoi(query, limit);
+  // Caller's mode wins; otherwise the rule set's per-shape default.
+  const mode = input.mode ?? shapeDefaults(routing.shape_resolved).mode ?? "routed";
+  if (routingEnabled && mode === "fused") {
+    const [hybrid, walk] = await Promise.all([
+      queryKoi(hybridQuery, limit, options.signal, temporal),
+      queryWalk(query, routing.shape_resolved, limit, options.signal, temporal, seedUris),
+    ]);
+    latency.hybrid = hybrid.latency_ms;
+    latency.walk = walk.latency_ms;
+    if (includeLegs) {
+      legsRaw.hybrid = hybrid.raw;
+      legsRaw.walk = walk.raw;
+    }
+    const failed: Array<"hybrid" | "walk"> = [];
+    if (hybrid.error) failed.push("hybrid");
+    if (walk.error) failed.push("walk");
+    legFailed = failed.length > 0;
+    if (failed.length === 2) {
+      errorCode = "substrate_unavailable";
+      errorText = `walk: ${walk.error} | hybrid: ${hybrid.error}`;
+    }
+    const fused = fuseLegs(
+      { hybrid: hybrid.results, walk: walk.results },
+      routing.shape_resolved,
+      limit,
+    );
+    results = fused.results;
+    routing = {
+      ...routing,
+      legs_queried: ["hybrid", "walk"],
+      mode: "fused",
+      fusion: {
+        k: fused.k,
+        weights: fused.weights,
+        contributions: fused.contributions,
+        ...(failed.length > 0 ? { failed_legs: failed } : {}),
+      },
+    };
+  } else if (routing.shape_resolved === "semantic") {
+    const hybrid = await queryKoi(hybridQuery, limit, options.signal, temporal);
     latency.hybrid = hybrid.latency_ms;
     if (hybrid.error) {
       errorCode = "substrate_unavailable";
@@ -396,11 +838,19 @@ export async function recall(input: RecallInput): Promise<RecallResponse> {
     if (includeLegs) legsRaw.hybrid = hybrid.raw;
   } else {
     // temporal | relationship → walk, with hybrid fallback on walk failure.
-    const walk = await queryWalk(query, limit);
+    const walk = await queryWalk(
+      query,
+      routing.shape_resolved,
+      limit,
+      options.signal,
+      temporal,
+      seedUris,
+    );
     latency.walk = walk.latency_ms;
+    legFailed = Boolean(walk.error);
     if (walk.error || walk.results.length === 0) {
       // Fall through to hybrid retrieval (acceptable degradation per plan §Strand C).
-      const hybrid = await queryKoi(query, limit);
+      const hybrid = await queryKoi(hybridQuery, limit, options.signal, temporal);
       latency.hybrid = hybrid.latency_ms;
       if (hybrid.error) {
         errorCode = "substrate_unavailable";
@@ -408,11 +858,7 @@ export async function recall(input: RecallInput): Promise<RecallResponse> {
       } else {
         results = hybrid.results;
         // Mark fallback in routing.
-        routing = {
-          shape_resolved: routing.shape_resolved,
-          shape_source: "fallback",
-          legs_queried: ["walk", "hybrid"],
-        };
+        routing = { ...routing, shape_source: "fallback", legs_queried: ["walk", "hybrid"] };
       }
       if (includeLegs) {
         legsRaw.walk = walk.raw;
@@ -426,19 +872,33 @@ export async function recall(input: RecallInput): Promise<RecallResponse> {
 
   latency.total = Date.now() - t0;
 
-  // 3. Emit metrics line (best-effort).
+  // 4. Emit metrics line (best-effort).
   const legCounts: Record<string, number> = {};
   for (const r of results) {
     legCounts[r.leg] = (legCounts[r.leg] || 0) + 1;
   }
-  emitMetrics(query, routing, latency, errorCode || null, legCounts);
+  emitMetrics(query, routing, latency, errorCode || null, legCounts, temporal);
 
-  // 4. Build response.
+  // 5. Build response.
   const resp: RecallResponse = {
     results,
     routing,
     latency_ms: latency,
   };
+  if (temporal) {
+    // Legs already tagged surviving facts with metadata.change; summarise the
+    // final (post-fusion, post-limit) list so ids match `results`.
+    resp.temporal = {
+      source: temporalSource,
+      ...temporal,
+      started: results
+        .filter((r) => r.metadata.change === "started" || r.metadata.change === "started_and_ended")
+        .map((r) => r.id),
+      ended: results
+        .filter((r) => r.metadata.change === "ended" || r.metadata.change === "started_and_ended")
+        .map((r) => r.id),
+    };
+  }
   if (errorCode) {
     resp.error_code = errorCode;
     resp.error = errorText;
@@ -446,6 +906,11 @@ export async function recall(input: RecallInput): Promise<RecallResponse> {
   if (includeLegs) {
     resp.legs = legsRaw;
   }
+  // Errors and degraded answers are never cached: the next call should retry
+  // the substrate.
+  if (cacheParams && !errorCode && !legFailed && !options.signal?.aborted) {
+    queryCache.set(RECALL_CACHE_TOOL, RECALL_CACHE_TOOL, cacheParams, resp);
+  }
   return resp;
 }
 
@@ -463,7 +928,7 @@ export const RECALL_TOOL_DEFINITION: {
 } = {
   name: "recall",
   description:
-    "Route a query by shape across KOI hybrid retrieval (semantic) and Graphiti temporal sidecar (temporal/relationship). Per Tier-2 ratified Strand A4: heuristic resolves shape unless `shape` parameter overrides. Use this in preference to `unified_search` for any question involving validity windows ('when', dates, 'has X been superseded?'), graph-shaped relationships ('what dispatches', 'walk/trace'), or any temporal/relationship reasoning. Falls back to KOI hybrid when Graphiti is unavailable.",
+    "Route a query by shape across KOI hybrid retrieval (semantic) and Graphiti temporal sidecar (temporal/relationship). Per Tier-2 ratified Strand A4: heuristic resolves shape unless `shape` parameter overrides. Use this in preference to `unified_search` for any question involving validity windows ('when', dates, 'has X been superseded?'), graph-shaped relationships ('what dispatches', 'walk/trace'), or any temporal/relationship reasoning. Falls back to KOI hybrid when Graphiti is unavailable. Names in the query are resolved to canonical entities first: aliases widen the hybrid search, entity URIs seed the walk, and routing.expansions reports what was applied.",
   inputSchema: {
     type: "object",
     properties: {
@@ -477,10 +942,31 @@ export const RECALL_TOOL_DEFINITION: {
         description:
           "Optional operator-override shape hint. Default 'auto' lets the heuristic decide.",
       },
+      mode: {
+        type: "string",
+        enum: ["routed", "fused"],
+        description:
+          "'routed' (default unless the router rule file sets a per-shape default) queries the one leg the shape selects. 'fused' queries hybrid + walk concurrently and merges them with reciprocal-rank fusion weighted by shape; routing.fusion.contributions lists which legs surfaced each result.",
+      },
       limit: {
         type: "number",
         description: "Max results (default 5; max 20).",
       },
+      as_of: {
+        type: "string",
+        description:
+          "ISO date or datetime. Return the state of the graph at that moment: only facts valid then (valid_from ≤ as_of < valid_to). Date-only values mean end of that day (UTC).",
+      },
+      between: {
+        type: "object",
+        properties: {
+          from: { type: "string", description: "Window start (ISO date/datetime)." },
+          to: { type: "string", description: "Window end (ISO date/datetime, inclusive)." },
+        },
+        required: ["from", "to"],
+        description:
+          "Return what changed in a window: facts that started or ended inside [from, to], each tagged metadata.change = started | ended | started_and_ended. The `temporal` field of the response lists started/ended result ids.",
+      },
       include_legs: {
         type: "boolean",
         description:
@@ -496,8 +982,11 @@ export async function handleRecallTool(args: Record<string, unknown>) {
   const input: RecallInput = {
     query: String(args.query || ""),
     shape: args.shape as RecallInput["shape"] | undefined,
+    mode: args.mode === "fused" || args.mode === "routed" ? args.mode : undefined,
     limit: typeof args.limit === "number" ? (args.limit as number) : undefined,
     include_legs: Boolean(args.include_legs),
+    as_of: typeof args.as_of === "string" ? args.as_of : undefined,
+    between: args.between as RecallInput["between"],
   };
   const resp = await recall(input);
   return {
@@ -505,3 +994,134 @@ export async function handleRecallTool(args: Record<string, unknown>) {
     isError: !!resp.error_code,
   };
 }
+
+// --- recall_metrics_report: read back what emitMetrics wrote ---
+const METRICS_REPORT_DEFAULT_DAYS = 7;
+
+export const RECALL_METRICS_REPORT_TOOL_DEFINITION: typeof RECALL_TOOL_DEFINITION = {
+  name: "recall_metrics_report",
+  description:
+    "Aggregate recall telemetry (~/.koi/logs/recall-metrics*.jsonl) over a date range: shape distribution, hint-vs-auto ratio, p50/p95 latency per leg, error-code breakdown and zero-result rate. Queries are stored hashed; no query text is reported.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      from: {
+        type: "string",
+        description: `Window start (ISO date/datetime). Default: ${METRICS_REPORT_DEFAULT_DAYS} days before \`to\`.`,
+      },
+      to: {
+        type: "string",
+        description: "Window end (ISO date/datetime, inclusive). Default: now.",
+      },
+      format: {
+        type: "string",
+        enum: ["markdown", "json", "both"],
+        description: "Output format (default 'both': markdown followed by the JSON report).",
+      },
+    },
+    required: [],
+  },
+};
+
+export async function handleRecallMetricsReportTool(args: Record<string, unknown>) {
+  const toRaw = typeof args.to === "string" && args.to ? args.to : new Date().toISOString();
+  const fromRaw =
+    typeof args.from === "string" && args.from
+      ? args.from
+      : new Date(
+          Date.parse(toRaw) - METRICS_REPORT_DEFAULT_DAYS * 86_400_000,
+        ).toISOString();
+  const parsed = parseTemporalFilter(undefined, { from: fromRaw, to: toRaw });
+  if (parsed.error || !parsed.filter?.between) {
+    return {
+      content: [{ type: "text", text: `Invalid date range: ${parsed.error ?? "missing"}` }],
+      isError: true,
+    };
+  }
+  const { from, to } = parsed.filter.between;
+  const report = buildRecallMetricsReport(METRICS_DIR, from, to);
+  const format = args.format === "markdown" || args.format === "json" ? args.format : "both";
+  const parts: string[] = [];
+  if (format !== "json") parts.push(formatRecallMetricsMarkdown(report));
+  if (format !== "markdown") parts.push("```json\n" + JSON.stringify(report, null, 2) + "\n```");
+  return {
+    content: [{ type: "text", text: format === "json" ? JSON.stringify(report, null, 2) : parts.join("\n") }],
+    isError: false,
+  };
+}
+
+// --- recall_explain: why the router picked a shape ---
+export const RECALL_EXPLAIN_TOOL_DEFINITION: typeof RECALL_TOOL_DEFINITION = {
+  name: "recall_explain",
+  description:
+    "Explain how `recall` would route a query without running it: the rule that fired (pattern and matched text), every rule evaluated in priority order, the resolved shape, any date range read from the query, and which rule set is active. With `candidate_rules`, also replays the router test cases against that rule file and explains the query under it; `activate: true` installs the file only if the replay passes.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Query to classify.",
+      },
+      shape: {
+        type: "string",
+        enum: ["auto", "semantic", "temporal", "relationship"],
+        description: "Optional shape hint, as for `recall`.",
+      },
+      candidate_rules: {
+        type: "string",
+        description:
+          "Path to a candidate rule file (JSON or YAML: { version: 1, default_shape, rules: [{ id, shape, patterns, flags?, date_phrase?, description? }], shape_defaults? }).",
+      },
+      activate: {
+        type: "boolean",
+        description:
+          "With candidate_rules: install it as the active rule file if the replay check passes (default false).",
+      },
+    },
+    required: [],
+  },
+};
+
+export async function handleRecallExplainTool(args: Record<string, unknown>) {
+  const query = String(args.query || "");
+  const hint = args.shape as string | undefined;
+  const out: Record<string, unknown> = {};
+  if (query) out.active = explainShape(query, hint, { anchors: dateAnchors() });
+
+  const candidatePath =
+    typeof args.candidate_rules === "string" && args.candidate_rules
+      ? args.candidate_rules
+      : null;
+  let isError = false;
+  if (candidatePath) {
+    if (args.activate === true) {
+      const r = activateRuleFile(candidatePath);
+      out.candidate = r;
+      isError = Boolean(r.error);
+    } else {
+      try {
+        const rules = loadRuleFile(candidatePath);
+        const check = checkRuleSet(rules);
+        out.candidate = {
+          check,
+          ...(query
+            ? { explanation: explainShape(query, hint, { anchors: dateAnchors() }, rules) }
+            : {}),
+        };
+      } catch (e) {
+        out.candidate = { error: (e as Error).message };
+        isError = true;
+      }
+    }
+  }
+  if (!query && !candidatePath) {
+    return {
+      content: [{ type: "text", text: "recall_explain needs `query` and/or `candidate_rules`." }],
+      isError: true,
+    };
+  }
+  return {
+    content: [{ type: "text", text: JSON.stringify(out, null, 2) }],
+    isError,
+  };
+}
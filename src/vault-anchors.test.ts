@@ -0,0 +1,138 @@
+#!/usr/bin/env tsx
+/**
+ * Heading and block anchor tests — anchored vault reads and section embeds.
+ *
+ * Reads `Note#Heading`, `Note#Parent#Child` and `Note#^block-id` targets
+ * through vault_read_note, then shares a note embedding `![[Note#Section]]`
+ * and `![[Note#^block]]` against a local stub of the KOI share endpoint and
+ * checks the dependency payload carries only the referenced parts.
+ *
+ * Run:  npx tsx src/vault-anchors.test.ts
+ */
+
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+async function main() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "vault-anchors-"));
+  const vaultPath = path.join(root, "vault");
+  process.env.VAULT_PATH = vaultPath;
+  process.env.VAULT_INDEX_DIR = path.join(root, "index");
+
+  const files: Record<string, string> = {
+    "Projects/Herring.md": [
+      "---",
+      "status: active",
+      "---",
+      "# Herring",
+      "Intro.",
+      "",
+      "## Plan",
+      "Step one, see [[Ada]].",
+      "",
+      "### Risks",
+      "Weather.",
+      "",
+      "## Decisions",
+      "We chose nets",
+      "over traps. ^nets",
+      "",
+      "- call Ada ^call",
+      "  - bring notes",
+      "- email Bob",
+      "",
+      "| a | b |",
+      "|---|---|",
+      "^table",
+      "",
+      "See [[Bob]].",
+      "",
+    ].join("\n"),
+    "People/Ada.md": "Ada.\n",
+    "People/Bob.md": "Bob.\n",
+    "Share/Brief.md": "![[Herring#Plan]]\n![[Herring#^call]]\n",
+  };
+  for (const [rel, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(vaultPath, rel)), { recursive: true });
+    fs.writeFileSync(path.join(vaultPath, rel), content);
+  }
+
+  let shared: any = null;
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", () => {
+      shared = JSON.parse(body || "{}");
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ ok: true }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  process.env.KOI_API_ENDPOINT = `http://127.0.0.1:${(server.address() as any).port}`;
+
+  const { handleKoiApiTool } = await import("./koi-api-tools.js");
+  const text = (r: any) => r.content.map((c: any) => c.text).join("\n");
+  const readAt = async (p: string) => text(await handleKoiApiTool("vault_read_note", { path: p }));
+
+  console.log("Heading and block anchor tests:");
+  console.log("");
+
+  check("heading read returns the section with subsections",
+    (await readAt("Projects/Herring.md#Plan")) === "## Plan\nStep one, see [[Ada]].\n\n### Risks\nWeather.\n",
+    await readAt("Projects/Herring.md#Plan"));
+  check("nested heading read returns the subsection",
+    (await readAt("Projects/Herring#Plan#Risks")) === "### Risks\nWeather.\n");
+  check("paragraph block read drops the anchor",
+    (await readAt("Projects/Herring.md#^nets")) === "We chose nets\nover traps.\n");
+  check("list item block includes nested items",
+    (await readAt("Projects/Herring.md#^call")) === "- call Ada\n  - bring notes\n");
+  check("standalone anchor names the block above",
+    (await readAt("Projects/Herring.md#^table")) === "| a | b |\n|---|---|\n");
+
+  let r = await handleKoiApiTool("vault_read_note", { path: "Projects/Herring.md#Missing" });
+  check("missing heading is an error", r.isError === true && /Heading not found/.test(text(r)));
+  r = await handleKoiApiTool("vault_read_note", { path: "Projects/Herring.md#Plan", include_hash: true });
+  check("include_hash still hashes the whole file", /content_hash: \w+/.test(text(r)) && text(r).startsWith("## Plan"));
+  check("plain reads return the whole file", (await readAt("Projects/Herring.md")) === files["Projects/Herring.md"]);
+
+  r = await handleKoiApiTool("share_document", {
+    document_path: "Share/Brief.md", recipient: "peer", mode: "root_plus_required", context_depth: 2,
+  });
+  const deps = shared?.contents?.dependencies ?? [];
+  const plan = deps.find((d: any) => d.section === "Plan");
+  const call = deps.find((d: any) => d.section === "^call");
+  check("section embed carries only the section", plan?.content === "## Plan\nStep one, see [[Ada]].\n\n### Risks\nWeather.\n",
+    JSON.stringify(deps.map((d: any) => [d.vault_path, d.section])));
+  check("block embed carries only the block", call?.content === "- call Ada\n  - bring notes\n");
+  check("embed refs record the anchor",
+    shared.references.filter((ref: any) => ref.link_type === "embed").map((ref: any) => ref.anchor).join() === "Plan,^call");
+  const followed = shared.contents.dependency_graph.edges.map((e: any) => e.raw_target);
+  check("traversal follows links inside the section only", followed.includes("Ada") && !followed.includes("Bob"), followed.join());
+
+  server.close();
+  fs.rmSync(root, { recursive: true, force: true });
+
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
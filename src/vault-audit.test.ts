@@ -0,0 +1,122 @@
+#!/usr/bin/env tsx
+/**
+ * vault_audit tests — each check, markdown/JSON output and auto-fixes.
+ *
+ * Builds a throwaway vault seeded with one instance of every issue the audit
+ * reports (plus look-alikes it must not report: links in code, attachments,
+ * source-relative links, same-note anchors), then checks the JSON report,
+ * the markdown summary, and that fix=true repairs only the fixable issues.
+ *
+ * Run:  npx tsx src/vault-audit.test.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+async function main() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "vault-audit-"));
+  const vaultPath = path.join(root, "Notes");
+  process.env.VAULT_PATH = vaultPath;
+  process.env.VAULT_INDEX_DIR = path.join(root, "index");
+  process.env.VAULT_JOURNAL_DIR = path.join(root, "journal");
+  process.env.VAULT_INDEX_MAX_AGE_MS = "0";
+  process.env.PERSONAL_KOI_BACKEND_URL = "http://127.0.0.1:9";
+
+  const files: Record<string, string> = {
+    "People/Ada.md": "---\n\"@type\": Person\nkoi:\n  rid: orn:obsidian.entity:Notes/Person/ada\n---\nSee [[Herring]] and [[Archive/Bob|Bob]].\n",
+    "People/Bob.md": "---\n\"@type\": Organization\n---\nBob. [[#Intro]] ![[diagram.png]]\n",
+    "Projects/Herring.md": [
+      "Lead [[Ada]], [[Missing Note]], [[Ada.md]] and [[Daily/Standup]].",
+      "`[[Not a link]]`",
+      "```",
+      "[[Also not a link]]",
+      "```",
+      "![[Attachments/gone.png]]",
+      "[[Standup]]",
+    ].join("\n"),
+    "Daily/Standup.md": "---\nhandle this task for regen ai project, context below is from slack:\n---\nTalked to [[People/Ada]].\n",
+    "Archive/Standup.md": "Old standup.\n",
+    "Attachments/diagram.png": "png",
+  };
+  for (const [rel, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(vaultPath, rel)), { recursive: true });
+    fs.writeFileSync(path.join(vaultPath, rel), content);
+  }
+  const read = (rel: string) => fs.readFileSync(path.join(vaultPath, rel), "utf-8");
+
+  const { handleKoiApiTool } = await import("./koi-api-tools.js");
+  const text = (r: any) => r.content.map((c: any) => c.text).join("\n");
+
+  console.log("vault_audit tests:");
+  console.log("");
+
+  let r = await handleKoiApiTool("vault_audit", { format: "json" });
+  const report = JSON.parse(text(r));
+  const of = (kind: string) => report.issues.filter((i: any) => i.kind === kind);
+
+  const broken = of("broken_link").map((i: any) => `${i.path}:${i.line} ${i.link}`);
+  check("reports broken links and embeds with lines",
+    broken.sort().join() ===
+      "People/Ada.md:6 [[Archive/Bob|Bob]],Projects/Herring.md:1 [[Missing Note]],Projects/Herring.md:6 ![[Attachments/gone.png]]",
+    broken.join());
+  check("links in code, attachments and same-note anchors are not broken",
+    !broken.some((b: string) => /Not a link|Also not|diagram|#Intro/.test(b)));
+  check("moved folder link offers a fix", of("broken_link").find((i: any) => i.link === "[[Archive/Bob|Bob]]")?.fix === "rewrite to [[People/Bob|Bob]]");
+
+  const ambiguous = of("ambiguous_link");
+  check("reports bare links matching several notes",
+    ambiguous.length === 1 && ambiguous[0].link === "[[Standup]]" && ambiguous[0].candidates.length === 2,
+    JSON.stringify(ambiguous));
+
+  check("reports orphans (an ambiguous link still counts as inbound)",
+    of("orphan").map((i: any) => i.path).join() === "People/Bob.md",
+    of("orphan").map((i: any) => i.path).join());
+  check("reports rejected frontmatter blocks", of("invalid_frontmatter").map((i: any) => i.path).join() === "Daily/Standup.md");
+  check("reports entity notes missing koi.rid", of("missing_rid").map((i: any) => i.path).join() === "People/Bob.md,Projects/Herring.md");
+  check("reports @type disagreeing with the folder",
+    of("type_mismatch").map((i: any) => i.path).join() === "People/Bob.md" && /Organization/.test(of("type_mismatch")[0].detail));
+  check("counts match issues", report.counts.broken_link === 3 && report.notesScanned === 5, JSON.stringify(report.counts));
+
+  r = await handleKoiApiTool("vault_audit", { checks: ["orphan"], folder: "People" });
+  check("markdown output with checks and folder filters",
+    /\| orphan \| 1 \|/.test(text(r)) && /\| broken_link \| 0 \|/.test(text(r)) && /People\/Bob\.md/.test(text(r)), text(r));
+
+  const standupBefore = read("Daily/Standup.md");
+  r = await handleKoiApiTool("vault_audit", { fix: true, format: "json" });
+  const fixed = JSON.parse(text(r));
+  check("fix applies the fixable issues", fixed.fixesApplied === 3, String(fixed.fixesApplied));
+  check("fix re-points the moved link", read("People/Ada.md").includes("[[People/Bob|Bob]]"));
+  check("fix adds koi.rid and keeps frontmatter",
+    /"@type": Organization\nkoi:\n  rid: orn:obsidian\.entity:Notes\/Organization\/bob\n---\nBob\./.test(read("People/Bob.md")),
+    read("People/Bob.md"));
+  check("notes without fixes are untouched", read("Daily/Standup.md") === standupBefore);
+
+  r = await handleKoiApiTool("vault_audit", { format: "json", checks: ["broken_link", "missing_rid"] });
+  const after = JSON.parse(text(r));
+  check("fixed issues are gone on the next run", after.counts.broken_link === 2 && after.counts.missing_rid === 0);
+
+  fs.rmSync(root, { recursive: true, force: true });
+
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,404 @@
+/**
+ * Vault Health Audit
+ *
+ * One pass over the vault that reports what otherwise gets discovered by
+ * accident:
+ *
+ * - broken_link          wikilink or embed that resolves to no file
+ * - ambiguous_link       bare [[Name]] matching several files by basename
+ * - orphan               note no other note links to
+ * - invalid_frontmatter  opening `---` block rejected as frontmatter
+ * - missing_rid          entity note without `koi.rid`
+ * - type_mismatch        entity note whose @type disagrees with its folder
+ *
+ * Link resolution is the same as share payloads and vault_move_note
+ * (resolveLocalNoteTarget). Fixes are only offered where there is a single
+ * safe answer (a folder-qualified link whose note now lives elsewhere, a
+ * missing RID) and are written through the journal with source 'vault_audit'.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import YAML from 'yaml';
+import { findFrontmatterBlock, FRONTMATTER_BLOCK_RE } from './frontmatter.js';
+import { folderToType, getEntityTypes } from './entity-schema.js';
+import { shouldExclude } from './vault.js';
+import { getVaultIndex } from './vault-index.js';
+import { commitVaultWrite } from './vault-journal.js';
+import { resolveLocalNoteTarget } from './vault-links.js';
+import { applyNotePatch } from './vault-patch.js';
+import { computeContentHash, generateVaultRID } from './vault-rid.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AuditIssueKind =
+  | 'broken_link'
+  | 'ambiguous_link'
+  | 'orphan'
+  | 'invalid_frontmatter'
+  | 'missing_rid'
+  | 'type_mismatch';
+
+export const AUDIT_ISSUE_KINDS: AuditIssueKind[] = [
+  'broken_link',
+  'ambiguous_link',
+  'orphan',
+  'invalid_frontmatter',
+  'missing_rid',
+  'type_mismatch',
+];
+
+export interface AuditIssue {
+  kind: AuditIssueKind;
+
+  /** Note the issue is in (vault-relative, forward slashes) */
+  path: string;
+
+  /** 1-based line, for link issues */
+  line?: number;
+
+  detail: string;
+
+  /** Link text, for link issues */
+  link?: string;
+
+  /** Candidate files, for ambiguous links */
+  candidates?: string[];
+
+  /** What the auto-fix would do, when one is available */
+  fix?: string;
+
+  /** Set when the fix was applied */
+  fixed?: boolean;
+}
+
+export interface AuditReport {
+  vaultPath: string;
+  generatedAt: string;
+  notesScanned: number;
+  counts: Record<AuditIssueKind, number>;
+  fixesApplied: number;
+  issues: AuditIssue[];
+}
+
+export interface AuditOptions {
+  /** Checks to run (default all) */
+  checks?: AuditIssueKind[];
+
+  /** Only report issues in notes under this folder */
+  folder?: string;
+
+  /** Apply available fixes */
+  fix?: boolean;
+
+  /** Vault name for generated RIDs (default: vault folder name) */
+  vaultName?: string;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const WIKILINK_RE = /(!?)\[\[([^\]\n]+)\]\]/g;
+const FENCE_RE = /^\s*(```|~~~)/;
+
+interface FoundLink {
+  line: number;
+  text: string;
+  embed: boolean;
+  /** Target path part (no anchor or alias) */
+  target: string;
+  /** `#anchor|alias` suffix as written */
+  suffix: string;
+}
+
+/**
+ * Wikilinks outside fenced and inline code, with line numbers.
+ */
+function findLinks(content: string): FoundLink[] {
+  const links: FoundLink[] = [];
+  let inFence = false;
+  content.split('\n').forEach((line, i) => {
+    if (FENCE_RE.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) return;
+    for (const m of line.replace(/`[^`]*`/g, s => ' '.repeat(s.length)).matchAll(WIKILINK_RE)) {
+      const inner = m[2];
+      const cut = inner.search(/\\?[|#]/);
+      links.push({
+        line: i + 1,
+        text: line.slice(m.index!, m.index! + m[0].length),
+        embed: m[1] === '!',
+        target: (cut >= 0 ? inner.slice(0, cut) : inner).trim(),
+        suffix: cut >= 0 ? inner.slice(cut) : '',
+      });
+    }
+  });
+  return links;
+}
+
+/**
+ * Lower-cased basename -> vault-relative paths of non-note files
+ * (attachments), for resolving embeds like ![[diagram.png]].
+ */
+async function attachmentIndex(vaultRoot: string): Promise<Map<string, string[]>> {
+  const index = new Map<string, string[]>();
+  const walk = async (relativeDir: string): Promise<void> => {
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(vaultRoot, relativeDir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const relativePath = relativeDir ? path.join(relativeDir, entry.name) : entry.name;
+      if (entry.isSymbolicLink() || shouldExclude(relativePath)) continue;
+      if (entry.isDirectory()) {
+        await walk(relativePath);
+      } else if (entry.isFile() && !entry.name.endsWith('.md')) {
+        const key = entry.name.toLowerCase();
+        index.set(key, [...(index.get(key) || []), relativePath.replace(/\\/g, '/')]);
+      }
+    }
+  };
+  await walk('');
+  return index;
+}
+
+function normalizeType(type: unknown): string {
+  return typeof type === 'string' ? type.replace(/^schema:/, '').trim().toLowerCase() : '';
+}
+
+function emptyCounts(): Record<AuditIssueKind, number> {
+  return Object.fromEntries(AUDIT_ISSUE_KINDS.map(k => [k, 0])) as Record<AuditIssueKind, number>;
+}
+
+// =============================================================================
+// Audit
+// =============================================================================
+
+/**
+ * Audit the vault. With `fix`, applies the available fixes (each note is
+ * rewritten at most once, guarded by the hash it was read with).
+ */
+export async function auditVault(vaultRoot: string, options: AuditOptions = {}): Promise<AuditReport> {
+  const checks = new Set(options.checks?.length ? options.checks : AUDIT_ISSUE_KINDS);
+  const vaultName = options.vaultName || path.basename(path.resolve(vaultRoot)) || 'Notes';
+  const folderPrefix = options.folder ? options.folder.replace(/\\/g, '/').replace(/\/+$/, '') + '/' : '';
+  const inScope = (p: string) => !folderPrefix || p.startsWith(folderPrefix);
+
+  const index = await getVaultIndex(vaultRoot);
+  const basenameIndex = index.basenameIndex();
+  const attachments = checks.has('broken_link') ? await attachmentIndex(vaultRoot) : new Map<string, string[]>();
+  const entityFolders = new Set((await getEntityTypes()).map(t => t.folder));
+
+  const issues: AuditIssue[] = [];
+  const inbound = new Set<string>();
+  // path -> { content it was read with, patched content }
+  const fixes = new Map<string, { original: string; content: string }>();
+  const stageFix = (notePath: string, original: string, apply: (content: string) => string) => {
+    const staged = fixes.get(notePath) || { original, content: original };
+    staged.content = apply(staged.content);
+    fixes.set(notePath, staged);
+  };
+
+  let scanned = 0;
+  for (const entry of index.all()) {
+    const notePath = entry.path.replace(/\\/g, '/');
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(vaultRoot, entry.path), 'utf-8');
+    } catch {
+      continue;
+    }
+    const reporting = inScope(notePath);
+    if (reporting) scanned++;
+
+    // Links are resolved for every note: orphans need the whole vault's inbound links
+    for (const link of findLinks(content)) {
+      if (!link.target) continue; // same-note [[#Heading]]
+      const isNote = !path.extname(link.target) || /\.md$/i.test(link.target);
+
+      let resolved: string | undefined;
+      if (isNote) {
+        // [[Note.md]] resolves like [[Note]], including the basename lookup
+        const target = link.target.replace(/\.md$/i, '');
+        resolved = (await resolveLocalNoteTarget(notePath, target, basenameIndex, vaultRoot)).resolvedPath;
+      } else {
+        const attached = await resolveLocalNoteTarget(notePath, link.target, new Map(), vaultRoot);
+        resolved = attached.resolvedPath || (attachments.get(path.posix.basename(link.target).toLowerCase()) || [])[0];
+      }
+      if (resolved && resolved !== notePath) inbound.add(resolved);
+      if (!reporting) continue;
+
+      if (!resolved && checks.has('broken_link')) {
+        const issue: AuditIssue = {
+          kind: 'broken_link',
+          path: notePath,
+          line: link.line,
+          link: link.text,
+          detail: `${link.embed ? 'Embed' : 'Link'} target "${link.target}" does not exist`,
+        };
+        // A folder-qualified link to a note that moved: its basename still
+        // identifies exactly one note
+        if (isNote && link.target.includes('/')) {
+          const key = `${path.posix.basename(link.target).replace(/\.md$/i, '').toLowerCase()}.md`;
+          const matches = basenameIndex.get(key) || [];
+          if (matches.length === 1) {
+            const replacement = `${link.embed ? '!' : ''}[[${matches[0].replace(/\.md$/, '')}${link.suffix}]]`;
+            issue.fix = `rewrite to ${replacement}`;
+            if (options.fix) {
+              stageFix(notePath, content, c => c.split(link.text).join(replacement));
+              issue.fixed = true;
+            }
+          }
+        }
+        issues.push(issue);
+      }
+
+      if (resolved && isNote && checks.has('ambiguous_link') && !link.target.includes('/')) {
+        const candidates = basenameIndex.get(`${link.target.replace(/\.md$/i, '').toLowerCase()}.md`) || [];
+        const sourceRelative = path.posix.join(path.posix.dirname(notePath), `${link.target.replace(/\.md$/i, '')}.md`);
+        if (candidates.length > 1 && resolved !== sourceRelative) {
+          issues.push({
+            kind: 'ambiguous_link',
+            path: notePath,
+            line: link.line,
+            link: link.text,
+            candidates,
+            detail: `"${link.target}" matches ${candidates.length} notes; resolves to ${resolved}`,
+          });
+        }
+      }
+    }
+
+    if (!reporting) continue;
+
+    if (checks.has('invalid_frontmatter')) {
+      const fence = FRONTMATTER_BLOCK_RE.exec(content);
+      if (fence && !findFrontmatterBlock(content)) {
+        let reason = 'not a YAML mapping of plain keys';
+        try {
+          YAML.parse(fence[1] ?? '', { logLevel: 'silent' });
+        } catch (e) {
+          reason = `YAML error: ${(e instanceof Error ? e.message : String(e)).split('\n')[0]}`;
+        }
+        issues.push({
+          kind: 'invalid_frontmatter',
+          path: notePath,
+          detail: `Opening --- block is not treated as frontmatter (${reason}); writes will prepend a new block`,
+        });
+      }
+    }
+
+    const parts = notePath.split('/');
+    const isEntityNote = parts.length === 2 && entityFolders.has(parts[0]);
+    if (!isEntityNote) continue;
+
+    if (checks.has('missing_rid') && !entry.frontmatter?.koi?.rid) {
+      const rid = generateVaultRID(vaultName, notePath, entry.frontmatter || undefined);
+      const issue: AuditIssue = {
+        kind: 'missing_rid',
+        path: notePath,
+        detail: 'Entity note has no koi.rid',
+        fix: `set koi.rid to ${rid}`,
+      };
+      // Only notes with readable frontmatter: a prepended block would hide the rejected one
+      if (options.fix && (findFrontmatterBlock(content) || !FRONTMATTER_BLOCK_RE.test(content))) {
+        const koi = typeof entry.frontmatter?.koi === 'object' && entry.frontmatter.koi ? entry.frontmatter.koi : {};
+        stageFix(notePath, content, c => applyNotePatch(c, {
+          operation: 'set_frontmatter',
+          key: 'koi',
+          value: { ...koi, rid },
+        }));
+        issue.fixed = true;
+      }
+      issues.push(issue);
+    }
+
+    if (checks.has('type_mismatch')) {
+      const declared = entry.frontmatter?.['@type'] ?? entry.frontmatter?.type;
+      const expected = await folderToType(parts[0]);
+      if (declared && expected && normalizeType(declared) !== normalizeType(expected)) {
+        issues.push({
+          kind: 'type_mismatch',
+          path: notePath,
+          detail: `@type "${declared}" but ${parts[0]}/ holds ${expected}`,
+        });
+      }
+    }
+  }
+
+  if (checks.has('orphan')) {
+    for (const entry of index.all()) {
+      const notePath = entry.path.replace(/\\/g, '/');
+      if (inScope(notePath) && !inbound.has(notePath)) {
+        issues.push({ kind: 'orphan', path: notePath, detail: 'No other note links here' });
+      }
+    }
+  }
+
+  let fixesApplied = 0;
+  for (const [notePath, staged] of fixes) {
+    if (staged.content === staged.original) continue;
+    try {
+      await commitVaultWrite(vaultRoot, path.join(vaultRoot, notePath), staged.content, {
+        expectedHash: computeContentHash(staged.original),
+        source: 'vault_audit',
+      });
+      fixesApplied += issues.filter(i => i.path === notePath && i.fixed).length;
+    } catch {
+      // Edited since the audit read it: leave it for the next run
+      for (const issue of issues) {
+        if (issue.path === notePath) delete issue.fixed;
+      }
+    }
+  }
+
+  const counts = emptyCounts();
+  for (const issue of issues) counts[issue.kind]++;
+
+  return {
+    vaultPath: path.resolve(vaultRoot),
+    generatedAt: new Date().toISOString(),
+    notesScanned: scanned,
+    counts,
+    fixesApplied,
+    issues,
+  };
+}
+
+/**
+ * Markdown rendering of an audit report, at most `limit` issues per kind.
+ */
+export function formatAuditReport(report: AuditReport, limit = 50): string {
+  let out = `# Vault Audit\n\n`;
+  out += `Scanned ${report.notesScanned} notes`;
+  out += report.fixesApplied > 0 ? `; applied ${report.fixesApplied} fix(es).\n\n` : '.\n\n';
+  out += `| Check | Issues |\n|---|---|\n`;
+  for (const kind of AUDIT_ISSUE_KINDS) {
+    out += `| ${kind} | ${report.counts[kind]} |\n`;
+  }
+
+  for (const kind of AUDIT_ISSUE_KINDS) {
+    const ofKind = report.issues.filter(i => i.kind === kind);
+    if (ofKind.length === 0) continue;
+    out += `\n## ${kind} (${ofKind.length})\n\n`;
+    for (const issue of ofKind.slice(0, limit)) {
+      out += `- ${issue.path}${issue.line ? `:${issue.line}` : ''}`;
+      out += issue.link ? ` \`${issue.link}\`` : '';
+      out += ` — ${issue.detail}`;
+      if (issue.fix) out += issue.fixed ? ` ✅ fixed (${issue.fix})` : ` (fix: ${issue.fix})`;
+      out += '\n';
+    }
+    if (ofKind.length > limit) out += `- … ${ofKind.length - limit} more\n`;
+  }
+
+  const fixable = report.issues.filter(i => i.fix && !i.fixed).length;
+  if (fixable > 0) out += `\n${fixable} issue(s) can be fixed automatically with fix=true.\n`;
+  return out;
+}
@@ -0,0 +1,119 @@
+#!/usr/bin/env tsx
+/**
+ * Persistent vault index tests — extraction, mtime-keyed refresh, persistence.
+ *
+ * Indexes a throwaway vault into a temp VAULT_INDEX_DIR, checks what each
+ * entry records, that a fresh process reuses the persisted entries for
+ * unchanged files and re-reads only touched ones, and that the vault tools
+ * built on it (listNotes, findBacklinks, queryByFrontmatter) see edits.
+ *
+ * Run:  npx tsx src/vault-index.test.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+function write(vaultPath: string, rel: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(vaultPath, rel)), { recursive: true });
+  fs.writeFileSync(path.join(vaultPath, rel), content);
+}
+
+async function main() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "vault-index-"));
+  const vaultPath = path.join(root, "vault");
+  process.env.VAULT_PATH = vaultPath;
+  process.env.VAULT_INDEX_DIR = path.join(root, "index");
+  process.env.VAULT_INDEX_MAX_AGE_MS = "0";
+
+  write(vaultPath, "Meetings/Standup.md", [
+    "---",
+    "project: Herring",
+    "tags: [meeting, team/core]",
+    "---",
+    "# Standup",
+    "Talked with [[People/Ada Lovelace|Ada]] about ![[Diagram#Flow]]. #followup",
+    "```",
+    "# not a heading #nottag",
+    "```",
+    "## Actions",
+  ].join("\n"));
+  write(vaultPath, "People/Ada Lovelace.md", "Notes on Ada.\n");
+  write(vaultPath, ".obsidian/workspace.md", "ignored\n");
+
+  const { VaultIndex, getVaultIndex } = await import("./vault-index.js");
+  const vault = await import("./vault.js");
+
+  console.log("Vault index tests:");
+  console.log("");
+
+  const index = await getVaultIndex();
+  check("indexes notes outside excluded folders", index.size === 2, String(index.size));
+
+  const standup = index.get(path.join("Meetings", "Standup"));
+  check("records frontmatter", standup?.frontmatter?.project === "Herring");
+  check("records frontmatter and inline tags",
+    standup?.tags.join() === "meeting,team/core,followup", standup?.tags.join());
+  check("records headings outside code fences",
+    standup?.headings.map((h) => `${h.level}:${h.text}`).join() === "1:Standup,2:Actions");
+  check("records links and embeds",
+    standup?.links.map((l) => `${l.embed ? "!" : ""}${l.target}`).join() === "People/Ada Lovelace,!Diagram#Flow");
+  check("basename index keys by lower-cased filename",
+    index.basenameIndex().get("ada lovelace.md")?.join() === "People/Ada Lovelace.md");
+  check("index persisted to disk", fs.existsSync(index.filePath));
+
+  // Poison a persisted hash: a new process must reuse it for an untouched file
+  const persisted = JSON.parse(fs.readFileSync(index.filePath, "utf-8"));
+  for (const entry of persisted.entries) entry.contentHash = "from-disk";
+  fs.writeFileSync(index.filePath, JSON.stringify(persisted));
+  const future = new Date(Date.now() + 5000);
+  fs.utimesSync(path.join(vaultPath, "People/Ada Lovelace.md"), future, future);
+
+  const reloaded = new VaultIndex(vaultPath);
+  await reloaded.ensureFresh();
+  check("unchanged file served from persisted entry",
+    reloaded.get(path.join("Meetings", "Standup"))?.contentHash === "from-disk");
+  check("file with new mtime re-read",
+    reloaded.get(path.join("People", "Ada Lovelace"))?.contentHash !== "from-disk");
+
+  const meetings = await vault.listNotes({ folder: "Meetings" });
+  check("listNotes filters by folder", meetings.map((n) => n.name).join() === "Standup");
+
+  let backlinks = await vault.findBacklinks("Ada Lovelace", { fuzzy: false });
+  check("findBacklinks answers from the index", backlinks.map((b) => b.linkText).join() === "[[People/Ada Lovelace|Ada]]");
+
+  await vault.writeNote("Projects/Herring.md", "See [[Ada Lovelace]].\n", { status: "active" });
+  backlinks = await vault.findBacklinks("Ada Lovelace", { fuzzy: false });
+  check("writes are visible to the next lookup", backlinks.length === 2, String(backlinks.length));
+
+  const active = await vault.queryByFrontmatter({ field: "status", value: "active", fuzzy: false });
+  check("queryByFrontmatter answers from the index", active.map((n) => n.name).join() === "Herring");
+
+  fs.rmSync(path.join(vaultPath, "Projects"), { recursive: true });
+  const afterDelete = await vault.listNotes({});
+  check("deleted notes drop out", !afterDelete.some((n) => n.name === "Herring"));
+
+  fs.rmSync(root, { recursive: true, force: true });
+
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,371 @@
+/**
+ * Persistent Vault Index
+ *
+ * On-disk index of every note in the vault: basename, frontmatter, outgoing
+ * wikilinks, tags, headings and content hash. A refresh only stats the tree
+ * and re-reads files whose mtime or size changed, so vault tools (listing,
+ * search, backlinks, frontmatter queries, share payloads, meeting prep)
+ * answer from memory instead of re-reading the whole vault.
+ *
+ * The index lives at ~/.koi/vault-index/<vault-hash>.json (VAULT_INDEX_DIR
+ * overrides the directory). Refreshes are skipped while the in-memory copy is
+ * younger than VAULT_INDEX_MAX_AGE_MS (default 2000); writes through this
+ * server and vault watcher events mark it stale immediately.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { getVaultPath, parseFrontmatter, shouldExclude } from './vault.js';
+import { computeContentHash } from './vault-rid.js';
+import { logger } from './logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface VaultIndexHeading {
+  level: number;
+  text: string;
+}
+
+export interface VaultIndexLink {
+  /** Link target as written, without alias (`Folder/Note#Heading`) */
+  target: string;
+
+  /** Full link text (`[[Folder/Note#Heading|Alias]]`) */
+  text: string;
+
+  /** Whether this is an embed (`![[...]]`) */
+  embed: boolean;
+}
+
+export interface VaultIndexEntry {
+  /** Path relative to vault root, with .md */
+  path: string;
+
+  /** Filename without .md */
+  basename: string;
+
+  mtimeMs: number;
+  size: number;
+
+  /** computeContentHash of the file content */
+  contentHash: string;
+
+  frontmatter: Record<string, any> | null;
+  entityType: string | null;
+
+  /** Outgoing wikilinks and embeds, in document order */
+  links: VaultIndexLink[];
+
+  /** Frontmatter `tags` plus inline #tags, without the leading # */
+  tags: string[];
+
+  headings: VaultIndexHeading[];
+}
+
+interface PersistedVaultIndex {
+  version: number;
+  vaultPath: string;
+  entries: VaultIndexEntry[];
+}
+
+// =============================================================================
+// Extraction
+// =============================================================================
+
+const INDEX_VERSION = 1;
+
+const WIKILINK_PATTERN = /(!?)\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g;
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const INLINE_TAG_PATTERN = /(?:^|[\s(])#([\p{L}\p{N}_\-/]*[\p{L}_\-/][\p{L}\p{N}_\-/]*)/gu;
+
+/**
+ * Tag values from frontmatter `tags`/`tag` (list or comma/space separated).
+ */
+function frontmatterTags(frontmatter: Record<string, any> | null): string[] {
+  if (!frontmatter) return [];
+  const raw = frontmatter.tags ?? frontmatter.tag;
+  const values = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(/[,\s]+/) : [];
+  return values
+    .filter((v): v is string => typeof v === 'string')
+    .map(v => v.trim().replace(/^#/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Headings and inline tags from a note body, skipping fenced code blocks.
+ */
+function scanBody(body: string): { headings: VaultIndexHeading[]; tags: string[] } {
+  const headings: VaultIndexHeading[] = [];
+  const tags: string[] = [];
+  let inFence = false;
+
+  for (const line of body.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      headings.push({ level: heading[1].length, text: heading[2] });
+      continue;
+    }
+
+    const withoutCode = line.replace(/`[^`]*`/g, '');
+    for (const m of withoutCode.matchAll(INLINE_TAG_PATTERN)) {
+      tags.push(m[1].replace(/\/+$/, ''));
+    }
+  }
+
+  return { headings, tags };
+}
+
+/**
+ * Build an index entry from a note's content.
+ */
+export function indexNoteContent(
+  relativePath: string,
+  content: string,
+  stat: { mtimeMs: number; size: number }
+): VaultIndexEntry {
+  const parsed = parseFrontmatter(content);
+  const body = parsed.frontmatter ? parsed.body : content;
+  const { headings, tags: inlineTags } = scanBody(body);
+
+  const links: VaultIndexLink[] = [];
+  for (const m of content.matchAll(WIKILINK_PATTERN)) {
+    links.push({ target: m[2].trim(), text: m[0].replace(/^!/, ''), embed: m[1] === '!' });
+  }
+
+  return {
+    path: relativePath,
+    basename: path.basename(relativePath, '.md'),
+    mtimeMs: stat.mtimeMs,
+    size: stat.size,
+    contentHash: computeContentHash(content),
+    frontmatter: parsed.frontmatter,
+    entityType: parsed.entityType,
+    links,
+    tags: [...new Set([...frontmatterTags(parsed.frontmatter), ...inlineTags])],
+    headings,
+  };
+}
+
+// =============================================================================
+// Index
+// =============================================================================
+
+/**
+ * Stable short key for a vault root, used to name per-vault state files.
+ */
+export function vaultKey(vaultPath: string): string {
+  return crypto.createHash('sha256').update(path.resolve(vaultPath)).digest('hex').slice(0, 16);
+}
+
+function indexDir(): string {
+  return process.env.VAULT_INDEX_DIR || path.join(os.homedir(), '.koi', 'vault-index');
+}
+
+function maxAgeMs(): number {
+  const v = Number(process.env.VAULT_INDEX_MAX_AGE_MS);
+  return Number.isFinite(v) && v >= 0 ? v : 2000;
+}
+
+export class VaultIndex {
+  readonly vaultPath: string;
+  readonly filePath: string;
+
+  private entries = new Map<string, VaultIndexEntry>();
+  private loaded = false;
+  private stale = true;
+  private refreshedAt = 0;
+  private refreshing: Promise<void> | null = null;
+
+  constructor(vaultPath: string) {
+    this.vaultPath = path.resolve(vaultPath);
+    this.filePath = path.join(indexDir(), `${vaultKey(this.vaultPath)}.json`);
+  }
+
+  /** All entries, sorted by path */
+  all(): VaultIndexEntry[] {
+    return [...this.entries.values()].sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  get(relativePath: string): VaultIndexEntry | undefined {
+    const withExt = relativePath.endsWith('.md') ? relativePath : `${relativePath}.md`;
+    return this.entries.get(withExt);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Lower-cased `basename.md` -> vault-relative paths (forward slashes).
+   */
+  basenameIndex(): Map<string, string[]> {
+    const index = new Map<string, string[]>();
+    for (const entry of this.entries.values()) {
+      const key = `${entry.basename.toLowerCase()}.md`;
+      const bucket = index.get(key) || [];
+      bucket.push(entry.path.replace(/\\/g, '/'));
+      index.set(key, bucket);
+    }
+    return index;
+  }
+
+  /** Force the next ensureFresh() to re-stat the vault. */
+  markStale(): void {
+    this.stale = true;
+  }
+
+  /**
+   * Load the persisted index on first use, then refresh it unless it was
+   * refreshed within VAULT_INDEX_MAX_AGE_MS.
+   */
+  async ensureFresh(): Promise<void> {
+    if (!this.stale && Date.now() - this.refreshedAt < maxAgeMs()) return;
+    if (!this.refreshing) {
+      this.refreshing = this.refresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    await this.refreshing;
+  }
+
+  private async refresh(): Promise<void> {
+    if (!this.loaded) {
+      await this.load();
+      this.loaded = true;
+    }
+
+    // Cleared first so a write landing mid-walk triggers another refresh
+    this.stale = false;
+    const t0 = Date.now();
+    const seen = new Set<string>();
+    let changed = 0;
+
+    const walk = async (relativeDir: string): Promise<void> => {
+      let dirEntries;
+      try {
+        dirEntries = await fs.readdir(path.join(this.vaultPath, relativeDir), { withFileTypes: true });
+      } catch (e) {
+        // Skip directories we can't read
+        return;
+      }
+
+      for (const dirEntry of dirEntries) {
+        if (dirEntry.isSymbolicLink()) continue;
+        const relativePath = relativeDir ? path.join(relativeDir, dirEntry.name) : dirEntry.name;
+        if (shouldExclude(relativePath)) continue;
+
+        if (dirEntry.isDirectory()) {
+          await walk(relativePath);
+          continue;
+        }
+        if (!dirEntry.isFile() || !dirEntry.name.endsWith('.md')) continue;
+
+        try {
+          const fullPath = path.join(this.vaultPath, relativePath);
+          const stat = await fs.stat(fullPath);
+          seen.add(relativePath);
+          const existing = this.entries.get(relativePath);
+          if (existing && existing.mtimeMs === stat.mtimeMs && existing.size === stat.size) continue;
+
+          const content = await fs.readFile(fullPath, 'utf-8');
+          this.entries.set(relativePath, indexNoteContent(relativePath, content, stat));
+          changed++;
+        } catch (e) {
+          // Skip files we can't read
+        }
+      }
+    };
+
+    await walk('');
+
+    for (const relativePath of [...this.entries.keys()]) {
+      if (!seen.has(relativePath)) {
+        this.entries.delete(relativePath);
+        changed++;
+      }
+    }
+
+    this.refreshedAt = Date.now();
+    if (changed > 0) {
+      await this.save();
+      logger.debug({
+        action: 'vault_index_refreshed',
+        notes: this.entries.size,
+        changed,
+        duration_ms: Date.now() - t0,
+      }, 'Vault index refreshed');
+    }
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as PersistedVaultIndex;
+      if (data.version !== INDEX_VERSION || data.vaultPath !== this.vaultPath) return;
+      for (const entry of data.entries) {
+        this.entries.set(entry.path, entry);
+      }
+    } catch (e) {
+      // No index yet (or unreadable): start empty
+    }
+  }
+
+  private async save(): Promise<void> {
+    const data: PersistedVaultIndex = {
+      version: INDEX_VERSION,
+      vaultPath: this.vaultPath,
+      entries: [...this.entries.values()],
+    };
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(data), 'utf-8');
+      await fs.rename(tmpPath, this.filePath);
+    } catch (e) {
+      // The in-memory index still serves this process
+      logger.warn({
+        action: 'vault_index_save_failed',
+        error: e instanceof Error ? e.message : String(e),
+      }, 'Failed to persist vault index');
+    }
+  }
+}
+
+// =============================================================================
+// Access
+// =============================================================================
+
+const _indexes = new Map<string, VaultIndex>();
+
+/**
+ * The (fresh) index for a vault; defaults to getVaultPath().
+ */
+export async function getVaultIndex(vaultPath: string = getVaultPath()): Promise<VaultIndex> {
+  const key = path.resolve(vaultPath);
+  let index = _indexes.get(key);
+  if (!index) {
+    index = new VaultIndex(key);
+    _indexes.set(key, index);
+  }
+  await index.ensureFresh();
+  return index;
+}
+
+/**
+ * Mark loaded indexes stale after a write (or watcher event) so the next
+ * lookup picks it up.
+ */
+export function markVaultIndexStale(): void {
+  for (const index of _indexes.values()) {
+    index.markStale();
+  }
+}
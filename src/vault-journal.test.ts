@@ -0,0 +1,130 @@
+#!/usr/bin/env tsx
+/**
+ * Vault write journal tests — expected_hash conflicts, atomic writes, undo.
+ *
+ * Drives vault_write_note / vault_undo_write through handleKoiApiTool against
+ * a throwaway vault and journal dir, checking that stale writes are refused
+ * without touching the file, that undo restores (or removes) notes, that an
+ * undo refuses when the note changed since unless forced, that the
+ * journal is trimmed to VAULT_JOURNAL_LIMIT, and that concurrent writes
+ * keep every entry and its prior version.
+ *
+ * Run:  npx tsx src/vault-journal.test.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+async function main() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "vault-journal-"));
+  const vaultPath = path.join(root, "vault");
+  fs.mkdirSync(vaultPath);
+  process.env.VAULT_PATH = vaultPath;
+  process.env.VAULT_INDEX_DIR = path.join(root, "index");
+  process.env.VAULT_JOURNAL_DIR = path.join(root, "journal");
+  process.env.VAULT_JOURNAL_LIMIT = "5";
+
+  const { handleKoiApiTool } = await import("./koi-api-tools.js");
+  const { computeContentHash } = await import("./vault-rid.js");
+  const { commitVaultWrite, listVaultWrites } = await import("./vault-journal.js");
+
+  const notePath = path.join(vaultPath, "Projects/Herring.md");
+  const text = (r: any) => r.content.map((c: any) => c.text).join("\n");
+  const write = (content: string, extra: Record<string, unknown> = {}) =>
+    handleKoiApiTool("vault_write_note", { path: "Projects/Herring", content, ...extra });
+
+  console.log("Vault write journal tests:");
+  console.log("");
+
+  let r = await write("v1\n", { expected_hash: "" });
+  check("expected_hash '' creates a new note", !r.isError && fs.readFileSync(notePath, "utf-8") === "v1\n", text(r));
+  r = await write("again\n", { expected_hash: "" });
+  check("expected_hash '' refuses an existing note", r.isError === true && /already exists/.test(text(r)));
+
+  r = await handleKoiApiTool("vault_read_note", { path: "Projects/Herring.md", include_hash: true });
+  const hash = text(r).match(/content_hash: (\w+)/)?.[1];
+  check("read reports the content hash", hash === computeContentHash("v1\n"));
+
+  fs.writeFileSync(notePath, "edited in Obsidian\n");
+  r = await write("v2\n", { expected_hash: hash });
+  check("stale expected_hash is a conflict", r.isError === true && /changed since it was read/.test(text(r)));
+  check("conflicting write leaves the file alone", fs.readFileSync(notePath, "utf-8") === "edited in Obsidian\n");
+
+  r = await write("v2\n", { expected_hash: computeContentHash("edited in Obsidian\n") });
+  check("matching expected_hash writes", !r.isError && fs.readFileSync(notePath, "utf-8") === "v2\n");
+  check("no temp files left behind",
+    fs.readdirSync(path.dirname(notePath)).join() === "Herring.md", fs.readdirSync(path.dirname(notePath)).join());
+
+  r = await handleKoiApiTool("vault_undo_write", { path: "Projects/Herring" });
+  check("undo restores the prior version",
+    !r.isError && fs.readFileSync(notePath, "utf-8") === "edited in Obsidian\n", text(r));
+
+  r = await handleKoiApiTool("vault_undo_write", {});
+  check("undo of an undo reapplies the write", !r.isError && fs.readFileSync(notePath, "utf-8") === "v2\n", text(r));
+
+  fs.writeFileSync(notePath, "edited again\n");
+  r = await handleKoiApiTool("vault_undo_write", {});
+  check("undo refuses when the note changed since", r.isError === true && /pass force/.test(text(r)));
+  r = await handleKoiApiTool("vault_undo_write", { force: true });
+  check("forced undo proceeds", !r.isError && fs.readFileSync(notePath, "utf-8") === "edited in Obsidian\n");
+
+  const created = await handleKoiApiTool("vault_write_note", { path: "People/New", content: "hi\n" });
+  const id = text(created).match(/undo id: ([\w-]+)/)?.[1];
+  r = await handleKoiApiTool("vault_undo_write", { id });
+  check("undoing a create removes the note", !r.isError && !fs.existsSync(path.join(vaultPath, "People/New.md")));
+
+  r = await handleKoiApiTool("vault_undo_write", { list: true });
+  const listed = JSON.parse(text(r)).writes;
+  check("list shows recent writes newest first", listed[0].source === "vault_undo_write" && listed.length === 5);
+  check("journal trimmed to VAULT_JOURNAL_LIMIT", (await listVaultWrites(vaultPath, { limit: 100 })).length === 5);
+
+  r = await handleKoiApiTool("vault_undo_write", { path: "../outside" });
+  check("undo rejects paths outside the vault", r.isError === true);
+
+  const batch = Array.from({ length: 8 }, (_, i) => path.join(vaultPath, `Batch/N${i}.md`));
+  fs.mkdirSync(path.join(vaultPath, "Batch"));
+  batch.forEach((p, i) => fs.writeFileSync(p, `old ${i}\n`));
+  await Promise.all(batch.map((p, i) => commitVaultWrite(vaultPath, p, `new ${i}\n`, { source: "batch" })));
+  const kept = await listVaultWrites(vaultPath, { limit: 100 });
+  const versionsDir = fs.readdirSync(path.join(root, "journal")).map((d) => path.join(root, "journal", d, "versions"))[0];
+  const blobs = fs.readdirSync(versionsDir).map((f) => f.replace(/\.md$/, "")).sort();
+  check("concurrent writes keep the newest entries and exactly their prior versions",
+    kept.every((e) => e.source === "batch") && blobs.join() === kept.map((e) => e.id).sort().join(),
+    `${kept.map((e) => e.source).join()} / ${blobs.length} blobs`);
+  process.env.VAULT_JOURNAL_LIMIT = "20";
+  const undone = await Promise.all(kept.map((e) => handleKoiApiTool("vault_undo_write", { id: e.id })));
+  check("each concurrent write can be undone",
+    undone.every((u) => !u.isError) && kept.every((e) => fs.readFileSync(path.join(vaultPath, e.path), "utf-8").startsWith("old")),
+    undone.map(text).join(" | "));
+
+  const racing = await Promise.allSettled(["a\n", "b\n"].map((c) =>
+    commitVaultWrite(vaultPath, batch[0], c, { expectedHash: computeContentHash(fs.readFileSync(batch[0], "utf-8")) })));
+  check("only one of two writes with the same expected_hash lands",
+    racing.filter((x) => x.status === "fulfilled").length === 1 &&
+      racing.some((x) => x.status === "rejected" && x.reason?.name === "VaultWriteConflictError"));
+
+  fs.rmSync(root, { recursive: true, force: true });
+
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
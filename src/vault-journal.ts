@@ -0,0 +1,349 @@
+/**
+ * Vault Write Journal
+ *
+ * Every note write made through this server goes through commitVaultWrite:
+ * an optional optimistic-concurrency check against the caller's
+ * `expected_hash`, a temp-file-and-rename write so readers never see a
+ * half-written note, and a journal entry holding the note's prior content so
+ * vault_undo_write can restore it.
+ *
+ * The journal lives at ~/.koi/vault-journal/<vault-hash>/ (VAULT_JOURNAL_DIR
+ * overrides the base directory) and keeps the most recent
+ * VAULT_JOURNAL_LIMIT writes (default 100). Writes, deletes and undos in one
+ * vault run one at a time, so concurrent tool calls neither lose journal
+ * entries nor pass the same expected_hash check.
+ */
+
+import { randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { computeContentHash } from './vault-rid.js';
+import { markVaultIndexStale, vaultKey } from './vault-index.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface VaultJournalEntry {
+  id: string;
+
+  /** Note path relative to vault root, with .md */
+  path: string;
+
+  /** ISO timestamp of the write */
+  at: string;
+
+  /** Tool (or operation) that made the write */
+  source: string;
+
+  /** Hash of the note before the write; null when the write created it */
+  beforeHash: string | null;
+
+  /** Hash of the note after the write; null when the write deleted it */
+  afterHash: string | null;
+
+  /** Id of the entry this write undid, for undo writes */
+  undoOf?: string;
+}
+
+/**
+ * The note changed since the caller read it (or since the journaled write
+ * being undone).
+ */
+export class VaultWriteConflictError extends Error {
+  constructor(
+    message: string,
+    public notePath: string,
+    public expectedHash: string | null,
+    public actualHash: string | null
+  ) {
+    super(message);
+    this.name = 'VaultWriteConflictError';
+  }
+}
+
+// =============================================================================
+// Atomic writes
+// =============================================================================
+
+/**
+ * Write a file via a sibling temp file and rename, so the target is always
+ * either the old or the new content.
+ */
+export async function writeFileAtomic(fullPath: string, content: string): Promise<void> {
+  const tmpPath = path.join(
+    path.dirname(fullPath),
+    `.${path.basename(fullPath)}.${process.pid}.${randomUUID().slice(0, 8)}.tmp`
+  );
+  try {
+    await fs.writeFile(tmpPath, content, 'utf-8');
+    await fs.rename(tmpPath, fullPath);
+  } catch (e) {
+    await fs.rm(tmpPath, { force: true });
+    throw e;
+  }
+}
+
+async function readIfExists(fullPath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(fullPath, 'utf-8');
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return null;
+    throw e;
+  }
+}
+
+// =============================================================================
+// Journal storage
+// =============================================================================
+
+function journalLimit(): number {
+  const v = Number(process.env.VAULT_JOURNAL_LIMIT);
+  return Number.isInteger(v) && v > 0 ? v : 100;
+}
+
+function journalDir(vaultPath: string): string {
+  const base = process.env.VAULT_JOURNAL_DIR || path.join(os.homedir(), '.koi', 'vault-journal');
+  return path.join(base, vaultKey(vaultPath));
+}
+
+function journalFile(vaultPath: string): string {
+  return path.join(journalDir(vaultPath), 'journal.jsonl');
+}
+
+function blobFile(vaultPath: string, id: string): string {
+  return path.join(journalDir(vaultPath), 'versions', `${id}.md`);
+}
+
+async function readJournal(vaultPath: string): Promise<VaultJournalEntry[]> {
+  const raw = await readIfExists(journalFile(vaultPath));
+  if (!raw) return [];
+  const entries: VaultJournalEntry[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Skip a torn line; the rest of the journal is still usable
+    }
+  }
+  return entries;
+}
+
+/** vaultKey -> tail of that vault's queue of journaled operations */
+const journalLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `fn` once every earlier journaled operation on the vault has settled.
+ */
+async function withJournalLock<T>(vaultPath: string, fn: () => Promise<T>): Promise<T> {
+  const key = vaultKey(vaultPath);
+  const run = (journalLocks.get(key) ?? Promise.resolve()).then(fn);
+  const tail = run.catch(() => undefined);
+  journalLocks.set(key, tail);
+  try {
+    return await run;
+  } finally {
+    if (journalLocks.get(key) === tail) journalLocks.delete(key);
+  }
+}
+
+async function appendJournal(
+  vaultPath: string,
+  entry: VaultJournalEntry,
+  previous: string | null
+): Promise<void> {
+  await fs.mkdir(path.join(journalDir(vaultPath), 'versions'), { recursive: true });
+  if (previous !== null) {
+    await fs.writeFile(blobFile(vaultPath, entry.id), previous, 'utf-8');
+  }
+
+  const entries = [...(await readJournal(vaultPath)), entry];
+  const limit = journalLimit();
+  const dropped = entries.length > limit ? entries.splice(0, entries.length - limit) : [];
+  for (const old of dropped) {
+    await fs.rm(blobFile(vaultPath, old.id), { force: true });
+  }
+  await writeFileAtomic(
+    journalFile(vaultPath),
+    entries.map(e => JSON.stringify(e)).join('\n') + '\n'
+  );
+}
+
+// =============================================================================
+// Writes
+// =============================================================================
+
+function toRelative(vaultPath: string, fullPath: string): string {
+  return path.relative(path.resolve(vaultPath), fullPath);
+}
+
+/**
+ * Write a note with an optional optimistic-concurrency check and journal the
+ * content it replaces.
+ *
+ * `expectedHash` is the computeContentHash of the content the caller last
+ * read; an empty string means the note must not exist yet. A mismatch
+ * throws VaultWriteConflictError and leaves the file untouched.
+ */
+export async function commitVaultWrite(
+  vaultPath: string,
+  fullPath: string,
+  content: string,
+  options: { expectedHash?: string; source?: string } = {}
+): Promise<{ entry: VaultJournalEntry; contentHash: string }> {
+  return withJournalLock(vaultPath, async () => {
+    const relativePath = toRelative(vaultPath, fullPath);
+    const previous = await readIfExists(fullPath);
+    const beforeHash = previous === null ? null : computeContentHash(previous);
+
+    if (options.expectedHash !== undefined) {
+      const expected = options.expectedHash || null;
+      if (expected !== beforeHash) {
+        throw new VaultWriteConflictError(
+          beforeHash === null
+            ? `Conflict: ${relativePath} no longer exists (expected hash ${expected})`
+            : expected === null
+              ? `Conflict: ${relativePath} already exists (current hash ${beforeHash})`
+              : `Conflict: ${relativePath} changed since it was read (expected hash ${expected}, current hash ${beforeHash})`,
+          relativePath,
+          expected,
+          beforeHash
+        );
+      }
+    }
+
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await writeFileAtomic(fullPath, content);
+    markVaultIndexStale();
+
+    const contentHash = computeContentHash(content);
+    const entry: VaultJournalEntry = {
+      id: randomUUID(),
+      path: relativePath,
+      at: new Date().toISOString(),
+      source: options.source || 'vault_write_note',
+      beforeHash,
+      afterHash: contentHash,
+    };
+    await appendJournal(vaultPath, entry, previous);
+    return { entry, contentHash };
+  });
+}
+
+/**
+ * Delete a note, journaling its content so the delete can be undone.
+ */
+export async function commitVaultDelete(
+  vaultPath: string,
+  fullPath: string,
+  options: { source?: string } = {}
+): Promise<VaultJournalEntry> {
+  return withJournalLock(vaultPath, async () => {
+    const relativePath = toRelative(vaultPath, fullPath);
+    const previous = await readIfExists(fullPath);
+    if (previous === null) {
+      throw new Error(`Note not found: ${relativePath}`);
+    }
+
+    await fs.rm(fullPath);
+    markVaultIndexStale();
+
+    const entry: VaultJournalEntry = {
+      id: randomUUID(),
+      path: relativePath,
+      at: new Date().toISOString(),
+      source: options.source || 'vault_write_note',
+      beforeHash: computeContentHash(previous),
+      afterHash: null,
+    };
+    await appendJournal(vaultPath, entry, previous);
+    return entry;
+  });
+}
+
+// =============================================================================
+// Undo
+// =============================================================================
+
+/**
+ * Most recent journal entries first, optionally for one note.
+ */
+export async function listVaultWrites(
+  vaultPath: string,
+  options: { path?: string; limit?: number } = {}
+): Promise<VaultJournalEntry[]> {
+  const wanted = options.path
+    ? (options.path.endsWith('.md') ? options.path : `${options.path}.md`)
+    : null;
+  return (await readJournal(vaultPath))
+    .filter(e => !wanted || e.path === wanted)
+    .reverse()
+    .slice(0, options.limit || 20);
+}
+
+/**
+ * Restore the content a journaled write replaced (or remove the note if the
+ * write created it). Picks the entry by id, else the latest write to `path`,
+ * else the latest write overall. Refuses with VaultWriteConflictError if the
+ * note changed after that write, unless `force` is set. The undo is itself
+ * journaled, so it can be undone.
+ */
+export async function undoVaultWrite(
+  vaultPath: string,
+  options: { id?: string; path?: string; force?: boolean } = {}
+): Promise<{ undone: VaultJournalEntry; entry: VaultJournalEntry }> {
+  return withJournalLock(vaultPath, async () => {
+    const entries = await readJournal(vaultPath);
+    let target: VaultJournalEntry | undefined;
+    if (options.id) {
+      target = entries.find(e => e.id === options.id);
+      if (!target) throw new Error(`No journaled write with id ${options.id}`);
+    } else {
+      const [latest] = await listVaultWrites(vaultPath, { path: options.path, limit: 1 });
+      target = latest;
+      if (!target) {
+        throw new Error(options.path ? `No journaled writes for ${options.path}` : 'The vault write journal is empty');
+      }
+    }
+
+    const fullPath = path.join(path.resolve(vaultPath), target.path);
+    const current = await readIfExists(fullPath);
+    const currentHash = current === null ? null : computeContentHash(current);
+    if (!options.force && currentHash !== target.afterHash) {
+      throw new VaultWriteConflictError(
+        `Conflict: ${target.path} changed after write ${target.id} ` +
+        `(hash then ${target.afterHash ?? 'none'}, now ${currentHash ?? 'none'}); pass force to undo anyway`,
+        target.path,
+        target.afterHash,
+        currentHash
+      );
+    }
+
+    let previous: string | null = null;
+    if (target.beforeHash !== null) {
+      previous = await readIfExists(blobFile(vaultPath, target.id));
+      if (previous === null) {
+        throw new Error(`Prior version of ${target.path} for write ${target.id} is no longer in the journal`);
+      }
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      await writeFileAtomic(fullPath, previous);
+    } else {
+      await fs.rm(fullPath, { force: true });
+    }
+    markVaultIndexStale();
+
+    const entry: VaultJournalEntry = {
+      id: randomUUID(),
+      path: target.path,
+      at: new Date().toISOString(),
+      source: 'vault_undo_write',
+      beforeHash: currentHash,
+      afterHash: target.beforeHash,
+      undoOf: target.id,
+    };
+    await appendJournal(vaultPath, entry, current);
+    return { undone: target, entry };
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * Vault Link Resolution
+ *
+ * Shared parsing and resolution of note references (wikilinks, embeds and
+ * markdown links) to vault files, Obsidian-style: source-relative paths,
+ * vault-root-relative folder links, then a basename lookup anywhere in the
+ * vault. Used by share-payload building and vault_move_note.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+function safeVaultPath(vaultRoot: string, relativePath: string): string {
+  const resolved = path.resolve(vaultRoot, relativePath);
+  const normalizedVault = path.resolve(vaultRoot);
+  if (!resolved.startsWith(normalizedVault + path.sep) && resolved !== normalizedVault) {
+    throw new Error(`Path traversal rejected: "${relativePath}" resolves outside vault root`);
+  }
+  return resolved;
+}
+
+/**
+ * Wikilink inner text (`Note#Heading|Alias`) -> link target (`Note`).
+ */
+export function normalizeWikiTarget(raw: string): string {
+  const withoutAlias = raw.split('|')[0] ?? raw;
+  const withoutAnchor = withoutAlias.split('#')[0] ?? withoutAlias;
+  return withoutAnchor.trim();
+}
+
+/**
+ * Wikilink inner text (`Note#Heading|Alias`) -> link target and the anchor
+ * after the first `#` (`Heading`, `A#B`, `^block-id`; '' when there is none).
+ */
+export function splitWikiTarget(raw: string): { target: string; anchor: string } {
+  const withoutAlias = (raw.split('|')[0] ?? raw).replace(/\\$/, '');
+  const hashIdx = withoutAlias.indexOf('#');
+  return {
+    target: normalizeWikiTarget(withoutAlias),
+    anchor: hashIdx >= 0 ? withoutAlias.slice(hashIdx + 1).trim() : '',
+  };
+}
+
+/**
+ * Raw link target -> decoded vault path, or null for external URLs and
+ * same-note anchors.
+ */
+export function sanitizeLocalLinkTarget(raw: string): string | null {
+  let target = raw.trim();
+  if (!target) return null;
+
+  if (target.startsWith('<') && target.endsWith('>') && target.length > 2) {
+    target = target.slice(1, -1).trim();
+  }
+
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // Keep raw target if URL-decoding fails.
+  }
+
+  // External URLs / mailto / anchors are references, but not local note dependencies.
+  if (/^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(target)) return null;
+  if (target.startsWith('#')) return null;
+
+  target = target.split('#')[0]?.split('?')[0]?.trim() || '';
+  if (!target) return null;
+
+  return target.replace(/\\/g, '/');
+}
+
+/**
+ * Resolve a reference from `sourceDocPath` to an existing vault file.
+ * `basenameIndex` maps lower-cased `basename.md` to vault-relative paths.
+ */
+export async function resolveLocalNoteTarget(
+  sourceDocPath: string,
+  rawTarget: string,
+  basenameIndex: Map<string, string[]>,
+  vaultRoot: string
+): Promise<{ resolvedPath?: string; exists: boolean }> {
+  const sanitized = sanitizeLocalLinkTarget(rawTarget);
+  if (!sanitized) return { exists: false };
+
+  const hasExt = path.extname(sanitized) !== '';
+  const relativeBase = sanitized.startsWith('/')
+    ? sanitized.slice(1)
+    : path.normalize(path.join(path.dirname(sourceDocPath), sanitized));
+
+  const candidateSet = new Set<string>();
+  if (hasExt) {
+    candidateSet.add(relativeBase);
+  } else {
+    candidateSet.add(`${relativeBase}.md`);
+  }
+
+  // Obsidian treats wikilinks containing folders (e.g. [[Folder/Note]]) as
+  // vault-root-relative, not source-relative. Add that interpretation so
+  // `[[Research/sheaf-theory-sources/foo]]` cited from `Research/bar.md`
+  // resolves to `Research/sheaf-theory-sources/foo.md` rather than the
+  // nonexistent `Research/Research/sheaf-theory-sources/foo.md`.
+  if (!sanitized.startsWith('/') && sanitized.includes('/')) {
+    candidateSet.add(hasExt ? sanitized : `${sanitized}.md`);
+  }
+
+  // Obsidian-style fallback: [[Note Title]] can resolve by filename anywhere in the vault.
+  if (!sanitized.includes('/') && !hasExt) {
+    const key = `${sanitized.toLowerCase()}.md`;
+    for (const rel of basenameIndex.get(key) || []) {
+      candidateSet.add(rel);
+    }
+  }
+
+  for (const candidateRaw of candidateSet) {
+    const candidate = candidateRaw.replace(/\\/g, '/');
+    let absolute = '';
+    try {
+      absolute = safeVaultPath(vaultRoot, candidate);
+    } catch {
+      continue;
+    }
+    try {
+      await fs.access(absolute);
+      return { resolvedPath: candidate, exists: true };
+    } catch {
+      // Keep trying.
+    }
+  }
+
+  return { exists: false };
+}
@@ -0,0 +1,131 @@
+#!/usr/bin/env tsx
+/**
+ * Unlinked mention tests — matching, confidence guards, dry run, apply.
+ *
+ * Scans a throwaway vault with a few entity notes: names and aliases found
+ * in plain text, protected spans (frontmatter, code, existing links) and
+ * already-linked notes skipped, case and short-alias confidence penalties,
+ * ambiguous terms dropped, first-occurrence linking, per-file diffs, and
+ * vault_unlinked_mentions applying links through the journal.
+ *
+ * Run:  npx tsx src/vault-mentions.test.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+function write(vaultPath: string, rel: string, content: string): void {
+  const full = path.join(vaultPath, rel);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  fs.writeFileSync(full, content);
+}
+
+async function main() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "vault-mentions-"));
+  const vaultPath = path.join(root, "vault");
+  process.env.VAULT_PATH = vaultPath;
+  process.env.VAULT_INDEX_DIR = path.join(root, "index");
+  process.env.VAULT_JOURNAL_DIR = path.join(root, "journal");
+  process.env.VAULT_INDEX_MAX_AGE_MS = "0";
+  process.env.PERSONAL_KOI_BACKEND_URL = "http://127.0.0.1:9";
+
+  write(vaultPath, "People/Ada Lovelace.md", "---\n\"@type\": Person\naliases: [Countess of Lovelace, AL]\n---\nAda Lovelace wrote the first program.\n");
+  write(vaultPath, "People/Will.md", "---\n\"@type\": Person\n---\n");
+  write(vaultPath, "Organizations/Regen Network.md", "---\n\"@type\": Organization\naliases: [Regen]\n---\n");
+  write(vaultPath, "Concepts/Regen.md", "---\n\"@type\": Concept\n---\n");
+  write(vaultPath, "Meetings/Kickoff.md", [
+    "---",
+    "attendees: Ada Lovelace",
+    "---",
+    "Met Ada Lovelace and the Countess of Lovelace again; ada lovelace agreed.",
+    "We will ask Will. AL too.",
+    "Regen is on board, `Ada Lovelace` in code.",
+    "Regen Network sent notes.",
+    "",
+  ].join("\n"));
+  write(vaultPath, "Meetings/Linked.md", "See [[Ada Lovelace]]. Ada Lovelace again.\n");
+  write(vaultPath, "Notes/Ada.md", "Ada Lovelace in [Ada Lovelace](https://example.org) and [[Regen Network|the network]].\n");
+
+  const { findUnlinkedMentions, mentionConfidence } = await import("./vault-mentions.js");
+  const vault = await import("./vault.js");
+  const { handleKoiApiTool } = await import("./koi-api-tools.js");
+  const entities = await vault.buildEntityIndex();
+
+  console.log("Unlinked mention tests:");
+  console.log("");
+
+  check("exact multi-word name is full confidence", mentionConfidence("Ada Lovelace", "Ada Lovelace", false) === 1);
+  check("case change, single words and short aliases cost confidence",
+    mentionConfidence("ada lovelace", "Ada Lovelace", false) < 1 &&
+      mentionConfidence("will", "Will", false) < 0.8 &&
+      mentionConfidence("Will", "Will", false) === 0.9 &&
+      mentionConfidence("AL", "AL", true) < 0.6);
+
+  const report = await findUnlinkedMentions(vaultPath, entities);
+  const byPath = new Map(report.files.map((f: any) => [f.path, f]));
+  const kickoff: any = byPath.get("Meetings/Kickoff.md");
+  const summary = (f: any) => f?.mentions.map((m: any) => `${m.line}:${m.text}->${m.replacement}`).join(" | ");
+
+  check("first mention per entity, frontmatter and code skipped",
+    summary(kickoff) === "4:Ada Lovelace->[[Ada Lovelace]] | 5:Will->[[Will]] | 7:Regen Network->[[Regen Network]]",
+    summary(kickoff));
+  check("a term naming two entities is dropped as ambiguous",
+    !kickoff?.mentions.some((m: any) => m.text === "Regen") && report.skipped.ambiguous >= 1, JSON.stringify(report.skipped));
+  check("lowercase and short-alias mentions fall below the threshold", report.skipped.lowConfidence >= 2, JSON.stringify(report.skipped));
+  check("notes that already link the entity, and the entity's own note, are skipped",
+    !byPath.has("Meetings/Linked.md") && !byPath.has("People/Ada Lovelace.md"));
+  check("markdown links are protected; the plain mention is linked",
+    summary(byPath.get("Notes/Ada.md")) === "1:Ada Lovelace->[[Ada Lovelace]]", summary(byPath.get("Notes/Ada.md")));
+  check("per-file diff shows old and new lines",
+    kickoff?.diff.startsWith("@@ line 4\n- Met Ada Lovelace and the Countess") &&
+      kickoff?.diff.includes("+ Met [[Ada Lovelace]] and the Countess of Lovelace again; ada lovelace agreed."),
+    kickoff?.diff);
+  check("dry run writes nothing", !report.applied && fs.readFileSync(path.join(vaultPath, "Meetings/Kickoff.md"), "utf-8").includes("Met Ada Lovelace"));
+
+  const all = await findUnlinkedMentions(vaultPath, entities, {
+    entity: "People/Ada Lovelace", paths: ["Meetings/Kickoff"], allOccurrences: true, minConfidence: 0.7,
+  });
+  check("entity filter, all occurrences, aliases with display text",
+    summary(all.files[0]) === "4:Ada Lovelace->[[Ada Lovelace]] | 4:Countess of Lovelace->[[Ada Lovelace|Countess of Lovelace]] | 4:ada lovelace->[[Ada Lovelace|ada lovelace]]",
+    summary(all.files[0]));
+
+  const applied = await handleKoiApiTool("vault_unlinked_mentions", { paths: ["Meetings/Kickoff.md"], apply: true });
+  const text = fs.readFileSync(path.join(vaultPath, "Meetings/Kickoff.md"), "utf-8");
+  check("apply writes the links and reports an undo id",
+    !applied.isError && applied.content[0].text.includes("Undo id:") &&
+      text.includes("Met [[Ada Lovelace]] and") && text.includes("ask [[Will]].") && text.includes("[[Regen Network]] sent") &&
+      text.includes("`Ada Lovelace` in code") && text.startsWith("---\nattendees: Ada Lovelace\n---"),
+    text);
+
+  const again = await findUnlinkedMentions(vaultPath, entities, { paths: ["Meetings/Kickoff.md"] });
+  check("linked notes have nothing left to link", again.files.length === 0, JSON.stringify(again.files));
+
+  const undo = await handleKoiApiTool("vault_undo_write", { path: "Meetings/Kickoff.md" });
+  check("the bulk link is undoable",
+    !undo.isError && fs.readFileSync(path.join(vaultPath, "Meetings/Kickoff.md"), "utf-8").includes("Met Ada Lovelace and"));
+
+  fs.rmSync(root, { recursive: true, force: true });
+
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,344 @@
+/**
+ * Unlinked Mentions
+ *
+ * Finds plain-text mentions of entity notes (by name or alias) across the
+ * vault that are not wikilinked yet, and optionally links them in bulk.
+ * Mentions are located with findMentionOffsets (whole words, any case) and
+ * inserted with applyWikilinks, so frontmatter, code, and existing wiki and
+ * markdown links are never touched.
+ *
+ * Confidence is jaroWinklerSimilarity between the text as written and the
+ * name or alias it matched, so a case change ("will" for Will) costs
+ * confidence, scaled down for aliases and single words, and further for
+ * names of three characters or fewer. Guards drop a mention outright when
+ * its text names more than one entity, when it sits in the entity's own
+ * note, or when the note already links the entity.
+ *
+ * By default only the first mention of each entity in a note is linked.
+ * Without `apply` nothing is written and each file's diff is returned.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { applyWikilinks, computeProtectedSpans, overlapsProtected } from './document-processor.js';
+import { findMentionOffsets, type SuggestedWikilink } from './entity-extraction.js';
+import { jaroWinklerSimilarity } from './entity-resolver.js';
+import { getVaultIndex } from './vault-index.js';
+import { commitVaultWrite, VaultWriteConflictError } from './vault-journal.js';
+import { computeContentHash } from './vault-rid.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MentionEntity {
+  name: string;
+  type: string;
+
+  /** Vault-relative path without .md */
+  path: string;
+
+  aliases: string[];
+}
+
+export interface UnlinkedMention {
+  /** 1-based line of the mention */
+  line: number;
+
+  /** Text as written in the note */
+  text: string;
+
+  /** Name or alias it matched */
+  term: string;
+
+  viaAlias: boolean;
+  entity: { name: string; type: string; path: string };
+  confidence: number;
+
+  /** Wikilink that would replace `text` */
+  replacement: string;
+
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface MentionFilePlan {
+  path: string;
+  mentions: UnlinkedMention[];
+
+  /** Changed lines as `- old` / `+ new` pairs under `@@ line N` */
+  diff: string;
+
+  /** Journal id, when the links were written */
+  journalId?: string;
+
+  /** Why the links were not written (the note changed during the run) */
+  error?: string;
+}
+
+export interface UnlinkedMentionOptions {
+  /** Only scan notes under this folder */
+  folder?: string;
+
+  /** Only scan these notes (vault-relative) */
+  paths?: string[];
+
+  /** Only mentions of this entity (name, alias or note path) */
+  entity?: string;
+
+  /** Minimum confidence to report or link (default 0.8) */
+  minConfidence?: number;
+
+  /** Link every mention, not just the first of each entity per note */
+  allOccurrences?: boolean;
+
+  /** Write the links (default false: dry run) */
+  apply?: boolean;
+}
+
+export interface UnlinkedMentionReport {
+  scanned: number;
+  entities: number;
+  files: MentionFilePlan[];
+
+  /** Mentions listed, across all files */
+  mentions: number;
+
+  /** Mentions dropped: below minConfidence, or text naming several entities */
+  skipped: { lowConfidence: number; ambiguous: number };
+
+  applied: boolean;
+}
+
+interface Term {
+  term: string;
+  viaAlias: boolean;
+  entity: MentionEntity;
+}
+
+// =============================================================================
+// Confidence
+// =============================================================================
+
+export const DEFAULT_MENTION_CONFIDENCE = 0.8;
+
+/**
+ * Confidence that `text` (as written) is a mention of `term`.
+ */
+export function mentionConfidence(text: string, term: string, viaAlias: boolean): number {
+  let confidence = jaroWinklerSimilarity(text, term);
+  if (viaAlias) confidence *= 0.9;
+  if (!/\s/.test(term.trim())) confidence *= term.length <= 3 ? 0.6 : 0.9;
+  return Math.round(confidence * 1000) / 1000;
+}
+
+// =============================================================================
+// Scan
+// =============================================================================
+
+function toPosix(p: string): string {
+  return p.replace(/\\/g, '/');
+}
+
+function lineOf(content: string, offset: number): number {
+  let line = 1;
+  for (let i = content.indexOf('\n'); i !== -1 && i < offset; i = content.indexOf('\n', i + 1)) line++;
+  return line;
+}
+
+/**
+ * `- old` / `+ new` pairs for every line that differs (links never add or
+ * remove lines, so the files align line by line).
+ */
+function lineDiff(before: string, after: string): string {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const out: string[] = [];
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === b[i]) continue;
+    out.push(`@@ line ${i + 1}`);
+    if (a[i] !== undefined) out.push(`- ${a[i]}`);
+    if (b[i] !== undefined) out.push(`+ ${b[i]}`);
+  }
+  return out.join('\n');
+}
+
+/**
+ * Find (and with `apply`, link) unlinked entity mentions across the vault.
+ */
+export async function findUnlinkedMentions(
+  vaultRoot: string,
+  entities: MentionEntity[],
+  options: UnlinkedMentionOptions = {}
+): Promise<UnlinkedMentionReport> {
+  const minConfidence = options.minConfidence ?? DEFAULT_MENTION_CONFIDENCE;
+  const folderPrefix = options.folder ? toPosix(options.folder).replace(/\/+$/, '') + '/' : '';
+  const only = options.paths ? new Set(options.paths.map(p => toPosix(p.endsWith('.md') ? p : `${p}.md`))) : null;
+
+  const wanted = options.entity?.trim().toLowerCase();
+  const selected = (wanted
+    ? entities.filter(e =>
+        e.name.toLowerCase() === wanted ||
+        toPosix(e.path).toLowerCase() === wanted.replace(/\.md$/, '') ||
+        e.aliases.some(a => a.toLowerCase() === wanted))
+    : entities
+  ).map(e => ({ ...e, path: toPosix(e.path) }));
+
+  // Lower-cased term -> every entity it names. A term naming several is ambiguous.
+  const terms = new Map<string, Term[]>();
+  for (const entity of entities.map(e => ({ ...e, path: toPosix(e.path) }))) {
+    const names = [{ term: entity.name, viaAlias: false }, ...entity.aliases.map(a => ({ term: a, viaAlias: true }))];
+    for (const { term, viaAlias } of names) {
+      const key = term.trim().toLowerCase();
+      if (key.length < 2) continue;
+      const bucket = terms.get(key) || [];
+      if (!bucket.some(t => t.entity.path === entity.path)) bucket.push({ term: term.trim(), viaAlias, entity });
+      terms.set(key, bucket);
+    }
+  }
+  const selectedPaths = new Set(selected.map(e => e.path));
+  const searchTerms = [...terms.entries()].filter(([, bucket]) => bucket.some(t => selectedPaths.has(t.entity.path)));
+
+  const index = await getVaultIndex(vaultRoot);
+  const basenames = index.basenameIndex();
+  const linkTarget = (entity: MentionEntity) => {
+    const base = entity.path.split('/').pop()!;
+    // Bare [[Name]] unless another note shares the basename
+    return (basenames.get(`${base.toLowerCase()}.md`) || []).length > 1 ? entity.path : base;
+  };
+
+  const report: UnlinkedMentionReport = {
+    scanned: 0,
+    entities: selected.length,
+    files: [],
+    mentions: 0,
+    skipped: { lowConfidence: 0, ambiguous: 0 },
+    applied: options.apply === true,
+  };
+
+  for (const entry of index.all()) {
+    const notePath = toPosix(entry.path);
+    if (folderPrefix && !notePath.startsWith(folderPrefix)) continue;
+    if (only && !only.has(notePath)) continue;
+    report.scanned++;
+
+    const fullPath = path.join(vaultRoot, entry.path);
+    let content: string;
+    try {
+      content = await fs.readFile(fullPath, 'utf-8');
+    } catch {
+      continue;
+    }
+    const lower = content.toLowerCase();
+    const present = searchTerms.filter(([key]) => lower.includes(key));
+    if (present.length === 0) continue;
+
+    // Entities this note already links (by basename, as Obsidian resolves them)
+    const linked = new Set(entry.links.map(l => l.target.split('#')[0].split('/').pop()!.replace(/\.md$/i, '').toLowerCase()));
+    const protectedSpans = computeProtectedSpans(content);
+    const seen = new Set<string>();
+    const mentions: UnlinkedMention[] = [];
+
+    for (const match of findMentionOffsets(content, present.map(([, bucket]) => bucket[0].term))) {
+      if (overlapsProtected(match.startOffset, match.endOffset, protectedSpans)) continue;
+      const bucket = terms.get(match.text.toLowerCase()) || [];
+      const distinct = new Set(bucket.map(t => t.entity.path));
+      if (distinct.size > 1) {
+        report.skipped.ambiguous++;
+        continue;
+      }
+      const { term, viaAlias, entity } = bucket[0];
+      if (!selectedPaths.has(entity.path)) continue;
+      if (`${entity.path}.md` === notePath) continue;
+      if (linked.has(entity.path.split('/').pop()!.toLowerCase())) continue;
+
+      const confidence = mentionConfidence(match.text, term, viaAlias);
+      if (confidence < minConfidence) {
+        report.skipped.lowConfidence++;
+        continue;
+      }
+      if (!options.allOccurrences && seen.has(entity.path)) continue;
+      seen.add(entity.path);
+
+      const target = linkTarget(entity);
+      mentions.push({
+        line: lineOf(content, match.startOffset),
+        text: match.text,
+        term,
+        viaAlias,
+        entity: { name: entity.name, type: entity.type, path: entity.path },
+        confidence,
+        replacement: target === match.text ? `[[${target}]]` : `[[${target}|${match.text}]]`,
+        startOffset: match.startOffset,
+        endOffset: match.endOffset,
+      });
+    }
+    if (mentions.length === 0) continue;
+
+    const wikilinks: SuggestedWikilink[] = [...mentions]
+      .sort((a, b) => b.startOffset - a.startOffset)
+      .map(m => ({
+        originalText: m.text,
+        replacement: m.replacement,
+        existingNote: m.entity.path,
+        entityType: m.entity.type,
+        confidence: m.confidence,
+        startOffset: m.startOffset,
+        endOffset: m.endOffset,
+      }));
+    const updated = applyWikilinks(content, wikilinks);
+    const plan: MentionFilePlan = { path: notePath, mentions, diff: lineDiff(content, updated) };
+
+    if (options.apply && updated !== content) {
+      try {
+        const { entry: written } = await commitVaultWrite(vaultRoot, fullPath, updated, {
+          expectedHash: computeContentHash(content),
+          source: 'vault_unlinked_mentions',
+        });
+        plan.journalId = written.id;
+      } catch (e) {
+        if (!(e instanceof VaultWriteConflictError)) throw e;
+        plan.error = e.message;
+      }
+    }
+    report.files.push(plan);
+    report.mentions += mentions.length;
+  }
+
+  // Files with the most confident mentions first
+  const best = (f: MentionFilePlan) => Math.max(...f.mentions.map(m => m.confidence));
+  report.files.sort((a, b) => best(b) - best(a) || b.mentions.length - a.mentions.length || a.path.localeCompare(b.path));
+  return report;
+}
+
+/**
+ * Markdown report: per-file mentions with confidence, then the diff.
+ */
+export function formatUnlinkedMentions(report: UnlinkedMentionReport, limit = 50): string {
+  const lines = [
+    `# Unlinked Mentions${report.applied ? ' (applied)' : ' (dry run)'}`,
+    '',
+    `Scanned ${report.scanned} note(s) for ${report.entities} entit${report.entities === 1 ? 'y' : 'ies'}: ` +
+      `${report.mentions} mention(s) in ${report.files.length} file(s).`,
+  ];
+  const { lowConfidence, ambiguous } = report.skipped;
+  if (lowConfidence + ambiguous > 0) {
+    lines.push(`Skipped ${lowConfidence} below the confidence threshold and ${ambiguous} naming several entities.`);
+  }
+
+  for (const file of report.files.slice(0, limit)) {
+    lines.push('', `## ${file.path}`, '');
+    for (const m of file.mentions) {
+      const via = m.viaAlias ? ` (alias "${m.term}")` : '';
+      lines.push(`- line ${m.line}: "${m.text}" → ${m.replacement}${via}, confidence ${m.confidence.toFixed(2)}`);
+    }
+    lines.push('', '```diff', file.diff, '```');
+    if (file.journalId) lines.push(`Undo id: \`${file.journalId}\``);
+    if (file.error) lines.push(`Not written: ${file.error}`);
+  }
+  if (report.files.length > limit) lines.push('', `... ${report.files.length - limit} more file(s)`);
+  if (!report.applied && report.files.length > 0) {
+    lines.push('', 'Nothing was written. Re-run with apply=true (optionally narrowed with paths) to add these links.');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,139 @@
+#!/usr/bin/env tsx
+/**
+ * vault_move_note tests — reference rewriting, RID update, dry run, undo.
+ *
+ * Moves a note in a throwaway vault and checks that bare, aliased, anchored,
+ * folder-qualified and embedded wikilinks plus relative and root-relative
+ * markdown links are rewritten, that links to a same-named note elsewhere are
+ * left alone, that the moved note's own relative links and RID follow it, and
+ * that a dry run lists the same changes without writing anything.
+ *
+ * Run:  npx tsx src/vault-move.test.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+async function main() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "vault-move-"));
+  const vaultPath = path.join(root, "Notes");
+  process.env.VAULT_PATH = vaultPath;
+  process.env.VAULT_INDEX_DIR = path.join(root, "index");
+  process.env.VAULT_JOURNAL_DIR = path.join(root, "journal");
+  process.env.VAULT_INDEX_MAX_AGE_MS = "0";
+
+  const files: Record<string, string> = {
+    "People/Ada.md": [
+      "---",
+      "rid: orn:obsidian.note:Notes/People/Ada",
+      "---",
+      "Works with [Bob](Bob.md) on [[Herring]].",
+    ].join("\n"),
+    "People/Bob.md": "Knows [[Ada]], [[Ada|the Countess]] and [[Ada#Early life]].\n",
+    "Projects/Herring.md": [
+      "Lead: [[People/Ada]]",
+      "![[Ada#^quote]]",
+      "| who | [[Ada\\|Ada L]] |",
+      "[profile](../People/Ada.md#bio) and [root](/People/Ada.md)",
+      "[elsewhere](<../People/Ada.md>)",
+    ].join("\n"),
+    "Archive/Ada Draft.md": "Unrelated [[Ada Draft]] and [[Herring]].\n",
+  };
+  for (const [rel, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(vaultPath, rel)), { recursive: true });
+    fs.writeFileSync(path.join(vaultPath, rel), content);
+  }
+  const read = (rel: string) => fs.readFileSync(path.join(vaultPath, rel), "utf-8");
+
+  const { handleKoiApiTool } = await import("./koi-api-tools.js");
+  const text = (r: any) => r.content.map((c: any) => c.text).join("\n");
+
+  console.log("vault_move_note tests:");
+  console.log("");
+
+  let r = await handleKoiApiTool("vault_move_note", {
+    from: "People/Ada.md", to: "People/Historical/Ada Lovelace", dry_run: true, format: "json",
+  });
+  const plan = JSON.parse(text(r));
+  check("dry run writes nothing",
+    fs.existsSync(path.join(vaultPath, "People/Ada.md")) && read("People/Bob.md") === files["People/Bob.md"]);
+  check("dry run lists every file it would touch",
+    plan.files.map((f: any) => f.path).sort().join() ===
+      "People/Bob.md,People/Historical/Ada Lovelace.md,Projects/Herring.md",
+    plan.files.map((f: any) => f.path).join());
+  check("dry run counts rewritten links", plan.linkCount === 10, String(plan.linkCount));
+
+  r = await handleKoiApiTool("vault_move_note", { from: "People/Ada.md", to: "People/Historical/Ada Lovelace" });
+  check("move succeeds", !r.isError, text(r));
+  check("source removed", !fs.existsSync(path.join(vaultPath, "People/Ada.md")));
+
+  check("bare, aliased and anchored wikilinks rewritten",
+    read("People/Bob.md") === "Knows [[Ada Lovelace]], [[Ada Lovelace|the Countess]] and [[Ada Lovelace#Early life]].\n",
+    read("People/Bob.md"));
+  const herring = read("Projects/Herring.md").split("\n");
+  check("folder-qualified link keeps its folder form", herring[0] === "Lead: [[People/Historical/Ada Lovelace]]", herring[0]);
+  check("embed with block anchor rewritten", herring[1] === "![[Ada Lovelace#^quote]]", herring[1]);
+  check("escaped table pipe preserved", herring[2] === "| who | [[Ada Lovelace\\|Ada L]] |", herring[2]);
+  check("relative and root markdown links rewritten",
+    herring[3] === "[profile](../People/Historical/Ada%20Lovelace.md#bio) and [root](/People/Historical/Ada%20Lovelace.md)",
+    herring[3]);
+  check("angle-bracket link keeps its style", herring[4] === "[elsewhere](<../People/Historical/Ada Lovelace.md>)", herring[4]);
+  check("same-prefix note untouched", read("Archive/Ada Draft.md") === files["Archive/Ada Draft.md"]);
+
+  const moved = read("People/Historical/Ada Lovelace.md");
+  check("moved note's relative links follow it", moved.includes("[Bob](../Bob.md)"), moved);
+  check("note RID regenerated", moved.includes("rid: orn:obsidian.note:Notes/People/Historical/Ada-Lovelace"), moved);
+
+  r = await handleKoiApiTool("vault_move_note", { from: "People/Bob.md", to: "Projects/Herring.md" });
+  check("refuses to overwrite an existing note", r.isError === true && /already exists/.test(text(r)));
+  fs.writeFileSync(path.join(vaultPath, "People/bob.md"), "Another bob.\n");
+  r = await handleKoiApiTool("vault_move_note", { from: "People/Bob.md", to: "People/bob.md" });
+  check("a case-different note on a case-sensitive filesystem is not overwritten",
+    r.isError === true && /already exists/.test(text(r)) && read("People/bob.md") === "Another bob.\n" &&
+      fs.existsSync(path.join(vaultPath, "People/Bob.md")),
+    text(r));
+  fs.rmSync(path.join(vaultPath, "People/bob.md"));
+  r = await handleKoiApiTool("vault_move_note", { from: "People/Bob.md", to: "../Bob.md" });
+  check("rejects destinations outside the vault", r.isError === true);
+
+  await handleKoiApiTool("vault_undo_write", { path: "People/Ada.md" });
+  await handleKoiApiTool("vault_undo_write", { path: "People/Historical/Ada Lovelace.md" });
+  await handleKoiApiTool("vault_undo_write", { path: "People/Bob.md" });
+  check("move can be undone through the journal",
+    read("People/Ada.md") === files["People/Ada.md"] &&
+      !fs.existsSync(path.join(vaultPath, "People/Historical/Ada Lovelace.md")) &&
+      read("People/Bob.md") === files["People/Bob.md"]);
+
+  // A file where the destination folder should be fails the last write
+  fs.writeFileSync(path.join(vaultPath, "Blocked"), "not a folder\n");
+  r = await handleKoiApiTool("vault_move_note", { from: "People/Bob.md", to: "Blocked/Bob" });
+  check("a failed move rolls back the links it already rewrote",
+    r.isError === true && /rolled back 1 write/i.test(text(r)) &&
+      read("People/Ada.md") === files["People/Ada.md"] && read("People/Bob.md") === files["People/Bob.md"],
+    text(r));
+
+  fs.rmSync(root, { recursive: true, force: true });
+
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
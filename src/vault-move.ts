@@ -0,0 +1,444 @@
+/**
+ * Vault Note Move
+ *
+ * Renames or moves a note and rewrites every reference to it across the
+ * vault: wikilinks, embeds and markdown links, keeping aliases, `#heading` /
+ * `^block` anchors and the link's own style (bare name, folder-qualified,
+ * source-relative). References are matched with the same resolution share
+ * payloads use (resolveLocalNoteTarget), so only links that actually point
+ * at the note are touched. A note RID in the moved note's frontmatter is
+ * regenerated with generateNoteRID.
+ *
+ * Every change goes through the write journal (source 'vault_move_note'), so
+ * each touched file can be restored with vault_undo_write. Every file's hash
+ * is checked before the first write; if a write still fails partway, the
+ * writes already made are undone so links never point at a note that did
+ * not move.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { findFrontmatterBlock } from './frontmatter.js';
+import { getVaultIndex } from './vault-index.js';
+import { commitVaultDelete, commitVaultWrite, undoVaultWrite, VaultWriteConflictError } from './vault-journal.js';
+import { resolveLocalNoteTarget, sanitizeLocalLinkTarget } from './vault-links.js';
+import { computeContentHash, generateNoteRID } from './vault-rid.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface LinkRewrite {
+  /** 1-based line of the link in the file before the move */
+  line: number;
+  before: string;
+  after: string;
+}
+
+export interface MovedFile {
+  /** File path (vault-relative) as it will be after the move */
+  path: string;
+  rewrites: LinkRewrite[];
+}
+
+export interface MovePlan {
+  from: string;
+  to: string;
+  dryRun: boolean;
+  rid: { old: string; new: string; updated: boolean };
+  files: MovedFile[];
+  linkCount: number;
+  /** Journal ids of the applied writes (empty for dry runs) */
+  journalIds: string[];
+}
+
+/**
+ * A move failed partway and the writes already made were undone (those in
+ * `notRolledBack` could not be, and still need vault_undo_write).
+ */
+export class VaultMoveRollbackError extends Error {
+  constructor(
+    public cause: Error,
+    public rolledBack: string[],
+    public notRolledBack: Array<{ id: string; error: string }>
+  ) {
+    super(
+      `${cause.message}. Rolled back ${rolledBack.length} write(s) made before the failure` +
+      (notRolledBack.length > 0
+        ? `; could not undo ${notRolledBack.map(n => `${n.id} (${n.error})`).join(', ')}`
+        : '; the vault is as it was before the move')
+    );
+    this.name = 'VaultMoveRollbackError';
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function isSameFile(a: string, b: string): Promise<boolean> {
+  const [sa, sb] = await Promise.all([fs.stat(a), fs.stat(b)]);
+  return sa.dev === sb.dev && sa.ino === sb.ino;
+}
+
+const WIKILINK_RE = /(!?)\[\[([^\]\n]+)\]\]/g;
+const MARKDOWN_LINK_RE = /(!?\[[^\]\n]*\]\()([^)\n]+)(\))/g;
+
+function toPosix(p: string): string {
+  return p.replace(/\\/g, '/');
+}
+
+function withMd(p: string): string {
+  return /\.md$/i.test(p) ? p : `${p}.md`;
+}
+
+function safeRelative(vaultRoot: string, relativePath: string): string {
+  const resolved = path.resolve(vaultRoot, relativePath);
+  const normalizedVault = path.resolve(vaultRoot);
+  if (!resolved.startsWith(normalizedVault + path.sep)) {
+    throw new Error(`Path traversal rejected: "${relativePath}" resolves outside vault root`);
+  }
+  return toPosix(path.relative(normalizedVault, resolved));
+}
+
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) {
+    if (content.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+interface Replacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function applyReplacements(content: string, replacements: Replacement[]): string {
+  let out = '';
+  let cursor = 0;
+  for (const r of [...replacements].sort((a, b) => a.start - b.start)) {
+    out += content.slice(cursor, r.start) + r.text;
+    cursor = r.end;
+  }
+  return out + content.slice(cursor);
+}
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+interface MoveContext {
+  vaultRoot: string;
+  from: string;
+  to: string;
+  basenameIndex: Map<string, string[]>;
+  /** Whether the new basename resolves to exactly one note after the move */
+  newBasenameUnique: boolean;
+}
+
+/**
+ * New target for a wikilink path that resolved to the moved note.
+ */
+function rewriteWikiPath(ctx: MoveContext, linkPath: string): string {
+  const hadExt = /\.md$/i.test(linkPath);
+  const bare = !linkPath.includes('/');
+  const base = bare && ctx.newBasenameUnique
+    ? path.posix.basename(ctx.to, '.md')
+    : ctx.to.replace(/\.md$/, '');
+  return hadExt ? `${base}.md` : base;
+}
+
+/**
+ * New target for a markdown link that resolved to the moved note (or, for
+ * links inside the moved note itself, to `targetPath`).
+ */
+function rewriteMarkdownTarget(
+  rawTarget: string,
+  sourceDir: string,
+  targetPath: string,
+  wasBasenameLookup: boolean
+): string {
+  const angle = rawTarget.startsWith('<') && rawTarget.endsWith('>');
+  const inner = angle ? rawTarget.slice(1, -1) : rawTarget;
+  const hashIdx = inner.indexOf('#');
+  const anchor = hashIdx >= 0 ? inner.slice(hashIdx) : '';
+  const hadExt = /\.md$/i.test(hashIdx >= 0 ? inner.slice(0, hashIdx) : inner);
+
+  let next = inner.startsWith('/')
+    ? `/${targetPath}`
+    : wasBasenameLookup
+      ? path.posix.basename(targetPath)
+      : path.posix.relative(sourceDir, targetPath) || path.posix.basename(targetPath);
+  if (!hadExt) next = next.replace(/\.md$/, '');
+
+  return angle ? `<${next}${anchor}>` : `${next.replace(/ /g, '%20')}${anchor}`;
+}
+
+async function planFile(
+  ctx: MoveContext,
+  sourcePath: string,
+  content: string
+): Promise<{ content: string; rewrites: LinkRewrite[] }> {
+  const replacements: Replacement[] = [];
+  const rewrites: LinkRewrite[] = [];
+  const isMovedNote = sourcePath === ctx.from;
+
+  const record = (start: number, before: string, after: string): void => {
+    if (before === after) return;
+    replacements.push({ start, end: start + before.length, text: after });
+    rewrites.push({ line: lineAt(content, start), before, after });
+  };
+
+  for (const m of content.matchAll(WIKILINK_RE)) {
+    const inner = m[2];
+    const pipeIdx = inner.indexOf('|');
+    let targetPart = pipeIdx >= 0 ? inner.slice(0, pipeIdx) : inner;
+    let rest = pipeIdx >= 0 ? inner.slice(pipeIdx) : '';
+    // `[[Note\|Alias]]` inside tables escapes the pipe
+    if (targetPart.endsWith('\\')) {
+      targetPart = targetPart.slice(0, -1);
+      rest = `\\${rest}`;
+    }
+    const hashIdx = targetPart.indexOf('#');
+    const linkPath = (hashIdx >= 0 ? targetPart.slice(0, hashIdx) : targetPart).trim();
+    const anchor = hashIdx >= 0 ? targetPart.slice(hashIdx) : '';
+    if (!linkPath) continue;
+
+    const resolved = await resolveLocalNoteTarget(sourcePath, linkPath, ctx.basenameIndex, ctx.vaultRoot);
+    if (resolved.resolvedPath !== ctx.from) continue;
+
+    record(m.index!, m[0], `${m[1]}[[${rewriteWikiPath(ctx, linkPath)}${anchor}${rest}]]`);
+  }
+
+  for (const m of content.matchAll(MARKDOWN_LINK_RE)) {
+    const rawTarget = m[2].trim();
+    const sanitized = sanitizeLocalLinkTarget(rawTarget);
+    if (!sanitized) continue;
+
+    const resolved = await resolveLocalNoteTarget(sourcePath, rawTarget, ctx.basenameIndex, ctx.vaultRoot);
+    if (!resolved.resolvedPath) continue;
+
+    const sourceRelative = !sanitized.startsWith('/') &&
+      toPosix(path.posix.normalize(path.posix.join(path.posix.dirname(sourcePath), withMd(sanitized)))) === resolved.resolvedPath;
+    const basenameLookup = !sanitized.startsWith('/') && !sanitized.includes('/') && !sourceRelative;
+
+    let targetPath: string | null = null;
+    let sourceDir = path.posix.dirname(sourcePath);
+    if (resolved.resolvedPath === ctx.from) {
+      targetPath = ctx.to;
+      if (isMovedNote) sourceDir = path.posix.dirname(ctx.to);
+    } else if (isMovedNote && sourceRelative) {
+      // The moved note's own relative links must follow it to its new folder
+      targetPath = resolved.resolvedPath;
+      sourceDir = path.posix.dirname(ctx.to);
+    }
+    if (!targetPath) continue;
+    if (basenameLookup && targetPath === ctx.to && !ctx.newBasenameUnique) {
+      // A bare name would now be ambiguous: qualify it from the vault root
+      record(m.index! + m[1].length, m[2], rewriteMarkdownTarget(`/${rawTarget}`, sourceDir, targetPath, false));
+      continue;
+    }
+
+    const next = rewriteMarkdownTarget(rawTarget, sourceDir, targetPath, basenameLookup);
+    record(m.index! + m[1].length, m[2], next);
+  }
+
+  return { content: applyReplacements(content, replacements), rewrites };
+}
+
+// =============================================================================
+// Move
+// =============================================================================
+
+/**
+ * Move `fromPath` to `toPath` (both vault-relative; `.md` optional) and
+ * rewrite references to it. With `dryRun`, nothing is written and the plan
+ * lists every file and link that would change.
+ */
+export async function moveNote(
+  vaultRoot: string,
+  fromPath: string,
+  toPath: string,
+  options: { dryRun?: boolean; vaultName?: string } = {}
+): Promise<MovePlan> {
+  const from = withMd(safeRelative(vaultRoot, fromPath));
+  const to = withMd(safeRelative(vaultRoot, toPath));
+  const dryRun = options.dryRun ?? false;
+  const vaultName = options.vaultName || path.basename(path.resolve(vaultRoot)) || 'Notes';
+
+  if (from === to) throw new Error('Source and destination are the same');
+  const fromFull = path.join(vaultRoot, from);
+  const toFull = path.join(vaultRoot, to);
+  try {
+    await fs.access(fromFull);
+  } catch {
+    throw new Error(`Note not found: ${from}`);
+  }
+  const destinationExists = await fs.access(toFull).then(() => true, () => false);
+  // A case-only rename resolves to the same file on case-insensitive
+  // filesystems; on case-sensitive ones the destination is another note
+  if (destinationExists && !(await isSameFile(fromFull, toFull))) {
+    throw new Error(`Destination already exists: ${to}`);
+  }
+
+  const index = await getVaultIndex(vaultRoot);
+  const basenameIndex = index.basenameIndex();
+  const newKey = path.posix.basename(to).toLowerCase();
+  const othersWithNewName = (basenameIndex.get(newKey) || []).filter(p => p !== from);
+
+  const ctx: MoveContext = {
+    vaultRoot,
+    from,
+    to,
+    basenameIndex,
+    newBasenameUnique: othersWithNewName.length === 0,
+  };
+
+  const oldBase = path.posix.basename(from, '.md').toLowerCase();
+  const needles = [oldBase, encodeURIComponent(oldBase).toLowerCase(), oldBase.replace(/ /g, '%20')];
+
+  const changes: Array<{ path: string; newPath: string; content: string; hash: string; rewrites: LinkRewrite[] }> = [];
+  for (const entry of index.all()) {
+    const sourcePath = toPosix(entry.path);
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(vaultRoot, entry.path), 'utf-8');
+    } catch {
+      continue;
+    }
+    const lower = content.toLowerCase();
+    if (sourcePath !== from && !needles.some(n => lower.includes(n))) continue;
+
+    const planned = await planFile(ctx, sourcePath, content);
+    if (sourcePath === from || planned.rewrites.length > 0) {
+      changes.push({
+        path: sourcePath,
+        newPath: sourcePath === from ? to : sourcePath,
+        content: planned.content,
+        hash: computeContentHash(content),
+        rewrites: planned.rewrites,
+      });
+    }
+  }
+
+  // Regenerate a path-derived note RID carried in the moved note's frontmatter
+  const oldRid = generateNoteRID(vaultName, from);
+  const newRid = generateNoteRID(vaultName, to);
+  const moved = changes.find(c => c.path === from)!;
+  const block = findFrontmatterBlock(moved.content);
+  let ridUpdated = false;
+  if (block && block.raw.includes(oldRid)) {
+    const updatedBlock = block.raw.split(oldRid).join(newRid);
+    moved.content = moved.content.slice(0, block.index) + updatedBlock + moved.content.slice(block.index + block.length);
+    ridUpdated = true;
+  }
+
+  const plan: MovePlan = {
+    from,
+    to,
+    dryRun,
+    rid: { old: oldRid, new: newRid, updated: ridUpdated },
+    files: changes.map(c => ({ path: c.newPath, rewrites: c.rewrites })),
+    linkCount: changes.reduce((n, c) => n + c.rewrites.length, 0),
+    journalIds: [],
+  };
+  if (dryRun) return plan;
+
+  // Check every file before writing any, so a stale plan changes nothing
+  for (const change of changes) {
+    const current = await fs.readFile(path.join(vaultRoot, change.path), 'utf-8').catch(() => null);
+    const currentHash = current === null ? null : computeContentHash(current);
+    if (currentHash !== change.hash) {
+      throw new VaultWriteConflictError(
+        `Conflict: ${change.path} changed since the move was planned ` +
+        `(expected hash ${change.hash}, current hash ${currentHash ?? 'none'})`,
+        change.path,
+        change.hash,
+        currentHash
+      );
+    }
+  }
+
+  let renamed = false;
+  try {
+    for (const change of changes) {
+      if (change.path === from) continue;
+      const { entry } = await commitVaultWrite(vaultRoot, path.join(vaultRoot, change.path), change.content, {
+        expectedHash: change.hash,
+        source: 'vault_move_note',
+      });
+      plan.journalIds.push(entry.id);
+    }
+
+    const caseOnly = destinationExists;
+    if (caseOnly) {
+      // Same file under another case: rename, then write the rewritten content
+      await fs.rename(fromFull, toFull);
+      renamed = true;
+      const { entry } = await commitVaultWrite(vaultRoot, toFull, moved.content, { source: 'vault_move_note' });
+      plan.journalIds.push(entry.id);
+    } else {
+      const { entry: created } = await commitVaultWrite(vaultRoot, toFull, moved.content, {
+        expectedHash: '',
+        source: 'vault_move_note',
+      });
+      plan.journalIds.push(created.id);
+      const removed = await commitVaultDelete(vaultRoot, fromFull, { source: 'vault_move_note' });
+      plan.journalIds.push(removed.id);
+    }
+  } catch (e) {
+    throw await rollBackMove(vaultRoot, plan.journalIds, e as Error, renamed ? { from: toFull, to: fromFull } : null);
+  }
+
+  return plan;
+}
+
+/**
+ * Undo a partly applied move, newest write first, and describe the outcome.
+ */
+async function rollBackMove(
+  vaultRoot: string,
+  journalIds: string[],
+  cause: Error,
+  rename: { from: string; to: string } | null
+): Promise<VaultMoveRollbackError> {
+  const rolledBack: string[] = [];
+  const notRolledBack: Array<{ id: string; error: string }> = [];
+  for (const id of [...journalIds].reverse()) {
+    try {
+      await undoVaultWrite(vaultRoot, { id });
+      rolledBack.push(id);
+    } catch (e) {
+      notRolledBack.push({ id, error: (e as Error).message });
+    }
+  }
+  if (rename) {
+    await fs.rename(rename.from, rename.to).catch((e: Error) => {
+      notRolledBack.push({ id: 'rename', error: e.message });
+    });
+  }
+  return new VaultMoveRollbackError(cause, rolledBack, notRolledBack);
+}
+
+/**
+ * Markdown summary of a move plan.
+ */
+export function formatMovePlan(plan: MovePlan): string {
+  let out = `# ${plan.dryRun ? 'Move preview' : 'Moved note'}: ${plan.from} → ${plan.to}\n\n`;
+  out += `- Links ${plan.dryRun ? 'to rewrite' : 'rewritten'}: ${plan.linkCount} in ${plan.files.filter(f => f.rewrites.length > 0).length} file(s)\n`;
+  out += `- Note RID: ${plan.rid.old} → ${plan.rid.new}${plan.rid.updated ? ' (frontmatter updated)' : ''}\n`;
+  if (!plan.dryRun && plan.journalIds.length > 0) {
+    out += `- Undo: vault_undo_write(id=...) per journal id: ${plan.journalIds.join(', ')}\n`;
+  }
+
+  for (const file of plan.files) {
+    if (file.rewrites.length === 0) continue;
+    out += `\n## ${file.path}\n`;
+    for (const r of file.rewrites) {
+      out += `- L${r.line}: \`${r.before}\` → \`${r.after}\`\n`;
+    }
+  }
+  return out;
+}
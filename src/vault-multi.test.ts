@@ -0,0 +1,151 @@
+#!/usr/bin/env tsx
+/**
+ * Named vault tests — VAULTS configuration, per-call vault scoping, RIDs.
+ *
+ * Configures a default vault plus two named ones in temp dirs: the default
+ * vault's name, unknown-vault errors, tool calls scoped with withVault
+ * reading and writing only their vault, separate indexes, vault names in
+ * generated RIDs (share_document's included), and the `vault` argument on
+ * vault tool schemas.
+ *
+ * Run:  npx tsx src/vault-multi.test.ts
+ */
+
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+function write(vaultPath: string, rel: string, content: string): void {
+  const full = path.join(vaultPath, rel);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  fs.writeFileSync(full, content);
+}
+
+async function main() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "vault-multi-"));
+  const personal = path.join(root, "Personal");
+  const work = path.join(root, "Work");
+  const shared = path.join(root, "Notes");
+  process.env.VAULT_PATH = personal;
+  process.env.VAULTS = `work=${work}, shared=${shared}, personal=${personal}`;
+  process.env.VAULT_INDEX_DIR = path.join(root, "index");
+  process.env.VAULT_JOURNAL_DIR = path.join(root, "journal");
+  process.env.PERSONAL_KOI_BACKEND_URL = "http://127.0.0.1:9";
+
+  const shares: any[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", () => {
+      shares.push(JSON.parse(body || "{}"));
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ ok: true }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  process.env.KOI_API_ENDPOINT = `http://127.0.0.1:${(server.address() as any).port}`;
+
+  write(personal, "People/Ada.md", "---\n\"@type\": Person\n---\n#family\n");
+  write(work, "People/Ada.md", "---\n\"@type\": Person\n---\n#client\n");
+  write(shared, "Inbox.md", "Shared inbox\n");
+
+  const vault = await import("./vault.js");
+  const { handleKoiApiTool, KOI_API_TOOL_DEFINITIONS } = await import("./koi-api-tools.js");
+  const { getTagIndex } = await import("./vault-tags.js");
+  const text = (r: any) => r.content.map((c: any) => c.text).join("\n");
+
+  console.log("Named vault tests:");
+  console.log("");
+
+  check("VAULT_PATH is the default vault, named by its VAULTS entry",
+    vault.listVaults().map((v: any) => v.name).join() === "personal,work,shared",
+    JSON.stringify(vault.listVaults()));
+  check("no vault argument resolves the default", vault.getVaultPath() === personal && vault.getVaultName() === "personal");
+
+  let unknown = "";
+  try {
+    vault.withVault("archive", () => null);
+  } catch (e: any) {
+    unknown = `${e.name}: ${e.message}`;
+  }
+  check("unknown vault names are rejected with the configured names",
+    unknown === 'UnknownVaultError: Unknown vault "archive" (configured: personal, work, shared)', unknown);
+
+  check("vault names match case-insensitively",
+    vault.withVault("WORK", () => vault.getVaultPath()) === work);
+
+  const scoped = await vault.withVault("work", async () => {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    return vault.getVaultName();
+  });
+  check("scope survives across awaits and ends with the call",
+    scoped === "work" && vault.getVaultName() === "personal");
+
+  const workRead = await vault.withVault("work", () => handleKoiApiTool("vault_read_note", { path: "People/Ada.md" }));
+  const personalRead = await handleKoiApiTool("vault_read_note", { path: "People/Ada.md" });
+  check("reads come from the scoped vault",
+    text(workRead).includes("#client") && text(personalRead).includes("#family"));
+
+  await vault.withVault("shared", () =>
+    handleKoiApiTool("vault_write_note", { path: "Meetings/Sync", content: "Agenda\n" }));
+  check("writes land in the scoped vault only",
+    fs.existsSync(path.join(shared, "Meetings/Sync.md")) && !fs.existsSync(path.join(personal, "Meetings/Sync.md")));
+
+  const workTags = await vault.withVault("work", () => getTagIndex());
+  const personalTags = await getTagIndex();
+  check("each vault has its own index",
+    workTags.list().map((t: any) => t.tag).join() === "client" &&
+      personalTags.list().map((t: any) => t.tag).join() === "family");
+
+  await vault.withVault("work", () => handleKoiApiTool("vault_audit", { checks: ["missing_rid"], fix: true }));
+  await handleKoiApiTool("vault_audit", { checks: ["missing_rid"], fix: true });
+  const workRid = fs.readFileSync(path.join(work, "People/Ada.md"), "utf-8").match(/rid: (\S+)/)?.[1];
+  const personalRid = fs.readFileSync(path.join(personal, "People/Ada.md"), "utf-8").match(/rid: (\S+)/)?.[1];
+  check("generated RIDs carry the vault name",
+    workRid === "orn:obsidian.entity:work/Person/ada" && personalRid === "orn:obsidian.entity:personal/Person/ada",
+    `${workRid} / ${personalRid}`);
+
+  await vault.withVault("work", () => handleKoiApiTool("share_document", { document_path: "People/Ada.md", recipient: "peer" }));
+  await handleKoiApiTool("share_document", { document_path: "People/Ada.md", recipient: "peer" });
+  const [workShare, personalShare] = shares;
+  check("shares of the same path from two vaults get distinct RIDs",
+    workShare?.document_rid === "orn:obsidian.note:work/People/Ada" &&
+      personalShare?.document_rid === "orn:obsidian.note:personal/People/Ada" &&
+      workShare?.contents?.dependency_graph?.nodes?.[0]?.rid === workShare?.document_rid,
+    `${workShare?.document_rid} / ${personalShare?.document_rid}`);
+
+  const byName = new Map(KOI_API_TOOL_DEFINITIONS.map((t: any) => [t.name, t]));
+  check("vault tools and share_document take a vault argument",
+    ["vault_read_note", "vault_audit", "share_document"].every((n) => byName.get(n)?.inputSchema.properties?.vault) &&
+      !byName.get("koi_search")?.inputSchema.properties?.vault);
+
+  delete process.env.VAULT_PATH;
+  check("without VAULT_PATH the first VAULTS entry is the default",
+    vault.getVaultName() === "work" && vault.getVaultPath() === work);
+
+  server.close();
+  fs.rmSync(root, { recursive: true, force: true });
+
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,129 @@
+#!/usr/bin/env tsx
+/**
+ * vault_patch_note tests — section, block and frontmatter edits.
+ *
+ * Patches a note in a throwaway vault through handleKoiApiTool and checks
+ * that each operation changes only its target, that frontmatter survives body
+ * edits (including `@type` keys), that missing headings and blocks are errors
+ * unless create_heading is set, and that no-op patches do not write.
+ *
+ * Run:  npx tsx src/vault-patch.test.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+async function main() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "vault-patch-"));
+  const vaultPath = path.join(root, "vault");
+  fs.mkdirSync(path.join(vaultPath, "Projects"), { recursive: true });
+  process.env.VAULT_PATH = vaultPath;
+  process.env.VAULT_INDEX_DIR = path.join(root, "index");
+  process.env.VAULT_JOURNAL_DIR = path.join(root, "journal");
+
+  const notePath = path.join(vaultPath, "Projects/Herring.md");
+  const original = [
+    "---",
+    "\"@type\": Project",
+    "status: active",
+    "---",
+    "# Herring",
+    "",
+    "```",
+    "## Actions",
+    "```",
+    "",
+    "## Actions",
+    "- call Ada",
+    "",
+    "## Decisions",
+    "Use nets. ^decision-1",
+    "",
+    "### Notes",
+    "old note",
+    "",
+  ].join("\n");
+  fs.writeFileSync(notePath, original);
+
+  const { handleKoiApiTool } = await import("./koi-api-tools.js");
+  const text = (r: any) => r.content.map((c: any) => c.text).join("\n");
+  const patch = (extra: Record<string, unknown>) =>
+    handleKoiApiTool("vault_patch_note", { path: "Projects/Herring", ...extra });
+  const read = () => fs.readFileSync(notePath, "utf-8");
+
+  console.log("vault_patch_note tests:");
+  console.log("");
+
+  let r = await patch({ operation: "append_under_heading", heading: "Actions", content: "- email Bob" });
+  check("append_under_heading adds at the end of the section",
+    read().includes("## Actions\n- call Ada\n- email Bob\n\n## Decisions"), text(r));
+  check("frontmatter survives a body edit", read().startsWith("---\n\"@type\": Project\nstatus: active\n---\n"));
+  check("headings inside code fences are ignored", read().includes("```\n## Actions\n```\n\n## Actions\n- call Ada\n- email"));
+
+  r = await patch({ operation: "replace_section", heading: "## Decisions", content: "Use traps instead." });
+  check("replace_section replaces through nested subsections",
+    read().endsWith("## Decisions\nUse traps instead.\n") && !read().includes("old note"), read());
+
+  fs.writeFileSync(notePath, original);
+  r = await patch({ operation: "replace_section", heading: "Decisions > Notes", content: "new note" });
+  check("nested heading ref targets the subsection",
+    read().endsWith("### Notes\nnew note\n") && read().includes("^decision-1"), read());
+
+  r = await patch({ operation: "insert_after_block", block_id: "^decision-1", content: "Reason: cheaper." });
+  check("insert_after_block inserts after the anchored line",
+    read().includes("Use nets. ^decision-1\nReason: cheaper.\n"), text(r));
+
+  r = await patch({ operation: "set_frontmatter", key: "owner", value: "[[Ada]]" });
+  check("set_frontmatter adds one key and keeps the rest",
+    /@type"?: Project\nstatus: active\nowner: "\[\[Ada\]\]"\n---\n# Herring/.test(read()), read().slice(0, 80));
+
+  r = await patch({ operation: "unset_frontmatter", key: "status" });
+  check("unset_frontmatter removes only that key",
+    !read().includes("status:") && read().includes("owner:") && read().includes("# Herring"));
+
+  const before = read();
+  r = await patch({ operation: "unset_frontmatter", key: "missing" });
+  check("no-op patch does not write", /^No change/.test(text(r)) && read() === before);
+
+  r = await patch({ operation: "append_under_heading", heading: "Risks", content: "- weather" });
+  check("missing heading is an error", r.isError === true && /Heading not found/.test(text(r)));
+  r = await patch({ operation: "append_under_heading", heading: "Risks", content: "- weather", create_heading: true });
+  check("create_heading appends the heading", read().endsWith("new note\n\n## Risks\n- weather\n"), read().slice(-40));
+
+  r = await patch({ operation: "insert_after_block", block_id: "nope", content: "x" });
+  check("missing block is an error", r.isError === true && /Block not found/.test(text(r)));
+
+  r = await patch({ operation: "append", content: "Trailer" });
+  check("append adds at the end", read().endsWith("- weather\nTrailer\n"));
+
+  r = await patch({ operation: "append", content: "x", expected_hash: "stale" });
+  check("stale expected_hash is a conflict", r.isError === true && /changed since/.test(text(r)));
+
+  r = await handleKoiApiTool("vault_patch_note", { path: "../outside", operation: "append", content: "x" });
+  check("rejects paths outside the vault", r.isError === true);
+
+  fs.rmSync(root, { recursive: true, force: true });
+
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,186 @@
+/**
+ * Section-Level Note Patching
+ *
+ * Applies one targeted edit to a note instead of a whole-file rewrite:
+ * append under a heading, replace a heading's section, insert after a
+ * `^block-id`, append to the end, or set/unset a single frontmatter key.
+ * Body edits never touch the frontmatter block, and frontmatter edits go
+ * through findFrontmatterBlock/applyFrontmatterBlock, so the rest of the
+ * note (and its other frontmatter keys) is always carried over.
+ */
+
+import YAML from 'yaml';
+import { applyFrontmatterBlock, findFrontmatterBlock } from './frontmatter.js';
+import { findBlockLine, findSection } from './vault-sections.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PatchOperation =
+  | 'append_under_heading'
+  | 'replace_section'
+  | 'insert_after_block'
+  | 'append'
+  | 'set_frontmatter'
+  | 'unset_frontmatter';
+
+export const PATCH_OPERATIONS: PatchOperation[] = [
+  'append_under_heading',
+  'replace_section',
+  'insert_after_block',
+  'append',
+  'set_frontmatter',
+  'unset_frontmatter',
+];
+
+export interface NotePatch {
+  operation: PatchOperation;
+
+  /** Heading for section operations: `Actions`, `## Actions` or `Project > Actions` */
+  heading?: string;
+
+  /** Block id for insert_after_block, with or without the leading `^` */
+  blockId?: string;
+
+  /** Frontmatter key for set/unset_frontmatter */
+  key?: string;
+
+  /** Frontmatter value for set_frontmatter (any JSON value) */
+  value?: unknown;
+
+  /** Markdown to insert */
+  content?: string;
+
+  /** append_under_heading: add the heading at the end of the note if missing */
+  createHeading?: boolean;
+}
+
+export class NotePatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotePatchError';
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function requireField<T>(value: T | undefined, name: string, operation: string): T {
+  if (value === undefined || value === null || value === '') {
+    throw new NotePatchError(`${operation} requires \`${name}\``);
+  }
+  return value;
+}
+
+/** Lines of the inserted content, without a trailing empty line. */
+function contentLines(content: string): string[] {
+  return content.replace(/\r?\n$/, '').split('\n');
+}
+
+/** Index after the last non-blank line in [start, end). */
+function trimBlankTail(lines: string[], start: number, end: number): number {
+  let i = end;
+  while (i > start && lines[i - 1].trim() === '') i--;
+  return i;
+}
+
+function splitNote(text: string): { frontmatter: string; body: string } {
+  const block = findFrontmatterBlock(text);
+  if (!block) return { frontmatter: '', body: text };
+  return {
+    frontmatter: text.slice(0, block.index + block.length),
+    body: text.slice(block.index + block.length),
+  };
+}
+
+// =============================================================================
+// Operations
+// =============================================================================
+
+function patchBody(body: string, patch: NotePatch): string {
+  const lines = body.split('\n');
+  const op = patch.operation;
+
+  switch (op) {
+    case 'append': {
+      const insert = contentLines(requireField(patch.content, 'content', op));
+      const tail = trimBlankTail(lines, 0, lines.length);
+      return [...lines.slice(0, tail), ...insert, ''].join('\n');
+    }
+
+    case 'append_under_heading': {
+      const heading = requireField(patch.heading, 'heading', op);
+      const insert = contentLines(requireField(patch.content, 'content', op));
+      const section = findSection(lines, heading);
+      if (!section) {
+        if (!patch.createHeading) {
+          throw new NotePatchError(`Heading not found: ${heading} (pass create_heading to add it)`);
+        }
+        const last = heading.split(/\s*>\s*/).pop()!.trim();
+        const headingLine = /^#{1,6}\s/.test(last) ? last : `## ${last}`;
+        const tail = trimBlankTail(lines, 0, lines.length);
+        const gap = tail > 0 ? [''] : [];
+        return [...lines.slice(0, tail), ...gap, headingLine, ...insert, ''].join('\n');
+      }
+      const at = trimBlankTail(lines, section.start, section.end);
+      return [...lines.slice(0, at), ...insert, ...lines.slice(at)].join('\n');
+    }
+
+    case 'replace_section': {
+      const heading = requireField(patch.heading, 'heading', op);
+      const insert = patch.content === undefined ? [] : contentLines(patch.content);
+      const section = findSection(lines, heading);
+      if (!section) throw new NotePatchError(`Heading not found: ${heading}`);
+      // Keep a blank line before the next heading (or the final newline at EOF)
+      const gap = insert.length > 0 ? [''] : [];
+      return [...lines.slice(0, section.start), ...insert, ...gap, ...lines.slice(section.end)].join('\n');
+    }
+
+    case 'insert_after_block': {
+      const blockId = requireField(patch.blockId, 'block_id', op);
+      const insert = contentLines(requireField(patch.content, 'content', op));
+      const line = findBlockLine(lines, blockId);
+      if (line < 0) throw new NotePatchError(`Block not found: ^${blockId.replace(/^\^/, '')}`);
+      return [...lines.slice(0, line + 1), ...insert, ...lines.slice(line + 1)].join('\n');
+    }
+
+    default:
+      throw new NotePatchError(`Unknown operation: ${op}`);
+  }
+}
+
+function patchFrontmatter(text: string, patch: NotePatch): string {
+  const key = requireField(patch.key, 'key', patch.operation);
+  const block = findFrontmatterBlock(text);
+  const data: Record<string, unknown> = { ...(block?.data ?? {}) };
+
+  if (patch.operation === 'set_frontmatter') {
+    if (patch.value === undefined) throw new NotePatchError('set_frontmatter requires `value`');
+    data[key] = patch.value;
+  } else {
+    if (!(key in data)) return text;
+    delete data[key];
+  }
+
+  // lineWidth: 0 so long [[wikilink]] values are never folded across lines
+  const yaml = Object.keys(data).length > 0 ? YAML.stringify(data, { lineWidth: 0 }) : '';
+  return applyFrontmatterBlock(text, `---\n${yaml}---\n`, { separator: '' }).text;
+}
+
+/**
+ * Apply one patch to a note's full text. Returns the text unchanged when the
+ * patch is a no-op (e.g. unsetting a missing key); throws NotePatchError when
+ * its target (heading, block) is missing or a required field is absent.
+ */
+export function applyNotePatch(text: string, patch: NotePatch): string {
+  if (!PATCH_OPERATIONS.includes(patch.operation)) {
+    throw new NotePatchError(`Unknown operation: ${patch.operation} (expected one of ${PATCH_OPERATIONS.join(', ')})`);
+  }
+  if (patch.operation === 'set_frontmatter' || patch.operation === 'unset_frontmatter') {
+    return patchFrontmatter(text, patch);
+  }
+  const { frontmatter, body } = splitNote(text);
+  return frontmatter + patchBody(body, patch);
+}
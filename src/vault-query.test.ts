@@ -0,0 +1,117 @@
+#!/usr/bin/env tsx
+/**
+ * Vault query language tests — parsing, WHERE, SORT, GROUP BY, LIMIT, columns.
+ *
+ * Runs queries against a throwaway vault indexed into a temp VAULT_INDEX_DIR:
+ * nested keys, date math against file.mtime and frontmatter dates, contains
+ * on lists, wikilink-insensitive equality, folder/tag sources, grouping, and
+ * the errors a malformed query produces.
+ *
+ * Run:  npx tsx src/vault-query.test.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+function write(vaultPath: string, rel: string, content: string, ageDays = 0): void {
+  const full = path.join(vaultPath, rel);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  fs.writeFileSync(full, content);
+  const t = new Date(Date.now() - ageDays * 86_400_000);
+  fs.utimesSync(full, t, t);
+}
+
+async function main() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "vault-query-"));
+  const vaultPath = path.join(root, "vault");
+  process.env.VAULT_PATH = vaultPath;
+  process.env.VAULT_INDEX_DIR = path.join(root, "index");
+
+  write(vaultPath, "Projects/Herring.md",
+    "---\nstatus: active\nowner: \"[[People/Ada]]\"\ndue: 2026-03-01\nkoi:\n  rid: orn:x/herring\ntags: [fish, grant]\n---\n", 3);
+  write(vaultPath, "Projects/Kelp.md", "---\nstatus: Active\nowner: Bob\ndue: 2026-01-15\ntags: [grant]\n---\n", 10);
+  write(vaultPath, "Projects/Salmon.md", "---\nstatus: active\nowner: Ada\n---\n", 90);
+  write(vaultPath, "Projects/Old.md", "---\nstatus: done\nowner: Bob\n---\n", 1);
+  write(vaultPath, "Meetings/Standup.md", "---\nattendees: [\"[[People/Ada]]\", Bob]\n---\n#standup\n", 1);
+
+  const { runVaultQuery, formatVaultQueryResult } = await import("./vault-query.js");
+  const paths = (r: any) => r.rows.map((row: any[]) => row[0]).join();
+
+  console.log("Vault query language tests:");
+  console.log("");
+
+  let r = await runVaultQuery('TABLE status, owner FROM "Projects" WHERE status = "active" AND file.mtime >= date(today) - dur(30 days) SORT file.mtime DESC GROUP BY owner');
+  check("active projects updated in the last 30 days grouped by owner",
+    r.groups?.map((g: any) => `${g.key}:${g.rows.map((row: any[]) => row[0]).join("+")}`).join() ===
+      "[[People/Ada]]:Projects/Herring.md,Bob:Projects/Kelp.md",
+    JSON.stringify(r.groups));
+  check("grouped columns lead with the group expression", r.columns.join() === "owner,file,status,owner");
+
+  r = await runVaultQuery('FROM "Projects" WHERE owner = "Ada" SORT file.name');
+  check("equality ignores wikilink brackets and folders", paths(r) === "Projects/Herring.md,Projects/Salmon.md", paths(r));
+
+  r = await runVaultQuery('TABLE koi.rid AS rid WHERE koi.rid != null');
+  check("nested keys and AS aliases", r.columns.join() === "file,rid" && r.rows[0]?.[1] === "orn:x/herring", JSON.stringify(r));
+
+  r = await runVaultQuery('WHERE tags contains "grant" AND due < date("2026-02-01")');
+  check("contains on lists and frontmatter date comparison", paths(r) === "Projects/Kelp.md", paths(r));
+
+  r = await runVaultQuery('WHERE tags contains "grant" AND due < date(2026-02-01)');
+  check("unquoted ISO dates in date() are dates, not arithmetic", paths(r) === "Projects/Kelp.md", paths(r));
+  const dateError = await runVaultQuery('WHERE due < date(2026-2-1)').then(() => "", (e: Error) => e.message);
+  check("a non-ISO number in date() is an error, not an empty result", /ISO date/.test(dateError), dateError);
+
+  r = await runVaultQuery('WHERE contains(attendees, "Ada")');
+  check("contains() function form", paths(r) === "Meetings/Standup.md");
+
+  r = await runVaultQuery('FROM #standup OR "Projects" WHERE NOT (status = "active" OR status = "done") SORT file.path');
+  check("tag sources, NOT and parentheses", paths(r) === "Meetings/Standup.md", paths(r));
+
+  r = await runVaultQuery('TABLE due FROM "Projects" SORT due DESC LIMIT 2');
+  check("SORT DESC puts missing values last and LIMIT caps rows",
+    paths(r) === "Projects/Herring.md,Projects/Kelp.md" && r.total === 4, `${paths(r)} ${r.total}`);
+  check("dates render as plain dates", r.rows[0][1] === "2026-03-01", String(r.rows[0][1]));
+
+  r = await runVaultQuery('TABLE due + dur(1 week) AS next WHERE file.name = "Kelp"');
+  check("date plus duration", r.rows[0]?.[1] === "2026-01-22", JSON.stringify(r.rows));
+
+  const md = formatVaultQueryResult(await runVaultQuery('TABLE status FROM "Projects" WHERE owner = "Bob" SORT file.name'));
+  check("markdown table output",
+    md.includes("| file | status |\n|---|---|\n| Projects/Kelp.md | Active |\n| Projects/Old.md | done |"), md);
+
+  const errors: string[] = [];
+  for (const bad of ["WHERE status = ", "SORT", "LIMIT ten", "WHERE dur(3 fortnights) > 0", "WHERE foo(1)", "TABLE a TABLE b"]) {
+    try {
+      await runVaultQuery(bad);
+      errors.push(`${bad}: no error`);
+    } catch (e: any) {
+      if (e.name !== "VaultQueryError") errors.push(`${bad}: ${e.name}`);
+    }
+  }
+  check("malformed queries raise VaultQueryError", errors.length === 0, errors.join("; "));
+
+  fs.rmSync(root, { recursive: true, force: true });
+
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
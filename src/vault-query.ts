@@ -0,0 +1,736 @@
+/**
+ * Vault Frontmatter Query Language
+ *
+ * A small Dataview-style language over the vault index, so questions like
+ * "active projects updated in the last 30 days, grouped by owner" need no
+ * custom code:
+ *
+ *   TABLE status, owner, file.mtime AS updated
+ *   FROM "Projects"
+ *   WHERE status = "active" AND file.mtime >= date(today) - dur(30 days)
+ *   SORT file.mtime DESC
+ *   GROUP BY owner
+ *   LIMIT 20
+ *
+ * - Fields are frontmatter keys; dotted paths reach nested keys (`koi.rid`).
+ *   `file.name`, `file.path`, `file.folder`, `file.link`, `file.mtime`,
+ *   `file.size`, `file.tags` and `file.type` describe the note itself.
+ * - FROM takes folders ("Projects") and tags (#meeting), joined with OR.
+ * - WHERE supports = != < <= > >=, AND / OR / NOT, parentheses, + and - on
+ *   numbers, dates and durations, `x contains y` / contains(x, y) on lists
+ *   and strings, and date(), dur(), length(), lower(). date() takes a
+ *   quoted or bare ISO date (`date(2025-06-01)`) or today / now / yesterday /
+ *   tomorrow.
+ * - String comparisons ignore case and wikilink brackets, so
+ *   `owner = "Ada"` matches `owner: "[[People/Ada]]"`.
+ * - Clauses may come in any order; they run as FROM, WHERE, SORT, LIMIT,
+ *   GROUP BY.
+ */
+
+import * as path from 'path';
+import { getVaultIndex, VaultIndexEntry } from './vault-index.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export class VaultQueryError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position === undefined ? message : `${message} (at position ${position})`);
+    this.name = 'VaultQueryError';
+  }
+}
+
+type Expr =
+  | { kind: 'literal'; value: QueryValue }
+  | { kind: 'field'; path: string }
+  | { kind: 'call'; name: string; args: Expr[] }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr }
+  | { kind: 'not'; expr: Expr };
+
+interface Duration {
+  ms: number;
+}
+
+type QueryValue = string | number | boolean | null | Date | Duration | QueryValue[] | { [key: string]: unknown };
+
+interface ParsedQuery {
+  columns: Array<{ expr: Expr; name: string }>;
+  from: Array<{ folder?: string; tag?: string }>;
+  where?: Expr;
+  sort: Array<{ expr: Expr; desc: boolean }>;
+  groupBy?: { expr: Expr; name: string };
+  limit?: number;
+}
+
+export interface VaultQueryResult {
+  /** Column headers; the first is always the note path */
+  columns: string[];
+
+  /** Rows of JSON-friendly values (dates as ISO strings) */
+  rows: unknown[][];
+
+  /** Present for GROUP BY queries: rows split by group key */
+  groups?: Array<{ key: unknown; rows: unknown[][] }>;
+
+  /** Matching notes before LIMIT */
+  total: number;
+}
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+interface Token {
+  type: 'ident' | 'string' | 'number' | 'tag' | 'op' | 'eof';
+  value: string;
+  pos: number;
+}
+
+const TOKEN_RE = new RegExp([
+  '(?<ws>\\s+)',
+  '"(?<dq>(?:[^"\\\\]|\\\\.)*)"',
+  "'(?<sq>(?:[^'\\\\]|\\\\.)*)'",
+  '(?<num>\\d+(?:\\.\\d+)?)',
+  '(?<tag>#[\\p{L}\\p{N}_\\-/]+)',
+  '(?<op><=|>=|!=|=|<|>|\\+|-|\\(|\\)|,)',
+  '(?<ident>[@\\p{L}_][\\p{L}\\p{N}_@.]*(?:-[\\p{L}\\p{N}_@.]+)*)',
+].join('|'), 'uy');
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  while (pos < source.length) {
+    TOKEN_RE.lastIndex = pos;
+    const m = TOKEN_RE.exec(source);
+    if (!m || !m.groups) throw new VaultQueryError(`Unexpected character "${source[pos]}"`, pos);
+    const g = m.groups;
+    if (g.dq !== undefined || g.sq !== undefined) {
+      tokens.push({ type: 'string', value: (g.dq ?? g.sq).replace(/\\(.)/g, '$1'), pos });
+    } else if (g.num !== undefined) {
+      tokens.push({ type: 'number', value: g.num, pos });
+    } else if (g.tag !== undefined) {
+      tokens.push({ type: 'tag', value: g.tag.slice(1), pos });
+    } else if (g.op !== undefined) {
+      tokens.push({ type: 'op', value: g.op, pos });
+    } else if (g.ident !== undefined) {
+      tokens.push({ type: 'ident', value: g.ident, pos });
+    }
+    pos += m[0].length;
+  }
+  tokens.push({ type: 'eof', value: '', pos });
+  return tokens;
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+const CLAUSES = new Set(['table', 'from', 'where', 'sort', 'group', 'limit']);
+const DATE_KEYWORDS = new Set(['today', 'now', 'yesterday', 'tomorrow']);
+const BARE_ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}(?![\d-])/;
+
+class Parser {
+  private i = 0;
+
+  constructor(private tokens: Token[], private source: string) {}
+
+  private peek(): Token {
+    return this.tokens[this.i];
+  }
+
+  private next(): Token {
+    return this.tokens[this.i++];
+  }
+
+  private isKeyword(word: string): boolean {
+    const t = this.peek();
+    return t.type === 'ident' && t.value.toLowerCase() === word;
+  }
+
+  private isOp(op: string): boolean {
+    const t = this.peek();
+    return t.type === 'op' && t.value === op;
+  }
+
+  private expectOp(op: string): void {
+    if (!this.isOp(op)) this.fail(`Expected "${op}"`);
+    this.i++;
+  }
+
+  private expectKeyword(word: string): void {
+    if (!this.isKeyword(word)) this.fail(`Expected ${word.toUpperCase()}`);
+    this.i++;
+  }
+
+  private fail(message: string): never {
+    const t = this.peek();
+    throw new VaultQueryError(`${message}, found ${t.type === 'eof' ? 'end of query' : `"${t.value}"`}`, t.pos);
+  }
+
+  private atClause(): boolean {
+    const t = this.peek();
+    return t.type === 'eof' || (t.type === 'ident' && CLAUSES.has(t.value.toLowerCase()));
+  }
+
+  parseQuery(): ParsedQuery {
+    const query: ParsedQuery = { columns: [], from: [], sort: [] };
+    const seen = new Set<string>();
+
+    while (this.peek().type !== 'eof') {
+      const t = this.peek();
+      const clause = t.type === 'ident' ? t.value.toLowerCase() : '';
+      if (!CLAUSES.has(clause)) this.fail('Expected TABLE, FROM, WHERE, SORT, GROUP BY or LIMIT');
+      if (seen.has(clause)) this.fail(`Duplicate ${clause.toUpperCase()} clause`);
+      seen.add(clause);
+      this.next();
+
+      switch (clause) {
+        case 'table':
+          if (!this.atClause()) query.columns = this.parseColumns();
+          break;
+        case 'from':
+          query.from = this.parseSources();
+          break;
+        case 'where':
+          query.where = this.parseExpr();
+          break;
+        case 'sort':
+          do {
+            const expr = this.parseExpr();
+            let desc = false;
+            if (this.isKeyword('desc')) {
+              desc = true;
+              this.next();
+            } else if (this.isKeyword('asc')) {
+              this.next();
+            }
+            query.sort.push({ expr, desc });
+          } while (this.isOp(',') && this.next());
+          break;
+        case 'group': {
+          this.expectKeyword('by');
+          const start = this.peek().pos;
+          const expr = this.parseExpr();
+          query.groupBy = { expr, name: this.source.slice(start, this.peek().pos).trim() };
+          break;
+        }
+        case 'limit': {
+          const n = this.next();
+          if (n.type !== 'number' || !Number.isInteger(Number(n.value))) {
+            this.i--;
+            this.fail('LIMIT expects a whole number');
+          }
+          query.limit = Number(n.value);
+          break;
+        }
+      }
+    }
+    return query;
+  }
+
+  private parseColumns(): ParsedQuery['columns'] {
+    const columns: ParsedQuery['columns'] = [];
+    do {
+      const start = this.peek().pos;
+      const expr = this.parseExpr();
+      let name = this.source.slice(start, this.peek().pos).trim();
+      if (this.isKeyword('as')) {
+        this.next();
+        const alias = this.next();
+        if (alias.type !== 'ident' && alias.type !== 'string') {
+          this.i--;
+          this.fail('Expected a column name after AS');
+        }
+        name = alias.value;
+      }
+      columns.push({ expr, name });
+    } while (this.isOp(',') && this.next());
+    return columns;
+  }
+
+  private parseSources(): ParsedQuery['from'] {
+    const sources: ParsedQuery['from'] = [];
+    do {
+      const t = this.next();
+      if (t.type === 'string') {
+        sources.push({ folder: t.value.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '') });
+      } else if (t.type === 'tag') {
+        sources.push({ tag: t.value.toLowerCase() });
+      } else {
+        this.i--;
+        this.fail('FROM expects a "Folder" or #tag');
+      }
+    } while (this.isKeyword('or') && this.next());
+    return sources;
+  }
+
+  parseExpr(): Expr {
+    return this.parseOr();
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.isKeyword('or')) {
+      this.next();
+      left = { kind: 'binary', op: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseNot();
+    while (this.isKeyword('and')) {
+      this.next();
+      left = { kind: 'binary', op: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expr {
+    if (this.isKeyword('not')) {
+      this.next();
+      return { kind: 'not', expr: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expr {
+    const left = this.parseAdditive();
+    const t = this.peek();
+    if (t.type === 'op' && ['=', '!=', '<', '<=', '>', '>='].includes(t.value)) {
+      this.next();
+      return { kind: 'binary', op: t.value, left, right: this.parseAdditive() };
+    }
+    if (this.isKeyword('contains')) {
+      this.next();
+      return { kind: 'call', name: 'contains', args: [left, this.parseAdditive()] };
+    }
+    return left;
+  }
+
+  private parseAdditive(): Expr {
+    let left = this.parsePrimary();
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = this.next().value;
+      left = { kind: 'binary', op, left, right: this.parsePrimary() };
+    }
+    return left;
+  }
+
+  private parsePrimary(): Expr {
+    const t = this.next();
+    switch (t.type) {
+      case 'string':
+        return { kind: 'literal', value: t.value };
+      case 'number':
+        return { kind: 'literal', value: Number(t.value) };
+      case 'op':
+        if (t.value === '(') {
+          const expr = this.parseExpr();
+          this.expectOp(')');
+          return expr;
+        }
+        if (t.value === '-') {
+          return { kind: 'binary', op: '-', left: { kind: 'literal', value: 0 }, right: this.parsePrimary() };
+        }
+        break;
+      case 'ident': {
+        const word = t.value.toLowerCase();
+        if (word === 'true' || word === 'false') return { kind: 'literal', value: word === 'true' };
+        if (word === 'null') return { kind: 'literal', value: null };
+        if (this.isOp('(')) return this.parseCall(word);
+        if (DATE_KEYWORDS.has(word)) return { kind: 'call', name: 'date', args: [{ kind: 'literal', value: word }] };
+        return { kind: 'field', path: t.value };
+      }
+    }
+    this.i--;
+    this.fail('Expected a value, field or function');
+  }
+
+  private parseCall(name: string): Expr {
+    this.expectOp('(');
+    const args: Expr[] = [];
+
+    // dur(30 days), date(today) and date(2025-06-01) take bare words; an
+    // unquoted ISO date would otherwise parse as the subtraction 2025 - 6 - 1
+    const bareDate = name === 'date' && (
+      (this.peek().type === 'ident' && DATE_KEYWORDS.has(this.peek().value.toLowerCase())) ||
+      (this.peek().type === 'number' && BARE_ISO_DATE_RE.test(this.source.slice(this.peek().pos)))
+    );
+    if (bareDate || (name === 'dur' && !this.isOp(')') && this.peek().type !== 'string')) {
+      const start = this.peek().pos;
+      let depth = 0;
+      while (this.peek().type !== 'eof' && !(depth === 0 && this.isOp(')'))) {
+        if (this.isOp('(')) depth++;
+        if (this.isOp(')')) depth--;
+        this.next();
+      }
+      args.push({ kind: 'literal', value: this.source.slice(start, this.peek().pos).trim() });
+    } else if (!this.isOp(')')) {
+      do {
+        args.push(this.parseExpr());
+      } while (this.isOp(',') && this.next());
+    }
+    this.expectOp(')');
+    return { kind: 'call', name, args };
+  }
+}
+
+export function parseVaultQuery(source: string): ParsedQuery {
+  if (!source.trim()) throw new VaultQueryError('Empty query');
+  return new Parser(tokenize(source), source).parseQuery();
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+const DURATION_UNITS: Array<[RegExp, number]> = [
+  [/^(ms|milliseconds?)$/, 1],
+  [/^(s|secs?|seconds?)$/, 1000],
+  [/^(m|mins?|minutes?)$/, 60_000],
+  [/^(h|hrs?|hours?)$/, 3_600_000],
+  [/^(d|days?)$/, 86_400_000],
+  [/^(w|wks?|weeks?)$/, 7 * 86_400_000],
+  [/^(mo|months?)$/, 30 * 86_400_000],
+  [/^(y|yrs?|years?)$/, 365 * 86_400_000],
+];
+
+function parseDuration(text: string): Duration {
+  let ms = 0;
+  let matched = false;
+  for (const m of text.toLowerCase().matchAll(/(\d+(?:\.\d+)?)\s*([a-z]+)/g)) {
+    const unit = DURATION_UNITS.find(([re]) => re.test(m[2]));
+    if (!unit) throw new VaultQueryError(`Unknown duration unit "${m[2]}"`);
+    ms += Number(m[1]) * unit[1];
+    matched = true;
+  }
+  if (!matched) throw new VaultQueryError(`Invalid duration "${text}"`);
+  return { ms };
+}
+
+function startOfDay(offsetDays: number): Date {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() + offsetDays);
+  return d;
+}
+
+function toDate(value: QueryValue): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string') {
+    const word = value.trim().toLowerCase();
+    if (word === 'today') return startOfDay(0);
+    if (word === 'yesterday') return startOfDay(-1);
+    if (word === 'tomorrow') return startOfDay(1);
+    if (word === 'now') return new Date();
+    if (!/^\d{4}-\d{2}(-\d{2})?/.test(word)) return null;
+    // Date-only values are local midnight, like today()
+    const d = /^\d{4}-\d{2}-\d{2}$/.test(word) ? new Date(`${word}T00:00:00`) : new Date(value);
+    return Number.isNaN(d.getTime()) ? null : d;
+  }
+  return null;
+}
+
+function isDuration(value: QueryValue): value is Duration {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date) &&
+    Object.keys(value).length === 1 && typeof (value as Duration).ms === 'number';
+}
+
+/** Comparable form of a string: lower-case, wikilink brackets and folders stripped. */
+function normalizeText(value: string): string {
+  return value
+    .replace(/\[\[(?:[^\]|]*\/)?([^\]|#]+)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+function truthy(value: QueryValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== null && value !== false && value !== '' && value !== 0;
+}
+
+function equals(a: QueryValue, b: QueryValue): boolean {
+  if (a === null || b === null) return a === b;
+  const da = toDate(a);
+  const db = toDate(b);
+  if ((a instanceof Date || b instanceof Date) && da && db) return da.getTime() === db.getTime();
+  if (isDuration(a) && isDuration(b)) return a.ms === b.ms;
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b);
+  if (typeof a === 'boolean' || typeof b === 'boolean') return String(a).toLowerCase() === String(b).toLowerCase();
+  if (typeof a === 'string' && typeof b === 'string') return normalizeText(a) === normalizeText(b);
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Ordering for comparisons and SORT; null when the values are not comparable. */
+function compare(a: QueryValue, b: QueryValue): number | null {
+  if (a === null || b === null) return null;
+  if (a instanceof Date || b instanceof Date) {
+    const da = toDate(a);
+    const db = toDate(b);
+    return da && db ? da.getTime() - db.getTime() : null;
+  }
+  if (isDuration(a) && isDuration(b)) return a.ms - b.ms;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'number' || typeof b === 'number') {
+    const na = Number(a);
+    const nb = Number(b);
+    return Number.isNaN(na) || Number.isNaN(nb) ? null : na - nb;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    const da = toDate(a);
+    const db = toDate(b);
+    if (da && db) return da.getTime() - db.getTime();
+    return normalizeText(a).localeCompare(normalizeText(b));
+  }
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return null;
+}
+
+function contains(haystack: QueryValue, needle: QueryValue): boolean {
+  if (Array.isArray(haystack)) return haystack.some(item => equals(item as QueryValue, needle));
+  if (typeof haystack === 'string' && needle !== null) {
+    return normalizeText(haystack).includes(normalizeText(String(needle)));
+  }
+  if (haystack && typeof haystack === 'object' && !(haystack instanceof Date) && typeof needle === 'string') {
+    return Object.prototype.hasOwnProperty.call(haystack, needle);
+  }
+  return false;
+}
+
+function arithmetic(op: string, a: QueryValue, b: QueryValue): QueryValue {
+  if (a === null || b === null) return null;
+  const da = toDate(a);
+  if (da && isDuration(b)) return new Date(da.getTime() + (op === '+' ? b.ms : -b.ms));
+  if (isDuration(a) && isDuration(b)) return { ms: op === '+' ? a.ms + b.ms : a.ms - b.ms };
+  const db = toDate(b);
+  if (op === '-' && da && db && (a instanceof Date || b instanceof Date)) return { ms: da.getTime() - db.getTime() };
+  if (typeof a === 'number' && typeof b === 'number') return op === '+' ? a + b : a - b;
+  if (op === '+' && typeof a === 'string' && typeof b === 'string') return a + b;
+  throw new VaultQueryError(`Cannot apply "${op}" to ${describe(a)} and ${describe(b)}`);
+}
+
+function describe(value: QueryValue): string {
+  if (value instanceof Date) return 'a date';
+  if (isDuration(value)) return 'a duration';
+  if (Array.isArray(value)) return 'a list';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
+
+/** JSON-friendly form of a value for output. */
+function present(value: QueryValue): unknown {
+  if (value instanceof Date) {
+    const local = value.getHours() === 0 && value.getMinutes() === 0 && value.getSeconds() === 0;
+    if (!local) return value.toISOString();
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  if (isDuration(value)) {
+    const days = value.ms / 86_400_000;
+    return Number.isInteger(days) ? `${days} days` : `${Math.round(value.ms / 60_000)} minutes`;
+  }
+  if (Array.isArray(value)) return value.map(v => present(v as QueryValue));
+  return value;
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+function lookup(source: unknown, dotted: string): QueryValue {
+  if (!source || typeof source !== 'object') return null;
+  const record = source as Record<string, unknown>;
+  if (dotted in record) return record[dotted] as QueryValue;
+
+  let current: unknown = record;
+  for (const part of dotted.split('.')) {
+    if (!current || typeof current !== 'object' || Array.isArray(current)) return null;
+    const obj = current as Record<string, unknown>;
+    const key = part in obj ? part : Object.keys(obj).find(k => k.toLowerCase() === part.toLowerCase());
+    if (key === undefined) return null;
+    current = obj[key];
+  }
+  return (current ?? null) as QueryValue;
+}
+
+function fileField(entry: VaultIndexEntry, field: string): QueryValue | undefined {
+  const notePath = entry.path.replace(/\\/g, '/');
+  switch (field.toLowerCase()) {
+    case 'file.name': return entry.basename;
+    case 'file.path': return notePath;
+    case 'file.folder': return path.posix.dirname(notePath) === '.' ? '' : path.posix.dirname(notePath);
+    case 'file.link': return `[[${notePath.replace(/\.md$/, '')}]]`;
+    case 'file.mtime': return new Date(entry.mtimeMs);
+    case 'file.size': return entry.size;
+    case 'file.tags': return entry.tags;
+    case 'file.type': return entry.entityType;
+    default: return undefined;
+  }
+}
+
+function evaluate(expr: Expr, entry: VaultIndexEntry): QueryValue {
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+    case 'field': {
+      const file = fileField(entry, expr.path);
+      return file !== undefined ? file : lookup(entry.frontmatter, expr.path);
+    }
+    case 'not':
+      return !truthy(evaluate(expr.expr, entry));
+    case 'binary': {
+      if (expr.op === 'and') return truthy(evaluate(expr.left, entry)) && truthy(evaluate(expr.right, entry));
+      if (expr.op === 'or') return truthy(evaluate(expr.left, entry)) || truthy(evaluate(expr.right, entry));
+      const left = evaluate(expr.left, entry);
+      const right = evaluate(expr.right, entry);
+      switch (expr.op) {
+        case '=': return equals(left, right);
+        case '!=': return !equals(left, right);
+        case '+':
+        case '-': return arithmetic(expr.op, left, right);
+        default: {
+          const c = compare(left, right);
+          if (c === null) return false;
+          return expr.op === '<' ? c < 0 : expr.op === '<=' ? c <= 0 : expr.op === '>' ? c > 0 : c >= 0;
+        }
+      }
+    }
+    case 'call': {
+      const args = expr.args.map(a => evaluate(a, entry));
+      switch (expr.name) {
+        case 'date': {
+          // date(2025-6-1) reads as arithmetic; don't let it silently match nothing
+          if (typeof args[0] === 'number' && expr.args[0]?.kind !== 'field') {
+            throw new VaultQueryError('date() needs an ISO date such as date(2025-06-01) or date("2025-06-01")');
+          }
+          const d = toDate(args[0] ?? null);
+          if (!d && expr.args[0]?.kind === 'literal') {
+            throw new VaultQueryError(`Invalid date "${String(args[0])}"`);
+          }
+          return d;
+        }
+        case 'dur':
+          return typeof args[0] === 'string' ? parseDuration(args[0]) : null;
+        case 'contains':
+          if (args.length !== 2) throw new VaultQueryError('contains() takes two arguments');
+          return contains(args[0], args[1]);
+        case 'length':
+          return Array.isArray(args[0]) || typeof args[0] === 'string' ? args[0].length : null;
+        case 'lower':
+          return typeof args[0] === 'string' ? args[0].toLowerCase() : args[0] ?? null;
+        default:
+          throw new VaultQueryError(`Unknown function ${expr.name}()`);
+      }
+    }
+  }
+}
+
+/**
+ * Run a query against the vault index.
+ */
+export async function runVaultQuery(source: string, vaultPath?: string): Promise<VaultQueryResult> {
+  const query = parseVaultQuery(source);
+  const index = await getVaultIndex(vaultPath);
+
+  let entries = index.all().filter(entry => {
+    if (query.from.length === 0) return true;
+    const notePath = entry.path.replace(/\\/g, '/');
+    const tags = entry.tags.map(t => t.toLowerCase());
+    return query.from.some(src =>
+      src.folder !== undefined
+        ? !src.folder || notePath.startsWith(`${src.folder}/`)
+        : tags.some(t => t === src.tag || t.startsWith(`${src.tag}/`)));
+  });
+
+  if (query.where) {
+    const where = query.where;
+    entries = entries.filter(entry => truthy(evaluate(where, entry)));
+  }
+
+  if (query.sort.length > 0) {
+    const keyed = entries.map(entry => ({ entry, keys: query.sort.map(s => evaluate(s.expr, entry)) }));
+    keyed.sort((a, b) => {
+      for (let i = 0; i < query.sort.length; i++) {
+        const [x, y] = [a.keys[i], b.keys[i]];
+        // Missing values sort last either way
+        if (x === null || y === null) {
+          if (x === y) continue;
+          return x === null ? 1 : -1;
+        }
+        const c = compare(x, y) ?? 0;
+        if (c !== 0) return query.sort[i].desc ? -c : c;
+      }
+      return 0;
+    });
+    entries = keyed.map(k => k.entry);
+  }
+
+  const total = entries.length;
+  if (query.limit !== undefined) entries = entries.slice(0, query.limit);
+
+  const columns = ['file', ...query.columns.map(c => c.name)];
+  const toRow = (entry: VaultIndexEntry): unknown[] => [
+    entry.path.replace(/\\/g, '/'),
+    ...query.columns.map(c => present(evaluate(c.expr, entry))),
+  ];
+
+  if (!query.groupBy) {
+    return { columns, rows: entries.map(toRow), total };
+  }
+
+  const groupExpr = query.groupBy.expr;
+  const groups = new Map<string, { key: unknown; rows: unknown[][] }>();
+  for (const entry of entries) {
+    const key = present(evaluate(groupExpr, entry));
+    const id = JSON.stringify(key ?? null);
+    if (!groups.has(id)) groups.set(id, { key: key ?? null, rows: [] });
+    groups.get(id)!.rows.push(toRow(entry));
+  }
+  const sorted = [...groups.values()].sort((a, b) => {
+    if (a.key === null || b.key === null) return a.key === null ? (b.key === null ? 0 : 1) : -1;
+    return String(a.key).localeCompare(String(b.key));
+  });
+
+  return {
+    columns: [query.groupBy.name, ...columns],
+    rows: entries.map(entry => [present(evaluate(groupExpr, entry)) ?? null, ...toRow(entry)]),
+    groups: sorted,
+    total,
+  };
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+function cell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = Array.isArray(value) ? value.map(v => cell(v)).join(', ')
+    : typeof value === 'object' ? JSON.stringify(value)
+      : String(value);
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function markdownTable(columns: string[], rows: unknown[][]): string {
+  let out = `| ${columns.map(cell).join(' | ')} |\n|${columns.map(() => '---').join('|')}|\n`;
+  for (const row of rows) out += `| ${row.map(cell).join(' | ')} |\n`;
+  return out;
+}
+
+/**
+ * Markdown rendering of a query result: one table, or one per group.
+ */
+export function formatVaultQueryResult(result: VaultQueryResult): string {
+  const shown = result.groups ? result.groups.reduce((n, g) => n + g.rows.length, 0) : result.rows.length;
+  let out = `${shown} result(s)${result.total > shown ? ` of ${result.total}` : ''}\n\n`;
+  if (!result.groups) return out + markdownTable(result.columns, result.rows);
+
+  const [groupName, ...columns] = result.columns;
+  for (const group of result.groups) {
+    out += `### ${groupName}: ${group.key === null ? '(none)' : cell(group.key)} (${group.rows.length})\n\n`;
+    out += markdownTable(columns, group.rows) + '\n';
+  }
+  return out.trimEnd() + '\n';
+}
@@ -15,6 +15,7 @@ import {
   folderToEntityType,
   EntityFrontmatter,
 } from './vault-rid.js';
+import type { SyncBase } from './vault-sync.js';
 
 // =============================================================================
 // Types
@@ -319,7 +320,7 @@ export interface SyncStatus {
   name: string;
 
   /** Status */
-  status: 'linked' | 'local_only' | 'pending_sync' | 'conflict' | 'unknown';
+  status: 'linked' | 'local_only' | 'pending_sync' | 'remote_changed' | 'conflict' | 'unknown';
 
   /** Canonical URI if linked */
   canonicalUri?: string;
@@ -333,20 +334,30 @@ export interface SyncStatus {
   /** Hash at last sync (if available) */
   syncedHash?: string;
 
+  /** Hash the backend currently holds (if available) */
+  remoteHash?: string;
+
   /** Whether content has changed since sync */
   hasChanges: boolean;
 }
 
 /**
  * Check sync status for scanned entities.
+ *
+ * With the recorded sync bases, a hash mismatch is attributed to the side
+ * that moved away from the base: the vault note (pending_sync), the backend
+ * entity (remote_changed) or both (conflict). Without a base, any mismatch
+ * counts as a local change.
  */
 export function checkSyncStatus(
   entities: ScannedEntity[],
-  backendEntities?: Map<string, { canonical_uri: string; content_hash: string }>
+  backendEntities?: Map<string, { canonical_uri: string; content_hash: string }>,
+  syncBases?: Map<string, SyncBase>
 ): SyncStatus[] {
   return entities.map(entity => {
     const existingKoi = entity.existingKoi;
     const backendEntry = backendEntities?.get(entity.rid);
+    const base = syncBases?.get(entity.rid);
 
     let status: SyncStatus['status'] = 'unknown';
     let hasChanges = false;
@@ -362,7 +373,17 @@ export function checkSyncStatus(
     // Check for content changes
     if (backendEntry && backendEntry.content_hash !== entity.contentHash) {
       hasChanges = true;
-      if (status === 'linked') {
+      if (base) {
+        const localChanged = entity.contentHash !== base.hash;
+        const remoteChanged = backendEntry.content_hash !== base.hash;
+        if (localChanged && remoteChanged) {
+          status = 'conflict';
+        } else if (remoteChanged) {
+          status = 'remote_changed';
+        } else if (status === 'linked') {
+          status = 'pending_sync';
+        }
+      } else if (status === 'linked') {
         status = 'pending_sync';
       }
     }
@@ -375,7 +396,8 @@ export function checkSyncStatus(
       canonicalUri: existingKoi?.canonical_uri || backendEntry?.canonical_uri,
       lastSynced: existingKoi?.last_synced,
       currentHash: entity.contentHash,
-      syncedHash: backendEntry?.content_hash,
+      syncedHash: base?.hash ?? backendEntry?.content_hash,
+      remoteHash: backendEntry?.content_hash,
       hasChanges,
     };
   });
@@ -0,0 +1,139 @@
+#!/usr/bin/env tsx
+/**
+ * Entity note schema tests — field checks, entity-folder writes, modes.
+ *
+ * Writes into a throwaway vault with the default entity field definitions:
+ * required fields, types, enums, wikilinks checked against the linked note's
+ * type, non-entity folders left alone, warnings returned by vault_write_note
+ * and vault_patch_note, and strict mode refusing the write.
+ *
+ * Run:  npx tsx src/vault-schema.test.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+function write(vaultPath: string, rel: string, content: string): void {
+  const full = path.join(vaultPath, rel);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  fs.writeFileSync(full, content);
+}
+
+async function main() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "vault-schema-"));
+  const vaultPath = path.join(root, "vault");
+  process.env.VAULT_PATH = vaultPath;
+  process.env.VAULT_INDEX_DIR = path.join(root, "index");
+  process.env.VAULT_JOURNAL_DIR = path.join(root, "journal");
+  process.env.VAULT_INDEX_MAX_AGE_MS = "0";
+  process.env.PERSONAL_KOI_BACKEND_URL = "http://127.0.0.1:9";
+  delete process.env.VAULT_SCHEMA_VALIDATION;
+
+  write(vaultPath, "Organizations/Regen Network.md", "---\n\"@type\": Organization\n---\n");
+  write(vaultPath, "Locations/Salish Sea.md", "---\n\"@type\": Location\n---\n");
+
+  const { validateFrontmatter, validateEntityNote, schemaMode } = await import("./vault-schema.js");
+  const { handleKoiApiTool } = await import("./koi-api-tools.js");
+  const codes = (issues: any[]) => issues.map((i) => `${i.field}:${i.code}`).join();
+
+  console.log("Entity note schema tests:");
+  console.log("");
+
+  const fields = {
+    name: { type: "string", required: true },
+    count: { type: "number" },
+    start: { type: "date" },
+    status: { type: "string", enum: ["active", "done"] },
+    tags: { type: "string", multiple: true },
+  } as const;
+  check("valid frontmatter has no issues",
+    (await validateFrontmatter({ name: "x", count: 3, start: "2026-01-10", status: "Active", tags: ["a"] }, fields as any)).length === 0);
+  check("each field check reports its own code",
+    codes(await validateFrontmatter({ name: "", count: "3", start: "next week", status: "stalled", tags: "a" }, fields as any)) ===
+      "name:missing_required,count:wrong_type,start:wrong_type,status:not_in_enum",
+    codes(await validateFrontmatter({ name: "", count: "3", start: "next week", status: "stalled", tags: "a" }, fields as any)));
+  check("a list in a single-value field is wrong_type",
+    codes(await validateFrontmatter({ name: ["a", "b"] }, fields as any)) === "name:wrong_type");
+
+  let v = await validateEntityNote(vaultPath, "People/Ada.md",
+    "---\n\"@type\": Person\naffiliation:\n  - \"[[Regen Network]]\"\n  - \"[[Organizations/Unknown Org|UO]]\"\n---\n");
+  check("wikilinks to the right type (or to no note yet) pass", v?.entityType === "Person" && v.issues.length === 0, JSON.stringify(v));
+
+  v = await validateEntityNote(vaultPath, "People/Ada.md", "---\n\"@type\": Person\naffiliation: \"[[Salish Sea]]\"\n---\n");
+  check("wikilink to another entity type is wrong_link_type",
+    codes(v!.issues) === "affiliation:wrong_link_type" && v!.issues[0].message.includes("[[Salish Sea]] links to a Location note, expected Organization"),
+    JSON.stringify(v));
+
+  v = await validateEntityNote(vaultPath, "People/Ada.md", "---\n\"@type\": Person\naffiliation: Regen Network\n---\n");
+  check("plain text in a wikilink field is not_a_wikilink", codes(v!.issues) === "affiliation:not_a_wikilink");
+
+  check("notes outside entity folders are not validated",
+    (await validateEntityNote(vaultPath, "Inbox/Ada.md", "no frontmatter\n")) === null &&
+      (await validateEntityNote(vaultPath, "Ada.md", "no frontmatter\n")) === null);
+
+  const written = await handleKoiApiTool("vault_write_note", {
+    path: "Meetings/Kickoff",
+    content: "Agenda\n",
+    frontmatter: { "@type": "Meeting", attendees: ["[[Regen Network]]"] },
+  });
+  const warnings = JSON.parse(written.content[1]?.text ?? "{}").schema_warnings;
+  check("warn mode writes and returns structured warnings",
+    !written.isError && written.content[0].text.startsWith("Written: Meetings/Kickoff.md") &&
+      codes(warnings?.issues ?? []) === "date:missing_required,attendees:wrong_link_type",
+    JSON.stringify(written.content));
+
+  const clean = await handleKoiApiTool("vault_write_note", {
+    path: "People/Grace",
+    content: "Bio\n",
+    frontmatter: { "@type": "Person", role: "Admiral" },
+  });
+  check("a valid entity note gets no warnings item", !clean.isError && clean.content.length === 1);
+
+  const refused = await handleKoiApiTool("vault_write_note", {
+    path: "Projects/Kelp",
+    content: "Plan\n",
+    frontmatter: { "@type": "Project", status: "someday" },
+    schema_validation: "strict",
+  });
+  check("strict mode refuses the write",
+    refused.isError === true && refused.content[0].text.startsWith("Not written: Projects/Kelp.md does not match the Project schema") &&
+      !fs.existsSync(path.join(vaultPath, "Projects/Kelp.md")),
+    refused.content[0].text);
+
+  process.env.VAULT_SCHEMA_VALIDATION = "strict";
+  const patched = await handleKoiApiTool("vault_patch_note", {
+    path: "People/Grace", operation: "set_frontmatter", key: "role", value: ["Admiral", "Scientist"],
+  });
+  check("VAULT_SCHEMA_VALIDATION=strict applies to frontmatter patches",
+    patched.isError === true && fs.readFileSync(path.join(vaultPath, "People/Grace.md"), "utf-8").includes("role: Admiral\n"),
+    patched.content[0].text);
+  const body = await handleKoiApiTool("vault_patch_note", { path: "Meetings/Kickoff", operation: "append", content: "Notes\n" });
+  check("body patches are not schema-checked", !body.isError, body.content[0].text);
+  check("per-call mode overrides the environment", schemaMode("off") === "off" && schemaMode() === "strict" && schemaMode("bogus") === "strict");
+  delete process.env.VAULT_SCHEMA_VALIDATION;
+
+  fs.rmSync(root, { recursive: true, force: true });
+
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,242 @@
+/**
+ * Entity Note Schema Validation
+ *
+ * Checks the frontmatter of notes written into an entity folder (People/,
+ * Organizations/, ...) against the field definitions of the folder's entity
+ * type (entity-schema.ts `fields`):
+ *
+ * - missing_required  required field absent or empty
+ * - wrong_type        not a string / number / boolean / date, or a list for a single-value field
+ * - not_in_enum       value outside the field's allowed values
+ * - not_a_wikilink    wikilink field holding plain text
+ * - wrong_link_type   wikilink resolving to a note of another entity type
+ *
+ * Fields a type does not define are not checked. Links that resolve to no
+ * note are left to vault_audit (broken_link). The mode is `warn` (write and
+ * report), `strict` (refuse the write) or `off`; VAULT_SCHEMA_VALIDATION sets
+ * the default, and write tools accept a per-call `schema_validation`.
+ */
+
+import { findFrontmatterBlock } from './frontmatter.js';
+import { folderToType, getFieldsForType, type EntityFieldDefinition } from './entity-schema.js';
+import { getVaultIndex, type VaultIndex } from './vault-index.js';
+import { resolveLocalNoteTarget } from './vault-links.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SchemaIssueCode =
+  | 'missing_required'
+  | 'wrong_type'
+  | 'not_in_enum'
+  | 'not_a_wikilink'
+  | 'wrong_link_type';
+
+export interface SchemaIssue {
+  field: string;
+  code: SchemaIssueCode;
+  message: string;
+}
+
+export interface SchemaValidation {
+  /** Vault-relative note path */
+  path: string;
+
+  /** Entity type of the note's folder */
+  entityType: string;
+
+  issues: SchemaIssue[];
+}
+
+export type SchemaMode = 'off' | 'warn' | 'strict';
+
+export const SCHEMA_MODES: SchemaMode[] = ['off', 'warn', 'strict'];
+
+export class SchemaValidationError extends Error {
+  readonly validation: SchemaValidation;
+
+  constructor(validation: SchemaValidation) {
+    super(`${validation.path} does not match the ${validation.entityType} schema: ` +
+      validation.issues.map(i => i.message).join('; '));
+    this.name = 'SchemaValidationError';
+    this.validation = validation;
+  }
+}
+
+/** Entity type of the note a wikilink target resolves to; undefined when it resolves to none */
+type LinkTypeResolver = (target: string) => Promise<string | null | undefined>;
+
+// =============================================================================
+// Field checks
+// =============================================================================
+
+const WIKILINK_RE = /^\[\[([^\]|#]*)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function normalizeType(type: unknown): string {
+  return typeof type === 'string' ? type.replace(/^schema:/, '').trim().toLowerCase() : '';
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function typeMatches(value: unknown, def: EntityFieldDefinition): boolean {
+  switch (def.type) {
+    case 'string':
+    case 'wikilink':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+      return value instanceof Date || (typeof value === 'string' && DATE_RE.test(value.trim()));
+  }
+}
+
+async function checkValue(
+  field: string,
+  value: unknown,
+  def: EntityFieldDefinition,
+  resolveLinkType?: LinkTypeResolver
+): Promise<SchemaIssue | null> {
+  if (!typeMatches(value, def)) {
+    return {
+      field,
+      code: 'wrong_type',
+      message: `${field}: expected ${def.type === 'date' ? 'a date (YYYY-MM-DD)' : `a ${def.type}`}, got ${JSON.stringify(value)}`,
+    };
+  }
+  if (def.enum && !def.enum.some(e => e.toLowerCase() === String(value).toLowerCase())) {
+    return {
+      field,
+      code: 'not_in_enum',
+      message: `${field}: "${value}" is not one of ${def.enum.join(', ')}`,
+    };
+  }
+  if (def.type !== 'wikilink') return null;
+
+  const link = WIKILINK_RE.exec((value as string).trim());
+  if (!link) {
+    return {
+      field,
+      code: 'not_a_wikilink',
+      message: `${field}: expected a [[wikilink]]${def.link_type ? ` (${def.link_type})` : ''}, got "${value}"`,
+    };
+  }
+  if (def.link_type && resolveLinkType) {
+    const linkedType = await resolveLinkType(link[1].trim());
+    if (linkedType && normalizeType(linkedType) !== normalizeType(def.link_type)) {
+      return {
+        field,
+        code: 'wrong_link_type',
+        message: `${field}: ${value} links to a ${linkedType} note, expected ${def.link_type}`,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a frontmatter mapping against a type's field definitions.
+ */
+export async function validateFrontmatter(
+  frontmatter: Record<string, unknown>,
+  fields: Record<string, EntityFieldDefinition>,
+  resolveLinkType?: LinkTypeResolver
+): Promise<SchemaIssue[]> {
+  const issues: SchemaIssue[] = [];
+  for (const [field, def] of Object.entries(fields)) {
+    const value = frontmatter[field];
+    if (isEmpty(value)) {
+      if (def.required) issues.push({ field, code: 'missing_required', message: `${field}: required` });
+      continue;
+    }
+    if (Array.isArray(value) && !def.multiple) {
+      issues.push({ field, code: 'wrong_type', message: `${field}: expected a single ${def.type}, got a list` });
+      continue;
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      const issue = await checkValue(field, item, def, resolveLinkType);
+      if (issue) {
+        issues.push(issue);
+        break;
+      }
+    }
+  }
+  return issues;
+}
+
+// =============================================================================
+// Entity notes
+// =============================================================================
+
+/**
+ * The validation mode for a call: the caller's `schema_validation`, else
+ * VAULT_SCHEMA_VALIDATION, else warn.
+ */
+export function schemaMode(requested?: unknown): SchemaMode {
+  for (const candidate of [requested, process.env.VAULT_SCHEMA_VALIDATION]) {
+    if (typeof candidate === 'string' && SCHEMA_MODES.includes(candidate.toLowerCase() as SchemaMode)) {
+      return candidate.toLowerCase() as SchemaMode;
+    }
+  }
+  return 'warn';
+}
+
+/**
+ * Validate the content about to be written to `relPath`. Null when the note
+ * is not in an entity folder or its type defines no fields.
+ */
+export async function validateEntityNote(
+  vaultPath: string,
+  relPath: string,
+  content: string
+): Promise<SchemaValidation | null> {
+  const notePath = relPath.replace(/\\/g, '/');
+  const parts = notePath.split('/');
+  if (parts.length < 2) return null;
+  const entityType = await folderToType(parts[0]);
+  if (!entityType) return null;
+  const fields = await getFieldsForType(entityType);
+  if (!fields) return null;
+
+  // The index is only loaded once a wikilink field needs resolving
+  let index: VaultIndex | null = null;
+  let basenameIndex: Map<string, string[]> | null = null;
+  const resolveLinkType: LinkTypeResolver = async target => {
+    index ??= await getVaultIndex(vaultPath);
+    basenameIndex ??= index.basenameIndex();
+    const { resolvedPath } = await resolveLocalNoteTarget(notePath, target, basenameIndex, vaultPath);
+    if (!resolvedPath) return undefined;
+    const declared = index.get(resolvedPath)?.frontmatter?.['@type'];
+    if (typeof declared === 'string') return declared;
+    return folderToType(resolvedPath.split('/')[0]);
+  };
+
+  const frontmatter = findFrontmatterBlock(content)?.data ?? {};
+  return {
+    path: notePath,
+    entityType,
+    issues: await validateFrontmatter(frontmatter, fields, resolveLinkType),
+  };
+}
+
+/**
+ * Validate per `mode`: null when off or clean, the validation when warning,
+ * and a SchemaValidationError thrown when strict.
+ */
+export async function checkEntityNoteSchema(
+  vaultPath: string,
+  relPath: string,
+  content: string,
+  mode: SchemaMode
+): Promise<SchemaValidation | null> {
+  if (mode === 'off') return null;
+  const validation = await validateEntityNote(vaultPath, relPath, content);
+  if (!validation || validation.issues.length === 0) return null;
+  if (mode === 'strict') throw new SchemaValidationError(validation);
+  return validation;
+}
@@ -0,0 +1,118 @@
+#!/usr/bin/env tsx
+/**
+ * Vault search tests — BM25 ranking, field boosts, sections, snippets.
+ *
+ * Indexes a throwaway vault into a temp VAULT_INDEX_DIR: title and alias
+ * boosts over body mentions, section-level hits with line numbers, folder
+ * and type filters, plural folding and prefix matching, highlighted
+ * snippets, metadata-only search, and incremental refresh after an edit.
+ *
+ * Run:  npx tsx src/vault-search.test.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+function write(vaultPath: string, rel: string, content: string): void {
+  const full = path.join(vaultPath, rel);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  fs.writeFileSync(full, content);
+}
+
+async function main() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "vault-search-"));
+  const vaultPath = path.join(root, "vault");
+  process.env.VAULT_PATH = vaultPath;
+  process.env.VAULT_INDEX_DIR = path.join(root, "index");
+  process.env.VAULT_INDEX_MAX_AGE_MS = "0";
+
+  write(vaultPath, "Concepts/Commitment Pooling.md",
+    "---\n\"@type\": Concept\naliases: [CP]\n---\n# Commitment Pooling\nA way for communities to pool commitments.\n");
+  write(vaultPath, "Meetings/2026-01-10 Herring.md",
+    "---\n\"@type\": Meeting\nproject: \"[[Herring Restoration]]\"\n---\nIntro line.\n\n## Agenda\nBudget review.\n\n## Habitat\nEelgrass beds support herring spawning habitats along the coast.\n");
+  write(vaultPath, "Projects/Herring Restoration.md",
+    "---\n\"@type\": Project\n---\nRestoring herring runs in the Salish Sea.\n");
+  write(vaultPath, "Notes/Random.md", "Mentions commitment once, in passing, among many other words about gardening and soil.\n");
+
+  const { searchVault } = await import("./vault-search.js");
+  const { handleKoiApiTool } = await import("./koi-api-tools.js");
+  const vault = await import("./vault.js");
+
+  console.log("Vault search tests:");
+  console.log("");
+
+  let hits = await searchVault("commitment pooling");
+  check("title match outranks a passing mention",
+    hits[0]?.path === "Concepts/Commitment Pooling.md" && hits.at(-1)?.path === "Notes/Random.md",
+    hits.map((h: any) => h.path).join());
+
+  hits = await searchVault("CP");
+  check("aliases are searchable", hits[0]?.path === "Concepts/Commitment Pooling.md");
+
+  hits = await searchVault("eelgrass habitat");
+  const section = hits[0]?.sections[0];
+  check("hit points at the matching heading section",
+    hits[0]?.path === "Meetings/2026-01-10 Herring.md" && section?.heading === "Habitat" && section?.line === 10,
+    JSON.stringify(section));
+  check("snippet highlights matched words, plurals folded",
+    section?.snippet === "**Eelgrass** beds support herring spawning **habitats** along the coast.", section?.snippet);
+
+  hits = await searchVault("herring", { folder: "Projects" });
+  check("folder filter", hits.map((h: any) => h.path).join() === "Projects/Herring Restoration.md");
+
+  hits = await searchVault("herring", { entityType: "meeting" });
+  check("type filter", hits.map((h: any) => h.path).join() === "Meetings/2026-01-10 Herring.md");
+
+  hits = await searchVault("restor");
+  check("word prefixes match longer words",
+    hits[0]?.path === "Projects/Herring Restoration.md" && hits[0]?.sections[0].snippet.includes("**Restoring**"),
+    JSON.stringify(hits[0]));
+
+  hits = await searchVault("Salish", { searchContent: false });
+  check("searchContent=false ignores note text", hits.length === 0);
+  hits = await searchVault("herring restoration", { searchContent: false });
+  check("frontmatter values are searchable",
+    hits.map((h: any) => h.path).sort().join() === "Meetings/2026-01-10 Herring.md,Projects/Herring Restoration.md");
+
+  check("stopword-only query returns nothing", (await searchVault("the of and")).length === 0);
+
+  write(vaultPath, "Notes/Random.md", "Now about kelp forests.\n");
+  hits = await searchVault("kelp");
+  check("edited notes are re-indexed", hits[0]?.path === "Notes/Random.md");
+
+  const notes = await vault.searchNotes({ query: "herring", limit: 1 });
+  check("vault searchNotes returns ranked notes with a snippet",
+    notes.length === 1 && typeof notes[0].score === "number" && notes[0].snippet?.includes("**herring**") === true,
+    JSON.stringify(notes));
+
+  const r = await handleKoiApiTool("vault_concept_search", { query: "eelgrass", limit: 3 });
+  const payload = JSON.parse(r.content[0].text.split("\n\n").slice(1).join("\n\n"));
+  check("vault_concept_search runs in-process and returns sections",
+    !r.isError && payload.results[0]?.title === "2026-01-10 Herring" && payload.results[0]?.sections[0]?.heading === "Habitat",
+    r.content[0].text);
+
+  fs.rmSync(root, { recursive: true, force: true });
+
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,421 @@
+/**
+ * Vault Full-Text Search
+ *
+ * In-process BM25 search over vault notes, split into heading sections so a
+ * hit points at the part of a long note that matched. Each section is scored
+ * over weighted fields: the note title and aliases count most, then the
+ * section heading, then frontmatter values, then the section text. Notes are
+ * ranked by their best section and returned with highlighted snippets.
+ *
+ * The index is kept per vault in memory and refreshed from the vault index:
+ * only notes whose content hash changed are re-read and re-tokenized.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { findFrontmatterBlock } from './frontmatter.js';
+import { getVaultIndex, VaultIndexEntry } from './vault-index.js';
+import { listHeadings } from './vault-sections.js';
+import { entityAliases, getVaultPath } from './vault.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SearchField = 'title' | 'aliases' | 'heading' | 'frontmatter' | 'body';
+
+/** Per-field weight applied to term frequency before BM25 saturation */
+export const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 4,
+  aliases: 3,
+  heading: 2,
+  frontmatter: 1.5,
+  body: 1,
+};
+
+export interface VaultSearchOptions {
+  /** Only notes under this folder (relative to the vault root) */
+  folder?: string;
+
+  /** Only notes whose @type matches (case-insensitive) */
+  entityType?: string;
+
+  /** Max notes returned (default 10) */
+  limit?: number;
+
+  /** false: match only title, aliases and frontmatter (default true) */
+  searchContent?: boolean;
+
+  /** Vault root (default: getVaultPath()) */
+  vaultPath?: string;
+}
+
+export interface VaultSearchSection {
+  /** Heading text, or null for the text before the first heading */
+  heading: string | null;
+
+  /** 1-based line of the heading in the file (or of the body start) */
+  line: number;
+
+  score: number;
+
+  /** Best-matching passage with matched words in **bold** */
+  snippet: string;
+}
+
+export interface VaultSearchHit {
+  path: string;
+  name: string;
+  entityType: string | null;
+  score: number;
+  modifiedAt: string;
+
+  /** Matching sections (at most 3): text matches first, then by score */
+  sections: VaultSearchSection[];
+}
+
+interface IndexedSection {
+  heading: string | null;
+  line: number;
+  text: string;
+  /** term -> per-field frequency */
+  terms: Map<string, Partial<Record<SearchField, number>>>;
+  /** Tokens in the heading and text (the BM25 document length) */
+  length: number;
+}
+
+interface IndexedNote {
+  entry: VaultIndexEntry;
+  sections: IndexedSection[];
+}
+
+// =============================================================================
+// Tokenizing
+// =============================================================================
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'with',
+]);
+
+/** Light plural folding so `habitats` matches `habitat`. */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const m of text.toLowerCase().matchAll(WORD_RE)) {
+    if (!STOPWORDS.has(m[0])) tokens.push(stem(m[0]));
+  }
+  return tokens;
+}
+
+/** Markdown reduced to readable text: wikilink aliases, no link targets or emphasis marks. */
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/!?\[\[([^\]|]+)\|([^\]]+)\]\]/g, '$2')
+    .replace(/!?\[\[([^\]]+)\]\]/g, '$1')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function frontmatterText(value: unknown, key = ''): string[] {
+  if (key === 'koi' || key === 'aliases' || key === 'alias') return [];
+  if (value === null || value === undefined) return [];
+  if (Array.isArray(value)) return value.flatMap(v => frontmatterText(v));
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).flatMap(([k, v]) => frontmatterText(v, k));
+  }
+  return [String(value)];
+}
+
+// =============================================================================
+// Index
+// =============================================================================
+
+function addTerms(terms: IndexedSection['terms'], tokens: string[], field: SearchField): void {
+  for (const token of tokens) {
+    let freq = terms.get(token);
+    if (!freq) {
+      freq = {};
+      terms.set(token, freq);
+    }
+    freq[field] = (freq[field] ?? 0) + 1;
+  }
+}
+
+/**
+ * Split a note into heading sections and tokenize each one. Title, aliases
+ * and frontmatter are shared by every section of the note.
+ */
+function indexNote(entry: VaultIndexEntry, content: string): IndexedSection[] {
+  const fm = findFrontmatterBlock(content);
+  const offset = fm ? content.slice(0, fm.index + fm.length).split('\n').length - 1 : 0;
+  const lines = (fm ? content.slice(fm.index + fm.length) : content).split('\n');
+
+  const shared = {
+    title: tokenize(entry.basename),
+    aliases: tokenize(entityAliases(entry.frontmatter).join(' ')),
+    frontmatter: tokenize(frontmatterText(entry.frontmatter ?? {}).join(' ')),
+  };
+
+  const headings = listHeadings(lines);
+  const bounds = [
+    { heading: null as string | null, start: 0, end: headings[0]?.line ?? lines.length, line: 0 },
+    ...headings.map((h, i) => ({
+      heading: h.text,
+      start: h.line + 1,
+      end: headings[i + 1]?.line ?? lines.length,
+      line: h.line,
+    })),
+  ];
+
+  const sections: IndexedSection[] = [];
+  for (const b of bounds) {
+    const text = plainText(lines.slice(b.start, b.end).join('\n'));
+    if (b.heading === null && !text && headings.length > 0) continue;
+    const headingTokens = b.heading ? tokenize(b.heading) : [];
+    const bodyTokens = tokenize(text);
+    const terms: IndexedSection['terms'] = new Map();
+    addTerms(terms, shared.title, 'title');
+    addTerms(terms, shared.aliases, 'aliases');
+    addTerms(terms, shared.frontmatter, 'frontmatter');
+    addTerms(terms, headingTokens, 'heading');
+    addTerms(terms, bodyTokens, 'body');
+    sections.push({
+      heading: b.heading,
+      line: offset + b.line + 1,
+      text,
+      terms,
+      length: headingTokens.length + bodyTokens.length,
+    });
+  }
+  return sections;
+}
+
+export class VaultSearchIndex {
+  readonly vaultPath: string;
+  private notes = new Map<string, IndexedNote>();
+  /** term -> number of sections containing it */
+  private df = new Map<string, number>();
+  private sectionCount = 0;
+  private avgLength = 1;
+
+  constructor(vaultPath: string) {
+    this.vaultPath = path.resolve(vaultPath);
+  }
+
+  /**
+   * Bring the index in line with the vault index: re-read notes whose content
+   * hash changed and drop notes that are gone.
+   */
+  async refresh(): Promise<void> {
+    const index = await getVaultIndex(this.vaultPath);
+    const seen = new Set<string>();
+    let changed = false;
+
+    for (const entry of index.all()) {
+      seen.add(entry.path);
+      const cached = this.notes.get(entry.path);
+      if (cached && cached.entry.contentHash === entry.contentHash) {
+        cached.entry = entry;
+        continue;
+      }
+      let content: string;
+      try {
+        content = await fs.readFile(path.join(this.vaultPath, entry.path), 'utf-8');
+      } catch {
+        continue; // Deleted since the index refresh
+      }
+      this.notes.set(entry.path, { entry, sections: indexNote(entry, content) });
+      changed = true;
+    }
+    for (const notePath of [...this.notes.keys()]) {
+      if (!seen.has(notePath)) {
+        this.notes.delete(notePath);
+        changed = true;
+      }
+    }
+    if (changed) this.recomputeStats();
+  }
+
+  private recomputeStats(): void {
+    this.df.clear();
+    let total = 0;
+    this.sectionCount = 0;
+    for (const note of this.notes.values()) {
+      for (const section of note.sections) {
+        this.sectionCount++;
+        total += section.length;
+        for (const term of section.terms.keys()) {
+          this.df.set(term, (this.df.get(term) ?? 0) + 1);
+        }
+      }
+    }
+    this.avgLength = this.sectionCount > 0 ? Math.max(1, total / this.sectionCount) : 1;
+  }
+
+  /**
+   * Query terms with weights: each query token at full weight, plus indexed
+   * terms it is a prefix of (3+ characters) at half weight.
+   */
+  private expand(query: string): Map<string, number> {
+    const weights = new Map<string, number>();
+    for (const token of new Set(tokenize(query))) {
+      weights.set(token, 1);
+      if (token.length < 3) continue;
+      for (const term of this.df.keys()) {
+        if (term !== token && term.startsWith(token) && !weights.has(term)) weights.set(term, 0.5);
+      }
+    }
+    return weights;
+  }
+
+  search(query: string, options: VaultSearchOptions = {}): VaultSearchHit[] {
+    const weights = this.expand(query);
+    if (weights.size === 0) return [];
+    const fields: SearchField[] = options.searchContent === false
+      ? ['title', 'aliases', 'frontmatter']
+      : ['title', 'aliases', 'heading', 'frontmatter', 'body'];
+    const folder = options.folder ? options.folder.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '').toLowerCase() : '';
+    const entityType = options.entityType?.toLowerCase();
+    const k1 = 1.2;
+    const b = 0.75;
+
+    const hits: VaultSearchHit[] = [];
+    for (const note of this.notes.values()) {
+      const notePath = note.entry.path.replace(/\\/g, '/');
+      if (folder && !notePath.toLowerCase().startsWith(`${folder}/`)) continue;
+      if (entityType && note.entry.entityType?.toLowerCase() !== entityType) continue;
+
+      const scored: Array<{ section: IndexedSection; score: number; matched: Set<string>; inText: boolean }> = [];
+      for (const section of note.sections) {
+        let score = 0;
+        let inText = false;
+        const matched = new Set<string>();
+        for (const [term, weight] of weights) {
+          const freq = section.terms.get(term);
+          if (!freq) continue;
+          const tf = fields.reduce((sum, f) => sum + (freq[f] ?? 0) * FIELD_BOOSTS[f], 0);
+          if (tf === 0) continue;
+          const df = this.df.get(term) ?? 0;
+          const idf = Math.log(1 + (this.sectionCount - df + 0.5) / (df + 0.5));
+          const norm = k1 * (1 - b + b * section.length / this.avgLength);
+          score += weight * idf * (tf * (k1 + 1)) / (tf + norm);
+          matched.add(term);
+          if (fields.includes('body') && (freq.heading || freq.body)) inText = true;
+        }
+        if (score > 0) scored.push({ section, score, matched, inText });
+      }
+      if (scored.length === 0) continue;
+
+      // The note ranks by its best section; the sections shown lead with the
+      // ones whose own heading or text matched, not just the shared title
+      const best = Math.max(...scored.map(s => s.score));
+      scored.sort((x, y) => Number(y.inText) - Number(x.inText) || y.score - x.score);
+      hits.push({
+        path: notePath,
+        name: note.entry.basename,
+        entityType: note.entry.entityType,
+        score: Math.round(best * 1000) / 1000,
+        modifiedAt: new Date(note.entry.mtimeMs).toISOString(),
+        sections: scored.slice(0, 3).map(s => ({
+          heading: s.section.heading,
+          line: s.section.line,
+          score: Math.round(s.score * 1000) / 1000,
+          snippet: snippet(s.section.text, s.matched),
+        })),
+      });
+    }
+
+    return hits
+      .sort((x, y) => y.score - x.score || x.path.localeCompare(y.path))
+      .slice(0, options.limit ?? 10);
+  }
+}
+
+// =============================================================================
+// Snippets
+// =============================================================================
+
+const SNIPPET_LENGTH = 200;
+
+/**
+ * The window of `text` holding the most matched words, with those words
+ * in **bold**. Falls back to the start of the text when nothing in it matched
+ * (a title-only hit).
+ */
+function snippet(text: string, matched: Set<string>): string {
+  const positions: Array<{ start: number; end: number }> = [];
+  for (const m of text.matchAll(WORD_RE)) {
+    if (matched.has(stem(m[0].toLowerCase()))) positions.push({ start: m.index!, end: m.index! + m[0].length });
+  }
+
+  let from = 0;
+  if (positions.length > 0) {
+    let best = 0;
+    let bestCount = 0;
+    for (let i = 0; i < positions.length; i++) {
+      const count = positions.filter(p => p.start >= positions[i].start && p.end <= positions[i].start + SNIPPET_LENGTH).length;
+      if (count > bestCount) {
+        best = i;
+        bestCount = count;
+      }
+    }
+    from = Math.max(0, positions[best].start - 40);
+    if (from > 0) {
+      const space = text.indexOf(' ', from);
+      from = space >= 0 && space < positions[best].start ? space + 1 : from;
+    }
+  }
+  let to = Math.min(text.length, from + SNIPPET_LENGTH);
+  if (to < text.length) {
+    const space = text.lastIndexOf(' ', to);
+    if (space > from) to = space;
+  }
+
+  let out = '';
+  let cursor = from;
+  for (const p of positions) {
+    if (p.start < from || p.end > to) continue;
+    out += `${text.slice(cursor, p.start)}**${text.slice(p.start, p.end)}**`;
+    cursor = p.end;
+  }
+  out += text.slice(cursor, to);
+  return `${from > 0 ? '…' : ''}${out}${to < text.length ? '…' : ''}`;
+}
+
+// =============================================================================
+// Access
+// =============================================================================
+
+const _searchIndexes = new Map<string, VaultSearchIndex>();
+
+/**
+ * The (fresh) search index for a vault; defaults to getVaultPath().
+ */
+export async function getVaultSearchIndex(vaultPath: string = getVaultPath()): Promise<VaultSearchIndex> {
+  const key = path.resolve(vaultPath);
+  let index = _searchIndexes.get(key);
+  if (!index) {
+    index = new VaultSearchIndex(key);
+    _searchIndexes.set(key, index);
+  }
+  await index.refresh();
+  return index;
+}
+
+/**
+ * Ranked notes for a query, with their best-matching sections.
+ */
+export async function searchVault(query: string, options: VaultSearchOptions = {}): Promise<VaultSearchHit[]> {
+  const index = await getVaultSearchIndex(options.vaultPath);
+  return index.search(query, options);
+}
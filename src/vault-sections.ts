@@ -0,0 +1,175 @@
+/**
+ * Note Sections
+ *
+ * Line-level structure of a note body: ATX headings (outside fenced code),
+ * the section each heading owns (up to the next heading of the same or a
+ * higher level), and `^block-id` anchors. Shared by section-level patching
+ * and anchored reads.
+ */
+
+import { findFrontmatterBlock } from './frontmatter.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface NoteHeading {
+  level: number;
+  text: string;
+  /** 0-based line index of the heading */
+  line: number;
+}
+
+export interface NoteSection {
+  heading: NoteHeading;
+
+  /** First line after the heading */
+  start: number;
+
+  /** Line index the section ends before (next same-or-higher heading, or EOF) */
+  end: number;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const HEADING_RE = /^(#{1,6})[ \t]+(.+?)[ \t]*#*[ \t]*\r?$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+
+/**
+ * Headings in document order, skipping fenced code blocks.
+ */
+export function listHeadings(lines: string[]): NoteHeading[] {
+  const headings: NoteHeading[] = [];
+  let inFence = false;
+  lines.forEach((line, i) => {
+    if (FENCE_RE.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) return;
+    const m = line.match(HEADING_RE);
+    if (m) headings.push({ level: m[1].length, text: m[2].trim(), line: i });
+  });
+  return headings;
+}
+
+function normalizeHeading(text: string): string {
+  return text.replace(/^#+\s*/, '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Parse a heading reference: `Actions`, `## Actions` (level-qualified) or
+ * `Project > Actions` (nested, outermost first).
+ */
+function parseHeadingRef(ref: string): Array<{ text: string; level?: number }> {
+  return ref.split(/\s*>\s*|#(?=[^#\s])/).filter(Boolean).map(part => {
+    const m = part.trim().match(/^(#{1,6})\s+(.*)$/);
+    return m ? { text: normalizeHeading(m[2]), level: m[1].length } : { text: normalizeHeading(part) };
+  });
+}
+
+/**
+ * The section under the first heading matching `ref` (case-insensitive).
+ * A nested ref (`Parent > Child`) matches Child only inside Parent's section.
+ */
+export function findSection(lines: string[], ref: string): NoteSection | null {
+  const headings = listHeadings(lines);
+  const sectionOf = (index: number): NoteSection => {
+    const heading = headings[index];
+    const next = headings.slice(index + 1).find(h => h.level <= heading.level);
+    return { heading, start: heading.line + 1, end: next ? next.line : lines.length };
+  };
+
+  let scope = { start: 0, end: lines.length };
+  let found: NoteSection | null = null;
+  for (const part of parseHeadingRef(ref)) {
+    const index = headings.findIndex(h =>
+      h.line >= scope.start && h.line < scope.end &&
+      normalizeHeading(h.text) === part.text &&
+      (part.level === undefined || h.level === part.level));
+    if (index < 0) return null;
+    found = sectionOf(index);
+    scope = { start: found.start, end: found.end };
+  }
+  return found;
+}
+
+/**
+ * Line index carrying the `^blockId` anchor (at the end of a line, or on a
+ * line of its own), or -1.
+ */
+export function findBlockLine(lines: string[], blockId: string): number {
+  const id = blockId.replace(/^\^/, '');
+  if (!/^[A-Za-z0-9-]+$/.test(id)) return -1;
+  const re = new RegExp(`(?:^|\\s)\\^${id}\\s*$`);
+  let inFence = false;
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE_RE.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+    if (!inFence && re.test(lines[i])) return i;
+  }
+  return -1;
+}
+
+// =============================================================================
+// Anchored extraction
+// =============================================================================
+
+const LIST_ITEM_RE = /^(\s*)(?:[-*+]|\d+[.)])\s/;
+
+function indentOf(line: string): number {
+  return line.match(/^\s*/)![0].length;
+}
+
+/**
+ * Lines of the block carrying `^blockId`: the list item (with its nested
+ * children), the paragraph ending in the anchor, or - for an anchor on its
+ * own line - the block just above it. The anchor itself is dropped.
+ */
+function blockLines(lines: string[], blockId: string): string[] | null {
+  const line = findBlockLine(lines, blockId);
+  if (line < 0) return null;
+  const anchorRe = new RegExp(`\\s*\\^${blockId.replace(/^\^/, '')}\\s*$`);
+  const isBreak = (l: string) => l.trim() === '' || HEADING_RE.test(l);
+
+  let start = line;
+  let end = line + 1;
+  if (lines[line].trim().replace(/^\^/, '') === blockId.replace(/^\^/, '')) {
+    // `^id` on its own line names the table/quote/paragraph above it
+    end = line;
+    start = line;
+    while (start > 0 && !isBreak(lines[start - 1])) start--;
+  } else if (LIST_ITEM_RE.test(lines[line])) {
+    const indent = indentOf(lines[line]);
+    while (end < lines.length && lines[end].trim() !== '' && indentOf(lines[end]) > indent) end++;
+  } else {
+    while (start > 0 && !isBreak(lines[start - 1]) && !LIST_ITEM_RE.test(lines[start - 1])) start--;
+  }
+  if (start >= end) return null;
+  return lines.slice(start, end).map(l => l.replace(anchorRe, ''));
+}
+
+/**
+ * The part of a note an Obsidian anchor points at: `Heading`, `A#B` (nested
+ * headings) or `^block-id`. Returns the heading line plus its section, or the
+ * block, or null when the anchor is not in the note. Frontmatter is skipped.
+ */
+export function extractAnchor(content: string, anchor: string): string | null {
+  const fm = findFrontmatterBlock(content);
+  const lines = (fm ? content.slice(fm.index + fm.length) : content).split('\n');
+
+  if (anchor.startsWith('^')) {
+    const block = blockLines(lines, anchor);
+    return block ? `${block.join('\n')}\n` : null;
+  }
+
+  const section = findSection(lines, anchor);
+  if (!section) return null;
+  let end = section.end;
+  while (end > section.start && lines[end - 1].trim() === '') end--;
+  return `${lines.slice(section.heading.line, end).join('\n')}\n`;
+}
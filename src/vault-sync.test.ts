@@ -0,0 +1,163 @@
+#!/usr/bin/env tsx
+/**
+ * Vault sync conflict tests — sync bases, three-way diff, resolution.
+ *
+ * Runs against a throwaway vault with temp VAULT_SYNC_DIR / VAULT_JOURNAL_DIR
+ * and an in-memory backend stub: per-field change classification, merges with
+ * and without choices, status classification against the recorded base, and
+ * vault_resolve_sync_conflict's show / keep_local / keep_remote / merge paths,
+ * including a backend lookup that pages past the first 2000 registrations.
+ *
+ * Run:  npx tsx src/vault-sync.test.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+function write(vaultPath: string, rel: string, content: string): void {
+  const full = path.join(vaultPath, rel);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  fs.writeFileSync(full, content);
+}
+
+async function main() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "vault-sync-"));
+  const vaultPath = path.join(root, "vault");
+  process.env.VAULT_PATH = vaultPath;
+  process.env.VAULT_SYNC_DIR = path.join(root, "sync");
+  process.env.VAULT_JOURNAL_DIR = path.join(root, "journal");
+  process.env.PERSONAL_KOI_BACKEND_URL = "http://127.0.0.1:9";
+
+  const sync = await import("./vault-sync.js");
+  const { scanFile, checkSyncStatus } = await import("./vault-scanner.js");
+
+  console.log("Vault sync conflict tests:");
+  console.log("");
+
+  const diff = sync.diffProperties(
+    { role: "Engineer", city: "London", org: "Analytical" },
+    { role: "Mathematician", city: "London", org: "Analytical", email: "ada@example.org" },
+    { role: "Countess", city: "Paris", org: "Analytical", email: "ada@example.org" }
+  );
+  const changes = Object.fromEntries(diff.map((d: any) => [d.key, d.change]));
+  check("fields are classified against the base",
+    changes.role === "conflict" && changes.city === "remote" && changes.org === "unchanged" && changes.email === "both_same",
+    JSON.stringify(changes));
+
+  let mergeError = "";
+  try {
+    sync.mergeProperties(diff);
+  } catch (e: any) {
+    mergeError = `${e.name}: ${e.message}`;
+  }
+  check("merging an unresolved conflict names the field",
+    mergeError === "SyncMergeError: Choose local, remote or base for conflicting field(s): role", mergeError);
+
+  const merged = sync.mergeProperties(diff, { role: "base" });
+  check("merge takes one-sided changes and the chosen side",
+    JSON.stringify(merged) === JSON.stringify({ role: "Engineer", city: "Paris", org: "Analytical", email: "ada@example.org" }),
+    JSON.stringify(merged));
+
+  check("koi block is not a synced property",
+    JSON.stringify(sync.syncProperties({ name: "Ada", koi: { rid: "x" } })) === '{"name":"Ada"}');
+
+  // An entity registered at `base`, then edited on each side.
+  const note = "People/Ada Lovelace.md";
+  write(vaultPath, note, "---\n\"@type\": Person\nrole: Engineer\ncity: London\n---\nFirst programmer.\n");
+  const base = scanFile(vaultPath, "vault", note)!;
+  await sync.recordSyncBase(vaultPath, base.rid, { path: note, hash: base.contentHash, properties: base.frontmatter });
+  const bases = await sync.loadSyncBases(vaultPath);
+  check("sync base is recorded per RID", bases.get(base.rid)?.hash === base.contentHash && bases.get(base.rid)?.properties.role === "Engineer");
+
+  const statusOf = (local: any, remoteHash: string) =>
+    checkSyncStatus([local], new Map([[local.rid, { canonical_uri: "orn:person:ada", content_hash: remoteHash }]]), bases)[0].status;
+  check("backend change alone is remote_changed", statusOf(base, "sha256:remote") === "remote_changed");
+
+  write(vaultPath, note, "---\n\"@type\": Person\nrole: Mathematician\ncity: London\n---\nFirst programmer.\n");
+  const edited = scanFile(vaultPath, "vault", note)!;
+  check("local change alone stays pending", statusOf({ ...edited, existingKoi: { sync_status: "linked" } }, base.contentHash) === "pending_sync");
+  check("changes on both sides are a conflict", statusOf(edited, "sha256:remote") === "conflict");
+
+  const registered: any[] = [];
+  const remote = { "@type": "Person", role: "Countess", city: "Paris" };
+  const backend: any = {
+    getVaultEntities: async () => ({
+      entities: [{ vault_rid: base.rid, canonical_uri: "orn:person:ada", content_hash: "sha256:remote", properties: remote }],
+      total: 1,
+    }),
+    getEntity: async () => { throw new Error("not needed"); },
+    registerEntity: async (req: any) => {
+      registered.push(req);
+      return { success: true, canonical_uri: "orn:person:ada", is_new: false };
+    },
+  };
+
+  const shown = await sync.resolveSyncConflict(vaultPath, "vault", "People/Ada Lovelace", { backend });
+  const shownText = sync.formatSyncConflictReport(shown);
+  check("show reports the conflict without changing anything",
+    shown.status === "conflict" && !shown.applied && registered.length === 0 &&
+      shownText.includes('| role | `"Engineer"` | `"Mathematician"` | `"Countess"` | conflict |'),
+    shownText);
+
+  let rejected = "";
+  await sync.resolveSyncConflict(vaultPath, "vault", note, { resolution: "merge", backend }).catch((e: any) => { rejected = e.name; });
+  check("merge without a choice for a conflict is rejected", rejected === "SyncMergeError" && registered.length === 0);
+
+  const mergedReport = await sync.resolveSyncConflict(vaultPath, "vault", note, { resolution: "merge", fields: { role: "local" }, backend });
+  const text = fs.readFileSync(path.join(vaultPath, note), "utf-8");
+  const after = scanFile(vaultPath, "vault", note)!;
+  check("merge rewrites the frontmatter and keeps the body",
+    mergedReport.applied && /role: Mathematician/.test(text) && /city: Paris/.test(text) &&
+      /sync_status: linked/.test(text) && text.endsWith("First programmer.\n"),
+    text);
+  check("merge registers the new note and records it as the base",
+    registered[0]?.content_hash === after.contentHash &&
+      (await sync.loadSyncBases(vaultPath)).get(base.rid)?.properties.city === "Paris");
+
+  const kept = await sync.resolveSyncConflict(vaultPath, "vault", note, { resolution: "keep_local", backend });
+  check("keep_local pushes the note unchanged",
+    kept.applied && registered[1]?.properties.role === "Mathematician" && fs.readFileSync(path.join(vaultPath, note), "utf-8") === text);
+
+  await sync.resolveSyncConflict(vaultPath, "vault", note, { resolution: "keep_remote", backend });
+  check("keep_remote writes the backend properties",
+    /role: Countess/.test(fs.readFileSync(path.join(vaultPath, note), "utf-8")));
+
+  const all = Array.from({ length: 2500 }, (_, i) => ({ vault_rid: `orn:obsidian.entity:vault/Person/p${i}`, canonical_uri: `orn:person:p${i}` }));
+  all[2300] = { vault_rid: base.rid, canonical_uri: "orn:person:ada", content_hash: "sha256:remote", properties: remote } as any;
+  const offsets: number[] = [];
+  const paged: any = {
+    ...backend,
+    getVaultEntities: async ({ limit, offset = 0 }: any) => {
+      offsets.push(offset);
+      return { entities: all.slice(offset, offset + limit), count: all.length, limit, offset };
+    },
+  };
+  const found = await sync.resolveSyncConflict(vaultPath, "vault", note, { backend: paged });
+  check("the backend entity is found past the first 2000 registrations",
+    found.rid === base.rid && found.remoteAvailable && offsets.at(-1)! >= 2000, offsets.join());
+
+  fs.rmSync(root, { recursive: true, force: true });
+
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,366 @@
+/**
+ * Vault Entity Sync Bases
+ *
+ * Three-way sync state for entity notes. Each successful registration records
+ * the base: the content hash and frontmatter properties both sides agreed on.
+ * Comparing the vault note and the backend entity against that base tells a
+ * local edit (pending_sync) from a remote one (remote_changed) from both
+ * (conflict), and gives the field-by-field diff used to resolve a conflict.
+ *
+ * Bases live at ~/.koi/vault-sync/<vault-hash>.json (VAULT_SYNC_DIR
+ * overrides the directory), keyed by entity RID.
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import YAML from 'yaml';
+import type { BackendClient, VaultEntityMapping } from './backend-client.js';
+import { applyFrontmatterBlock } from './frontmatter.js';
+import { vaultKey } from './vault-index.js';
+import { commitVaultWrite } from './vault-journal.js';
+import { checkSyncStatus, scanFile, type SyncStatus } from './vault-scanner.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SyncBase {
+  /** Vault-relative note path at the last sync */
+  path: string;
+
+  /** Note content hash registered with the backend */
+  hash: string;
+
+  /** Frontmatter properties at the last sync (without the `koi` block) */
+  properties: Record<string, unknown>;
+
+  /** ISO timestamp of the last sync */
+  syncedAt: string;
+}
+
+export type FieldChange = 'unchanged' | 'local' | 'remote' | 'both_same' | 'conflict';
+
+export interface FieldDiff {
+  key: string;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+  change: FieldChange;
+}
+
+export type FieldChoice = 'local' | 'remote' | 'base';
+
+export type SyncResolution = 'show' | 'keep_local' | 'keep_remote' | 'merge';
+
+export const SYNC_RESOLUTIONS: SyncResolution[] = ['show', 'keep_local', 'keep_remote', 'merge'];
+
+export interface SyncConflictReport {
+  path: string;
+  rid: string;
+
+  /** Status before resolving (checkSyncStatus with the recorded base) */
+  status: SyncStatus['status'];
+
+  /** When the recorded base was synced (absent: no base, so the diff is two-way) */
+  baseSyncedAt?: string;
+
+  /** Property diff; empty when the backend returned no properties */
+  diff: FieldDiff[];
+
+  remoteAvailable: boolean;
+  resolution: SyncResolution;
+
+  /** Whether the note or the backend entity was changed */
+  applied: boolean;
+
+  /** Journal id of the note rewrite, if the note changed */
+  journalId?: string;
+}
+
+type SyncBackend = Pick<BackendClient, 'getVaultEntities' | 'getEntity' | 'registerEntity'>;
+
+export class SyncMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncMergeError';
+  }
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+function syncFile(vaultPath: string): string {
+  const dir = process.env.VAULT_SYNC_DIR || path.join(os.homedir(), '.koi', 'vault-sync');
+  return path.join(dir, `${vaultKey(vaultPath)}.json`);
+}
+
+/**
+ * Every recorded base for a vault, by RID.
+ */
+export async function loadSyncBases(vaultPath: string): Promise<Map<string, SyncBase>> {
+  try {
+    const raw = await fs.readFile(syncFile(vaultPath), 'utf-8');
+    return new Map(Object.entries(JSON.parse(raw) as Record<string, SyncBase>));
+  } catch {
+    return new Map();
+  }
+}
+
+/**
+ * Record what was just registered for `rid` as its new sync base.
+ */
+export async function recordSyncBase(
+  vaultPath: string,
+  rid: string,
+  base: { path: string; hash: string; properties: Record<string, unknown> }
+): Promise<void> {
+  const bases = await loadSyncBases(vaultPath);
+  bases.set(rid, {
+    path: base.path,
+    hash: base.hash,
+    properties: syncProperties(base.properties),
+    syncedAt: new Date().toISOString(),
+  });
+  const file = syncFile(vaultPath);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmpPath = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(Object.fromEntries(bases), null, 2), 'utf-8');
+  await fs.rename(tmpPath, file);
+}
+
+// =============================================================================
+// Three-way diff
+// =============================================================================
+
+/**
+ * The properties that sync compares: frontmatter minus the `koi` block, which
+ * records sync state rather than entity data.
+ */
+export function syncProperties(frontmatter: Record<string, unknown> | null | undefined): Record<string, unknown> {
+  const { koi: _koi, ...rest } = frontmatter ?? {};
+  return rest;
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Per-key comparison of the local and remote properties against the base.
+ */
+export function diffProperties(
+  base: Record<string, unknown>,
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>
+): FieldDiff[] {
+  const keys = [...new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)])];
+  return keys.map(key => {
+    const b = base[key];
+    const l = local[key];
+    const r = remote[key];
+    const localChanged = !same(l, b);
+    const remoteChanged = !same(r, b);
+    let change: FieldChange = 'unchanged';
+    if (localChanged && remoteChanged) change = same(l, r) ? 'both_same' : 'conflict';
+    else if (localChanged) change = 'local';
+    else if (remoteChanged) change = 'remote';
+    return { key, base: b, local: l, remote: r, change };
+  });
+}
+
+/**
+ * Merge field by field: one-sided changes are taken as-is, conflicting keys
+ * take the side named in `choices` (a missing choice is an error). A key
+ * whose chosen value is undefined is dropped.
+ */
+export function mergeProperties(
+  diff: FieldDiff[],
+  choices: Record<string, FieldChoice> = {}
+): Record<string, unknown> {
+  const unresolved = diff.filter(d => d.change === 'conflict' && !choices[d.key]).map(d => d.key);
+  if (unresolved.length > 0) {
+    throw new SyncMergeError(`Choose local, remote or base for conflicting field(s): ${unresolved.join(', ')}`);
+  }
+  const merged: Record<string, unknown> = {};
+  for (const d of diff) {
+    const choice: FieldChoice = choices[d.key] ?? (d.change === 'remote' ? 'remote' : 'local');
+    const value = d[choice];
+    if (value !== undefined) merged[d.key] = value;
+  }
+  return merged;
+}
+
+function show(value: unknown): string {
+  if (value === undefined) return '_(absent)_';
+  return `\`${JSON.stringify(value).replace(/\|/g, '\\|')}\``;
+}
+
+/**
+ * Markdown table of the changed fields (unchanged keys are counted, not listed).
+ */
+export function formatPropertyDiff(diff: FieldDiff[]): string {
+  const changed = diff.filter(d => d.change !== 'unchanged');
+  if (changed.length === 0) return 'No property differences.';
+  const lines = [
+    '| Field | Base | Local | Remote | Change |',
+    '|---|---|---|---|---|',
+    ...changed.map(d => `| ${d.key} | ${show(d.base)} | ${show(d.local)} | ${show(d.remote)} | ${d.change} |`),
+  ];
+  const unchanged = diff.length - changed.length;
+  if (unchanged > 0) lines.push('', `${unchanged} unchanged field(s) not shown.`);
+  return lines.join('\n');
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+const VAULT_ENTITY_PAGE = 500;
+
+/**
+ * The backend's mapping for a vault RID, paging through /vault-entities
+ * until it turns up (the backend has no lookup by vault RID).
+ */
+export async function findVaultEntity(
+  backend: Pick<BackendClient, 'getVaultEntities'>,
+  rid: string
+): Promise<VaultEntityMapping | undefined> {
+  for (let offset = 0; ; offset += VAULT_ENTITY_PAGE) {
+    const { entities } = await backend.getVaultEntities({ limit: VAULT_ENTITY_PAGE, offset });
+    const mapping = entities.find(e => e.vault_rid === rid);
+    if (mapping) return mapping;
+    if (entities.length < VAULT_ENTITY_PAGE) return undefined;
+  }
+}
+
+/**
+ * Compare a vault entity note with its backend entity against the recorded
+ * base and, unless `resolution` is 'show', settle it: keep_local pushes the
+ * note's properties, keep_remote writes the backend's properties into the
+ * note, and merge combines them field by field (`fields` picks the side for
+ * each conflicting key). The note body is never changed, and the result is
+ * registered and recorded as the new base.
+ */
+export async function resolveSyncConflict(
+  vaultPath: string,
+  vaultName: string,
+  notePath: string,
+  options: { resolution?: SyncResolution; fields?: Record<string, FieldChoice>; backend: SyncBackend }
+): Promise<SyncConflictReport> {
+  const resolution = options.resolution ?? 'show';
+  if (!SYNC_RESOLUTIONS.includes(resolution)) {
+    throw new SyncMergeError(`Unknown resolution: ${resolution} (expected one of ${SYNC_RESOLUTIONS.join(', ')})`);
+  }
+  const relPath = notePath.endsWith('.md') ? notePath : `${notePath}.md`;
+  const entity = scanFile(vaultPath, vaultName, relPath);
+  if (!entity) throw new Error(`Note not found: ${relPath}`);
+
+  const mapping = await findVaultEntity(options.backend, entity.rid);
+  if (!mapping) throw new Error(`${relPath} is not registered with the backend (RID ${entity.rid})`);
+
+  let remote: Record<string, unknown> | null = mapping.properties ?? null;
+  if (!remote) {
+    const detail = await options.backend.getEntity(mapping.canonical_uri).catch(() => null);
+    remote = detail?.entity.metadata?.properties ?? null;
+  }
+
+  const bases = await loadSyncBases(vaultPath);
+  const base = bases.get(entity.rid);
+  const [status] = checkSyncStatus(
+    [entity],
+    new Map([[entity.rid, { canonical_uri: mapping.canonical_uri, content_hash: mapping.content_hash }]]),
+    bases
+  );
+  const local = syncProperties(entity.frontmatter);
+  const diff = remote ? diffProperties(base?.properties ?? {}, local, syncProperties(remote)) : [];
+
+  const report: SyncConflictReport = {
+    path: relPath,
+    rid: entity.rid,
+    status: status.status,
+    baseSyncedAt: base?.syncedAt,
+    diff,
+    remoteAvailable: remote !== null,
+    resolution,
+    applied: false,
+  };
+  if (resolution === 'show') return report;
+
+  const register = async (properties: Record<string, unknown>, hash: string) => {
+    await options.backend.registerEntity({
+      vault_rid: entity.rid,
+      vault_path: relPath,
+      entity_type: entity.entityType,
+      name: entity.name,
+      properties,
+      content_hash: hash,
+    });
+    await recordSyncBase(vaultPath, entity.rid, { path: relPath, hash, properties });
+  };
+
+  if (resolution === 'keep_local') {
+    await register(entity.frontmatter, entity.contentHash);
+    report.applied = true;
+    return report;
+  }
+
+  if (!remote) {
+    throw new SyncMergeError('The backend returned no properties for this entity; only keep_local is possible');
+  }
+  const properties = resolution === 'keep_remote' ? syncProperties(remote) : mergeProperties(diff, options.fields);
+  const frontmatter = {
+    ...properties,
+    koi: {
+      ...(entity.existingKoi ?? {}),
+      rid: entity.rid,
+      canonical_uri: mapping.canonical_uri,
+      sync_status: 'linked',
+      last_synced: new Date().toISOString(),
+    },
+  };
+
+  const content = await fs.readFile(entity.absolutePath, 'utf-8');
+  const block = `---\n${YAML.stringify(frontmatter, { lineWidth: 0 })}---\n`;
+  const updated = applyFrontmatterBlock(content, block, { separator: '\n' }).text;
+  const { entry, contentHash } = await commitVaultWrite(vaultPath, entity.absolutePath, updated, {
+    expectedHash: entity.contentHash,
+    source: 'vault_resolve_sync_conflict',
+  });
+  await register(frontmatter, contentHash);
+  report.applied = true;
+  report.journalId = entry.id;
+  return report;
+}
+
+/**
+ * Markdown report: status, the three-way property table and what was done.
+ */
+export function formatSyncConflictReport(report: SyncConflictReport): string {
+  const lines = [
+    `# Sync Conflict: ${report.path}`,
+    '',
+    `**RID:** \`${report.rid}\``,
+    `**Status:** ${report.status}`,
+    `**Base:** ${report.baseSyncedAt ? `last synced ${report.baseSyncedAt}` : 'none recorded (two-way comparison)'}`,
+    '',
+    '## Properties',
+    '',
+    report.remoteAvailable ? formatPropertyDiff(report.diff) : 'The backend returned no properties for this entity.',
+  ];
+  const conflicts = report.diff.filter(d => d.change === 'conflict').map(d => d.key);
+
+  lines.push('');
+  if (report.resolution === 'show') {
+    lines.push(conflicts.length > 0
+      ? `Conflicting fields: ${conflicts.join(', ')}. Resolve with resolution=keep_local, keep_remote, or merge (fields: {"${conflicts[0]}": "local"|"remote"|"base"}).`
+      : 'No conflicting fields; resolution=merge takes each side\'s changes.');
+  } else if (report.resolution === 'keep_local') {
+    lines.push('**Resolved:** kept the vault note and pushed it to the backend.');
+  } else {
+    const what = report.resolution === 'keep_remote' ? 'wrote the backend properties into the note' : 'merged the properties into the note';
+    lines.push(`**Resolved:** ${what} and re-registered it (journal id \`${report.journalId}\`).`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,116 @@
+#!/usr/bin/env tsx
+/**
+ * Vault tag index tests — nested tags, counts, tag expressions, read output.
+ *
+ * Indexes a throwaway vault into a temp VAULT_INDEX_DIR: frontmatter and
+ * inline tags folded case-insensitively, parent tags counting nested ones,
+ * AND/OR/NOT expressions with and without descendant matching, and the tags
+ * item vault_read_note appends.
+ *
+ * Run:  npx tsx src/vault-tags.test.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+function write(vaultPath: string, rel: string, content: string): void {
+  const full = path.join(vaultPath, rel);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  fs.writeFileSync(full, content);
+}
+
+async function main() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "vault-tags-"));
+  const vaultPath = path.join(root, "vault");
+  process.env.VAULT_PATH = vaultPath;
+  process.env.VAULT_INDEX_DIR = path.join(root, "index");
+
+  write(vaultPath, "Projects/Herring.md", "---\ntags: [project/herring, grant]\n---\nKickoff #Meeting\n");
+  write(vaultPath, "Projects/Kelp.md", "---\ntags: project/kelp\n---\nNotes #draft\n");
+  write(vaultPath, "Meetings/Standup.md", "Daily #meeting and #project\n\n```\n#notatag\n```\n");
+  write(vaultPath, "Meetings/Call.md", "#call #project/herring/permits\n");
+  write(vaultPath, "Inbox.md", "No tags here.\n");
+
+  const { getTagIndex, formatTagList, parseTagExpression } = await import("./vault-tags.js");
+  const { handleKoiApiTool } = await import("./koi-api-tools.js");
+
+  console.log("Vault tag index tests:");
+  console.log("");
+
+  const tags = await getTagIndex();
+  const list = tags.list();
+  const byTag = new Map(list.map((t: any) => [t.tag.toLowerCase(), t]));
+  check("parent tag counts nested tags",
+    byTag.get("project")?.count === 1 && byTag.get("project")?.total === 4,
+    JSON.stringify(byTag.get("project")));
+  check("intermediate tag counts its subtree",
+    byTag.get("project/herring")?.count === 1 && byTag.get("project/herring")?.total === 2);
+  check("inline and frontmatter tags fold case-insensitively", byTag.get("meeting")?.count === 2);
+  check("tags inside code fences are ignored", !byTag.has("notatag"));
+  check("children sort right after their parent",
+    list.map((t: any) => t.tag).join() === "call,draft,grant,meeting,project,project/herring,project/herring/permits,project/kelp",
+    list.map((t: any) => t.tag).join());
+  check("prefix lists one subtree",
+    tags.list({ prefix: "#project/herring" }).map((t: any) => t.tag).join() === "project/herring,project/herring/permits");
+
+  check("tag matches nested tags by default",
+    tags.match("#project/herring").join() === "Meetings/Call.md,Projects/Herring.md");
+  check("include_descendants=false matches the exact tag only",
+    tags.match("project", false).join() === "Meetings/Standup.md");
+  check("AND / OR / NOT with parentheses",
+    tags.match("project AND (meeting OR call) AND NOT project/herring").join() === "Meetings/Standup.md",
+    tags.match("project AND (meeting OR call) AND NOT project/herring").join());
+  check("adjacent tags AND, -tag negates",
+    tags.match("project -draft grant").join() === "Projects/Herring.md");
+
+  const errors: string[] = [];
+  for (const bad of ["", "project AND", "(meeting OR call", "OR draft", "meeting)"]) {
+    try {
+      parseTagExpression(bad);
+      errors.push(`${bad}: no error`);
+    } catch (e: any) {
+      if (e.name !== "TagExpressionError") errors.push(`${bad}: ${e.name}`);
+    }
+  }
+  check("malformed expressions raise TagExpressionError", errors.length === 0, errors.join("; "));
+
+  const tree = formatTagList(tags.list({ prefix: "project" }));
+  check("markdown tree indents nested tags",
+    tree.startsWith("- #project: 1 (4 with nested)\n  - #project/herring: 1 (2 with nested)\n    - #project/herring/permits: 1"), tree);
+
+  const read = await handleKoiApiTool("vault_read_note", { path: "Projects/Herring.md" });
+  check("vault_read_note returns the note's tags",
+    read.content[1]?.text === "tags: #project/herring, #grant, #Meeting", JSON.stringify(read.content));
+  const untagged = await handleKoiApiTool("vault_read_note", { path: "Inbox.md" });
+  check("untagged note has no tags item", untagged.content.length === 1);
+
+  const byTool = await handleKoiApiTool("vault_notes_by_tag", { tag: "meeting OR call", limit: 2 });
+  check("vault_notes_by_tag lists matches with a limit",
+    byTool.content[0].text === "3 note(s) match meeting OR call:\n- Meetings/Call.md\n- Meetings/Standup.md\n... 1 more",
+    byTool.content[0].text);
+
+  fs.rmSync(root, { recursive: true, force: true });
+
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,240 @@
+/**
+ * Vault Tag Index
+ *
+ * Tags from frontmatter `tags` and inline `#tag/subtag` (both recorded by the
+ * vault index), folded case-insensitively into a hierarchy: a note tagged
+ * `#project/herring` also counts toward `project`. Backs vault_list_tags and
+ * vault_notes_by_tag, whose tag expressions combine tags with AND, OR, NOT
+ * and parentheses (`project/herring AND (meeting OR call) AND NOT draft`).
+ */
+
+import { getVaultIndex, indexNoteContent, VaultIndexEntry } from './vault-index.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TagInfo {
+  /** Tag as first seen in the vault (case preserved), without # */
+  tag: string;
+
+  /** Notes tagged with exactly this tag */
+  count: number;
+
+  /** Notes tagged with this tag or any descendant */
+  total: number;
+
+  /** Nesting depth (0 for top-level tags) */
+  depth: number;
+}
+
+export class TagExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TagExpressionError';
+  }
+}
+
+type TagExpr =
+  | { kind: 'tag'; tag: string }
+  | { kind: 'and' | 'or'; left: TagExpr; right: TagExpr }
+  | { kind: 'not'; expr: TagExpr };
+
+// =============================================================================
+// Index
+// =============================================================================
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').replace(/\/+$/, '').toLowerCase();
+}
+
+/** `a/b/c` -> [`a`, `a/b`, `a/b/c`] */
+function withAncestors(tag: string): string[] {
+  const parts = tag.split('/');
+  return parts.map((_, i) => parts.slice(0, i + 1).join('/'));
+}
+
+export class TagIndex {
+  /** normalized tag -> paths tagged with exactly it */
+  private direct = new Map<string, Set<string>>();
+  /** normalized tag -> paths tagged with it or a descendant */
+  private inclusive = new Map<string, Set<string>>();
+  private display = new Map<string, string>();
+  private allPaths: string[] = [];
+
+  constructor(entries: VaultIndexEntry[]) {
+    for (const entry of entries) {
+      const notePath = entry.path.replace(/\\/g, '/');
+      this.allPaths.push(notePath);
+      for (const raw of entry.tags) {
+        const tag = normalizeTag(raw);
+        if (!tag) continue;
+        if (!this.direct.has(tag)) this.direct.set(tag, new Set());
+        this.direct.get(tag)!.add(notePath);
+
+        const rawParts = raw.replace(/^#/, '').split('/');
+        for (const ancestor of withAncestors(tag)) {
+          if (!this.inclusive.has(ancestor)) this.inclusive.set(ancestor, new Set());
+          this.inclusive.get(ancestor)!.add(notePath);
+          if (!this.display.has(ancestor)) {
+            this.display.set(ancestor, rawParts.slice(0, ancestor.split('/').length).join('/'));
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Tags (including parents that only appear as prefixes of nested tags),
+   * sorted so children follow their parent. `prefix` limits the listing to
+   * one subtree.
+   */
+  list(options: { prefix?: string; minCount?: number } = {}): TagInfo[] {
+    const prefix = options.prefix ? normalizeTag(options.prefix) : '';
+    const minCount = options.minCount ?? 1;
+    return [...this.inclusive.keys()]
+      .filter(tag => !prefix || tag === prefix || tag.startsWith(`${prefix}/`))
+      .map(tag => ({
+        tag: this.display.get(tag) || tag,
+        count: this.direct.get(tag)?.size ?? 0,
+        total: this.inclusive.get(tag)!.size,
+        depth: tag.split('/').length - 1,
+      }))
+      .filter(info => info.total >= minCount)
+      .sort((a, b) => {
+        // Compare segment-wise so `a/b` sorts right after `a`, before `a-c`
+        const x = a.tag.toLowerCase().split('/');
+        const y = b.tag.toLowerCase().split('/');
+        for (let i = 0; i < Math.min(x.length, y.length); i++) {
+          if (x[i] !== y[i]) return x[i] < y[i] ? -1 : 1;
+        }
+        return x.length - y.length;
+      });
+  }
+
+  /** Paths tagged with `tag` (and, by default, its descendants). */
+  notesWith(tag: string, includeDescendants = true): Set<string> {
+    const key = normalizeTag(tag);
+    return (includeDescendants ? this.inclusive : this.direct).get(key) ?? new Set();
+  }
+
+  /** Paths matching a tag expression. */
+  match(expression: string, includeDescendants = true): string[] {
+    const expr = parseTagExpression(expression);
+    const all = new Set(this.allPaths);
+    const evaluate = (e: TagExpr): Set<string> => {
+      switch (e.kind) {
+        case 'tag':
+          return this.notesWith(e.tag, includeDescendants);
+        case 'not': {
+          const excluded = evaluate(e.expr);
+          return new Set([...all].filter(p => !excluded.has(p)));
+        }
+        case 'and': {
+          const right = evaluate(e.right);
+          return new Set([...evaluate(e.left)].filter(p => right.has(p)));
+        }
+        case 'or':
+          return new Set([...evaluate(e.left), ...evaluate(e.right)]);
+      }
+    };
+    return [...evaluate(expr)].sort();
+  }
+}
+
+/**
+ * Tag index over the (fresh) vault index.
+ */
+export async function getTagIndex(vaultPath?: string): Promise<TagIndex> {
+  const index = await getVaultIndex(vaultPath);
+  return new TagIndex(index.all());
+}
+
+/**
+ * Tags of a single note's content (frontmatter plus inline), for reads that
+ * should not wait on an index refresh.
+ */
+export function noteTags(content: string): string[] {
+  return indexNoteContent('', content, { mtimeMs: 0, size: 0 }).tags;
+}
+
+/**
+ * Markdown tag tree: one line per tag, indented by depth, with the direct
+ * count and (when it differs) the total including nested tags.
+ */
+export function formatTagList(tags: TagInfo[]): string {
+  if (tags.length === 0) return 'No tags found.';
+  const minDepth = Math.min(...tags.map(t => t.depth));
+  return tags.map(t => {
+    const indent = '  '.repeat(t.depth - minDepth);
+    const counts = t.total === t.count ? `${t.count}` : `${t.count} (${t.total} with nested)`;
+    return `${indent}- #${t.tag}: ${counts}`;
+  }).join('\n');
+}
+
+// =============================================================================
+// Expressions
+// =============================================================================
+
+/**
+ * Parse `a AND (b OR c) AND NOT d`. Adjacent tags without an operator are
+ * ANDed, and a leading `-` negates a tag (`project -draft`).
+ */
+export function parseTagExpression(source: string): TagExpr {
+  const tokens = source.match(/\(|\)|-?#?[^\s()]+/g) ?? [];
+  let i = 0;
+
+  const peekWord = () => (tokens[i] ?? '').toUpperCase();
+
+  const parseOr = (): TagExpr => {
+    let left = parseAnd();
+    while (peekWord() === 'OR') {
+      i++;
+      left = { kind: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): TagExpr => {
+    let left = parseNot();
+    while (i < tokens.length && tokens[i] !== ')' && peekWord() !== 'OR') {
+      if (peekWord() === 'AND') i++;
+      left = { kind: 'and', left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): TagExpr => {
+    if (peekWord() === 'NOT') {
+      i++;
+      return { kind: 'not', expr: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): TagExpr => {
+    const token = tokens[i++];
+    if (token === undefined) throw new TagExpressionError(`Incomplete tag expression: "${source}"`);
+    if (token === '(') {
+      const inner = parseOr();
+      if (tokens[i++] !== ')') throw new TagExpressionError(`Missing ")" in tag expression: "${source}"`);
+      return inner;
+    }
+    if (token === ')' || ['AND', 'OR'].includes(token.toUpperCase())) {
+      throw new TagExpressionError(`Unexpected "${token}" in tag expression: "${source}"`);
+    }
+    if (token.startsWith('-')) {
+      const tag = normalizeTag(token.slice(1));
+      if (!tag) throw new TagExpressionError(`Empty tag in expression: "${source}"`);
+      return { kind: 'not', expr: { kind: 'tag', tag } };
+    }
+    const tag = normalizeTag(token);
+    if (!tag) throw new TagExpressionError(`Empty tag in expression: "${source}"`);
+    return { kind: 'tag', tag };
+  };
+
+  if (tokens.length === 0) throw new TagExpressionError('Empty tag expression');
+  const expr = parseOr();
+  if (i < tokens.length) throw new TagExpressionError(`Unexpected "${tokens[i]}" in tag expression: "${source}"`);
+  return expr;
+}
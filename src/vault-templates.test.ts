@@ -0,0 +1,121 @@
+#!/usr/bin/env tsx
+/**
+ * Entity note template tests — lookup, placeholders, fallback.
+ *
+ * Keeps templates in a throwaway vault: per-type lookup under
+ * Templates/Entities/ and VAULT_TEMPLATE_DIR, placeholders filled in
+ * frontmatter (quoted or not, YAML-unsafe names) and body, unknown
+ * placeholders left alone, template keys winning over generated ones, and
+ * the generic note when a type has no template.
+ *
+ * Run:  npx tsx src/vault-templates.test.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+function write(vaultPath: string, rel: string, content: string): void {
+  const full = path.join(vaultPath, rel);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  fs.writeFileSync(full, content);
+}
+
+async function main() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "vault-templates-"));
+  const vaultPath = path.join(root, "vault");
+  process.env.VAULT_PATH = vaultPath;
+  process.env.PERSONAL_KOI_BACKEND_URL = "http://127.0.0.1:9";
+  delete process.env.VAULT_TEMPLATE_DIR;
+
+  write(vaultPath, "Templates/Entities/Person.md", [
+    "---",
+    "\"@type\": Person",
+    "name: {{name}}",
+    "aliases: []",
+    "affiliation: \"\"",
+    "created: {{today}}",
+    "source: \"{{source}}\"",
+    "---",
+    "",
+    "# {{name}}",
+    "",
+    "## Role",
+    "",
+    "## Notes",
+    "{{context}}",
+    "Met via {{source}} on {{today}}. {{unknown}}",
+    "",
+  ].join("\n"));
+
+  const { renderEntityTemplate, buildEntityNote, entityTemplatePath } = await import("./vault-templates.js");
+
+  console.log("Entity note template tests:");
+  console.log("");
+
+  check("template path defaults to Templates/Entities/<Type>.md",
+    (await entityTemplatePath("schema:Person")) === "Templates/Entities/Person.md" &&
+      (await entityTemplatePath("organization")) === "Templates/Entities/Organization.md");
+
+  const vars = { name: "Ada: Countess #1", type: "schema:Person", source: "Meetings/2026-01-10 Kickoff.md", context: "Ran the analysis." };
+  const fallback = { frontmatter: { "@type": "schema:Person", name: "Ada: Countess #1", created: "2026-01-10T09:00:00.000Z", extra: 1 }, content: "# Ada\n\nRan the analysis." };
+  const note = await buildEntityNote(vaultPath, vars, fallback);
+  const today = new Date();
+  const ymd = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, "0")}-${String(today.getDate()).padStart(2, "0")}`;
+
+  check("template frontmatter is filled, unquoted placeholders included",
+    note.frontmatter.name === "Ada: Countess #1" && note.frontmatter.created === ymd &&
+      note.frontmatter.source === "[[Meetings/2026-01-10 Kickoff]]",
+    JSON.stringify(note.frontmatter));
+  check("template keys win; generated keys it lacks are kept",
+    note.frontmatter["@type"] === "Person" && note.frontmatter.extra === 1 &&
+      Object.keys(note.frontmatter).slice(0, 2).join() === "@type,name",
+    JSON.stringify(note.frontmatter));
+  check("body gets headings and filled placeholders",
+    note.content.startsWith("# Ada: Countess #1\n\n## Role\n\n## Notes\nRan the analysis.\n") &&
+      note.content.includes(`Met via [[Meetings/2026-01-10 Kickoff]] on ${ymd}.`),
+    note.content);
+  check("unknown placeholders are left as written", note.content.includes("{{unknown}}"));
+  check("the applied template is reported", note.template === "Templates/Entities/Person.md");
+
+  const plain = await buildEntityNote(vaultPath, { name: "Kelp", type: "Project" }, { frontmatter: { "@type": "schema:Project" }, content: "# Kelp\n" });
+  check("types without a template keep the generic note",
+    plain.template === undefined && plain.content === "# Kelp\n" && JSON.stringify(plain.frontmatter) === '{"@type":"schema:Project"}');
+
+  const bare = await renderEntityTemplate("Name: {{name}} in {{folder}}/\n", { name: "Salish Sea", type: "Location" });
+  check("template without frontmatter renders as body only",
+    JSON.stringify(bare.frontmatter) === "{}" && bare.body === "Name: Salish Sea in Locations/\n", JSON.stringify(bare));
+
+  write(vaultPath, "_tpl/Project.md", "---\nstatus: active\nstart: \"{{today}}\"\n---\n# {{name}}\n\n## Goals\n");
+  process.env.VAULT_TEMPLATE_DIR = "_tpl/";
+  const custom = await buildEntityNote(vaultPath, { name: "Kelp", type: "Project" }, { frontmatter: { "@type": "schema:Project" }, content: "# Kelp\n" });
+  check("VAULT_TEMPLATE_DIR moves the template folder",
+    custom.template === "_tpl/Project.md" && custom.frontmatter.status === "active" && custom.frontmatter.start === ymd &&
+      custom.content === "# Kelp\n\n## Goals\n",
+    JSON.stringify(custom));
+  delete process.env.VAULT_TEMPLATE_DIR;
+
+  fs.rmSync(root, { recursive: true, force: true });
+
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
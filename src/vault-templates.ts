@@ -0,0 +1,165 @@
+/**
+ * Entity Note Templates
+ *
+ * New entity notes (vault_process_extraction with createEntities,
+ * vault_register_entity with create_if_missing) start from a per-type
+ * markdown template kept in the vault: the type's `template` path from
+ * entity-schema.ts, else `<VAULT_TEMPLATE_DIR>/<TypeKey>.md` (default
+ * `Templates/Entities/`, which the vault index and search skip).
+ *
+ * A template is an ordinary note: a frontmatter skeleton and a body. These
+ * placeholders are filled in both; unknown ones are left as written:
+ *
+ *   {{name}}     entity name            {{type}}    entity type key
+ *   {{today}}    YYYY-MM-DD             {{now}}     ISO timestamp
+ *   {{source}}   [[note]] that produced the entity (empty if none)
+ *   {{context}}  extraction context     {{folder}}  entity folder
+ *
+ * Frontmatter placeholders are substituted after the YAML is parsed, so
+ * `name: {{name}}` works unquoted and a name containing `:` or `#` stays one
+ * string. Types without a template keep the generic frontmatter and body.
+ */
+
+import * as fs from 'fs/promises';
+import { findFrontmatterBlock } from './frontmatter.js';
+import { getSchemaForType, typeToFolder } from './entity-schema.js';
+import { safeResolve } from './vault.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TemplateVariables {
+  name: string;
+  type: string;
+
+  /** Vault-relative path of the note the entity came from */
+  source?: string;
+
+  context?: string;
+}
+
+export interface EntityNote {
+  frontmatter: Record<string, unknown>;
+  content: string;
+
+  /** Vault-relative template path, when one was applied */
+  template?: string;
+}
+
+// =============================================================================
+// Template lookup
+// =============================================================================
+
+const PLACEHOLDER_RE = /\{\{\s*(\w+)\s*\}\}/g;
+
+function templateDir(): string {
+  return (process.env.VAULT_TEMPLATE_DIR || 'Templates/Entities').replace(/\\/g, '/').replace(/\/+$/, '');
+}
+
+/**
+ * Vault-relative path of a type's template (whether or not it exists).
+ */
+export async function entityTemplatePath(typeKey: string): Promise<string> {
+  const norm = typeKey.replace(/^schema:/, '').trim();
+  const config = await getSchemaForType(norm);
+  if (config?.template) return config.template.endsWith('.md') ? config.template : `${config.template}.md`;
+  return `${templateDir()}/${config?.type_key ?? norm}.md`;
+}
+
+/**
+ * A type's template text, or null when the vault has none.
+ */
+export async function loadEntityTemplate(
+  vaultPath: string,
+  typeKey: string
+): Promise<{ path: string; text: string } | null> {
+  const relPath = await entityTemplatePath(typeKey);
+  try {
+    return { path: relPath, text: await fs.readFile(safeResolve(vaultPath, relPath), 'utf-8') };
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+function localDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+async function placeholderValues(vars: TemplateVariables, now: Date): Promise<Record<string, string>> {
+  return {
+    name: vars.name,
+    type: vars.type.replace(/^schema:/, ''),
+    today: localDate(now),
+    now: now.toISOString(),
+    source: vars.source ? `[[${vars.source.replace(/\.md$/, '')}]]` : '',
+    context: vars.context ?? '',
+    folder: await typeToFolder(vars.type),
+  };
+}
+
+function fillValue(value: unknown, fillString: (s: string) => string): unknown {
+  if (typeof value === 'string') return fillString(value);
+  if (Array.isArray(value)) return value.map(v => fillValue(v, fillString));
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fillValue(v, fillString)]));
+  }
+  return value;
+}
+
+/**
+ * Fill a template. Placeholders in the frontmatter are swapped for inert
+ * tokens before the YAML is parsed and restored in the parsed values.
+ */
+export async function renderEntityTemplate(
+  template: string,
+  vars: TemplateVariables,
+  now: Date = new Date()
+): Promise<{ frontmatter: Record<string, unknown>; body: string }> {
+  const values = await placeholderValues(vars, now);
+  const tokens: string[] = [];
+  const tokenized = template.replace(PLACEHOLDER_RE, (_match, key: string) => {
+    tokens.push(key);
+    return `koitpl${tokens.length - 1}x`;
+  });
+  const restore = (s: string) => s.replace(/koitpl(\d+)x/g, (match, i: string) => {
+    const key = tokens[Number(i)];
+    return key === undefined ? match : values[key] ?? `{{${key}}}`;
+  });
+
+  const block = findFrontmatterBlock(tokenized);
+  if (!block) return { frontmatter: {}, body: restore(tokenized) };
+  return {
+    frontmatter: fillValue(block.data, restore) as Record<string, unknown>,
+    body: restore(tokenized.slice(block.index + block.length)),
+  };
+}
+
+/**
+ * The frontmatter and body for a new entity note: the type's template when
+ * the vault has one (its keys take precedence over `fallback.frontmatter`,
+ * whose other keys are kept), else `fallback` unchanged.
+ */
+export async function buildEntityNote(
+  vaultPath: string,
+  vars: TemplateVariables,
+  fallback: { frontmatter: Record<string, unknown>; content: string }
+): Promise<EntityNote> {
+  const template = await loadEntityTemplate(vaultPath, vars.type);
+  if (!template) return { ...fallback };
+  const rendered = await renderEntityTemplate(template.text, vars);
+  const frontmatter = { ...rendered.frontmatter };
+  for (const [key, value] of Object.entries(fallback.frontmatter)) {
+    if (!(key in frontmatter)) frontmatter[key] = value;
+  }
+  return {
+    frontmatter,
+    content: rendered.body.replace(/^\r?\n/, ''),
+    template: template.path,
+  };
+}
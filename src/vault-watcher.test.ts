@@ -0,0 +1,157 @@
+#!/usr/bin/env tsx
+/**
+ * Vault watcher tests — incremental entity / backlink indexes and sync queue.
+ *
+ * Builds a throwaway vault, starts a VaultWatcher on it with a recording
+ * register hook, then creates, edits, renames and deletes notes and checks
+ * that buildEntityIndex / findBacklinks (served from the watcher), the
+ * registration queue and the recorded sync bases follow along, and that an
+ * edit is held back when the backend changed since the sync base.
+ *
+ * Run:  npx tsx src/vault-watcher.test.ts
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let pass = 0;
+let fail = 0;
+
+function check(name: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    pass++;
+    console.log(`  PASS  ${name}`);
+  } else {
+    fail++;
+    console.log(`  FAIL  ${name}${detail ? `  (${detail})` : ""}`);
+  }
+}
+
+function write(vaultPath: string, rel: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(vaultPath, rel)), { recursive: true });
+  fs.writeFileSync(path.join(vaultPath, rel), content);
+}
+
+async function settle(watcher: { flush(): Promise<void> }): Promise<void> {
+  // Give fs.watch time to deliver events, then apply them
+  await new Promise((r) => setTimeout(r, 150));
+  await watcher.flush();
+}
+
+async function main() {
+  const vaultPath = fs.mkdtempSync(path.join(os.tmpdir(), "vault-watch-"));
+  // Keep the schema lookup offline: no config file, unreachable backend -> defaults
+  process.env.HOME = vaultPath;
+  process.env.PERSONAL_KOI_BACKEND_URL = "http://127.0.0.1:9";
+  process.env.VAULT_PATH = vaultPath;
+  const syncDir = fs.mkdtempSync(path.join(os.tmpdir(), "vault-watch-sync-"));
+  process.env.VAULT_SYNC_DIR = syncDir;
+
+  write(vaultPath, "People/Ada Lovelace.md", "---\naliases: [Ada]\n---\nWorks with [[Charles Babbage]].\n");
+  write(vaultPath, "Organizations/Analytical Society.md", "Founded by [[Charles Babbage|Babbage]].\n");
+  write(vaultPath, "Daily/2026-10-01.md", "Met [[People/Ada Lovelace]] today.\n");
+  write(vaultPath, ".obsidian/ignored.md", "[[Ada Lovelace]]\n");
+
+  const vault = await import("./vault.js");
+  const { VaultWatcher } = await import("./vault-watcher.js");
+  const { loadSyncBases } = await import("./vault-sync.js");
+
+  const registered: string[] = [];
+  const remoteHashes = new Map<string, string>();
+  const watcher = new VaultWatcher({
+    vaultPath,
+    debounceMs: 20,
+    register: async (entity) => {
+      registered.push(entity.relativePath);
+    },
+    remoteHash: async (rid) => remoteHashes.get(rid),
+  });
+  await watcher.start();
+  vault.setVaultIndexProvider(watcher);
+
+  console.log("Vault watcher tests:");
+  console.log("");
+
+  let entities = await vault.buildEntityIndex();
+  check("initial scan indexes entity notes", entities.length === 2, String(entities.length));
+  check("aliases come from frontmatter",
+    entities.find((e) => e.name === "Ada Lovelace")?.aliases.join() === "Ada");
+
+  let backlinks = await vault.findBacklinks("Ada Lovelace", { fuzzy: false });
+  check("backlinks resolve path-style links", backlinks.map((b) => b.name).join() === "2026-10-01");
+  check("excluded folders are not indexed", !backlinks.some((b) => b.path.includes(".obsidian")));
+  check("initial scan queues nothing", watcher.status().queuedForSync === 0 && registered.length === 0);
+
+  write(vaultPath, "People/Grace Hopper.md", "Admired [[Ada Lovelace]].\n");
+  await settle(watcher);
+  entities = await vault.buildEntityIndex();
+  check("created entity note is indexed", entities.some((e) => e.name === "Grace Hopper"));
+  backlinks = await vault.findBacklinks("Ada Lovelace", { fuzzy: false });
+  check("created note adds a backlink", backlinks.some((b) => b.name === "Grace Hopper"));
+  check("created entity note is registered", registered.includes(path.join("People", "Grace Hopper.md")));
+
+  registered.length = 0;
+  write(vaultPath, "People/Ada Lovelace.md", "---\naliases: [Ada, Countess]\n---\nNo links now.\n");
+  await settle(watcher);
+  entities = await vault.buildEntityIndex();
+  check("edited aliases are picked up",
+    entities.find((e) => e.name === "Ada Lovelace")?.aliases.join() === "Ada,Countess");
+  backlinks = await vault.findBacklinks("Charles Babbage", { fuzzy: false });
+  check("edit drops removed links", backlinks.map((b) => b.name).join() === "Analytical Society");
+  check("edited entity note is re-registered", registered.join() === path.join("People", "Ada Lovelace.md"));
+  const adaBase = [...(await loadSyncBases(vaultPath))].find(([, b]) => b.path === path.join("People", "Ada Lovelace.md"));
+  const base = adaBase?.[1];
+  check("registration records the sync base",
+    (base?.properties.aliases as string[] | undefined)?.join() === "Ada,Countess", JSON.stringify(base));
+
+  registered.length = 0;
+  remoteHashes.set(adaBase![0], "edited-in-backend");
+  write(vaultPath, "People/Ada Lovelace.md", "---\naliases: [Ada, Countess, Enchantress]\n---\nNo links now.\n");
+  await settle(watcher);
+  const afterConflict = (await loadSyncBases(vaultPath)).get(adaBase![0]);
+  check("a note whose backend entity changed is held back, not pushed",
+    registered.length === 0 &&
+      JSON.stringify(watcher.status().heldBack) === JSON.stringify([{ path: path.join("People", "Ada Lovelace.md"), status: "conflict" }]),
+    JSON.stringify(watcher.status().heldBack));
+  check("a held-back note keeps its old sync base", afterConflict?.hash === base?.hash, JSON.stringify(afterConflict));
+  remoteHashes.clear();
+
+  registered.length = 0;
+  fs.renameSync(path.join(vaultPath, "People/Grace Hopper.md"), path.join(vaultPath, "People/Rear Admiral Hopper.md"));
+  await settle(watcher);
+  entities = await vault.buildEntityIndex();
+  check("rename moves the entity",
+    entities.some((e) => e.name === "Rear Admiral Hopper") && !entities.some((e) => e.name === "Grace Hopper"));
+  backlinks = await vault.findBacklinks("Ada Lovelace", { fuzzy: false });
+  check("rename moves the backlink source",
+    backlinks.map((b) => b.name).sort().join() === "2026-10-01,Rear Admiral Hopper");
+  check("renamed entity note is registered", registered.includes(path.join("People", "Rear Admiral Hopper.md")));
+
+  fs.rmSync(path.join(vaultPath, "Daily"), { recursive: true });
+  await settle(watcher);
+  backlinks = await vault.findBacklinks("Ada Lovelace", { fuzzy: false });
+  check("deleting a folder drops its notes", backlinks.map((b) => b.name).join() === "Rear Admiral Hopper");
+
+  fs.rmSync(path.join(vaultPath, "People/Rear Admiral Hopper.md"));
+  await settle(watcher);
+  entities = await vault.buildEntityIndex();
+  check("deleted entity note leaves the index", entities.length === 2, String(entities.length));
+
+  const status = watcher.status();
+  check("status reports index sizes", status.ready && status.notes === 2 && status.entities === 2);
+
+  watcher.stop();
+  vault.setVaultIndexProvider(null);
+  fs.rmSync(vaultPath, { recursive: true, force: true });
+  fs.rmSync(syncDir, { recursive: true, force: true });
+
+  console.log("");
+  console.log(`Total assertions: ${pass} pass, ${fail} fail`);
+  process.exit(fail > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
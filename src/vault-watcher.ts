@@ -0,0 +1,543 @@
+/**
+ * Vault File Watcher
+ *
+ * Long-running watcher that keeps in-memory entity, alias and backlink
+ * indexes in sync with the Obsidian vault, so buildEntityIndex and
+ * findBacklinks answer without rescanning it. Changed entity notes are
+ * queued and registered with the KOI backend in the background, unless the
+ * backend entity changed since the recorded sync base: those are held back
+ * for vault_resolve_sync_conflict instead of overwriting the remote edit.
+ *
+ * Config:
+ *   VAULT_WATCH_ENABLED=false      don't start the watcher
+ *   VAULT_WATCH_SYNC=false         index only, never register with the backend
+ *   VAULT_WATCH_DEBOUNCE_MS=300    quiet period before a burst of events is applied
+ */
+
+import { watch, type FSWatcher } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  entityAliases,
+  getVaultName,
+  getVaultPath,
+  parseFrontmatter,
+  setVaultIndexProvider,
+  shouldExclude,
+  type VaultBacklink,
+  type VaultEntityInfo,
+  type VaultIndexProvider,
+} from './vault.js';
+import { getEntityTypes, prefetchEntityTypes } from './entity-schema.js';
+import { markVaultIndexStale } from './vault-index.js';
+import { computeContentHash } from './vault-rid.js';
+import { scanFile, type ScannedEntity } from './vault-scanner.js';
+import { findVaultEntity, loadSyncBases, recordSyncBase } from './vault-sync.js';
+import { getBackendClient } from './backend-client.js';
+import { logger } from './logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface IndexedNote {
+  /** Set when the note sits directly in an entity folder */
+  entity: VaultEntityInfo | null;
+
+  /** Normalized link name -> first wikilink text for it in this note */
+  links: Map<string, string>;
+
+  /** Content hash (computeContentHash) as last indexed */
+  contentHash: string;
+}
+
+export interface VaultWatcherOptions {
+  /** Vault root (default: getVaultPath()) */
+  vaultPath?: string;
+
+  /** Vault name used in RIDs (default: getVaultName(), or the last segment of an explicit vaultPath) */
+  vaultName?: string;
+
+  /** Quiet period before queued events are applied (default: 300ms) */
+  debounceMs?: number;
+
+  /** Register changed entity notes with the backend (default: true) */
+  syncToBackend?: boolean;
+
+  /** Registration hook; defaults to BackendClient.registerEntity */
+  register?: (entity: ScannedEntity) => Promise<void>;
+
+  /** Backend content hash for a vault RID; defaults to the /vault-entities mapping */
+  remoteHash?: (rid: string) => Promise<string | undefined>;
+}
+
+export interface VaultWatcherStatus {
+  ready: boolean;
+  notes: number;
+  entities: number;
+  linkTargets: number;
+  queuedForSync: number;
+  registered: number;
+  /** Notes not pushed because the backend changed since the sync base */
+  heldBack: Array<{ path: string; status: 'remote_changed' | 'conflict' }>;
+  lastSyncError: string | null;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const WIKILINK_PATTERN = /\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g;
+
+/**
+ * Same normalization findBacklinks applies to link targets.
+ */
+function normalizeLinkName(linkTarget: string): string {
+  const linkName = linkTarget.split('/').pop() || linkTarget;
+  return linkName.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function extractLinks(content: string): Map<string, string> {
+  const links = new Map<string, string>();
+  for (const match of content.matchAll(WIKILINK_PATTERN)) {
+    const normalized = normalizeLinkName(match[1]);
+    if (!links.has(normalized)) {
+      links.set(normalized, match[0]);
+    }
+  }
+  return links;
+}
+
+function envFlag(name: string): boolean {
+  return (process.env[name] ?? 'true').toLowerCase() !== 'false';
+}
+
+// =============================================================================
+// Watcher
+// =============================================================================
+
+export class VaultWatcher implements VaultIndexProvider {
+  readonly vaultPath: string;
+  private readonly vaultName: string;
+  private readonly debounceMs: number;
+  private readonly syncToBackend: boolean;
+  private readonly register: (entity: ScannedEntity) => Promise<void>;
+  private readonly remoteHash: (rid: string) => Promise<string | undefined>;
+  private readonly customRegister: boolean;
+
+  /** Relative note path (with .md) -> indexed note */
+  private notes = new Map<string, IndexedNote>();
+
+  /** Normalized link name -> relative source path -> backlink */
+  private backlinks = new Map<string, Map<string, VaultBacklink>>();
+
+  /** Lower-cased entity folder -> entity type key */
+  private entityFolders = new Map<string, string>();
+
+  private watcher: FSWatcher | null = null;
+  private ready = false;
+  private pendingPaths = new Set<string>();
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private applying: Promise<void> = Promise.resolve();
+
+  private syncQueue = new Set<string>();
+  private registeredHashes = new Map<string, string>();
+  private registeredCount = 0;
+  private heldBack = new Map<string, 'remote_changed' | 'conflict'>();
+  private lastSyncError: string | null = null;
+
+  constructor(options: VaultWatcherOptions = {}) {
+    this.vaultPath = path.resolve(options.vaultPath || getVaultPath());
+    this.vaultName = options.vaultName ||
+      (options.vaultPath ? path.basename(this.vaultPath) || 'Notes' : getVaultName());
+    this.debounceMs = options.debounceMs ?? 300;
+    this.syncToBackend = options.syncToBackend ?? true;
+    this.customRegister = !!options.register;
+    this.register = options.register || (async (entity) => {
+      await getBackendClient().registerEntity({
+        vault_rid: entity.rid,
+        vault_path: entity.relativePath,
+        entity_type: entity.entityType,
+        name: entity.name,
+        properties: entity.frontmatter,
+        content_hash: entity.contentHash,
+      });
+    });
+    this.remoteHash = options.remoteHash ||
+      (async (rid) => (await findVaultEntity(getBackendClient(), rid))?.content_hash);
+  }
+
+  /**
+   * Start watching, then build the indexes with one full scan.
+   */
+  async start(): Promise<void> {
+    await prefetchEntityTypes();
+    const schemaTypes = await getEntityTypes();
+    this.entityFolders = new Map(schemaTypes.map(t => [t.folder.toLowerCase(), t.type_key]));
+
+    // Watch before scanning so edits made mid-scan are re-applied afterwards
+    this.watcher = watch(this.vaultPath, { recursive: true }, (_event, filename) => {
+      if (filename) this.enqueue(filename.toString());
+    });
+    this.watcher.on('error', (error) => {
+      // Lookups fall back to rescanning the vault until restarted
+      this.ready = false;
+      logger.warn({ action: 'vault_watch_error', error: error.message }, 'Vault watcher stopped');
+    });
+
+    const t0 = Date.now();
+    await this.indexTree('', false);
+
+    this.ready = true;
+    logger.info({
+      action: 'vault_watch_started',
+      vault: this.vaultPath,
+      notes: this.notes.size,
+      duration_ms: Date.now() - t0,
+    }, 'Vault watcher started');
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = null;
+    this.ready = false;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  entities(): VaultEntityInfo[] {
+    const entities: VaultEntityInfo[] = [];
+    for (const note of this.notes.values()) {
+      if (note.entity) entities.push(note.entity);
+    }
+    return entities;
+  }
+
+  *linkTargets(): Iterable<[string, VaultBacklink[]]> {
+    for (const [normalized, sources] of this.backlinks) {
+      yield [normalized, [...sources.values()]];
+    }
+  }
+
+  status(): VaultWatcherStatus {
+    return {
+      ready: this.ready,
+      notes: this.notes.size,
+      entities: this.entities().length,
+      linkTargets: this.backlinks.size,
+      queuedForSync: this.syncQueue.size,
+      registered: this.registeredCount,
+      heldBack: [...this.heldBack].map(([path, status]) => ({ path, status })),
+      lastSyncError: this.lastSyncError,
+    };
+  }
+
+  /**
+   * Apply queued file events now and wait for the resulting backend sync.
+   */
+  async flush(): Promise<void> {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+      this.applyPending();
+    }
+    await this.applying;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Event handling
+  // ---------------------------------------------------------------------------
+
+  private enqueue(relativePath: string): void {
+    if (shouldExclude(relativePath)) return;
+    markVaultIndexStale();
+    this.pendingPaths.add(relativePath);
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.applyPending();
+    }, this.debounceMs);
+  }
+
+  private applyPending(): void {
+    const batch = [...this.pendingPaths];
+    this.pendingPaths.clear();
+    // Chain so batches apply in order even when one is still syncing
+    this.applying = this.applying
+      .then(async () => {
+        for (const relativePath of batch) {
+          await this.refreshPath(relativePath);
+        }
+        if (this.syncToBackend) await this.syncQueued();
+      })
+      .catch((error) => {
+        logger.warn({
+          action: 'vault_watch_apply_failed',
+          error: error instanceof Error ? error.message : String(error),
+        }, 'Failed to apply vault changes');
+      });
+  }
+
+  /**
+   * Re-index whatever now lives at a path. Covers create, edit and delete;
+   * a rename arrives as events for both the old and the new path. For a
+   * directory, notes under it that no longer exist are dropped and the
+   * rest re-indexed.
+   */
+  private async refreshPath(relativePath: string): Promise<void> {
+    const stat = await fs.stat(path.join(this.vaultPath, relativePath)).catch(() => null);
+
+    if (stat?.isDirectory()) {
+      const prefix = relativePath + path.sep;
+      for (const notePath of [...this.notes.keys()]) {
+        if (notePath.startsWith(prefix)) {
+          const exists = await fs.stat(path.join(this.vaultPath, notePath)).catch(() => null);
+          if (!exists) this.removeNote(notePath);
+        }
+      }
+      await this.indexTree(relativePath, true);
+      return;
+    }
+
+    if (relativePath.endsWith('.md')) {
+      if (stat?.isFile()) {
+        await this.indexNote(relativePath, true);
+      } else {
+        this.removeNote(relativePath);
+      }
+      return;
+    }
+
+    if (!stat) {
+      // A directory was deleted or moved away
+      const prefix = relativePath + path.sep;
+      for (const notePath of [...this.notes.keys()]) {
+        if (notePath.startsWith(prefix)) this.removeNote(notePath);
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Indexing
+  // ---------------------------------------------------------------------------
+
+  private async indexTree(relativeDir: string, queueChanges: boolean): Promise<void> {
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(this.vaultPath, relativeDir), { withFileTypes: true });
+    } catch (e) {
+      // Skip directories we can't read
+      return;
+    }
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? path.join(relativeDir, entry.name) : entry.name;
+      if (shouldExclude(relativePath)) continue;
+
+      if (entry.isDirectory()) {
+        await this.indexTree(relativePath, queueChanges);
+      } else if (entry.isFile() && entry.name.endsWith('.md')) {
+        await this.indexNote(relativePath, queueChanges);
+      }
+    }
+  }
+
+  private async indexNote(relativePath: string, queueChanges: boolean): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(this.vaultPath, relativePath), 'utf-8');
+    } catch (e) {
+      this.removeNote(relativePath);
+      return;
+    }
+
+    const contentHash = computeContentHash(content);
+    const previous = this.notes.get(relativePath);
+    if (previous && previous.contentHash === contentHash) return;
+    if (previous) this.removeNote(relativePath);
+
+    const parsed = parseFrontmatter(content);
+    const note: IndexedNote = {
+      entity: this.entityFor(relativePath, parsed),
+      links: extractLinks(content),
+      contentHash,
+    };
+    this.notes.set(relativePath, note);
+
+    const source: Omit<VaultBacklink, 'linkText'> = {
+      path: relativePath.replace(/\.md$/, ''),
+      name: path.basename(relativePath, '.md'),
+    };
+    for (const [normalized, linkText] of note.links) {
+      let sources = this.backlinks.get(normalized);
+      if (!sources) {
+        sources = new Map();
+        this.backlinks.set(normalized, sources);
+      }
+      sources.set(relativePath, { ...source, linkText });
+    }
+
+    if (note.entity) {
+      if (!queueChanges) {
+        // Initial scan: vault_sync_entities owns bulk registration
+        this.registeredHashes.set(relativePath, contentHash);
+      } else if (this.registeredHashes.get(relativePath) !== contentHash) {
+        this.syncQueue.add(relativePath);
+      }
+    }
+  }
+
+  private removeNote(relativePath: string): void {
+    const note = this.notes.get(relativePath);
+    if (!note) return;
+
+    for (const normalized of note.links.keys()) {
+      const sources = this.backlinks.get(normalized);
+      sources?.delete(relativePath);
+      if (sources && sources.size === 0) this.backlinks.delete(normalized);
+    }
+    this.notes.delete(relativePath);
+    this.syncQueue.delete(relativePath);
+    this.registeredHashes.delete(relativePath);
+    this.heldBack.delete(relativePath);
+  }
+
+  /**
+   * Entity info for notes directly inside a schema entity folder, matching
+   * what buildEntityIndex reports.
+   */
+  private entityFor(
+    relativePath: string,
+    parsed: ReturnType<typeof parseFrontmatter>
+  ): VaultEntityInfo | null {
+    const parts = relativePath.split(path.sep);
+    if (parts.length !== 2) return null;
+
+    const folderType = this.entityFolders.get(parts[0].toLowerCase());
+    if (!folderType) return null;
+
+    return {
+      name: path.basename(relativePath, '.md'),
+      type: parsed.entityType || folderType,
+      path: relativePath.replace(/\.md$/, ''),
+      aliases: entityAliases(parsed.frontmatter),
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Backend sync
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Register queued entity notes. Anything that fails stays queued for the
+   * next batch of file events.
+   *
+   * Like vault_sync_entities, a note with a sync base is only pushed when the
+   * backend still holds the base (or already holds this content); otherwise
+   * it is held back as remote_changed or conflict and its base is left alone,
+   * so vault_sync_status and vault_resolve_sync_conflict still see it.
+   */
+  private async syncQueued(): Promise<void> {
+    if (this.syncQueue.size === 0) return;
+
+    if (!(await this.backendReady())) return;
+
+    const bases = await loadSyncBases(this.vaultPath);
+
+    for (const relativePath of [...this.syncQueue]) {
+      try {
+        const entity = scanFile(this.vaultPath, this.vaultName, relativePath);
+        if (!entity) {
+          this.syncQueue.delete(relativePath);
+          continue;
+        }
+        const base = bases.get(entity.rid);
+        if (base) {
+          const remoteHash = await this.remoteHash(entity.rid);
+          if (remoteHash && remoteHash !== entity.contentHash && remoteHash !== base.hash) {
+            const status = entity.contentHash !== base.hash ? 'conflict' : 'remote_changed';
+            this.heldBack.set(relativePath, status);
+            this.registeredHashes.set(relativePath, entity.contentHash);
+            this.syncQueue.delete(relativePath);
+            logger.warn({ action: 'vault_watch_sync_held_back', path: relativePath, status },
+              'Backend entity changed since last sync; not pushing the local note');
+            continue;
+          }
+        }
+        await this.register(entity);
+        // Base for three-way conflict checks, as vault_register_entity records
+        await recordSyncBase(this.vaultPath, entity.rid, {
+          path: entity.relativePath,
+          hash: entity.contentHash,
+          properties: entity.frontmatter,
+        });
+        this.registeredHashes.set(relativePath, entity.contentHash);
+        this.syncQueue.delete(relativePath);
+        this.heldBack.delete(relativePath);
+        this.registeredCount++;
+        this.lastSyncError = null;
+      } catch (error) {
+        this.lastSyncError = `${relativePath}: ${error instanceof Error ? error.message : String(error)}`;
+        logger.warn({ action: 'vault_watch_sync_failed', path: relativePath, error: this.lastSyncError },
+          'Failed to register changed entity note');
+      }
+    }
+  }
+
+  private async backendReady(): Promise<boolean> {
+    // A custom register hook decides for itself
+    if (this.customRegister) return true;
+    return getBackendClient().isAvailable();
+  }
+}
+
+// =============================================================================
+// Singleton
+// =============================================================================
+
+let _vaultWatcher: VaultWatcher | null = null;
+
+/**
+ * Start the process-wide watcher (unless VAULT_WATCH_ENABLED=false) and route
+ * vault entity/backlink lookups through it. Failures are logged; lookups
+ * keep rescanning the vault.
+ */
+export async function startVaultWatcher(): Promise<VaultWatcher | null> {
+  if (_vaultWatcher) return _vaultWatcher;
+  if (!envFlag('VAULT_WATCH_ENABLED')) return null;
+
+  const debounceMs = Number(process.env.VAULT_WATCH_DEBOUNCE_MS);
+  const watcher = new VaultWatcher({
+    debounceMs: Number.isFinite(debounceMs) && debounceMs >= 0 ? debounceMs : undefined,
+    syncToBackend: envFlag('VAULT_WATCH_SYNC'),
+  });
+
+  try {
+    await watcher.start();
+  } catch (error) {
+    watcher.stop();
+    logger.warn({
+      action: 'vault_watch_unavailable',
+      error: error instanceof Error ? error.message : String(error),
+    }, 'Vault watcher not started; vault lookups will rescan');
+    return null;
+  }
+
+  _vaultWatcher = watcher;
+  setVaultIndexProvider(watcher);
+  return watcher;
+}
+
+export function getVaultWatcher(): VaultWatcher | null {
+  return _vaultWatcher;
+}
+
+export function stopVaultWatcher(): void {
+  _vaultWatcher?.stop();
+  _vaultWatcher = null;
+  setVaultIndexProvider(null);
+}
@@ -2,8 +2,14 @@
  * Obsidian Vault Operations
  *
  * Local file operations for reading/writing to Obsidian vault
+ *
+ * Several vaults can be configured by name (VAULTS=personal=/path,work=/path).
+ * VAULT_PATH stays the default vault; a tool call's `vault` argument scopes
+ * getVaultPath()/getVaultName() to another one for the duration of the call
+ * (withVault), so every helper below follows it without extra parameters.
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as yaml from 'yaml';
@@ -13,6 +19,9 @@ import {
   findFrontmatterBlock,
   type FrontmatterMode
 } from './frontmatter.js';
+import { getVaultIndex } from './vault-index.js';
+import { searchVault } from './vault-search.js';
+import { commitVaultWrite, VaultWriteConflictError } from './vault-journal.js';
 
 export type { FrontmatterMode } from './frontmatter.js';
 
@@ -46,18 +55,134 @@ export interface VaultEntityInfo {
   aliases: string[];
 }
 
+/** One note linking to a target, as reported by findBacklinks. */
+export interface VaultBacklink {
+  path: string;
+  name: string;
+  linkText: string;
+}
+
+/**
+ * Live vault index (maintained by src/vault-watcher.ts). While one is set and
+ * ready, buildEntityIndex and findBacklinks answer from it instead of
+ * rescanning the vault.
+ */
+export interface VaultIndexProvider {
+  /** Vault root the provider indexes; it only answers lookups for that vault */
+  readonly vaultPath: string;
+  isReady(): boolean;
+  entities(): VaultEntityInfo[];
+  /** Normalized link name -> notes linking to it (first link text per note). */
+  linkTargets(): Iterable<[string, VaultBacklink[]]>;
+}
+
+let vaultIndexProvider: VaultIndexProvider | null = null;
+
+/**
+ * Install (or clear, with null) the live index used by entity and backlink
+ * lookups.
+ */
+export function setVaultIndexProvider(provider: VaultIndexProvider | null): void {
+  vaultIndexProvider = provider;
+}
+
+/**
+ * The installed live index, if it is ready and indexes the current vault.
+ */
+function liveIndex(): VaultIndexProvider | null {
+  if (!vaultIndexProvider?.isReady()) return null;
+  return path.resolve(vaultIndexProvider.vaultPath) === path.resolve(getVaultPath()) ? vaultIndexProvider : null;
+}
+
+// =============================================================================
+// Named vaults
+// =============================================================================
+
+export interface VaultConfig {
+  /** Vault name, used in RIDs and the tools' `vault` argument */
+  name: string;
+  path: string;
+}
+
+export class UnknownVaultError extends Error {
+  constructor(name: string, known: string[]) {
+    super(`Unknown vault "${name}" (configured: ${known.join(', ')})`);
+    this.name = 'UnknownVaultError';
+  }
+}
+
+const vaultScope = new AsyncLocalStorage<VaultConfig>();
+
+/**
+ * Configured vaults, default first. VAULTS lists `name=path` pairs separated
+ * by commas; VAULT_PATH (or OBSIDIAN_VAULT_PATH) is the default vault and is
+ * named after the VAULTS entry with the same path, else its folder name.
+ * Without either, the default is ~/Documents/Notes.
+ */
+export function listVaults(): VaultConfig[] {
+  const named: VaultConfig[] = [];
+  for (const entry of (process.env.VAULTS || '').split(',')) {
+    const eq = entry.indexOf('=');
+    if (eq <= 0) continue;
+    const name = entry.slice(0, eq).trim();
+    const vaultPath = entry.slice(eq + 1).trim();
+    if (name && vaultPath && !named.some(v => v.name.toLowerCase() === name.toLowerCase())) {
+      named.push({ name, path: vaultPath });
+    }
+  }
+
+  const defaultPath = process.env.VAULT_PATH || process.env.OBSIDIAN_VAULT_PATH ||
+    (named.length > 0 ? '' : DEFAULT_VAULT_PATH);
+  if (!defaultPath) return named;
+
+  const listed = named.find(v => path.resolve(v.path) === path.resolve(defaultPath));
+  const defaultVault = listed || { name: path.basename(path.resolve(defaultPath)) || 'Notes', path: defaultPath };
+  return [defaultVault, ...named.filter(v => v !== listed)];
+}
+
+/**
+ * The vault a name refers to (case-insensitive). Without a name: the vault
+ * scoped by withVault, else the default vault.
+ */
+export function resolveVault(name?: string): VaultConfig {
+  if (!name) {
+    const scoped = vaultScope.getStore();
+    if (scoped) return scoped;
+  }
+  const vaults = listVaults();
+  if (!name) return vaults[0];
+  const found = vaults.find(v => v.name.toLowerCase() === name.toLowerCase());
+  if (!found) throw new UnknownVaultError(name, vaults.map(v => v.name));
+  return found;
+}
+
 /**
- * Get the vault path, validating it exists
+ * Run `fn` with `name` as the current vault (no name keeps the default).
+ * Throws UnknownVaultError before running when the name is not configured.
+ */
+export function withVault<T>(name: string | undefined, fn: () => T): T {
+  if (!name) return fn();
+  return vaultScope.run(resolveVault(name), fn);
+}
+
+/**
+ * Get the current vault's path
  */
 export function getVaultPath(): string {
-  const vaultPath = process.env.VAULT_PATH || process.env.OBSIDIAN_VAULT_PATH || DEFAULT_VAULT_PATH;
-  return vaultPath;
+  return resolveVault().path;
+}
+
+/**
+ * Get the current vault's name, as encoded in note and entity RIDs
+ */
+export function getVaultName(): string {
+  return resolveVault().name;
 }
 
 /**
  * Resolve a relative path within the vault, rejecting traversals outside the vault root.
  */
-function safeResolve(vaultPath: string, relativePath: string): string {
+export function safeResolve(vaultPath: string, relativePath: string): string {
   const resolved = path.resolve(vaultPath, relativePath);
   const normalizedVault = path.resolve(vaultPath);
   if (!resolved.startsWith(normalizedVault + path.sep) && resolved !== normalizedVault) {
@@ -69,7 +194,7 @@ function safeResolve(vaultPath: string, relativePath: string): string {
 /**
  * Check if a path should be excluded
  */
-function shouldExclude(filePath: string): boolean {
+export function shouldExclude(filePath: string): boolean {
   const parts = filePath.split(path.sep);
   return parts.some(part => EXCLUDED_FOLDERS.has(part));
 }
@@ -189,6 +314,16 @@ export interface WriteNoteOptions {
    * Set this to drop it on purpose; the result reports mode 'cleared'.
    */
   clearFrontmatter?: boolean;
+
+  /**
+   * Content hash (computeContentHash) the caller last read. The write fails
+   * with `conflict: true` if the note changed since; '' means it must not
+   * exist yet.
+   */
+  expectedHash?: string;
+
+  /** Tool recorded in the write journal (default 'vault_write_note') */
+  source?: string;
 }
 
 /**
@@ -203,13 +338,23 @@ export interface WriteNoteOptions {
  *                                ('preserved') unless `clearFrontmatter` is set.
  *
  * The outcome is always reported in `frontmatterMode`.
+ *
+ * Writes are atomic and journaled for vault_undo_write (src/vault-journal.ts).
  */
 export async function writeNote(
   notePath: string,
   content: string,
   frontmatter?: Record<string, any>,
   options?: WriteNoteOptions
-): Promise<{ success: boolean; path: string; error?: string; frontmatterMode: FrontmatterMode }> {
+): Promise<{
+  success: boolean;
+  path: string;
+  error?: string;
+  conflict?: boolean;
+  frontmatterMode: FrontmatterMode;
+  contentHash?: string;
+  journalId?: string;
+}> {
   const vaultPath = getVaultPath();
 
   // Normalize path
@@ -269,10 +414,19 @@ export async function writeNote(
   // supplied none, so the content is authoritative -> 'unchanged'.
 
   try {
-    await fs.writeFile(fullPath, finalContent, 'utf-8');
-    return { success: true, path: fullPath, frontmatterMode };
+    const { entry, contentHash } = await commitVaultWrite(vaultPath, fullPath, finalContent, {
+      expectedHash: options?.expectedHash,
+      source: options?.source
+    });
+    return { success: true, path: fullPath, frontmatterMode, contentHash, journalId: entry.id };
   } catch (e: any) {
-    return { success: false, path: fullPath, error: e.message, frontmatterMode };
+    return {
+      success: false,
+      path: fullPath,
+      error: e.message,
+      conflict: e instanceof VaultWriteConflictError,
+      frontmatterMode
+    };
   }
 }
 
@@ -291,112 +445,58 @@ export async function listNotes(options: {
 
   const results: NoteInfo[] = [];
   const limit = options.limit || 100;
+  const folderPrefix = path.relative(vaultPath, searchPath);
 
-  async function scanDir(dir: string): Promise<void> {
-    if (results.length >= limit) return;
+  const index = await getVaultIndex(vaultPath);
+  for (const entry of index.all()) {
+    if (results.length >= limit) break;
+    if (folderPrefix && !entry.path.startsWith(folderPrefix + path.sep)) continue;
 
-    try {
-      const entries = await fs.readdir(dir, { withFileTypes: true });
-
-      for (const entry of entries) {
-        if (results.length >= limit) break;
-
-        const fullPath = path.join(dir, entry.name);
-        const relativePath = path.relative(vaultPath, fullPath);
-
-        if (shouldExclude(relativePath)) continue;
-
-        if (entry.isDirectory()) {
-          await scanDir(fullPath);
-        } else if (entry.name.endsWith('.md')) {
-          try {
-            const content = await fs.readFile(fullPath, 'utf-8');
-            const parsed = parseFrontmatter(content);
-
-            // Filter by entity type if specified
-            if (options.entityType && parsed.entityType !== options.entityType) {
-              continue;
-            }
-
-            const stats = await fs.stat(fullPath);
-
-            results.push({
-              path: relativePath,
-              name: entry.name.replace('.md', ''),
-              entityType: parsed.entityType,
-              frontmatter: parsed.frontmatter,
-              modifiedAt: stats.mtime.toISOString()
-            });
-          } catch (e) {
-            // Skip files we can't read
-          }
-        }
-      }
-    } catch (e) {
-      // Skip directories we can't read
+    // Filter by entity type if specified
+    if (options.entityType && entry.entityType !== options.entityType) {
+      continue;
     }
+
+    results.push({
+      path: entry.path,
+      name: entry.basename,
+      entityType: entry.entityType,
+      frontmatter: entry.frontmatter,
+      modifiedAt: new Date(entry.mtimeMs).toISOString()
+    });
   }
 
-  await scanDir(searchPath);
   return results;
 }
 
 /**
- * Search notes in the vault
+ * Search notes by BM25 relevance over names, aliases, frontmatter and
+ * (unless searchContent is false) section text
  */
 export async function searchNotes(options: {
   query: string;
   entityType?: string;
   searchContent?: boolean;
   limit?: number;
-}): Promise<NoteInfo[]> {
-  const allNotes = await listNotes({
+  folder?: string;
+}): Promise<Array<NoteInfo & { score: number; snippet: string | null }>> {
+  const hits = await searchVault(options.query, {
     entityType: options.entityType,
-    limit: 500 // Get more to search through
+    searchContent: options.searchContent ?? true,
+    folder: options.folder,
+    limit: options.limit || 20,
   });
-
-  const query = options.query.toLowerCase();
-  const searchContent = options.searchContent ?? true;
-  const limit = options.limit || 20;
-
-  const results: NoteInfo[] = [];
-  const vaultPath = getVaultPath();
-
-  for (const note of allNotes) {
-    if (results.length >= limit) break;
-
-    // Search in name
-    if (note.name.toLowerCase().includes(query)) {
-      results.push(note);
-      continue;
-    }
-
-    // Search in frontmatter
-    if (note.frontmatter) {
-      const fmString = JSON.stringify(note.frontmatter).toLowerCase();
-      if (fmString.includes(query)) {
-        results.push(note);
-        continue;
-      }
-    }
-
-    // Search in content
-    if (searchContent) {
-      try {
-        const content = await fs.readFile(
-          path.join(vaultPath, note.path),
-          'utf-8'
-        );
-        if (content.toLowerCase().includes(query)) {
-          results.push(note);
-        }
-      } catch (e) {
-        // Skip
-      }
-    }
-  }
-
-  return results;
+  const index = await getVaultIndex(getVaultPath());
+
+  return hits.map(hit => ({
+    path: hit.path,
+    name: hit.name,
+    entityType: hit.entityType,
+    frontmatter: index.get(hit.path)?.frontmatter ?? null,
+    modifiedAt: hit.modifiedAt,
+    score: hit.score,
+    snippet: options.searchContent === false ? null : hit.sections[0]?.snippet || null,
+  }));
 }
 
 /**
@@ -437,11 +537,40 @@ export async function getNoteByEntity(
   return { found: false };
 }
 
+/**
+ * Names an entity note is also known by: frontmatter aliases/alias plus any
+ * abbreviation or acronym.
+ */
+export function entityAliases(frontmatter: Record<string, any> | null): string[] {
+  const aliases: string[] = [];
+  if (frontmatter) {
+    if (Array.isArray(frontmatter.aliases)) {
+      aliases.push(...frontmatter.aliases);
+    }
+    if (frontmatter.alias) {
+      aliases.push(frontmatter.alias);
+    }
+    // Also check for abbreviation/acronym
+    if (frontmatter.abbreviation) {
+      aliases.push(frontmatter.abbreviation);
+    }
+    if (frontmatter.acronym) {
+      aliases.push(frontmatter.acronym);
+    }
+  }
+  return aliases;
+}
+
 /**
  * Build an index of all entities in the vault
  * Scans entity folders dynamically from schema configuration
  */
 export async function buildEntityIndex(): Promise<VaultEntityInfo[]> {
+  const live = liveIndex();
+  if (live) {
+    return live.entities();
+  }
+
   const entities: VaultEntityInfo[] = [];
   const vaultPath = getVaultPath();
 
@@ -455,59 +584,23 @@ export async function buildEntityIndex(): Promise<VaultEntityInfo[]> {
     type: t.type_key
   }));
 
-  for (const { folder, type } of entityFolders) {
-    const folderPath = path.join(vaultPath, folder);
-
-    try {
-      const entries = await fs.readdir(folderPath, { withFileTypes: true });
-
-      for (const entry of entries) {
-        if (!entry.isFile() || !entry.name.endsWith('.md')) {
-          continue;
-        }
-
-        const filePath = path.join(folderPath, entry.name);
-        const relativePath = path.relative(vaultPath, filePath).replace(/\.md$/, '');
-        const name = entry.name.replace(/\.md$/, '');
-
-        try {
-          const content = await fs.readFile(filePath, 'utf-8');
-          const parsed = parseFrontmatter(content);
-
-          // Get aliases from frontmatter
-          const aliases: string[] = [];
-          if (parsed.frontmatter) {
-            if (Array.isArray(parsed.frontmatter.aliases)) {
-              aliases.push(...parsed.frontmatter.aliases);
-            }
-            if (parsed.frontmatter.alias) {
-              aliases.push(parsed.frontmatter.alias);
-            }
-            // Also check for abbreviation/acronym
-            if (parsed.frontmatter.abbreviation) {
-              aliases.push(parsed.frontmatter.abbreviation);
-            }
-            if (parsed.frontmatter.acronym) {
-              aliases.push(parsed.frontmatter.acronym);
-            }
-          }
-
-          // Determine actual type (prefer frontmatter @type over folder inference)
-          const entityType = parsed.entityType || type;
-
-          entities.push({
-            name,
-            type: entityType,
-            path: relativePath,
-            aliases
-          });
-        } catch (e) {
-          // Skip files we can't read
-        }
-      }
-    } catch (e) {
-      // Folder might not exist, skip it
-    }
+  const folderTypes = new Map(entityFolders.map(({ folder, type }) => [folder, type]));
+  const index = await getVaultIndex(vaultPath);
+
+  for (const entry of index.all()) {
+    // Entity notes sit directly inside an entity folder
+    const parts = entry.path.split(path.sep);
+    if (parts.length !== 2) continue;
+    const type = folderTypes.get(parts[0]);
+    if (!type) continue;
+
+    entities.push({
+      name: entry.basename,
+      // Determine actual type (prefer frontmatter @type over folder inference)
+      type: entry.entityType || type,
+      path: entry.path.replace(/\.md$/, ''),
+      aliases: entityAliases(entry.frontmatter)
+    });
   }
 
   return entities;
@@ -519,9 +612,9 @@ export async function buildEntityIndex(): Promise<VaultEntityInfo[]> {
 export async function findBacklinks(
   targetName: string,
   options: { fuzzy?: boolean; threshold?: number; limit?: number } = {}
-): Promise<Array<{ path: string; name: string; linkText: string }>> {
+): Promise<VaultBacklink[]> {
   const vaultPath = getVaultPath();
-  const results: Array<{ path: string; name: string; linkText: string }> = [];
+  const results: VaultBacklink[] = [];
   const limit = options.limit || 50;
   const fuzzy = options.fuzzy ?? true;
   const threshold = options.threshold || 0.85;
@@ -529,71 +622,58 @@ export async function findBacklinks(
   // Normalize target for fuzzy matching
   const normalizedTarget = targetName.toLowerCase().replace(/\s+/g, ' ').trim();
 
-  async function scanDir(dir: string): Promise<void> {
-    if (results.length >= limit) return;
+  function linkMatches(normalizedLink: string): boolean {
+    let isMatch = normalizedLink === normalizedTarget ||
+                 normalizedLink.includes(normalizedTarget) ||
+                 normalizedTarget.includes(normalizedLink);
+
+    // Fuzzy match if enabled and no exact match
+    if (!isMatch && fuzzy) {
+      // Simple fuzzy: check if words overlap significantly
+      const targetWords = new Set(normalizedTarget.split(' '));
+      const linkWords = normalizedLink.split(' ');
+      const matchingWords = linkWords.filter(w => targetWords.has(w)).length;
+      const matchRatio = matchingWords / Math.max(targetWords.size, linkWords.length);
+      isMatch = matchRatio >= threshold;
+    }
+    return isMatch;
+  }
 
-    try {
-      const entries = await fs.readdir(dir, { withFileTypes: true });
-
-      for (const entry of entries) {
-        if (results.length >= limit) break;
-
-        const fullPath = path.join(dir, entry.name);
-        const relativePath = path.relative(vaultPath, fullPath);
-
-        if (shouldExclude(relativePath)) continue;
-
-        if (entry.isDirectory()) {
-          await scanDir(fullPath);
-        } else if (entry.name.endsWith('.md')) {
-          try {
-            const content = await fs.readFile(fullPath, 'utf-8');
-
-            // Extract all wikilinks
-            const wikilinkPattern = /\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g;
-            let match;
-
-            while ((match = wikilinkPattern.exec(content)) !== null) {
-              const linkTarget = match[1];
-              // Extract just the note name (last part of path)
-              const linkName = linkTarget.split('/').pop() || linkTarget;
-              const normalizedLink = linkName.toLowerCase().replace(/\s+/g, ' ').trim();
-
-              // Check for match
-              let isMatch = normalizedLink === normalizedTarget ||
-                           normalizedLink.includes(normalizedTarget) ||
-                           normalizedTarget.includes(normalizedLink);
-
-              // Fuzzy match if enabled and no exact match
-              if (!isMatch && fuzzy) {
-                // Simple fuzzy: check if words overlap significantly
-                const targetWords = new Set(normalizedTarget.split(' '));
-                const linkWords = normalizedLink.split(' ');
-                const matchingWords = linkWords.filter(w => targetWords.has(w)).length;
-                const matchRatio = matchingWords / Math.max(targetWords.size, linkWords.length);
-                isMatch = matchRatio >= threshold;
-              }
-
-              if (isMatch) {
-                results.push({
-                  path: relativePath.replace(/\.md$/, ''),
-                  name: entry.name.replace(/\.md$/, ''),
-                  linkText: match[0]
-                });
-                break; // Only count each file once
-              }
-            }
-          } catch (e) {
-            // Skip files we can't read
-          }
-        }
+  const live = liveIndex();
+  if (live) {
+    const seen = new Set<string>();
+    for (const [normalizedLink, sources] of live.linkTargets()) {
+      if (!linkMatches(normalizedLink)) continue;
+      for (const source of sources) {
+        if (seen.has(source.path)) continue; // Only count each file once
+        seen.add(source.path);
+        results.push(source);
+      }
+    }
+    return results.sort((a, b) => a.path.localeCompare(b.path)).slice(0, limit);
+  }
+
+  const index = await getVaultIndex(vaultPath);
+  for (const entry of index.all()) {
+    if (results.length >= limit) break;
+
+    for (const link of entry.links) {
+      // Extract just the note name (last part of path)
+      const linkTarget = link.target.split('#')[0];
+      const linkName = linkTarget.split('/').pop() || linkTarget;
+      const normalizedLink = linkName.toLowerCase().replace(/\s+/g, ' ').trim();
+
+      if (linkMatches(normalizedLink)) {
+        results.push({
+          path: entry.path.replace(/\.md$/, ''),
+          name: entry.basename,
+          linkText: link.text
+        });
+        break; // Only count each file once
       }
-    } catch (e) {
-      // Skip directories we can't read
     }
   }
 
-  await scanDir(vaultPath);
   return results;
 }
 
@@ -610,7 +690,7 @@ export async function queryByFrontmatter(options: {
 }): Promise<NoteInfo[]> {
   const allNotes = await listNotes({
     entityType: options.entityType,
-    limit: 500
+    limit: Infinity  // Served from the vault index, so no need to cap the scan
   });
 
   const results: NoteInfo[] = [];